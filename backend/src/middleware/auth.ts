@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, type TokenPayload } from '../utils/jwt.js';
 import { prisma } from '../utils/prisma.js';
+import { currentCrewLogin } from '../utils/crews.js';
 
 // Extend Express Request to carry auth info
 declare global {
@@ -13,8 +14,9 @@ declare global {
 
 /**
  * Middleware: requires a valid JWT. Attaches req.auth with
- * { userId, organizationId, role, crewName? } and sets the
- * 'app.current_organization_id' session variable for RLS.
+ * { userId, organizationId, role, crewName?, crewId? } and sets the
+ * 'app.current_organization_id' session variable for RLS. Crew tokens are
+ * checked against their account on every request.
  */
 export async function authRequired(req: Request, res: Response, next: NextFunction): Promise<void> {
   const header = req.headers.authorization;
@@ -26,11 +28,21 @@ export async function authRequired(req: Request, res: Response, next: NextFuncti
   try {
     const token = header.slice(7);
     const payload = verifyAccessToken(token);
-    req.auth = payload;
 
     // Set the organization_id for RLS policies for the duration of the request
     await prisma.$executeRaw`SELECT set_config('app.current_organization_id', ${payload.organizationId}, false)`;
 
+    if (payload.role === 'crew') {
+      const current = await currentCrewLogin(payload);
+      if (!current) {
+        res.status(401).json({ error: 'Crew login is no longer active' });
+        return;
+      }
+      req.auth = current;
+    } else {
+      req.auth = payload;
+    }
+
     next();
   } catch (err) {
     // Catches both JWT errors and database errors
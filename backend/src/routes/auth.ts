@@ -2,8 +2,9 @@ import { Router, Request, Response } from 'express';
 import bcrypt from 'bcrypt';
 import { z } from 'zod';
 import { prisma } from '../utils/prisma.js';
-import { signAccessToken, signRefreshToken, verifyRefreshToken } from '../utils/jwt.js';
+import { signAccessToken, signRefreshToken, verifyRefreshToken, type TokenPayload } from '../utils/jwt.js';
 import { authRequired } from '../middleware/auth.js';
+import { currentCrewLogin, findCrewAccount, requiresCrewAccounts, sharedCrewUserId } from '../utils/crews.js';
 
 const router = Router();
 
@@ -193,29 +194,53 @@ router.post('/crew-login', async (req: Request, res: Response) => {
       return;
     }
 
-    const validPin = await bcrypt.compare(pin, org.crewPinHash);
-    if (!validPin) {
-      res.status(401).json({ error: 'Invalid company name or PIN' });
-      return;
+    let tokenPayload: TokenPayload;
+
+    if (await requiresCrewAccounts(org.id)) {
+      // Everyone logs in with their own account and PIN
+      const account = await findCrewAccount(org.id, crewName);
+      if (!account || !(await bcrypt.compare(pin, account.passwordHash))) {
+        res.status(401).json({ error: 'Invalid name or PIN' });
+        return;
+      }
+      if (!account.active) {
+        res.status(403).json({ error: 'Your login has been turned off. Ask the office.' });
+        return;
+      }
+
+      tokenPayload = {
+        userId: account.id,
+        organizationId: org.id,
+        role: 'crew',
+        crewName: account.username,
+        crewId: account.crewId || undefined,
+      };
+    } else {
+      const validPin = await bcrypt.compare(pin, org.crewPinHash);
+      if (!validPin) {
+        res.status(401).json({ error: 'Invalid company name or PIN' });
+        return;
+      }
+
+      tokenPayload = {
+        userId: sharedCrewUserId(org.id),
+        organizationId: org.id,
+        role: 'crew',
+        crewName,
+      };
     }
 
-    const tokenPayload = {
-      userId: `crew-${org.id}`,
-      organizationId: org.id,
-      role: 'crew' as const,
-      crewName,
-    };
-
     const accessToken = signAccessToken(tokenPayload);
     const refreshToken = signRefreshToken(tokenPayload);
 
     res.json({
       session: {
-        id: `crew-${org.id}`,
-        username: crewName,
+        id: tokenPayload.userId,
+        username: tokenPayload.crewName,
         companyName: org.companyName,
         organizationId: org.id,
         role: 'crew',
+        crewId: tokenPayload.crewId,
       },
       accessToken,
       refreshToken,
@@ -237,11 +262,20 @@ router.post('/refresh', async (req: Request, res: Response) => {
     }
 
     const payload = verifyRefreshToken(token);
+
+    // A crew login lasts as long as its account; its name and crew are re-read
+    const current = payload.role === 'crew' ? await currentCrewLogin(payload) : payload;
+    if (!current) {
+      res.status(401).json({ error: 'Crew login is no longer active. Log in again.' });
+      return;
+    }
+
     const newPayload = {
-      userId: payload.userId,
-      organizationId: payload.organizationId,
-      role: payload.role,
-      crewName: payload.crewName,
+      userId: current.userId,
+      organizationId: current.organizationId,
+      role: current.role,
+      crewName: current.crewName,
+      crewId: current.crewId,
     };
 
     const accessToken = signAccessToken(newPayload);
@@ -271,6 +305,7 @@ router.get('/me', authRequired, async (req: Request, res: Response) => {
           companyName: org?.companyName || '',
           organizationId,
           role: 'crew',
+          crewId: req.auth!.crewId,
         },
       });
       return;
@@ -0,0 +1,340 @@
+import { Router, Request, Response } from 'express';
+import bcrypt from 'bcrypt';
+import { z } from 'zod';
+import { prisma } from '../utils/prisma.js';
+import { authRequired, adminOnly } from '../middleware/auth.js';
+import { broadcastToCrews, broadcastToOrg } from '../websocket/index.js';
+import { findCrewAccount, isOrgCrew } from '../utils/crews.js';
+
+const router = Router();
+router.use(authRequired);
+router.use(adminOnly);
+
+// ─── GET /api/crews — Crews with their members and rig ──────────────────────
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const crews = await prisma.crew.findMany({
+      where: { organizationId },
+      include: activeMembers,
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(crews.map(mapCrew));
+  } catch (err) {
+    console.error('Fetch crews error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/crews — Create a crew ────────────────────────────────────────
+
+const crewSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  rigId: z.string().nullable().optional(),
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = crewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const { name, rigId } = parsed.data;
+
+    const conflict = await checkCrew(organizationId, { name, rigId });
+    if (conflict) {
+      res.status(conflict.status).json({ error: conflict.error });
+      return;
+    }
+
+    const crew = await prisma.crew.create({
+      data: { organizationId, name, rigId: rigId || null },
+      include: activeMembers,
+    });
+
+    broadcastToOrg(organizationId, 'crews:updated', { id: crew.id });
+
+    res.status(201).json(mapCrew(crew));
+  } catch (err) {
+    console.error('Create crew error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── PATCH /api/crews/:id — Rename or change rig ────────────────────────────
+
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const parsed = crewSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const { name, rigId } = parsed.data;
+
+    const existing = await prisma.crew.findFirst({
+      where: { id: req.params.id, organizationId },
+      select: { id: true },
+    });
+    if (!existing) {
+      res.status(404).json({ error: 'Crew not found' });
+      return;
+    }
+
+    const conflict = await checkCrew(organizationId, { name, rigId }, existing.id);
+    if (conflict) {
+      res.status(conflict.status).json({ error: conflict.error });
+      return;
+    }
+
+    const crew = await prisma.crew.update({
+      where: { id: existing.id },
+      data: {
+        ...(name ? { name } : {}),
+        ...(rigId !== undefined ? { rigId: rigId || null } : {}),
+      },
+      include: activeMembers,
+    });
+
+    broadcastToOrg(organizationId, 'crews:updated', { id: crew.id });
+
+    res.json(mapCrew(crew));
+  } catch (err) {
+    console.error('Update crew error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── DELETE /api/crews/:id ──────────────────────────────────────────────────
+// The crew's work orders become unassigned. Its members keep their accounts
+// but see no work orders until they're put on another crew.
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+    const { id } = req.params as { id: string };
+
+    const result = await prisma.crew.deleteMany({
+      where: { id, organizationId },
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Crew not found' });
+      return;
+    }
+
+    broadcastToOrg(organizationId, 'crews:updated', { id, deleted: true });
+    broadcastToCrews(organizationId, [id], 'workorder:broadcast', {});
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Delete crew error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── GET /api/crews/members — Crew accounts, including deactivated ones ─────
+
+router.get('/members', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const accounts = await prisma.user.findMany({
+      where: { organizationId, role: 'crew' },
+      orderBy: { username: 'asc' },
+    });
+
+    res.json(accounts.map(mapCrewMember));
+  } catch (err) {
+    console.error('Fetch crew members error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/crews/members — Create a crew account ────────────────────────
+
+const crewMemberSchema = z.object({
+  // Typed at crew login, so unique within the org
+  name: z.string().trim().min(1).max(60),
+  pin: z.string().min(4).max(64),
+  crewId: z.string().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+router.post('/members', async (req: Request, res: Response) => {
+  try {
+    const parsed = crewMemberSchema.omit({ active: true }).safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const { name, pin, crewId } = parsed.data;
+
+    const conflict = await checkCrewMember(organizationId, { name, crewId });
+    if (conflict) {
+      res.status(conflict.status).json({ error: conflict.error });
+      return;
+    }
+
+    const account = await prisma.user.create({
+      data: {
+        organizationId,
+        role: 'crew',
+        username: name,
+        passwordHash: await bcrypt.hash(pin, 12),
+        crewId: crewId || null,
+      },
+    });
+
+    broadcastToOrg(organizationId, 'crews:updated', { memberId: account.id });
+
+    res.status(201).json(mapCrewMember(account));
+  } catch (err) {
+    console.error('Create crew member error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── PATCH /api/crews/members/:id — Rename, reset PIN, move or deactivate ───
+// Takes effect on the person's next request; nobody else has to log in again.
+
+router.patch('/members/:id', async (req: Request, res: Response) => {
+  try {
+    const parsed = crewMemberSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const { name, pin, crewId, active } = parsed.data;
+
+    const existing = await prisma.user.findFirst({
+      where: { id: req.params.id, organizationId, role: 'crew' },
+      select: { id: true, crewId: true },
+    });
+    if (!existing) {
+      res.status(404).json({ error: 'Crew member not found' });
+      return;
+    }
+
+    const conflict = await checkCrewMember(organizationId, { name, crewId }, existing.id);
+    if (conflict) {
+      res.status(conflict.status).json({ error: conflict.error });
+      return;
+    }
+
+    const account = await prisma.user.update({
+      where: { id: existing.id },
+      data: {
+        ...(name ? { username: name } : {}),
+        ...(pin ? { passwordHash: await bcrypt.hash(pin, 12) } : {}),
+        ...(crewId !== undefined ? { crewId: crewId || null } : {}),
+        ...(active !== undefined ? { active } : {}),
+      },
+    });
+
+    broadcastToOrg(organizationId, 'crews:updated', { memberId: account.id });
+    if (account.crewId !== existing.crewId) {
+      broadcastToCrews(organizationId, [existing.crewId, account.crewId], 'workorder:broadcast', {});
+    }
+
+    res.json(mapCrewMember(account));
+  } catch (err) {
+    console.error('Update crew member error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Member names shown on a crew; deactivated accounts are left off
+const activeMembers = {
+  members: { where: { active: true }, select: { username: true }, orderBy: { username: 'asc' as const } },
+};
+
+/**
+ * Why a crew can't be saved as given, or null. Names are unique and the
+ * rig has to be the org's equipment.
+ */
+async function checkCrew(
+  organizationId: string,
+  crew: { name?: string; rigId?: string | null },
+  excludeId?: string,
+): Promise<{ status: number; error: string } | null> {
+  const others = await prisma.crew.findMany({
+    where: { organizationId, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    select: { name: true },
+  });
+
+  const taken = (value: string) => value.trim().toLowerCase();
+  if (crew.name && others.some((other) => taken(other.name) === taken(crew.name!))) {
+    return { status: 409, error: `A crew named "${crew.name}" already exists` };
+  }
+
+  if (crew.rigId) {
+    const rig = await prisma.equipment.findFirst({
+      where: { id: crew.rigId, organizationId },
+      select: { id: true },
+    });
+    if (!rig) return { status: 404, error: 'Rig not found' };
+  }
+  return null;
+}
+
+/** Why a crew account can't be saved as given, or null: its name is taken, or the crew isn't the org's. */
+async function checkCrewMember(
+  organizationId: string,
+  member: { name?: string; crewId?: string | null },
+  excludeId?: string,
+): Promise<{ status: number; error: string } | null> {
+  if (member.name) {
+    const other = await findCrewAccount(organizationId, member.name);
+    if (other && other.id !== excludeId) {
+      return { status: 409, error: `There's already a crew login for ${other.username}` };
+    }
+  }
+
+  if (member.crewId && !(await isOrgCrew(organizationId, member.crewId))) {
+    return { status: 404, error: 'Crew not found' };
+  }
+  return null;
+}
+
+function mapCrew(item: {
+  id: string;
+  name: string;
+  members: Array<{ username: string }>;
+  rigId: string | null;
+}) {
+  return {
+    id: item.id,
+    name: item.name,
+    members: item.members.map((member) => member.username),
+    rigId: item.rigId || undefined,
+  };
+}
+
+function mapCrewMember(item: {
+  id: string;
+  username: string;
+  crewId: string | null;
+  active: boolean;
+}) {
+  return {
+    id: item.id,
+    name: item.username,
+    crewId: item.crewId || undefined,
+    active: item.active,
+  };
+}
+
+export default router;
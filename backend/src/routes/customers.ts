@@ -175,6 +175,13 @@ router.delete('/:id', async (req: Request, res: Response) => {
       return;
     }
 
+    // Deleting a customer deletes their jobs, and money received stays on record
+    const paymentCount = await prisma.payment.count({ where: { organizationId, estimate: { customerId: customer.id } } });
+    if (paymentCount > 0) {
+      res.status(409).json({ error: 'A customer with recorded payments can\'t be deleted. Archive them instead.' });
+      return;
+    }
+
     await prisma.customer.delete({ where: { id: req.params.id } });
     broadcastToOrg(organizationId, 'customer:updated', { id: req.params.id, deleted: true });
 
@@ -1,8 +1,41 @@
 import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '../utils/prisma.js';
 import { authRequired, adminOnly } from '../middleware/auth.js';
-import { broadcastToOrg } from '../websocket/index.js';
+import { broadcastToCrews, broadcastToOrg } from '../websocket/index.js';
+import { loadOrgCalcSettings, recalculateEstimate } from '../utils/estimateCalc.js';
+import { recordEstimateRevision, toRevisionResponse } from '../utils/revisionHistory.js';
+import { recordStatusChange, toStatusChangeResponse } from '../utils/estimateLifecycle.js';
+import { allocateDocumentNumber, NUMBER_FIELDS, voidDocumentNumbers } from '../utils/documentNumbers.js';
+import { getBalanceDue, toPaymentResponse } from '../utils/payments.js';
+import { getActorName } from '../utils/actor.js';
+import { sessionsInclude, syncSessionTotals, toJobSessionResponse, withSessionTotals } from '../utils/jobSessions.js';
+import { crewScope, isOrgCrew } from '../utils/crews.js';
+import { toPaidFinancialsInput } from '../utils/jobFinancials.js';
+import { calculatePaidFinancials, JobFinancials, projectFinancials } from '../../../utils/jobFinancials.js';
+import { RESTORABLE_STATUSES, RestorableField } from '../../../utils/estimateRevisions.js';
+import {
+  checkExecutionTransition,
+  checkTransition,
+  EstimateStatus,
+  ExecutionStatus,
+  LifecycleState,
+} from '../../../utils/estimateLifecycle.js';
+import {
+  AreaType,
+  CalculationMode,
+  CalculationResults,
+  CalculatorState,
+  CustomerProfile,
+  EstimateRecord,
+  EstimateRevisionSnapshot,
+  FoamType,
+  InsulationAssembly,
+  OpeningType,
+  RoofType,
+  Season,
+} from '../../../types.js';
 
 const router = Router();
 router.use(authRequired);
@@ -15,14 +48,15 @@ router.get('/', async (req: Request, res: Response) => {
 
     const where: Record<string, unknown> = { organizationId };
 
-    // Crew can only see Work Orders
+    // Crew can only see their own crew's Work Orders
     if (role === 'crew') {
       where.status = 'WorkOrder';
+      Object.assign(where, crewScope(req.auth!));
     }
 
     const estimates = await prisma.estimate.findMany({
       where,
-      include: { customer: true },
+      include: { customer: true, payments: true, sessions: sessionsInclude },
       orderBy: { lastModified: 'desc' },
     });
 
@@ -46,17 +80,33 @@ router.get('/', async (req: Request, res: Response) => {
       wallSettings: e.wallSettings,
       roofSettings: e.roofSettings,
       expenses: e.expenses,
+      rValues: e.rValues,
+      options: e.options,
+      acceptedOptionId: e.acceptedOptionId,
       totalValue: e.totalValue,
       notes: e.notes || '',
       pricingMode: e.pricingMode,
+      marginTargets: e.marginTargets,
+      taxJurisdictionId: e.taxJurisdictionId,
+      salesTax: e.salesTax,
+      calculationMismatches: e.calculationMismatches,
       sqFtRates: e.sqFtRates,
       scheduledDate: e.scheduledDate,
+      scheduledDays: e.scheduledDays ?? undefined,
+      crewId: e.crewId || undefined,
       invoiceDate: e.invoiceDate,
+      estimateNumber: e.estimateNumber,
+      workOrderNumber: e.workOrderNumber,
       invoiceNumber: e.invoiceNumber,
       paymentTerms: e.paymentTerms,
       estimateLines: e.estimateLines,
       invoiceLines: e.invoiceLines,
       workOrderLines: e.workOrderLines,
+      changeOrders: e.changeOrders,
+      template: e.template || undefined,
+      // Payment records are for the office
+      payments: role === 'crew' ? undefined : e.payments.map(toPaymentResponse),
+      sessions: e.sessions.map(toJobSessionResponse),
       actuals: e.actuals,
       financials: e.financials,
       workOrderSheetUrl: e.workOrderSheetUrl,
@@ -85,36 +135,240 @@ router.get('/', async (req: Request, res: Response) => {
 
 // ─── POST /api/estimates — Create or update ─────────────────────────────────
 
+// Payload shapes mirror EstimateRecord in the app's types.ts; keys they don't
+// list are dropped. Numbers are coerced because a cleared input reaches the
+// API as null.
+const num = z.coerce.number();
+
+const foamLayerSchema = z.object({
+  type: z.nativeEnum(FoamType),
+  thickness: num,
+  wastePercentage: num.default(0),
+  productId: z.string().optional(),
+});
+
+const foamSettingsSchema = z.object({
+  type: z.nativeEnum(FoamType),
+  thickness: num,
+  wastePercentage: num.default(0),
+  productId: z.string().optional(),
+  layers: z.array(foamLayerSchema).optional(),
+  thicknessMode: z.enum(['inches', 'target_r', 'code']).optional(),
+  targetRValue: num.optional(),
+  climateZone: z.enum(['1', '2', '3', '4', '5', '6', '7', '8']).optional(),
+  assembly: z.nativeEnum(InsulationAssembly).optional(),
+});
+
+const takeoffLineSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  surfaceType: z.nativeEnum(AreaType),
+  length: num,
+  width: num,
+  foam: foamSettingsSchema,
+});
+
+const inputsSchema = z.object({
+  mode: z.nativeEnum(CalculationMode),
+  length: num,
+  width: num,
+  wallHeight: num,
+  roofPitch: z.string().default(''),
+  roofType: z.nativeEnum(RoofType).optional(),
+  roofPitch2: z.string().optional(),
+  includeGables: z.boolean().default(false),
+  isMetalSurface: z.boolean().default(false),
+  additionalAreas: z.array(z.object({
+    type: z.nativeEnum(AreaType),
+    length: num,
+    width: num,
+  })).default([]),
+  takeoffLines: z.array(takeoffLineSchema).optional(),
+  openings: z.array(z.object({
+    id: z.string(),
+    type: z.nativeEnum(OpeningType),
+    width: num,
+    height: num,
+    count: num,
+  })).optional(),
+  jobConditions: z.object({
+    ambientTempF: num.optional(),
+    substrateTempF: num.optional(),
+    humidity: num.optional(),
+    season: z.nativeEnum(Season).optional(),
+  }).optional(),
+});
+
+// Client results are only compared against the server's own; these are the fields checked
+const resultsSchema = z.object({
+  totalWallArea: num,
+  totalRoofArea: num,
+  totalOpenCellBdFt: num,
+  totalClosedCellBdFt: num,
+  openCellSets: num,
+  closedCellSets: num,
+  materialCost: num,
+  laborCost: num,
+  miscExpenses: num,
+  totalCost: num,
+}).partial();
+
+const foamProductSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  manufacturer: z.string().default(''),
+  foamType: z.nativeEnum(FoamType),
+  yield: num,
+  costPerSet: num,
+  strokesPerSet: num,
+  rPerInch: num,
+  active: z.boolean().default(true),
+  derateCurve: z.object({
+    points: z.array(z.object({ tempF: num, yieldPercent: num })).default([]),
+    humidityThreshold: num.optional(),
+    humidityPenaltyPercent: num.optional(),
+  }).optional(),
+});
+
+const materialsSchema = z.object({
+  openCellSets: num.default(0),
+  closedCellSets: num.default(0),
+  openCellStrokes: num.default(0),
+  closedCellStrokes: num.default(0),
+  ocStrokesPerSet: num.optional(),
+  ccStrokesPerSet: num.optional(),
+  products: z.array(foamProductSchema).optional(),
+  inventory: z.array(z.object({
+    id: z.string(),
+    warehouseItemId: z.string().optional(),
+    name: z.string(),
+    quantity: num,
+    unit: z.string(),
+    unitCost: num.optional(),
+  })).default([]),
+  equipment: z.array(z.record(z.unknown())).default([]),
+});
+
+const expensesSchema = z.object({
+  manHours: num.default(0),
+  manHoursMode: z.enum(['auto', 'manual']).optional(),
+  crewSize: num.optional(),
+  laborRate: num.optional(),
+  tripCharge: num.default(0),
+  fuelSurcharge: num.default(0),
+  other: z.object({
+    description: z.string().default(''),
+    amount: num.default(0),
+  }).default({}),
+});
+
+// Each option's results are priced here on save
+const optionSchema = z.object({
+  id: z.string(),
+  name: z.string().default(''),
+  wallSettings: foamSettingsSchema,
+  roofSettings: foamSettingsSchema,
+  takeoffLines: z.array(takeoffLineSchema).default([]),
+});
+
+const lineItemSchema = z.object({
+  id: z.string(),
+  item: z.string().default(''),
+  description: z.string().default(''),
+  qty: z.string().default(''),
+  amount: num,
+  taxCategory: z.enum(['material', 'labor', 'fee']).optional(),
+  taxable: z.boolean().optional(),
+});
+
+const changeOrderSchema = z.object({
+  id: z.string(),
+  number: num,
+  date: z.string(),
+  reason: z.string().default(''),
+  items: z.array(z.object({
+    id: z.string(),
+    action: z.enum(['add', 'remove']),
+    description: z.string().default(''),
+    surfaceType: z.nativeEnum(AreaType),
+    area: num,
+    foamType: z.nativeEnum(FoamType),
+    thickness: num,
+    amount: num,
+  })).default([]),
+  status: z.enum(['Pending', 'Approved', 'Rejected']).default('Pending'),
+  approvedBy: z.string().optional(),
+  approvedDate: z.string().optional(),
+});
+
 const estimateSchema = z.object({
   id: z.string().optional(),
   customerId: z.string(),
   date: z.string(),
   status: z.enum(['Draft', 'Work Order', 'Invoiced', 'Paid', 'Archived']).default('Draft'),
   executionStatus: z.enum(['Not Started', 'In Progress', 'Completed']).default('Not Started'),
-  inputs: z.record(z.unknown()).default({}),
-  results: z.record(z.unknown()).default({}),
-  materials: z.record(z.unknown()).default({}),
-  wallSettings: z.record(z.unknown()).default({}),
-  roofSettings: z.record(z.unknown()).default({}),
-  expenses: z.record(z.unknown()).default({}),
+  inputs: inputsSchema,
+  results: resultsSchema.default({}),
+  materials: materialsSchema,
+  wallSettings: foamSettingsSchema,
+  roofSettings: foamSettingsSchema,
+  expenses: expensesSchema,
+  rValues: z.record(z.unknown()).optional(),
+  options: z.array(optionSchema).optional(),
+  acceptedOptionId: z.string().optional(),
   totalValue: z.number().default(0),
   notes: z.string().optional(),
-  pricingMode: z.string().optional(),
-  sqFtRates: z.record(z.unknown()).optional(),
+  pricingMode: z.enum(['level_pricing', 'sqft_pricing', 'margin_pricing']).optional(),
+  marginTargets: z.object({
+    overall: num,
+    chemical: num.optional(),
+    labor: num.optional(),
+    inventory: num.optional(),
+  }).optional(),
+  taxJurisdictionId: z.string().optional(),
+  salesTax: z.record(z.unknown()).optional(),
+  sqFtRates: z.object({ wall: num, roof: num }).optional(),
   scheduledDate: z.string().optional(),
+  scheduledDays: z.number().int().min(1).max(60).optional(),
+  crewId: z.string().optional(),
   invoiceDate: z.string().optional(),
   invoiceNumber: z.string().optional(),
   paymentTerms: z.string().optional(),
-  estimateLines: z.array(z.unknown()).optional(),
-  invoiceLines: z.array(z.unknown()).optional(),
-  workOrderLines: z.array(z.unknown()).optional(),
+  estimateLines: z.array(lineItemSchema).optional(),
+  invoiceLines: z.array(lineItemSchema).optional(),
+  workOrderLines: z.array(lineItemSchema).optional(),
+  changeOrders: z.array(changeOrderSchema).optional(),
+  template: z.object({ id: z.string(), name: z.string(), version: z.number().int() }).optional(),
   actuals: z.record(z.unknown()).optional(),
   financials: z.record(z.unknown()).optional(),
   workOrderSheetUrl: z.string().optional(),
   pdfLink: z.string().optional(),
   sitePhotos: z.array(z.string()).optional(),
   inventoryProcessed: z.boolean().optional(),
-}).passthrough();
+});
+
+// What estimateSchema produces, spelled out. The app's tsconfig compiles this
+// file too, without strictNullChecks, and there zod types every key as optional.
+type EstimatePayload = Pick<
+  EstimateRecord,
+  'customerId' | 'date' | 'status' | 'executionStatus' | 'inputs' | 'wallSettings' | 'roofSettings'
+  | 'expenses' | 'options' | 'acceptedOptionId' | 'totalValue' | 'notes' | 'pricingMode' | 'marginTargets'
+  | 'taxJurisdictionId' | 'sqFtRates' | 'scheduledDate' | 'scheduledDays' | 'crewId' | 'invoiceDate'
+  | 'invoiceNumber' | 'paymentTerms' | 'estimateLines' | 'invoiceLines' | 'workOrderLines' | 'changeOrders'
+  | 'template' | 'workOrderSheetUrl' | 'pdfLink' | 'sitePhotos' | 'inventoryProcessed'
+> & {
+  id?: string;
+  results: Partial<CalculationResults>;
+  materials: Omit<EstimateRecord['materials'], 'ocStrokesPerSet' | 'ccStrokesPerSet' | 'equipment'> & {
+    ocStrokesPerSet?: number;
+    ccStrokesPerSet?: number;
+    equipment: Record<string, unknown>[];
+  };
+  rValues?: Record<string, unknown>;
+  salesTax?: Record<string, unknown>;
+  actuals?: Record<string, unknown>;
+  financials?: Record<string, unknown>;
+};
 
 router.post('/', adminOnly, async (req: Request, res: Response) => {
   try {
@@ -125,7 +379,22 @@ router.post('/', adminOnly, async (req: Request, res: Response) => {
     }
 
     const { organizationId } = req.auth!;
-    const { id, status, executionStatus, ...rest } = parsed.data;
+    // Document numbers are assigned here, never taken from the client
+    const { id, status, executionStatus, invoiceNumber, ...rest } = parsed.data as EstimatePayload;
+
+    // Results, option prices, tax and P&L are recomputed here rather than trusted
+    const org = await loadOrgCalcSettings(organizationId);
+    if (!org) {
+      res.status(404).json({ error: 'Organization not found' });
+      return;
+    }
+    if (rest.crewId && !(await isOrgCrew(organizationId, rest.crewId))) {
+      res.status(404).json({ error: 'Crew not found' });
+      return;
+    }
+
+    // The server's figures are saved, with the differences kept for the office to review
+    const calc = recalculateEstimate(rest, org);
 
     // Map frontend status strings to Prisma enum values
     const statusMap: Record<string, string> = {
@@ -133,54 +402,140 @@ router.post('/', adminOnly, async (req: Request, res: Response) => {
       'Not Started': 'NotStarted',
       'In Progress': 'InProgress',
     };
+    const reverseStatusMap: Record<string, string> = {
+      'WorkOrder': 'Work Order',
+      'NotStarted': 'Not Started',
+      'InProgress': 'In Progress',
+    };
+
+    // Verify org ownership before updating — prevents cross-tenant writes
+    const existing = id
+      ? await prisma.estimate.findFirst({
+          where: { id, organizationId },
+          select: {
+            id: true,
+            status: true,
+            executionStatus: true,
+            crewId: true,
+            estimateNumber: true,
+            workOrderNumber: true,
+            invoiceNumber: true,
+          },
+        })
+      : null;
+    const from = existing
+      ? {
+          status: (reverseStatusMap[existing.status] || existing.status) as EstimateStatus,
+          executionStatus: (reverseStatusMap[existing.executionStatus] || existing.executionStatus) as ExecutionStatus,
+        }
+      : null;
+
+    // Settling an invoice depends on what has been received against the new totals
+    const balanceDue = existing && status === 'Paid'
+      ? await getBalanceDue(prisma, { id: existing.id, totalValue: calc.totalValue, salesTax: calc.salesTax })
+      : undefined;
+
+    // New estimates enter the lifecycle as drafts
+    const transition = checkTransition(from?.status || 'Draft', status, { ...rest, totalValue: calc.totalValue, balanceDue });
+    if (transition.error) {
+      res.status(409).json({ error: transition.error });
+      return;
+    }
+
+    const materials = {
+      ...rest.materials,
+      openCellSets: calc.results.openCellSets,
+      closedCellSets: calc.results.closedCellSets,
+      openCellStrokes: calc.results.openCellStrokes,
+      closedCellStrokes: calc.results.closedCellStrokes,
+    };
+
+    // Open quotes carry a projection; a job's P&L is fixed when it is paid
+    let financials: JobFinancials | undefined;
+    if (status !== 'Paid' && rest.financials) {
+      financials = projectFinancials(calc.results, calc.totalValue, calc.salesTax);
+    } else if (status === 'Paid' && from && from.status !== 'Paid') {
+      financials = calculatePaidFinancials({
+        totalValue: calc.totalValue,
+        materials,
+        expenses: rest.expenses,
+        financials: rest.financials,
+        salesTax: calc.salesTax,
+        actuals: rest.actuals,
+      }, org.costs);
+    }
+
+    // An office save can't undo what the crew has reported since
+    const actuals = rest.actuals && existing ? await withSessionTotals(prisma, existing.id, rest.actuals) : rest.actuals;
 
     const dbData = {
       ...rest,
+      actuals: actuals as any,
       status: (statusMap[status] || status) as any,
-      executionStatus: (statusMap[executionStatus] || executionStatus) as any,
+      // Job progress belongs to the crew and PATCH /:id/status; a full save
+      // only sets it on a new estimate
+      executionStatus: existing ? undefined : (statusMap[executionStatus] || executionStatus) as any,
       lastModified: new Date(),
+      results: calc.results as any,
+      totalValue: calc.totalValue,
+      materials: materials as any,
+      salesTax: calc.salesTax as any,
+      financials: financials as any,
+      calculationMismatches: calc.mismatches as any,
+      options: calc.options ? calc.options as any : undefined,
       estimateLines: rest.estimateLines ? rest.estimateLines as any : undefined,
       invoiceLines: rest.invoiceLines ? rest.invoiceLines as any : undefined,
       workOrderLines: rest.workOrderLines ? rest.workOrderLines as any : undefined,
+      changeOrders: rest.changeOrders ? rest.changeOrders as any : undefined,
+      template: rest.template ? rest.template as any : undefined,
       sitePhotos: rest.sitePhotos ? rest.sitePhotos as any : undefined,
     };
 
-    let estimate;
-    if (id) {
-      // Verify org ownership before updating — prevents cross-tenant writes
-      const existing = await prisma.estimate.findFirst({
-        where: { id, organizationId },
-        select: { id: true },
-      });
+    const estimate = await prisma.$transaction(async (tx) => {
+      const written = existing
+        ? await tx.estimate.update({
+            where: { id: existing.id },
+            data: dbData,
+            include: { customer: true, payments: true, sessions: sessionsInclude },
+          })
+        : await tx.estimate.create({
+            data: { ...(id ? { id } : {}), ...dbData, organizationId },
+            include: { customer: true, payments: true, sessions: sessionsInclude },
+          });
 
-      if (existing) {
-        estimate = await prisma.estimate.update({
-          where: { id },
-          data: dbData,
-          include: { customer: true },
-        });
-      } else {
-        estimate = await prisma.estimate.create({
-          data: { id, ...dbData, organizationId },
-          include: { customer: true },
-        });
+      const numbers: Record<string, string> = {};
+      if (!existing) {
+        numbers.estimateNumber = await allocateDocumentNumber(tx, organizationId, 'estimate', written.id);
+      }
+      if (transition.assigns && !existing?.[NUMBER_FIELDS[transition.assigns]]) {
+        numbers[NUMBER_FIELDS[transition.assigns]] =
+          await allocateDocumentNumber(tx, organizationId, transition.assigns, written.id);
       }
-    } else {
-      estimate = await prisma.estimate.create({
-        data: { ...dbData, organizationId },
-        include: { customer: true },
+      if (status === 'Archived' && from && from.status !== 'Archived' && from.status !== 'Paid') {
+        await voidDocumentNumbers(tx, organizationId, written.id, `Archived from ${from.status}`);
+      }
+
+      if (Object.keys(numbers).length === 0) return written;
+      return tx.estimate.update({
+        where: { id: written.id },
+        data: numbers,
+        include: { customer: true, payments: true, sessions: sessionsInclude },
       });
-    }
+    });
+
+    await recordStatusChange(req.auth!, estimate.id, from, {
+      status: (reverseStatusMap[estimate.status] || estimate.status) as EstimateStatus,
+      executionStatus: (reverseStatusMap[estimate.executionStatus] || estimate.executionStatus) as ExecutionStatus,
+    });
 
     broadcastToOrg(organizationId, 'estimate:updated', { id: estimate.id });
 
-    const reverseStatusMap: Record<string, string> = {
-      'WorkOrder': 'Work Order',
-      'NotStarted': 'Not Started',
-      'InProgress': 'In Progress',
-    };
+    // A reassigned work order leaves one crew's list and joins another's
+    if (estimate.status === 'WorkOrder' && existing && existing.crewId !== estimate.crewId) {
+      broadcastToCrews(organizationId, [existing.crewId, estimate.crewId], 'workorder:broadcast', { id: estimate.id });
+    }
 
-    res.json({
+    const saved = {
       id: estimate.id,
       customerId: estimate.customerId,
       date: estimate.date,
@@ -192,17 +547,32 @@ router.post('/', adminOnly, async (req: Request, res: Response) => {
       wallSettings: estimate.wallSettings,
       roofSettings: estimate.roofSettings,
       expenses: estimate.expenses,
+      rValues: estimate.rValues,
+      options: estimate.options,
+      acceptedOptionId: estimate.acceptedOptionId,
       totalValue: estimate.totalValue,
       notes: estimate.notes || '',
       pricingMode: estimate.pricingMode,
+      marginTargets: estimate.marginTargets,
+      taxJurisdictionId: estimate.taxJurisdictionId,
+      salesTax: estimate.salesTax,
+      calculationMismatches: estimate.calculationMismatches,
       sqFtRates: estimate.sqFtRates,
       scheduledDate: estimate.scheduledDate,
+      scheduledDays: estimate.scheduledDays ?? undefined,
+      crewId: estimate.crewId || undefined,
       invoiceDate: estimate.invoiceDate,
+      estimateNumber: estimate.estimateNumber,
+      workOrderNumber: estimate.workOrderNumber,
       invoiceNumber: estimate.invoiceNumber,
       paymentTerms: estimate.paymentTerms,
       estimateLines: estimate.estimateLines,
       invoiceLines: estimate.invoiceLines,
       workOrderLines: estimate.workOrderLines,
+      changeOrders: estimate.changeOrders,
+      template: estimate.template || undefined,
+      payments: estimate.payments.map(toPaymentResponse),
+      sessions: estimate.sessions.map(toJobSessionResponse),
       actuals: estimate.actuals,
       financials: estimate.financials,
       inventoryProcessed: estimate.inventoryProcessed,
@@ -219,7 +589,16 @@ router.post('/', adminOnly, async (req: Request, res: Response) => {
         notes: estimate.customer.notes,
         status: estimate.customer.status,
       },
-    });
+    };
+
+    // History is best-effort: a failed revision write shouldn't fail the save itself
+    try {
+      await recordEstimateRevision(req.auth!, saved as any);
+    } catch (revisionErr) {
+      console.error('Record estimate revision error:', revisionErr);
+    }
+
+    res.json(saved);
   } catch (err) {
     console.error('Upsert estimate error:', err);
     res.status(500).json({ error: 'Internal server error' });
@@ -228,38 +607,126 @@ router.post('/', adminOnly, async (req: Request, res: Response) => {
 
 // ─── PATCH /api/estimates/:id/status — Workflow transition ──────────────────
 
+const statusUpdateSchema = z.object({
+  status: z.enum(['Draft', 'Work Order', 'Invoiced', 'Paid', 'Archived']).optional(),
+  executionStatus: z.enum(['Not Started', 'In Progress', 'Completed']).optional(),
+  scheduledDate: z.string().nullable().optional(),
+  scheduledDays: z.number().int().min(1).max(60).nullable().optional(),
+  crewId: z.string().nullable().optional(),
+  workOrderSheetUrl: z.string().nullable().optional(),
+  invoiceDate: z.string().nullable().optional(),
+  paymentTerms: z.string().nullable().optional(),
+}).strict();
+
 router.patch('/:id/status', adminOnly, async (req: Request, res: Response) => {
   try {
+    const parsed = statusUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
     const { organizationId } = req.auth!;
-    const { status, executionStatus, ...extra } = req.body;
+    const { status, executionStatus, ...fields } = parsed.data;
 
     const statusMap: Record<string, string> = {
       'Work Order': 'WorkOrder',
       'Not Started': 'NotStarted',
       'In Progress': 'InProgress',
     };
+    const reverseStatusMap: Record<string, string> = {
+      'WorkOrder': 'Work Order',
+      'NotStarted': 'Not Started',
+      'InProgress': 'In Progress',
+    };
 
-    const data: Record<string, unknown> = { lastModified: new Date() };
-    if (status) data.status = statusMap[status] || status;
-    if (executionStatus) data.executionStatus = statusMap[executionStatus] || executionStatus;
-    // Allow extra fields (scheduledDate, invoiceDate, invoiceNumber, etc.)
-    Object.assign(data, extra);
-
-    const estimate = await prisma.estimate.updateMany({
+    const estimate = await prisma.estimate.findFirst({
       where: { id: req.params.id, organizationId },
-      data,
     });
-
-    if (estimate.count === 0) {
+    if (!estimate) {
       res.status(404).json({ error: 'Estimate not found' });
       return;
     }
+    if (fields.crewId && !(await isOrgCrew(organizationId, fields.crewId))) {
+      res.status(404).json({ error: 'Crew not found' });
+      return;
+    }
+
+    const from = {
+      status: (reverseStatusMap[estimate.status] || estimate.status) as EstimateStatus,
+      executionStatus: (reverseStatusMap[estimate.executionStatus] || estimate.executionStatus) as ExecutionStatus,
+    };
+    const to = {
+      status: status || from.status,
+      executionStatus: executionStatus || from.executionStatus,
+    };
+
+    const balanceDue = to.status === 'Paid' ? await getBalanceDue(prisma, estimate) : undefined;
+    const transition = checkTransition(from.status, to.status, { ...estimate, ...fields, balanceDue });
+    if (transition.error) {
+      res.status(409).json({ error: transition.error });
+      return;
+    }
+    const refusedField = Object.keys(fields).find((field) => !transition.fields.includes(field));
+    if (refusedField) {
+      res.status(409).json({
+        error: from.status === to.status
+          ? `${refusedField} can't be changed on a ${from.status} estimate`
+          : `${refusedField} can't be set when moving from ${from.status} to ${to.status}`,
+      });
+      return;
+    }
+    const executionError = checkExecutionTransition(to.status, from.executionStatus, to.executionStatus);
+    if (executionError) {
+      res.status(409).json({ error: executionError });
+      return;
+    }
+
+    const data: Record<string, unknown> = {
+      ...fields,
+      status: statusMap[to.status] || to.status,
+      executionStatus: statusMap[to.executionStatus] || to.executionStatus,
+      lastModified: new Date(),
+    };
+    if (to.status === 'Paid' && from.status !== 'Paid') {
+      const org = await prisma.organization.findUnique({ where: { id: organizationId }, select: { costs: true } });
+      const costs = (org?.costs || {}) as unknown as CalculatorState['costs'];
+      data.financials = calculatePaidFinancials(toPaidFinancialsInput(estimate), costs);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Only apply if nobody moved the estimate since it was read
+      const result = await tx.estimate.updateMany({
+        where: { id: estimate.id, status: estimate.status, executionStatus: estimate.executionStatus },
+        data,
+      });
+      if (result.count === 0) return false;
+
+      if (transition.assigns && !estimate[NUMBER_FIELDS[transition.assigns]]) {
+        const number = await allocateDocumentNumber(tx, organizationId, transition.assigns, estimate.id);
+        await tx.estimate.update({
+          where: { id: estimate.id },
+          data: { [NUMBER_FIELDS[transition.assigns]]: number },
+        });
+      }
+      if (to.status === 'Archived' && from.status !== 'Archived' && from.status !== 'Paid') {
+        await voidDocumentNumbers(tx, organizationId, estimate.id, `Archived from ${from.status}`);
+      }
+      return true;
+    });
+    if (!updated) {
+      res.status(409).json({ error: 'The estimate was changed by someone else. Reload and try again.' });
+      return;
+    }
+
+    await recordStatusChange(req.auth!, estimate.id, from, to);
 
     broadcastToOrg(organizationId, 'estimate:updated', { id: req.params.id });
 
-    // If converting to Work Order, also broadcast to crew channel
-    if (status === 'Work Order' || status === 'WorkOrder') {
-      broadcastToOrg(organizationId, 'workorder:broadcast', { id: req.params.id });
+    // New and reassigned work orders go out to the crews they concern
+    const crewId = fields.crewId !== undefined ? fields.crewId : estimate.crewId;
+    if (to.status === 'Work Order' && (from.status !== 'Work Order' || crewId !== estimate.crewId)) {
+      broadcastToCrews(organizationId, [estimate.crewId, crewId], 'workorder:broadcast', { id: req.params.id });
     }
 
     res.json({ success: true });
@@ -274,6 +741,16 @@ router.patch('/:id/status', adminOnly, async (req: Request, res: Response) => {
 router.patch('/:id/actuals', async (req: Request, res: Response) => {
   try {
     const { organizationId } = req.auth!;
+
+    // Crews only report on work orders assigned to them
+    const assigned = await prisma.estimate.findFirst({
+      where: { id: req.params.id, organizationId, ...crewScope(req.auth!) },
+      select: { id: true, actuals: true },
+    });
+    if (!assigned) {
+      res.status(404).json({ error: 'Work order not found' });
+      return;
+    }
     const {
       actuals,
       executionStatus,
@@ -285,19 +762,58 @@ router.patch('/:id/actuals', async (req: Request, res: Response) => {
       'Not Started': 'NotStarted',
       'In Progress': 'InProgress',
     };
+    const reverseStatusMap: Record<string, string> = {
+      'WorkOrder': 'Work Order',
+      'NotStarted': 'Not Started',
+      'InProgress': 'In Progress',
+    };
+
+    // Who started and who finished the job come from the login, never from
+    // the app; the first start is kept across later progress updates
+    if (actuals) {
+      const recorded = (assigned.actuals || {}) as Record<string, unknown>;
+      for (const field of ['startedBy', 'startedById', 'completedBy', 'completedById']) {
+        if (recorded[field] !== undefined) actuals[field] = recorded[field];
+        else delete actuals[field];
+      }
+      const stamp = executionStatus === 'Completed' ? 'completed'
+        : executionStatus === 'In Progress' && !recorded.startedBy ? 'started'
+        : null;
+      if (stamp) {
+        actuals[`${stamp}By`] = await getActorName(req.auth!);
+        actuals[`${stamp}ById`] = req.auth!.userId;
+      }
+    }
 
-    await prisma.$transaction(async (tx) => {
+    const progress = await prisma.$transaction(async (tx) => {
       // 1. Update estimate with actuals
       const data: Record<string, unknown> = {
         lastModified: new Date(),
       };
-      if (actuals) data.actuals = actuals;
+      // Sprayed totals come from the job's sessions once it has any
+      if (actuals) data.actuals = await withSessionTotals(tx, assigned.id, actuals);
+
+      // A stale status from the crew app mustn't undo progress; its actuals still count
+      let move: { from: LifecycleState; to: LifecycleState } | null = null;
       if (executionStatus) {
-        data.executionStatus = statusMap[executionStatus] || executionStatus;
+        const current = await tx.estimate.findFirst({
+          where: { id: assigned.id, organizationId },
+          select: { status: true, executionStatus: true },
+        });
+        if (current) {
+          const from = {
+            status: (reverseStatusMap[current.status] || current.status) as EstimateStatus,
+            executionStatus: (reverseStatusMap[current.executionStatus] || current.executionStatus) as ExecutionStatus,
+          };
+          if (!checkExecutionTransition(from.status, from.executionStatus, executionStatus)) {
+            data.executionStatus = statusMap[executionStatus] || executionStatus;
+            move = { from, to: { ...from, executionStatus: executionStatus as ExecutionStatus } };
+          }
+        }
       }
 
       await tx.estimate.updateMany({
-        where: { id: req.params.id, organizationId },
+        where: { id: assigned.id, organizationId },
         data,
       });
 
@@ -318,9 +834,15 @@ router.patch('/:id/actuals', async (req: Request, res: Response) => {
           });
         }
       }
+
+      return move;
     });
 
-    broadcastToOrg(organizationId, 'estimate:updated', { id: req.params.id });
+    if (progress) {
+      await recordStatusChange(req.auth!, assigned.id, progress.from, progress.to);
+    }
+
+    broadcastToOrg(organizationId, 'estimate:updated', { id: assigned.id });
     broadcastToOrg(organizationId, 'warehouse:updated', {});
 
     res.json({ success: true });
@@ -330,27 +852,301 @@ router.patch('/:id/actuals', async (req: Request, res: Response) => {
   }
 });
 
-// ─── PATCH /api/estimates/:id/paid — Mark as paid ───────────────────────────
+// ─── POST /api/estimates/:id/sessions — Start or resume a visit ─────────────
+// A job runs one session at a time: starting while one is open hands back
+// the open one, so a reload or the crew's other device carries on with it.
+
+const sessionStartSchema = z.object({
+  // The crew's local date
+  workDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
 
-router.patch('/:id/paid', adminOnly, async (req: Request, res: Response) => {
+router.post('/:id/sessions', async (req: Request, res: Response) => {
   try {
+    const parsed = sessionStartSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
     const { organizationId } = req.auth!;
-    const { financials } = req.body;
+    const workOrder = await prisma.estimate.findFirst({
+      where: { id: req.params.id, organizationId, status: 'WorkOrder', ...crewScope(req.auth!) },
+      select: { id: true, crewId: true, executionStatus: true },
+    });
+    if (!workOrder) {
+      res.status(404).json({ error: 'Work order not found' });
+      return;
+    }
+    if (workOrder.executionStatus === 'Completed') {
+      res.status(409).json({ error: 'This job is already complete' });
+      return;
+    }
 
-    await prisma.estimate.updateMany({
-      where: { id: req.params.id, organizationId },
-      data: {
-        status: 'Paid',
-        financials: financials || {},
-        lastModified: new Date(),
+    const startedBy = await getActorName(req.auth!);
+
+    const session = await prisma.$transaction(async (tx) => {
+      // Lock the job so two devices starting at once can't both open a session
+      await tx.$queryRaw`SELECT id FROM estimates WHERE id = ${workOrder.id} FOR UPDATE`;
+      const open = await tx.jobSession.findFirst({ where: { estimateId: workOrder.id, endedAt: null } });
+      if (open) return open;
+
+      const crewId = req.auth!.crewId || workOrder.crewId;
+      const crew = crewId
+        ? await tx.crew.findFirst({ where: { id: crewId, organizationId }, select: { id: true, name: true } })
+        : null;
+      const created = await tx.jobSession.create({
+        data: {
+          organizationId,
+          estimateId: workOrder.id,
+          crewId: crew?.id ?? null,
+          crewName: crew?.name || '',
+          workDate: parsed.data.workDate,
+          startedBy,
+          startedById: req.auth!.userId,
+        },
+      });
+      await syncSessionTotals(tx, organizationId, workOrder.id);
+      return created;
+    });
+
+    broadcastToOrg(organizationId, 'estimate:updated', { id: workOrder.id });
+
+    res.json(toJobSessionResponse(session));
+  } catch (err) {
+    console.error('Start job session error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── PATCH /api/estimates/:id/sessions/:sessionId — Progress or end ─────────
+// Live stroke counts while the session runs, and the crew's figures for the
+// visit when it ends. Ended sessions stay editable to correct them until the
+// job is invoiced.
+
+const sessionUpdateSchema = z.object({
+  openCellSets: z.number().min(0).optional(),
+  closedCellSets: z.number().min(0).optional(),
+  openCellStrokes: z.number().int().min(0).optional(),
+  closedCellStrokes: z.number().int().min(0).optional(),
+  // Null goes back to counting the session's length
+  laborHours: z.number().min(0).max(1000).nullable().optional(),
+  conditions: z.object({
+    ambientTempF: z.number().optional(),
+    substrateTempF: z.number().optional(),
+    humidity: z.number().min(0).max(100).optional(),
+  }).optional(),
+  notes: z.string().max(2000).optional(),
+  end: z.boolean().optional(),
+});
+
+router.patch('/:id/sessions/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const parsed = sessionUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const existing = await prisma.jobSession.findFirst({
+      where: {
+        id: req.params.sessionId,
+        estimateId: req.params.id,
+        organizationId,
+        estimate: { status: 'WorkOrder', ...crewScope(req.auth!) },
       },
     });
+    if (!existing) {
+      res.status(404).json({ error: 'Work session not found' });
+      return;
+    }
+
+    const { end, ...fields } = parsed.data;
+    const data: Record<string, unknown> = { ...fields };
+    if (end && !existing.endedAt) {
+      data.endedAt = new Date();
+      data.endedBy = await getActorName(req.auth!);
+    }
+
+    const session = await prisma.$transaction(async (tx) => {
+      const updated = await tx.jobSession.update({ where: { id: existing.id }, data });
+      await syncSessionTotals(tx, organizationId, existing.estimateId);
+      return updated;
+    });
+
+    broadcastToOrg(organizationId, 'estimate:updated', { id: existing.estimateId });
+
+    res.json(toJobSessionResponse(session));
+  } catch (err) {
+    console.error('Update job session error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── GET /api/estimates/:id/payments — Payment ledger ───────────────────────
+
+router.get('/:id/payments', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const payments = await prisma.payment.findMany({
+      where: { estimateId: req.params.id, organizationId },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    res.json(payments.map(toPaymentResponse));
+  } catch (err) {
+    console.error('Fetch payments error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/estimates/:id/payments — Record a deposit or payment ─────────
+
+const paymentSchema = z.object({
+  amount: z.coerce.number().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  method: z.enum(['check', 'cash', 'card', 'ach']),
+  reference: z.string().max(100).optional(),
+}).strict();
+
+router.post('/:id/payments', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const parsed = paymentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const amount = Math.round(parsed.data.amount * 100) / 100;
+
+    const [estimate, org] = await Promise.all([
+      prisma.estimate.findFirst({ where: { id: req.params.id, organizationId } }),
+      prisma.organization.findUnique({ where: { id: organizationId }, select: { costs: true } }),
+    ]);
+    if (!estimate || !org) {
+      res.status(404).json({ error: 'Estimate not found' });
+      return;
+    }
+
+    const reverseStatusMap: Record<string, string> = {
+      'WorkOrder': 'Work Order',
+      'NotStarted': 'Not Started',
+      'InProgress': 'In Progress',
+    };
+    const from = {
+      status: (reverseStatusMap[estimate.status] || estimate.status) as EstimateStatus,
+      executionStatus: (reverseStatusMap[estimate.executionStatus] || estimate.executionStatus) as ExecutionStatus,
+    };
+    if (from.status !== 'Work Order' && from.status !== 'Invoiced') {
+      res.status(409).json({ error: `Payments can't be recorded on a ${from.status} estimate` });
+      return;
+    }
+
+    const recordedBy = await getActorName(req.auth!);
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Locks the estimate until commit, so payments on it are applied one at a time
+      const locked = await tx.estimate.updateMany({
+        where: { id: estimate.id, status: estimate.status },
+        data: { lastModified: new Date() },
+      });
+      if (locked.count === 0) {
+        return { error: 'The estimate was changed by someone else. Reload and try again.' };
+      }
+
+      const current = await tx.estimate.findUniqueOrThrow({ where: { id: estimate.id } });
+      const balance = await getBalanceDue(tx, current);
+      if (amount > balance) {
+        return { error: `The payment is more than the $${balance.toFixed(2)} outstanding` };
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          organizationId,
+          estimateId: estimate.id,
+          // Money taken before the job is invoiced is a deposit
+          kind: from.status === 'Invoiced' ? 'payment' : 'deposit',
+          amount,
+          date: parsed.data.date,
+          method: parsed.data.method,
+          reference: parsed.data.reference || null,
+          userId: req.auth!.userId,
+          recordedBy,
+        },
+      });
+      const remaining = Math.max(0, Math.round((balance - amount) * 100) / 100);
+
+      // An invoice settles when its balance reaches zero; the P&L is fixed then
+      const settled = from.status === 'Invoiced' && remaining === 0;
+      const costs = org.costs as unknown as CalculatorState['costs'];
+      const financials = settled ? calculatePaidFinancials(toPaidFinancialsInput(current), costs) : undefined;
+      if (settled) {
+        await tx.estimate.update({
+          where: { id: estimate.id },
+          data: { status: 'Paid', financials: financials as any },
+        });
+      }
+      return { payment, balance: remaining, financials };
+    });
+
+    if ('error' in result) {
+      res.status(409).json({ error: result.error });
+      return;
+    }
+
+    const status: EstimateStatus = result.financials ? 'Paid' : from.status;
+    await recordStatusChange(req.auth!, estimate.id, from, { ...from, status });
+
+    broadcastToOrg(organizationId, 'estimate:updated', { id: req.params.id });
+
+    res.json({
+      payment: toPaymentResponse(result.payment),
+      status,
+      balance: result.balance,
+      financials: result.financials,
+    });
+  } catch (err) {
+    console.error('Record payment error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── DELETE /api/estimates/:id/payments/:paymentId ──────────────────────────
+
+router.delete('/:id/payments/:paymentId', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const estimate = await prisma.estimate.findFirst({
+      where: { id: req.params.id, organizationId },
+      select: { status: true },
+    });
+    if (!estimate) {
+      res.status(404).json({ error: 'Estimate not found' });
+      return;
+    }
+    // A paid job's P&L is final, so its ledger is too
+    if (estimate.status !== 'WorkOrder' && estimate.status !== 'Invoiced') {
+      res.status(409).json({ error: `Payments can't be removed from a ${estimate.status} estimate` });
+      return;
+    }
+
+    const result = await prisma.payment.deleteMany({
+      where: { id: req.params.paymentId, estimateId: req.params.id, organizationId },
+    });
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
 
     broadcastToOrg(organizationId, 'estimate:updated', { id: req.params.id });
 
     res.json({ success: true });
   } catch (err) {
-    console.error('Mark paid error:', err);
+    console.error('Delete payment error:', err);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -373,14 +1169,157 @@ router.patch('/:id/inventory-processed', adminOnly, async (req: Request, res: Re
   }
 });
 
+// ─── GET /api/estimates/:id/revisions — Revision history ────────────────────
+
+router.get('/:id/revisions', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const revisions = await prisma.estimateRevision.findMany({
+      where: { estimateId: req.params.id, organizationId },
+      orderBy: { revisionNumber: 'desc' },
+    });
+
+    res.json(revisions.map(toRevisionResponse));
+  } catch (err) {
+    console.error('Fetch estimate revisions error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── GET /api/estimates/:id/status-history — Lifecycle moves ────────────────
+
+router.get('/:id/status-history', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const changes = await prisma.estimateStatusChange.findMany({
+      where: { estimateId: req.params.id, organizationId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(changes.map(toStatusChangeResponse));
+  } catch (err) {
+    console.error('Fetch estimate status history error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/estimates/:id/revisions/:revisionId/restore ──────────────────
+
+// Snapshot values go back into Json columns as they were stored
+const jsonValue = (value: unknown): Prisma.InputJsonValue => (value ?? {}) as Prisma.InputJsonValue;
+// A nullable column the snapshot has nothing for is cleared rather than left as is
+const nullableJson = (value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull =>
+  value == null ? Prisma.DbNull : value as Prisma.InputJsonValue;
+
+/** The update that puts a snapshot's restorable fields back on the estimate. */
+function restoreSnapshotData(snapshot: EstimateRevisionSnapshot): Prisma.EstimateUpdateInput {
+  const data = {
+    inputs: jsonValue(snapshot.inputs),
+    results: jsonValue(snapshot.results),
+    materials: jsonValue(snapshot.materials),
+    wallSettings: jsonValue(snapshot.wallSettings),
+    roofSettings: jsonValue(snapshot.roofSettings),
+    expenses: jsonValue(snapshot.expenses),
+    options: nullableJson(snapshot.options),
+    acceptedOptionId: snapshot.acceptedOptionId ?? null,
+    totalValue: snapshot.totalValue ?? 0,
+    notes: snapshot.notes ?? null,
+    pricingMode: snapshot.pricingMode ?? null,
+    marginTargets: nullableJson(snapshot.marginTargets),
+    sqFtRates: nullableJson(snapshot.sqFtRates),
+    taxJurisdictionId: snapshot.taxJurisdictionId ?? null,
+    salesTax: nullableJson(snapshot.salesTax),
+    paymentTerms: snapshot.paymentTerms ?? null,
+    estimateLines: nullableJson(snapshot.estimateLines),
+    invoiceLines: nullableJson(snapshot.invoiceLines),
+    workOrderLines: nullableJson(snapshot.workOrderLines),
+  } satisfies Record<RestorableField, unknown>;
+  return data;
+}
+
+router.post('/:id/revisions/:revisionId/restore', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const [estimate, revision] = await Promise.all([
+      prisma.estimate.findFirst({ where: { id: req.params.id, organizationId }, include: { customer: true } }),
+      prisma.estimateRevision.findFirst({ where: { id: req.params.revisionId, estimateId: req.params.id, organizationId } }),
+    ]);
+    if (!estimate || !revision) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    const reverseStatusMap: Record<string, string> = { 'WorkOrder': 'Work Order' };
+    const status = (reverseStatusMap[estimate.status] || estimate.status) as EstimateStatus;
+    if (!RESTORABLE_STATUSES.includes(status)) {
+      res.status(409).json({ error: `A revision can't be restored on a ${status} estimate` });
+      return;
+    }
+
+    // Restores the figures exactly as quoted; they're recalculated the next time the job is saved
+    const snapshot = revision.snapshot as unknown as EstimateRevisionSnapshot;
+    const data: Prisma.EstimateUpdateInput = {
+      ...restoreSnapshotData(snapshot),
+      lastModified: new Date(),
+      calculationMismatches: Prisma.DbNull,
+    };
+
+    await prisma.estimate.update({ where: { id: estimate.id }, data });
+
+    const customer: CustomerProfile = {
+      id: estimate.customer.id,
+      name: estimate.customer.name,
+      address: estimate.customer.address,
+      city: estimate.customer.city,
+      state: estimate.customer.state,
+      zip: estimate.customer.zip,
+      email: estimate.customer.email,
+      phone: estimate.customer.phone,
+      notes: estimate.customer.notes,
+      status: estimate.customer.status,
+    };
+    const record: Partial<EstimateRecord> & { id: string } = { ...snapshot, id: estimate.id, status, customer };
+    const restored = await recordEstimateRevision(req.auth!, record, `Restored revision ${revision.revisionNumber}`);
+
+    broadcastToOrg(organizationId, 'estimate:updated', { id: estimate.id });
+
+    res.json({ success: true, revision: restored });
+  } catch (err) {
+    console.error('Restore estimate revision error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // ─── DELETE /api/estimates/:id ──────────────────────────────────────────────
 
 router.delete('/:id', adminOnly, async (req: Request, res: Response) => {
   try {
     const { organizationId } = req.auth!;
 
-    const result = await prisma.estimate.deleteMany({
+    const estimate = await prisma.estimate.findFirst({
       where: { id: req.params.id, organizationId },
+      select: { id: true },
+    });
+    if (!estimate) {
+      res.status(404).json({ error: 'Estimate not found' });
+      return;
+    }
+
+    // Money received stays on record; archive the job instead
+    const paymentCount = await prisma.payment.count({ where: { estimateId: estimate.id, organizationId } });
+    if (paymentCount > 0) {
+      res.status(409).json({ error: 'An estimate with recorded payments can\'t be deleted. Archive it instead.' });
+      return;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await voidDocumentNumbers(tx, organizationId, estimate.id, 'Estimate deleted');
+      return tx.estimate.deleteMany({
+        where: { id: estimate.id, organizationId },
+      });
     });
 
     if (result.count === 0) {
@@ -388,7 +1327,7 @@ router.delete('/:id', adminOnly, async (req: Request, res: Response) => {
       return;
     }
 
-    broadcastToOrg(organizationId, 'estimate:updated', { id: req.params.id, deleted: true });
+    broadcastToOrg(organizationId, 'estimate:updated', { id: estimate.id, deleted: true });
 
     res.json({ success: true });
   } catch (err) {
@@ -249,4 +249,131 @@ router.patch('/purchase-orders/:id/status', async (req: Request, res: Response)
   }
 });
 
+// ─── GET /api/materials/products — Foam product catalog ─────────────────────
+
+router.get('/products', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const products = await prisma.foamProduct.findMany({
+      where: { organizationId },
+      orderBy: [{ foamType: 'asc' }, { name: 'asc' }],
+    });
+
+    res.json(products.map(mapFoamProduct));
+  } catch (err) {
+    console.error('Fetch foam products error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/materials/products — Upsert catalog entry ────────────────────
+
+const foamProductSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  manufacturer: z.string().default(''),
+  foamType: z.enum(['Open Cell', 'Closed Cell']),
+  yield: z.number().positive(),
+  costPerSet: z.number().min(0).default(0),
+  strokesPerSet: z.number().positive().default(6600),
+  rPerInch: z.number().positive(),
+  derateCurve: z.object({
+    points: z.array(z.object({ tempF: z.number(), yieldPercent: z.number().min(0).max(100) })),
+    humidityThreshold: z.number().optional(),
+    humidityPenaltyPercent: z.number().optional(),
+  }).optional(),
+  active: z.boolean().default(true),
+});
+
+router.post('/products', async (req: Request, res: Response) => {
+  try {
+    const parsed = foamProductSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const { id, derateCurve, ...rest } = parsed.data;
+    const data = { ...rest, derateCurve: derateCurve as any };
+
+    let product;
+    if (id) {
+      // Verify org ownership before updating — prevents cross-tenant writes
+      const existing = await prisma.foamProduct.findFirst({
+        where: { id, organizationId },
+        select: { id: true },
+      });
+
+      if (existing) {
+        product = await prisma.foamProduct.update({ where: { id }, data });
+      } else {
+        product = await prisma.foamProduct.create({ data: { id, ...data, organizationId } });
+      }
+    } else {
+      product = await prisma.foamProduct.create({ data: { ...data, organizationId } });
+    }
+
+    broadcastToOrg(organizationId, 'products:updated', { id: product.id });
+
+    res.json(mapFoamProduct(product));
+  } catch (err) {
+    console.error('Upsert foam product error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── DELETE /api/materials/products/:id ─────────────────────────────────────
+// Saved estimates keep their own snapshot in materials.products, so removing
+// a catalog entry never changes an existing job's numbers.
+
+router.delete('/products/:id', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const result = await prisma.foamProduct.deleteMany({
+      where: { id: req.params.id, organizationId },
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    broadcastToOrg(organizationId, 'products:updated', { id: req.params.id, deleted: true });
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Delete foam product error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function mapFoamProduct(item: {
+  id: string;
+  name: string;
+  manufacturer: string;
+  foamType: string;
+  yield: number;
+  costPerSet: number;
+  strokesPerSet: number;
+  rPerInch: number;
+  derateCurve: unknown;
+  active: boolean;
+}) {
+  return {
+    id: item.id,
+    name: item.name,
+    manufacturer: item.manufacturer,
+    foamType: item.foamType,
+    yield: item.yield,
+    costPerSet: item.costPerSet,
+    strokesPerSet: item.strokesPerSet,
+    rPerInch: item.rPerInch,
+    derateCurve: item.derateCurve || undefined,
+    active: item.active,
+  };
+}
+
 export default router;
@@ -4,6 +4,10 @@ import { z } from 'zod';
 import { prisma } from '../utils/prisma.js';
 import { authRequired, adminOnly } from '../middleware/auth.js';
 import { broadcastToOrg } from '../websocket/index.js';
+import { toPaymentResponse } from '../utils/payments.js';
+import { sessionsInclude, toJobSessionResponse } from '../utils/jobSessions.js';
+import { crewScope } from '../utils/crews.js';
+import { DOCUMENT_NUMBER_KINDS } from '../../../utils/documentNumbers.js';
 
 const router = Router();
 
@@ -24,13 +28,29 @@ router.get('/', async (req: Request, res: Response) => {
         warehouseItems: { orderBy: { name: 'asc' } },
         equipment: { orderBy: { name: 'asc' } },
         estimates: role === 'admin'
-          ? { orderBy: { lastModified: 'desc' } }
+          ? { orderBy: { lastModified: 'desc' }, include: { payments: true, sessions: sessionsInclude } }
           : {
-              where: { status: 'WorkOrder' },
+              where: { status: 'WorkOrder', ...crewScope(req.auth!) },
               orderBy: { lastModified: 'desc' },
+              include: { sessions: sessionsInclude },
             },
         purchaseOrders: role === 'admin' ? { orderBy: { date: 'desc' } } : false,
         materialLogs: role === 'admin' ? { orderBy: { date: 'desc' }, take: 500 } : false,
+        foamProducts: role === 'admin' ? { orderBy: [{ foamType: 'asc' }, { name: 'asc' }] } : false,
+        jobTemplates: role === 'admin' ? { orderBy: { name: 'asc' } } : false,
+        // A crew login gets its own crew, if it's on one
+        crews: {
+          where: role === 'admin' ? {} : { id: { in: req.auth!.crewId ? [req.auth!.crewId] : [] } },
+          include: { members: { where: { active: true }, select: { username: true }, orderBy: { username: 'asc' } } },
+          orderBy: { name: 'asc' },
+        },
+        // Admins get every crew login; a crew login gets the people it can clock in
+        users: {
+          where: role === 'admin'
+            ? { role: 'crew' }
+            : { role: 'crew', active: true, ...(req.auth!.crewId ? { crewId: req.auth!.crewId } : { id: req.auth!.userId }) },
+          orderBy: { username: 'asc' },
+        },
       },
     });
 
@@ -46,8 +66,17 @@ router.get('/', async (req: Request, res: Response) => {
       yields: org.yields,
       costs: org.costs,
       pricingMode: org.pricingMode,
+      marginTargets: org.marginTargets,
+      taxJurisdictions: org.taxJurisdictions,
+      defaultTaxJurisdictionId: org.defaultTaxJurisdictionId,
+      unitSystem: org.unitSystem,
       sqFtRates: org.sqFtRates,
+      productionRates: org.productionRates,
       lifetimeUsage: org.lifetimeUsage,
+      documentNumbering: org.documentNumbering,
+      receivables: org.receivables,
+      scheduling: org.scheduling,
+      payroll: org.payroll,
       warehouse: {
         openCellSets: org.openCellSets,
         closedCellSets: org.closedCellSets,
@@ -56,12 +85,16 @@ router.get('/', async (req: Request, res: Response) => {
       equipment: org.equipment.map(mapEquipment),
       companyProfile: org.profile ? mapCompanyProfile(org.profile) : null,
       savedEstimates: org.estimates.map(mapEstimate),
+      crews: org.crews.map(mapCrew),
+      crewMembers: org.users.map(mapCrewMember),
     };
 
     if (role === 'admin') {
       response.customers = (org.customers as Array<Record<string, unknown>>).map(mapCustomer);
       response.purchaseOrders = (org.purchaseOrders as Array<Record<string, unknown>>).map(mapPurchaseOrder);
       response.materialLogs = (org.materialLogs as Array<Record<string, unknown>>).map(mapMaterialLog);
+      response.foamProducts = (org.foamProducts as Array<Record<string, unknown>>).map(mapFoamProduct);
+      response.jobTemplates = (org.jobTemplates as Array<Record<string, unknown>>).map(mapJobTemplate);
     }
 
     res.json(response);
@@ -77,8 +110,43 @@ const settingsSchema = z.object({
   yields: z.record(z.unknown()).optional(),
   costs: z.record(z.unknown()).optional(),
   pricingMode: z.string().optional(),
+  marginTargets: z.record(z.unknown()).optional(),
+  taxJurisdictions: z.array(z.unknown()).optional(),
+  defaultTaxJurisdictionId: z.string().nullable().optional(),
+  unitSystem: z.enum(['imperial', 'metric']).optional(),
   sqFtRates: z.record(z.unknown()).optional(),
+  productionRates: z.record(z.unknown()).optional(),
   lifetimeUsage: z.record(z.unknown()).optional(),
+  documentNumbering: z.record(z.object({
+    prefix: z.string().max(12),
+    includeYear: z.boolean(),
+    padding: z.number().int().min(1).max(10),
+  })).optional(),
+  receivables: z.object({
+    remindersEnabled: z.boolean(),
+    reminderSteps: z.array(z.object({
+      id: z.string(),
+      daysOverdue: z.number().int().min(1),
+      subject: z.string().max(200),
+      message: z.string().max(5000),
+    })).max(10),
+    lateFee: z.object({
+      enabled: z.boolean(),
+      type: z.enum(['flat', 'percent']),
+      amount: z.number().min(0),
+      graceDays: z.number().int().min(0),
+      repeatMonthly: z.boolean(),
+    }),
+  }).optional(),
+  scheduling: z.object({
+    hoursPerDay: z.number().positive().max(24),
+    workDays: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+  }).optional(),
+  payroll: z.object({
+    weekStartsOn: z.number().int().min(0).max(6),
+    weeklyOvertimeHours: z.number().positive().max(168),
+    dailyOvertimeHours: z.number().min(0).max(24),
+  }).optional(),
 }).passthrough();
 
 router.patch('/settings', adminOnly, async (req: Request, res: Response) => {
@@ -95,8 +163,19 @@ router.patch('/settings', adminOnly, async (req: Request, res: Response) => {
     if (parsed.data.yields) data.yields = parsed.data.yields;
     if (parsed.data.costs) data.costs = parsed.data.costs;
     if (parsed.data.pricingMode) data.pricingMode = parsed.data.pricingMode;
+    if (parsed.data.marginTargets) data.marginTargets = parsed.data.marginTargets;
+    if (parsed.data.taxJurisdictions) data.taxJurisdictions = parsed.data.taxJurisdictions;
+    // null clears the default
+    if (parsed.data.defaultTaxJurisdictionId !== undefined) data.defaultTaxJurisdictionId = parsed.data.defaultTaxJurisdictionId;
+    if (parsed.data.unitSystem) data.unitSystem = parsed.data.unitSystem;
     if (parsed.data.sqFtRates) data.sqFtRates = parsed.data.sqFtRates;
+    if (parsed.data.productionRates) data.productionRates = parsed.data.productionRates;
     if (parsed.data.lifetimeUsage) data.lifetimeUsage = parsed.data.lifetimeUsage;
+    // A new format applies to the next number; numbers already issued keep theirs
+    if (parsed.data.documentNumbering) data.documentNumbering = parsed.data.documentNumbering;
+    if (parsed.data.receivables) data.receivables = parsed.data.receivables;
+    if (parsed.data.scheduling) data.scheduling = parsed.data.scheduling;
+    if (parsed.data.payroll) data.payroll = parsed.data.payroll;
 
     await prisma.organization.update({
       where: { id: organizationId },
@@ -180,6 +259,38 @@ router.patch('/crew-pin', adminOnly, async (req: Request, res: Response) => {
   }
 });
 
+// ─── GET /api/org/document-numbers — Issued and voided numbers ──────────────
+
+router.get('/document-numbers', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+    const kind = typeof req.query.kind === 'string' ? req.query.kind : undefined;
+    if (kind && !DOCUMENT_NUMBER_KINDS.includes(kind as any)) {
+      res.status(400).json({ error: 'Invalid document kind' });
+      return;
+    }
+
+    const numbers = await prisma.documentNumber.findMany({
+      where: { organizationId, ...(kind ? { kind } : {}) },
+      orderBy: [{ kind: 'asc' }, { year: 'asc' }, { sequence: 'asc' }],
+    });
+
+    res.json(numbers.map((n) => ({
+      kind: n.kind,
+      number: n.number,
+      sequence: n.sequence,
+      year: n.year || undefined,
+      estimateId: n.estimateId || undefined,
+      issuedAt: n.createdAt.toISOString(),
+      voidedAt: n.voidedAt ? n.voidedAt.toISOString() : undefined,
+      voidReason: n.voidReason || undefined,
+    })));
+  } catch (err) {
+    console.error('Fetch document numbers error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // ─── Helper mappers: DB → Frontend shape ────────────────────────────────────
 
 function mapWarehouseItem(item: Record<string, unknown>) {
@@ -250,17 +361,32 @@ function mapEstimate(item: Record<string, unknown>) {
     wallSettings: item.wallSettings || {},
     roofSettings: item.roofSettings || {},
     expenses: item.expenses || {},
+    rValues: item.rValues,
+    options: item.options,
+    acceptedOptionId: item.acceptedOptionId,
     totalValue: item.totalValue || 0,
     notes: item.notes || '',
     pricingMode: item.pricingMode,
+    marginTargets: item.marginTargets,
+    taxJurisdictionId: item.taxJurisdictionId,
+    salesTax: item.salesTax,
+    calculationMismatches: item.calculationMismatches,
     sqFtRates: item.sqFtRates,
     scheduledDate: item.scheduledDate,
+    scheduledDays: item.scheduledDays ?? undefined,
+    crewId: item.crewId || undefined,
     invoiceDate: item.invoiceDate,
+    estimateNumber: item.estimateNumber,
+    workOrderNumber: item.workOrderNumber,
     invoiceNumber: item.invoiceNumber,
     paymentTerms: item.paymentTerms,
     estimateLines: item.estimateLines,
     invoiceLines: item.invoiceLines,
     workOrderLines: item.workOrderLines,
+    changeOrders: item.changeOrders,
+    template: item.template || undefined,
+    payments: item.payments ? (item.payments as any[]).map(toPaymentResponse) : undefined,
+    sessions: item.sessions ? (item.sessions as any[]).map(toJobSessionResponse) : undefined,
     actuals: item.actuals,
     financials: item.financials,
     workOrderSheetUrl: item.workOrderSheetUrl,
@@ -298,4 +424,50 @@ function mapMaterialLog(item: Record<string, unknown>) {
   };
 }
 
+function mapFoamProduct(item: Record<string, unknown>) {
+  return {
+    id: item.id,
+    name: item.name,
+    manufacturer: item.manufacturer || '',
+    foamType: item.foamType,
+    yield: item.yield,
+    costPerSet: item.costPerSet || 0,
+    strokesPerSet: item.strokesPerSet,
+    rPerInch: item.rPerInch,
+    derateCurve: item.derateCurve || undefined,
+    active: item.active !== false,
+  };
+}
+
+function mapJobTemplate(item: Record<string, unknown>) {
+  return {
+    id: item.id,
+    name: item.name,
+    description: item.description || undefined,
+    version: item.version,
+    data: item.data,
+    updatedBy: item.updatedBy || '',
+    createdAt: (item.createdAt as Date).toISOString(),
+    updatedAt: (item.updatedAt as Date).toISOString(),
+  };
+}
+
+function mapCrew(item: Record<string, unknown>) {
+  return {
+    id: item.id,
+    name: item.name,
+    members: ((item.members as Array<{ username: string }>) || []).map((member) => member.username),
+    rigId: item.rigId || undefined,
+  };
+}
+
+function mapCrewMember(item: Record<string, unknown>) {
+  return {
+    id: item.id,
+    name: item.username,
+    crewId: item.crewId || undefined,
+    active: item.active,
+  };
+}
+
 export default router;
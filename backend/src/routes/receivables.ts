@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../utils/prisma.js';
+import { authRequired, adminOnly } from '../middleware/auth.js';
+import { deliverQueuedEmails } from '../utils/mail.js';
+import { queueOverdueReminders } from '../utils/reminders.js';
+
+const router = Router();
+router.use(authRequired);
+router.use(adminOnly);
+
+// ─── GET /api/receivables/reminders — Overdue reminder log ──────────────────
+
+router.get('/reminders', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const emails = await prisma.outboundEmail.findMany({
+      where: { organizationId, kind: 'overdue_reminder' },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+
+    res.json(emails.map(mapReminderEmail));
+  } catch (err) {
+    console.error('Fetch reminders error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/receivables/reminders/run — Queue and send now ───────────────
+
+router.post('/reminders/run', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    // The hourly run does the same; this lets an admin check a new schedule right away
+    const queued = await queueOverdueReminders(organizationId);
+    const sent = await deliverQueuedEmails(organizationId);
+
+    res.json({ queued, sent });
+  } catch (err) {
+    console.error('Run reminders error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function mapReminderEmail(item: {
+  id: string;
+  estimateId: string | null;
+  customerId: string | null;
+  reminderStepId: string | null;
+  to: string;
+  subject: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  sentAt: Date | null;
+  createdAt: Date;
+}) {
+  return {
+    id: item.id,
+    estimateId: item.estimateId || undefined,
+    customerId: item.customerId || undefined,
+    reminderStepId: item.reminderStepId || undefined,
+    to: item.to,
+    subject: item.subject,
+    // A send in progress is still queued as far as the app is concerned
+    status: item.status === 'sending' ? 'queued' : item.status,
+    attempts: item.attempts,
+    lastError: item.lastError || undefined,
+    sentAt: item.sentAt?.toISOString(),
+    createdAt: item.createdAt.toISOString(),
+  };
+}
+
+export default router;
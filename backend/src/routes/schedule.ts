@@ -0,0 +1,102 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../utils/prisma.js';
+import { authRequired, adminOnly } from '../middleware/auth.js';
+import { EstimateRecord, ProductionRates, SchedulingSettings } from '../../../types.js';
+import { getProductionRates } from '../../../utils/laborEstimate.js';
+import { buildSchedule, CrewRigs, getSchedulingSettings, jobEquipment } from '../../../utils/schedule.js';
+
+const router = Router();
+router.use(authRequired);
+router.use(adminOnly);
+
+// ─── GET /api/schedule — Booked work orders and conflicts for a date range ──
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const MAX_RANGE_DAYS = 92;
+
+const rangeSchema = z.object({
+  from: isoDate,
+  to: isoDate,
+}).refine((q) => q.from <= q.to, { message: '`to` must not be before `from`' })
+  .refine(
+    (q) => (Date.parse(q.to) - Date.parse(q.from)) / 86_400_000 < MAX_RANGE_DAYS,
+    { message: `The range can be at most ${MAX_RANGE_DAYS} days` },
+  );
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = rangeSchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const { from, to } = parsed.data;
+
+    const org = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { productionRates: true, scheduling: true },
+    });
+    if (!org) {
+      res.status(404).json({ error: 'Organization not found' });
+      return;
+    }
+    const rates = getProductionRates(org.productionRates as Partial<ProductionRates>);
+    const settings = getSchedulingSettings(org.scheduling as Partial<SchedulingSettings>);
+
+    // Only jobs starting after the range can be ruled out here; how far an
+    // earlier one runs depends on its length
+    const estimates = await prisma.estimate.findMany({
+      where: { organizationId, status: 'WorkOrder', scheduledDate: { not: null, lte: `${to}T23:59:59` } },
+      include: { customer: { select: { name: true } } },
+    });
+
+    const execMap: Record<string, string> = {
+      'NotStarted': 'Not Started',
+      'InProgress': 'In Progress',
+    };
+    const records = estimates.map(e => ({
+      ...e,
+      status: 'Work Order',
+      executionStatus: execMap[e.executionStatus] || e.executionStatus,
+    })) as unknown as EstimateRecord[];
+
+    const crews = await prisma.crew.findMany({
+      where: { organizationId, rigId: { not: null } },
+      select: { id: true, rig: { select: { id: true, name: true } } },
+    });
+    const crewRigs: CrewRigs = {};
+    crews.forEach(crew => {
+      if (crew.rig) crewRigs[crew.id] = crew.rig;
+    });
+
+    const schedule = buildSchedule(records, from, to, rates, settings, crewRigs);
+
+    res.json({
+      from,
+      to,
+      hoursPerDay: settings.hoursPerDay,
+      workDays: settings.workDays,
+      jobs: schedule.jobs.map(job => ({
+        estimateId: job.record.id,
+        workOrderNumber: job.record.workOrderNumber,
+        customerName: job.record.customer?.name,
+        executionStatus: job.record.executionStatus,
+        crewId: job.crew || null,
+        dates: job.dates,
+        crewHoursPerDay: job.crewHoursPerDay,
+        estimatedDays: job.estimatedDays,
+        equipment: jobEquipment(job, crewRigs).map(item => ({ id: item.id, name: item.name })),
+      })),
+      conflicts: schedule.conflicts,
+    });
+  } catch (err) {
+    console.error('Fetch schedule error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
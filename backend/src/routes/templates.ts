@@ -0,0 +1,200 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../utils/prisma.js';
+import { authRequired, adminOnly } from '../middleware/auth.js';
+import { broadcastToOrg } from '../websocket/index.js';
+import { getActorName } from '../utils/actor.js';
+
+const router = Router();
+router.use(authRequired);
+router.use(adminOnly);
+
+// ─── GET /api/templates — Job templates ─────────────────────────────────────
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const templates = await prisma.jobTemplate.findMany({
+      where: { organizationId },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(templates.map(mapJobTemplate));
+  } catch (err) {
+    console.error('Fetch job templates error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/templates — Create a template ────────────────────────────────
+
+// `data` is a calculator snapshot (JobTemplateData in the app's types.ts);
+// it is applied in the app and only checked for its core fields here
+const templateDataSchema = z.object({
+  mode: z.string(),
+  wallSettings: z.record(z.unknown()),
+  roofSettings: z.record(z.unknown()),
+  inventory: z.array(z.unknown()).optional(),
+  jobEquipment: z.array(z.unknown()).optional(),
+  estimateLines: z.array(z.unknown()).optional(),
+}).passthrough();
+
+const createTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  data: templateDataSchema,
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = createTemplateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const { name, description, data } = parsed.data;
+
+    const duplicate = await prisma.jobTemplate.findFirst({
+      where: { organizationId, name },
+      select: { id: true },
+    });
+    if (duplicate) {
+      res.status(409).json({ error: `A template named "${name}" already exists` });
+      return;
+    }
+
+    const template = await prisma.jobTemplate.create({
+      data: {
+        organizationId,
+        name,
+        description,
+        data: data as any,
+        updatedBy: await getActorName(req.auth!),
+      },
+    });
+
+    broadcastToOrg(organizationId, 'templates:updated', { id: template.id });
+
+    res.status(201).json(mapJobTemplate(template));
+  } catch (err) {
+    console.error('Create job template error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── PATCH /api/templates/:id — Save a new version ──────────────────────────
+
+const updateTemplateSchema = createTemplateSchema.partial().extend({
+  // The version the edit was based on; a newer one means someone else saved first
+  version: z.number().int().positive(),
+});
+
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const parsed = updateTemplateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const { version, name, description, data } = parsed.data;
+
+    const existing = await prisma.jobTemplate.findFirst({
+      where: { id: req.params.id, organizationId },
+      select: { id: true },
+    });
+    if (!existing) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    if (name) {
+      const duplicate = await prisma.jobTemplate.findFirst({
+        where: { organizationId, name, id: { not: existing.id } },
+        select: { id: true },
+      });
+      if (duplicate) {
+        res.status(409).json({ error: `A template named "${name}" already exists` });
+        return;
+      }
+    }
+
+    // Only the version the caller saw is replaced
+    const updated = await prisma.jobTemplate.updateMany({
+      where: { id: existing.id, version },
+      data: {
+        ...(name ? { name } : {}),
+        ...(description !== undefined ? { description } : {}),
+        ...(data ? { data: data as any } : {}),
+        version: version + 1,
+        updatedBy: await getActorName(req.auth!),
+      },
+    });
+    if (updated.count === 0) {
+      res.status(409).json({ error: 'This template was changed by someone else. Reload it and try again.' });
+      return;
+    }
+
+    const template = await prisma.jobTemplate.findUniqueOrThrow({ where: { id: existing.id } });
+
+    broadcastToOrg(organizationId, 'templates:updated', { id: template.id });
+
+    res.json(mapJobTemplate(template));
+  } catch (err) {
+    console.error('Update job template error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── DELETE /api/templates/:id ──────────────────────────────────────────────
+// Estimates built from the template keep their copy and its reference.
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const result = await prisma.jobTemplate.deleteMany({
+      where: { id: req.params.id, organizationId },
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    broadcastToOrg(organizationId, 'templates:updated', { id: req.params.id, deleted: true });
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Delete job template error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function mapJobTemplate(item: {
+  id: string;
+  name: string;
+  description: string | null;
+  version: number;
+  data: unknown;
+  updatedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: item.id,
+    name: item.name,
+    description: item.description || undefined,
+    version: item.version,
+    data: item.data,
+    updatedBy: item.updatedBy,
+    createdAt: item.createdAt.toISOString(),
+    updatedAt: item.updatedAt.toISOString(),
+  };
+}
+
+export default router;
@@ -0,0 +1,524 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../utils/prisma.js';
+import { authRequired, adminOnly } from '../middleware/auth.js';
+import { broadcastToOrg } from '../websocket/index.js';
+import { getActorName } from '../utils/actor.js';
+import { crewScope } from '../utils/crews.js';
+import type { TokenPayload } from '../utils/jwt.js';
+import { PayrollSettings, TimeEntryKind } from '../../../types.js';
+import { addDays } from '../../../utils/schedule.js';
+import { approvedWeekFor, getPayrollSettings, jobHoursByEstimate, TIME_ENTRY_KINDS } from '../../../utils/timesheets.js';
+
+const router = Router();
+router.use(authRequired);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+const kind = z.enum(TIME_ENTRY_KINDS as [TimeEntryKind, ...TimeEntryKind[]]);
+
+const withUser = { user: { select: { username: true } } };
+
+// ─── GET /api/time/open — Who is clocked in, and on what ────────────────────
+
+router.get('/open', async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+    const people = await punchableUserIds(req.auth!);
+
+    const entries = await prisma.timeEntry.findMany({
+      where: { organizationId, clockOut: null, ...(people ? { userId: { in: people } } : {}) },
+      include: withUser,
+      orderBy: { clockIn: 'asc' },
+    });
+
+    res.json(entries.map(mapTimeEntry));
+  } catch (err) {
+    console.error('Fetch open time entries error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/time/punch — Clock in, or switch to other work ───────────────
+// Whatever the person was clocked in on ends now. A crew login can punch for
+// anyone on its crew, so one tablet on the rig can run the whole crew's clock.
+
+const punchSchema = z.object({
+  // Defaults to whoever is logged in
+  userId: z.string().optional(),
+  kind,
+  estimateId: z.string().optional(),
+  // The crew's local date, which the entry counts toward
+  workDate: isoDate,
+}).refine((p) => p.kind !== 'job' || !!p.estimateId, { message: 'Job time needs a work order', path: ['estimateId'] });
+
+router.post('/punch', async (req: Request, res: Response) => {
+  try {
+    const parsed = punchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const userId = parsed.data.userId || req.auth!.userId;
+    const estimateId = parsed.data.kind === 'job' ? parsed.data.estimateId! : null;
+
+    if (!(await canPunchFor(req.auth!, userId))) {
+      res.status(403).json({ error: 'The time clock needs a personal crew login for this person' });
+      return;
+    }
+
+    if (estimateId) {
+      const workOrder = await prisma.estimate.findFirst({
+        where: { id: estimateId, organizationId, status: 'WorkOrder', ...crewScope(req.auth!) },
+        select: { id: true },
+      });
+      if (!workOrder) {
+        res.status(404).json({ error: 'Work order not found' });
+        return;
+      }
+    }
+
+    const recordedBy = await getActorName(req.auth!);
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const open = await tx.timeEntry.findFirst({
+        where: { organizationId, userId, clockOut: null },
+        include: withUser,
+      });
+      // A retried punch from a flaky connection changes nothing
+      if (open && open.kind === parsed.data.kind && open.estimateId === estimateId) return open;
+
+      const now = new Date();
+      if (open) {
+        await tx.timeEntry.update({ where: { id: open.id }, data: { clockOut: now } });
+      }
+      return tx.timeEntry.create({
+        data: {
+          organizationId,
+          userId,
+          kind: parsed.data.kind,
+          estimateId,
+          workDate: parsed.data.workDate,
+          clockIn: now,
+          recordedBy,
+        },
+        include: withUser,
+      });
+    });
+
+    broadcastToOrg(organizationId, 'time:updated', { userId });
+
+    res.json(mapTimeEntry(entry));
+  } catch (err) {
+    console.error('Punch error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/time/clock-out — End the day ─────────────────────────────────
+
+const clockOutSchema = z.object({
+  userId: z.string().optional(),
+});
+
+router.post('/clock-out', async (req: Request, res: Response) => {
+  try {
+    const parsed = clockOutSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const userId = parsed.data.userId || req.auth!.userId;
+
+    if (!(await canPunchFor(req.auth!, userId))) {
+      res.status(403).json({ error: 'The time clock needs a personal crew login for this person' });
+      return;
+    }
+
+    const result = await prisma.timeEntry.updateMany({
+      where: { organizationId, userId, clockOut: null },
+      data: { clockOut: new Date() },
+    });
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Not clocked in' });
+      return;
+    }
+
+    broadcastToOrg(organizationId, 'time:updated', { userId });
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Clock out error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── GET /api/time/entries — Entries by work date, for timesheets ───────────
+
+const MAX_RANGE_DAYS = 92;
+
+const rangeSchema = z.object({
+  from: isoDate,
+  to: isoDate,
+}).refine((q) => q.from <= q.to, { message: '`to` must not be before `from`' })
+  .refine(
+    (q) => (Date.parse(q.to) - Date.parse(q.from)) / 86_400_000 < MAX_RANGE_DAYS,
+    { message: `The range can be at most ${MAX_RANGE_DAYS} days` },
+  );
+
+router.get('/entries', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const parsed = rangeSchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+
+    const entries = await prisma.timeEntry.findMany({
+      where: { organizationId, workDate: { gte: parsed.data.from, lte: parsed.data.to } },
+      include: withUser,
+      orderBy: { clockIn: 'asc' },
+    });
+
+    res.json(entries.map(mapTimeEntry));
+  } catch (err) {
+    console.error('Fetch time entries error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── POST /api/time/entries — Add time someone forgot to punch ──────────────
+
+const entrySchema = z.object({
+  userId: z.string(),
+  kind,
+  estimateId: z.string().nullable().optional(),
+  workDate: isoDate,
+  clockIn: z.string().datetime({ offset: true }),
+  clockOut: z.string().datetime({ offset: true }),
+  notes: z.string().max(500).optional(),
+});
+
+/** What checkEntry looks at. A corrected entry may still be clocked in. */
+type EntryToCheck = Pick<z.output<typeof entrySchema>, 'userId' | 'kind' | 'estimateId' | 'workDate' | 'clockIn'> & {
+  clockOut?: string;
+};
+
+router.post('/entries', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const parsed = entrySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const input = parsed.data;
+
+    const problem = await checkEntry(organizationId, input);
+    if (problem) {
+      res.status(problem.status).json({ error: problem.error });
+      return;
+    }
+
+    const entry = await prisma.timeEntry.create({
+      data: {
+        organizationId,
+        userId: input.userId,
+        kind: input.kind,
+        estimateId: input.kind === 'job' ? input.estimateId || null : null,
+        workDate: input.workDate,
+        clockIn: new Date(input.clockIn),
+        clockOut: new Date(input.clockOut),
+        notes: input.notes || '',
+        recordedBy: await getActorName(req.auth!),
+      },
+      include: withUser,
+    });
+
+    broadcastToOrg(organizationId, 'time:updated', { userId: entry.userId });
+
+    res.status(201).json(mapTimeEntry(entry));
+  } catch (err) {
+    console.error('Create time entry error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── PATCH /api/time/entries/:id — Correct an entry ─────────────────────────
+
+router.patch('/entries/:id', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const parsed = entrySchema.omit({ userId: true }).partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+
+    const existing = await prisma.timeEntry.findFirst({
+      where: { id: req.params.id, organizationId },
+    });
+    if (!existing) {
+      res.status(404).json({ error: 'Time entry not found' });
+      return;
+    }
+    if (existing.approvedAt) {
+      res.status(409).json({ error: 'This entry is on an approved timesheet. Reopen the week to change it.' });
+      return;
+    }
+
+    const merged = {
+      userId: existing.userId,
+      kind: parsed.data.kind || (existing.kind as TimeEntryKind),
+      estimateId: parsed.data.estimateId !== undefined ? parsed.data.estimateId : existing.estimateId,
+      workDate: parsed.data.workDate || existing.workDate,
+      clockIn: parsed.data.clockIn || existing.clockIn.toISOString(),
+      clockOut: parsed.data.clockOut || existing.clockOut?.toISOString(),
+    };
+    const problem = await checkEntry(organizationId, merged);
+    if (problem) {
+      res.status(problem.status).json({ error: problem.error });
+      return;
+    }
+
+    const entry = await prisma.timeEntry.update({
+      where: { id: existing.id },
+      data: {
+        kind: merged.kind,
+        estimateId: merged.kind === 'job' ? merged.estimateId || null : null,
+        workDate: merged.workDate,
+        clockIn: new Date(merged.clockIn),
+        ...(merged.clockOut ? { clockOut: new Date(merged.clockOut) } : {}),
+        ...(parsed.data.notes !== undefined ? { notes: parsed.data.notes } : {}),
+      },
+      include: withUser,
+    });
+
+    broadcastToOrg(organizationId, 'time:updated', { userId: entry.userId });
+
+    res.json(mapTimeEntry(entry));
+  } catch (err) {
+    console.error('Update time entry error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── DELETE /api/time/entries/:id ───────────────────────────────────────────
+
+router.delete('/entries/:id', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.auth!;
+
+    const result = await prisma.timeEntry.deleteMany({
+      where: { id: req.params.id, organizationId, approvedAt: null },
+    });
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Time entry not found, or on an approved timesheet' });
+      return;
+    }
+
+    broadcastToOrg(organizationId, 'time:updated', {});
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Delete time entry error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ─── PATCH /api/time/weeks/:weekStart — Approve or reopen a timesheet ───────
+// Approved job time becomes the labor hours of the work orders it was on.
+
+const approvalSchema = z.object({
+  userId: z.string(),
+  approved: z.boolean(),
+});
+
+router.patch('/weeks/:weekStart', adminOnly, async (req: Request, res: Response) => {
+  try {
+    const weekStart = isoDate.safeParse(req.params.weekStart);
+    const parsed = approvalSchema.safeParse(req.body);
+    if (!weekStart.success || !parsed.success) {
+      res.status(400).json({ error: 'Invalid input', details: parsed.success ? undefined : parsed.error.flatten() });
+      return;
+    }
+
+    const { organizationId } = req.auth!;
+    const { userId, approved } = parsed.data;
+    const week = { organizationId, userId, workDate: { gte: weekStart.data, lte: addDays(weekStart.data, 6) } };
+
+    const entries = await prisma.timeEntry.findMany({
+      where: week,
+      include: withUser,
+    });
+    if (entries.length === 0) {
+      res.status(404).json({ error: 'No time recorded that week' });
+      return;
+    }
+    if (approved && entries.some((entry) => !entry.clockOut)) {
+      res.status(409).json({ error: `${entries[0].user.username} is still clocked in` });
+      return;
+    }
+
+    await prisma.timeEntry.updateMany({
+      where: week,
+      data: approved
+        ? { approvedAt: new Date(), approvedBy: await getActorName(req.auth!) }
+        : { approvedAt: null, approvedBy: null },
+    });
+
+    const jobs = [...new Set<string>(entries.map((entry) => entry.estimateId).filter((id): id is string => !!id))];
+    await syncApprovedLabor(organizationId, jobs);
+
+    broadcastToOrg(organizationId, 'time:updated', { userId });
+    jobs.forEach((id) => broadcastToOrg(organizationId, 'estimate:updated', { id }));
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Approve timesheet error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Whose time a login can punch: everyone for admins, the crew's active
+ * members for a crew login on a crew, and just themselves otherwise. The
+ * shared crew PIN has nobody behind it, so it can't punch at all.
+ */
+async function punchableUserIds(auth: TokenPayload): Promise<string[] | undefined> {
+  if (auth.role === 'admin') return undefined;
+  if (!auth.crewId) {
+    const self = await prisma.user.findFirst({
+      where: { id: auth.userId, organizationId: auth.organizationId },
+      select: { id: true },
+    });
+    return self ? [self.id] : [];
+  }
+
+  const crewmates = await prisma.user.findMany({
+    where: { organizationId: auth.organizationId, role: 'crew', crewId: auth.crewId, active: true },
+    select: { id: true },
+  });
+  return crewmates.map((user) => user.id);
+}
+
+async function canPunchFor(auth: TokenPayload, userId: string): Promise<boolean> {
+  const people = await punchableUserIds(auth);
+  if (people) return people.includes(userId);
+  const user = await prisma.user.findFirst({
+    where: { id: userId, organizationId: auth.organizationId },
+    select: { id: true },
+  });
+  return !!user;
+}
+
+/** Why an entry entered by the office can't be saved, or null. */
+async function checkEntry(
+  organizationId: string,
+  entry: EntryToCheck,
+): Promise<{ status: number; error: string } | null> {
+  if (entry.clockOut && Date.parse(entry.clockOut) <= Date.parse(entry.clockIn)) {
+    return { status: 400, error: 'Clock-out has to be after clock-in' };
+  }
+  if (entry.kind === 'job' && !entry.estimateId) {
+    return { status: 400, error: 'Job time needs a work order' };
+  }
+
+  const user = await prisma.user.findFirst({ where: { id: entry.userId, organizationId }, select: { id: true } });
+  if (!user) return { status: 404, error: 'Person not found' };
+
+  if (entry.kind === 'job') {
+    const estimate = await prisma.estimate.findFirst({ where: { id: entry.estimateId!, organizationId }, select: { id: true } });
+    if (!estimate) return { status: 404, error: 'Work order not found' };
+  }
+
+  // Time can't be added to, or moved into, a week that is already approved
+  const [org, approved] = await Promise.all([
+    prisma.organization.findUnique({ where: { id: organizationId }, select: { payroll: true } }),
+    prisma.timeEntry.findMany({
+      where: {
+        organizationId,
+        userId: entry.userId,
+        approvedAt: { not: null },
+        workDate: { gte: addDays(entry.workDate, -6), lte: addDays(entry.workDate, 6) },
+      },
+      select: { workDate: true, approvedAt: true },
+    }),
+  ]);
+  const approvedWeek = approvedWeekFor(
+    entry.workDate,
+    approved.map((row) => ({ workDate: row.workDate, approvedAt: row.approvedAt?.toISOString() })),
+    getPayrollSettings(org?.payroll as Partial<PayrollSettings>),
+  );
+  if (approvedWeek) {
+    return { status: 409, error: `The week of ${approvedWeek} is approved. Reopen it to add time to it.` };
+  }
+  return null;
+}
+
+/**
+ * Store each job's approved hours on its actuals. A job with no approved time
+ * left goes back to the hours the crew reported. Paid jobs are closed out, so
+ * their actuals and profit stay as they were when the payment came in.
+ */
+async function syncApprovedLabor(organizationId: string, estimateIds: string[]): Promise<void> {
+  if (estimateIds.length === 0) return;
+
+  for (const estimateId of estimateIds) {
+    const estimate = await prisma.estimate.findFirst({ where: { id: estimateId, organizationId } });
+    if (!estimate || estimate.status === 'Paid') continue;
+
+    const approved = await prisma.timeEntry.findMany({
+      where: { organizationId, estimateId, kind: 'job', approvedAt: { not: null } },
+      select: { kind: true, estimateId: true, clockIn: true, clockOut: true },
+    });
+    const hours = jobHoursByEstimate(approved.map((entry) => ({
+      kind: entry.kind as TimeEntryKind,
+      estimateId: entry.estimateId || undefined,
+      clockIn: entry.clockIn.toISOString(),
+      clockOut: entry.clockOut?.toISOString(),
+    })))[estimateId];
+
+    const { approvedLaborHours: _previous, ...actuals } = (estimate.actuals || {}) as Record<string, unknown>;
+    if (hours !== undefined) actuals.approvedLaborHours = hours;
+
+    await prisma.estimate.update({ where: { id: estimateId }, data: { actuals: actuals as any } });
+  }
+}
+
+function mapTimeEntry(item: {
+  id: string;
+  userId: string;
+  kind: string;
+  estimateId: string | null;
+  workDate: string;
+  clockIn: Date;
+  clockOut: Date | null;
+  notes: string;
+  approvedAt: Date | null;
+  approvedBy: string | null;
+  user: { username: string };
+}) {
+  return {
+    id: item.id,
+    userId: item.userId,
+    userName: item.user.username,
+    kind: item.kind,
+    estimateId: item.estimateId || undefined,
+    workDate: item.workDate,
+    clockIn: item.clockIn.toISOString(),
+    clockOut: item.clockOut?.toISOString(),
+    notes: item.notes || undefined,
+    approvedAt: item.approvedAt?.toISOString(),
+    approvedBy: item.approvedBy || undefined,
+  };
+}
+
+export default router;
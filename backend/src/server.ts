@@ -5,6 +5,7 @@ import rateLimit from 'express-rate-limit';
 import { createServer } from 'http';
 import { prisma } from './utils/prisma.js';
 import { initWebSocket } from './websocket/index.js';
+import { startReminderScheduler } from './utils/reminders.js';
 
 // Route imports
 import authRoutes from './routes/auth.js';
@@ -16,6 +17,11 @@ import equipmentRoutes from './routes/equipment.js';
 import materialRoutes from './routes/materials.js';
 import maintenanceRoutes from './routes/maintenance.js';
 import messageRoutes from './routes/messages.js';
+import receivablesRoutes from './routes/receivables.js';
+import templateRoutes from './routes/templates.js';
+import scheduleRoutes from './routes/schedule.js';
+import crewRoutes from './routes/crews.js';
+import timeRoutes from './routes/time.js';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '3001', 10);
@@ -53,6 +59,11 @@ app.use('/api/equipment', equipmentRoutes);
 app.use('/api/materials', materialRoutes);
 app.use('/api/maintenance', maintenanceRoutes);
 app.use('/api/messages', messageRoutes);
+app.use('/api/receivables', receivablesRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/schedule', scheduleRoutes);
+app.use('/api/crews', crewRoutes);
+app.use('/api/time', timeRoutes);
 
 // Health check
 app.get('/api/health', (_req, res) => {
@@ -88,6 +99,8 @@ async function start() {
       console.log(`✓ WebSocket server running on ws://localhost:${PORT}/ws`);
       console.log(`✓ Environment: ${process.env.NODE_ENV || 'development'}`);
     });
+
+    startReminderScheduler();
   } catch (err) {
     console.error('Failed to start server:', err);
     process.exit(1);
@@ -0,0 +1,9 @@
+import { prisma } from './prisma.js';
+import type { TokenPayload } from './jwt.js';
+
+/** Display name of whoever made the request: the crew name, or the user's username. */
+export async function getActorName(auth: TokenPayload): Promise<string> {
+  if (auth.crewName) return auth.crewName;
+  const user = await prisma.user.findUnique({ where: { id: auth.userId }, select: { username: true } });
+  return user?.username || '';
+}
@@ -0,0 +1,59 @@
+import { prisma } from './prisma.js';
+import type { TokenPayload } from './jwt.js';
+
+/**
+ * Extra `where` for estimate queries made with a crew token: a crew login
+ * only reaches its own crew's work orders, and a personal login on no crew
+ * reaches none. Admins, and the shared login of an org without crews, are
+ * not narrowed.
+ */
+export function crewScope(auth: TokenPayload): { crewId?: string; id?: { in: string[] } } {
+  if (auth.role !== 'crew' || auth.userId === sharedCrewUserId(auth.organizationId)) return {};
+  return auth.crewId ? { crewId: auth.crewId } : { id: { in: [] } };
+}
+
+/** Whether the crew is one of the org's, for requests that assign work to it. */
+export async function isOrgCrew(organizationId: string, crewId: string): Promise<boolean> {
+  const crew = await prisma.crew.findFirst({ where: { id: crewId, organizationId }, select: { id: true } });
+  return !!crew;
+}
+
+/** User id carried by logins made with the org's shared crew PIN. */
+export const sharedCrewUserId = (organizationId: string) => `crew-${organizationId}`;
+
+/**
+ * Whether crew logins need a personal account. The shared crew PIN only
+ * works until the org sets up its first crew or crew account.
+ */
+export async function requiresCrewAccounts(organizationId: string): Promise<boolean> {
+  const [crews, accounts] = await Promise.all([
+    prisma.crew.count({ where: { organizationId } }),
+    prisma.user.count({ where: { organizationId, role: 'crew' } }),
+  ]);
+  return crews + accounts > 0;
+}
+
+/** The org's crew account with this name, active or not. Names are unique per org, ignoring case. */
+export function findCrewAccount(organizationId: string, name: string) {
+  return prisma.user.findFirst({
+    where: { organizationId, role: 'crew', username: { equals: name.trim(), mode: 'insensitive' } },
+  });
+}
+
+/**
+ * A crew token brought up to date, or null once it no longer grants access.
+ * A personal login follows its account, so deactivating someone or moving
+ * them to another crew applies from their next request.
+ */
+export async function currentCrewLogin(auth: TokenPayload): Promise<TokenPayload | null> {
+  if (auth.userId === sharedCrewUserId(auth.organizationId)) {
+    return (await requiresCrewAccounts(auth.organizationId)) ? null : auth;
+  }
+
+  const account = await prisma.user.findFirst({
+    where: { id: auth.userId, organizationId: auth.organizationId, role: 'crew', active: true },
+    select: { username: true, crewId: true },
+  });
+  if (!account) return null;
+  return { ...auth, crewName: account.username, crewId: account.crewId || undefined };
+}
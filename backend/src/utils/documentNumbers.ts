@@ -0,0 +1,59 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { DocumentNumberKind } from '../../../types.js';
+import { formatSequenceNumber, getDocumentNumbering } from '../../../utils/documentNumbers.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** The estimate column each kind of number is kept in. */
+export const NUMBER_FIELDS: Record<DocumentNumberKind, 'estimateNumber' | 'workOrderNumber' | 'invoiceNumber'> = {
+  estimate: 'estimateNumber',
+  workOrder: 'workOrderNumber',
+  invoice: 'invoiceNumber',
+};
+
+/**
+ * Hands out the org's next number for a document kind and records it.
+ * Call it inside the transaction that saves the number on the estimate:
+ * the counter row stays locked until commit, and a failed save rolls the
+ * counter back, so the sequence has no gaps.
+ */
+export async function allocateDocumentNumber(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  kind: DocumentNumberKind,
+  estimateId: string,
+): Promise<string> {
+  const org = await tx.organization.findUnique({
+    where: { id: organizationId },
+    select: { documentNumbering: true },
+  });
+  const format = getDocumentNumbering(org?.documentNumbering as any)[kind];
+  const year = format.includeYear ? new Date().getUTCFullYear() : 0;
+
+  const [counter] = await tx.$queryRaw<{ last_value: number }[]>`
+    INSERT INTO document_counters (organization_id, kind, year, last_value)
+    VALUES (${organizationId}, ${kind}, ${year}, 1)
+    ON CONFLICT (organization_id, kind, year)
+    DO UPDATE SET last_value = document_counters.last_value + 1
+    RETURNING last_value`;
+
+  const number = formatSequenceNumber(format, counter.last_value, year);
+  await tx.documentNumber.create({
+    data: { organizationId, kind, number, sequence: counter.last_value, year, estimateId },
+  });
+  return number;
+}
+
+/** Marks an estimate's numbers void. They stay on record and are never reissued. */
+export async function voidDocumentNumbers(
+  db: Db,
+  organizationId: string,
+  estimateId: string,
+  reason: string,
+): Promise<void> {
+  await db.documentNumber.updateMany({
+    where: { organizationId, estimateId, voidedAt: null },
+    data: { voidedAt: new Date(), voidReason: reason },
+  });
+}
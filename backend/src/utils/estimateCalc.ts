@@ -0,0 +1,147 @@
+import { prisma } from './prisma.js';
+import {
+  CalculationMismatch,
+  CalculationResults,
+  CalculatorState,
+  EstimateOption,
+  EstimateRecord,
+  FoamProduct,
+  FoamType,
+  InvoiceLineItem,
+  ProductionRates,
+  TaxJurisdiction,
+  YieldDerateCurve,
+} from '../../../types.js';
+import { calculateResults } from '../../../utils/calculatorHelpers.js';
+import { calculateOptionResults } from '../../../utils/estimateOptions.js';
+import { getProductionRates } from '../../../utils/laborEstimate.js';
+import { getBilledSalesTax, getTaxJurisdiction } from '../../../utils/salesTax.js';
+
+// Stored results are rounded to the hundredth; anything closer than this is the same number
+const ROUNDING_TOLERANCE = 0.01;
+
+// Figures a stale or buggy client could get wrong that the rest of the app relies on
+const CHECKED_FIELDS = [
+  'totalWallArea',
+  'totalRoofArea',
+  'totalOpenCellBdFt',
+  'totalClosedCellBdFt',
+  'openCellSets',
+  'closedCellSets',
+  'materialCost',
+  'laborCost',
+  'miscExpenses',
+  'totalCost',
+] as const;
+
+export type OrgCalcSettings = Pick<CalculatorState, 'yields' | 'costs' | 'productionRates' | 'taxJurisdictions' | 'foamProducts'>;
+
+/** The org settings and catalog an estimate is priced against. */
+export async function loadOrgCalcSettings(organizationId: string): Promise<OrgCalcSettings | null> {
+  const org = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    include: { foamProducts: true },
+  });
+  if (!org) return null;
+
+  return {
+    yields: org.yields as unknown as CalculatorState['yields'],
+    costs: org.costs as unknown as CalculatorState['costs'],
+    productionRates: getProductionRates(org.productionRates as Partial<ProductionRates>),
+    taxJurisdictions: (org.taxJurisdictions as unknown as TaxJurisdiction[]) || [],
+    foamProducts: org.foamProducts.map((p): FoamProduct => ({
+      id: p.id,
+      name: p.name,
+      manufacturer: p.manufacturer,
+      foamType: p.foamType as FoamType,
+      yield: p.yield,
+      costPerSet: p.costPerSet,
+      strokesPerSet: p.strokesPerSet,
+      rPerInch: p.rPerInch,
+      active: p.active,
+      derateCurve: (p.derateCurve as unknown as YieldDerateCurve) || undefined,
+    })),
+  };
+}
+
+// The client's results are only compared, so any of them may be missing
+export type EstimateCalcInput = Pick<
+  EstimateRecord,
+  'inputs' | 'wallSettings' | 'roofSettings' | 'expenses' | 'totalValue'
+  | 'options' | 'pricingMode' | 'marginTargets' | 'sqFtRates' | 'taxJurisdictionId'
+  | 'estimateLines' | 'invoiceLines'
+> & {
+  results?: Partial<CalculationResults>;
+  materials: Pick<EstimateRecord['materials'], 'inventory' | 'products'>;
+};
+
+/**
+ * Rebuilds the calculator state a saved estimate was priced from. Only the
+ * fields `calculateResults` reads are filled in.
+ */
+function toCalculatorState(estimate: EstimateCalcInput, org: OrgCalcSettings): CalculatorState {
+  return {
+    ...estimate.inputs,
+    additionalAreas: estimate.inputs.additionalAreas || [],
+    takeoffLines: estimate.inputs.takeoffLines || [],
+    openings: estimate.inputs.openings || [],
+    jobConditions: estimate.inputs.jobConditions || {},
+    wallSettings: estimate.wallSettings,
+    roofSettings: estimate.roofSettings,
+    expenses: estimate.expenses,
+    inventory: estimate.materials.inventory || [],
+    lockedProducts: estimate.materials.products || [],
+    pricingMode: estimate.pricingMode || 'level_pricing',
+    sqFtRates: estimate.sqFtRates || { wall: 0, roof: 0 },
+    marginTargets: estimate.marginTargets,
+    // Saved jobs always carry their pinned jurisdiction; missing means untaxed
+    taxJurisdictionId: estimate.taxJurisdictionId ?? '',
+    ...org,
+  } as CalculatorState;
+}
+
+export interface EstimateRecalculation {
+  results: CalculationResults;
+  // What the job is worth: the billed lines' total, or the calculated price without any
+  totalValue: number;
+  options?: EstimateOption[];
+  salesTax: EstimateRecord['salesTax'];
+  mismatches: CalculationMismatch[];
+}
+
+/**
+ * Recomputes an estimate's results (and each option's) with the shared
+ * engine, and lists the client figures that differ beyond rounding. The
+ * saved value is checked against the latest document's lines when there are
+ * any, since those are what the customer sees.
+ */
+export function recalculateEstimate(estimate: EstimateCalcInput, org: OrgCalcSettings): EstimateRecalculation {
+  const state = toCalculatorState(estimate, org);
+  const results = calculateResults(state);
+  const mismatches: CalculationMismatch[] = [];
+
+  const check = (field: string, client: unknown, server: number) => {
+    if (typeof client !== 'number') return;
+    if (Math.abs(client - server) > ROUNDING_TOLERANCE) mismatches.push({ field, client, server });
+  };
+
+  const clientResults = estimate.results || {};
+  CHECKED_FIELDS.forEach(field => check(`results.${field}`, clientResults[field], results[field]));
+
+  const billedLines: InvoiceLineItem[] | undefined =
+    estimate.invoiceLines?.length ? estimate.invoiceLines : estimate.estimateLines;
+  const totalValue = billedLines?.length
+    ? Math.round(billedLines.reduce((sum, l) => sum + (Number(l.amount) || 0), 0) * 100) / 100
+    : results.totalCost;
+  check('totalValue', estimate.totalValue, totalValue);
+
+  const jurisdiction = getTaxJurisdiction(org.taxJurisdictions, state.taxJurisdictionId);
+
+  return {
+    results,
+    totalValue,
+    options: estimate.options?.map(option => ({ ...option, results: calculateOptionResults(state, option) })),
+    salesTax: getBilledSalesTax(billedLines, jurisdiction, results.salesTax),
+    mismatches,
+  };
+}
@@ -0,0 +1,56 @@
+import { prisma } from './prisma.js';
+import { getActorName } from './actor.js';
+import type { TokenPayload } from './jwt.js';
+import { EstimateStatusChange } from '../../../types.js';
+import { EstimateStatus, ExecutionStatus, LifecycleState } from '../../../utils/estimateLifecycle.js';
+
+type StatusChangeRow = {
+  id: string;
+  estimateId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  fromExecutionStatus: string | null;
+  toExecutionStatus: string | null;
+  userName: string;
+  createdAt: Date;
+};
+
+export function toStatusChangeResponse(c: StatusChangeRow): EstimateStatusChange {
+  return {
+    id: c.id,
+    estimateId: c.estimateId,
+    fromStatus: (c.fromStatus || undefined) as EstimateStatus | undefined,
+    toStatus: c.toStatus as EstimateStatus,
+    fromExecutionStatus: (c.fromExecutionStatus || undefined) as ExecutionStatus | undefined,
+    toExecutionStatus: (c.toExecutionStatus || undefined) as ExecutionStatus | undefined,
+    userName: c.userName,
+    createdAt: c.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Appends a history entry for a lifecycle move. `from` is omitted for a
+ * newly created estimate. Does nothing when neither status changed.
+ */
+export async function recordStatusChange(
+  auth: TokenPayload,
+  estimateId: string,
+  from: LifecycleState | null,
+  to: LifecycleState,
+): Promise<void> {
+  const executionChanged = from?.executionStatus !== to.executionStatus;
+  if (from && from.status === to.status && !executionChanged) return;
+
+  await prisma.estimateStatusChange.create({
+    data: {
+      organizationId: auth.organizationId,
+      estimateId,
+      fromStatus: from?.status,
+      toStatus: to.status,
+      fromExecutionStatus: executionChanged ? from?.executionStatus : undefined,
+      toExecutionStatus: executionChanged ? to.executionStatus : undefined,
+      userId: auth.userId,
+      userName: await getActorName(auth),
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { PaidFinancialsInput } from '../../../utils/jobFinancials.js';
+
+type PaidFinancialsRow = {
+  totalValue: number;
+  materials: unknown;
+  expenses: unknown;
+  financials: unknown;
+  salesTax: unknown;
+  actuals: unknown;
+};
+
+/** A stored job, read for working out its paid P&L. */
+export function toPaidFinancialsInput(row: PaidFinancialsRow): PaidFinancialsInput {
+  return {
+    totalValue: row.totalValue,
+    materials: (row.materials || undefined) as PaidFinancialsInput['materials'],
+    expenses: (row.expenses || undefined) as PaidFinancialsInput['expenses'],
+    financials: (row.financials || undefined) as PaidFinancialsInput['financials'],
+    salesTax: (row.salesTax || undefined) as PaidFinancialsInput['salesTax'],
+    actuals: (row.actuals || undefined) as PaidFinancialsInput['actuals'],
+  };
+}
@@ -0,0 +1,70 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { JobConditions, JobSession } from '../../../types.js';
+import { applySessionTotals } from '../../../utils/jobSessions.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+type JobSessionRow = {
+  id: string;
+  estimateId: string;
+  crewId: string | null;
+  crewName: string;
+  workDate: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  startedBy: string;
+  endedBy: string | null;
+  openCellSets: number;
+  closedCellSets: number;
+  openCellStrokes: number;
+  closedCellStrokes: number;
+  laborHours: number | null;
+  conditions: unknown;
+  notes: string;
+};
+
+/** `include` for estimate queries that return the job's sessions. */
+export const sessionsInclude = { orderBy: { startedAt: 'asc' as const } };
+
+export function toJobSessionResponse(s: JobSessionRow): JobSession {
+  return {
+    id: s.id,
+    estimateId: s.estimateId,
+    crewId: s.crewId || undefined,
+    crewName: s.crewName || undefined,
+    workDate: s.workDate,
+    startedAt: s.startedAt.toISOString(),
+    endedAt: s.endedAt ? s.endedAt.toISOString() : undefined,
+    startedBy: s.startedBy,
+    endedBy: s.endedBy || undefined,
+    openCellSets: s.openCellSets,
+    closedCellSets: s.closedCellSets,
+    openCellStrokes: s.openCellStrokes,
+    closedCellStrokes: s.closedCellStrokes,
+    laborHours: s.laborHours ?? undefined,
+    conditions: (s.conditions || {}) as JobConditions,
+    notes: s.notes || undefined,
+  };
+}
+
+/** The job's actuals with its sessions' totals written over them. */
+export async function withSessionTotals(
+  db: Db,
+  estimateId: string,
+  actuals: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const sessions = await db.jobSession.findMany({ where: { estimateId }, ...sessionsInclude });
+  return applySessionTotals(actuals, sessions.map(toJobSessionResponse));
+}
+
+/** Recount the job's actuals after one of its sessions changed. */
+export async function syncSessionTotals(db: Db, organizationId: string, estimateId: string): Promise<void> {
+  const estimate = await db.estimate.findFirst({ where: { id: estimateId, organizationId }, select: { actuals: true } });
+  if (!estimate) return;
+  const actuals = await withSessionTotals(db, estimateId, (estimate.actuals || {}) as Record<string, unknown>);
+  await db.estimate.update({
+    where: { id: estimateId },
+    data: { actuals: actuals as any, lastModified: new Date() },
+  });
+}
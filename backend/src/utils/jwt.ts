@@ -8,6 +8,8 @@ export interface TokenPayload {
   organizationId: string;
   role: 'admin' | 'crew';
   crewName?: string;
+  // Crew logins in an org with crews: the crew they belong to
+  crewId?: string;
 }
 
 export function signAccessToken(payload: TokenPayload): string {
@@ -0,0 +1,122 @@
+import { prisma } from './prisma.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  replyTo?: string;
+}
+
+/** Delivers one message; throws when it couldn't be handed off. */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Selected with MAIL_TRANSPORT. Others can be added with registerMailTransport.
+const transports: Record<string, MailTransport> = {
+  // Writes messages to the server log instead of sending them; the default
+  log: {
+    async send(message) {
+      console.log(`[mail] To: ${message.to} | ${message.subject}\n${message.text}`);
+    },
+  },
+  // Posts each message as JSON to MAIL_WEBHOOK_URL, e.g. a relay in front of a mail provider
+  webhook: {
+    async send(message) {
+      const url = process.env.MAIL_WEBHOOK_URL;
+      if (!url) throw new Error('MAIL_WEBHOOK_URL is not set');
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.MAIL_WEBHOOK_SECRET ? { Authorization: `Bearer ${process.env.MAIL_WEBHOOK_SECRET}` } : {}),
+        },
+        body: JSON.stringify(message),
+      });
+      if (!res.ok) throw new Error(`Mail webhook responded ${res.status}`);
+    },
+  },
+};
+
+export function registerMailTransport(name: string, transport: MailTransport): void {
+  transports[name] = transport;
+}
+
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || 'log';
+  const transport = transports[name];
+  if (!transport) throw new Error(`Unknown mail transport "${name}"`);
+  return transport;
+}
+
+const MAX_ATTEMPTS = 5;
+
+// A send that hasn't finished in this long won't; the server died or restarted mid-run
+const STALE_CLAIM_MS = 15 * 60 * 1000;
+
+/**
+ * Sends queued emails through the configured transport, oldest first, for
+ * every org or just `organizationId`. A failed send goes back in the queue
+ * until it has been tried MAX_ATTEMPTS times. Returns how many were sent.
+ */
+export async function deliverQueuedEmails(organizationId?: string, limit = 50): Promise<number> {
+  const transport = getMailTransport();
+  const queued = await prisma.outboundEmail.findMany({
+    where: { status: 'queued', ...(organizationId ? { organizationId } : {}) },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  });
+
+  let sent = 0;
+  for (const email of queued) {
+    // Claim it first so another server instance doesn't send it too
+    const claimed = await prisma.outboundEmail.updateMany({
+      where: { id: email.id, status: 'queued' },
+      data: { status: 'sending', claimedAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+
+    try {
+      await transport.send({
+        to: email.to,
+        subject: email.subject,
+        text: email.body,
+        replyTo: email.replyTo || undefined,
+      });
+      await prisma.outboundEmail.update({
+        where: { id: email.id },
+        data: { status: 'sent', sentAt: new Date(), attempts: email.attempts + 1, lastError: null },
+      });
+      sent++;
+    } catch (err) {
+      const attempts = email.attempts + 1;
+      await prisma.outboundEmail.update({
+        where: { id: email.id },
+        data: {
+          status: attempts >= MAX_ATTEMPTS ? 'failed' : 'queued',
+          attempts,
+          lastError: (err as Error).message,
+        },
+      });
+    }
+  }
+  return sent;
+}
+
+/**
+ * Puts emails back in the queue that a delivery run claimed but never
+ * finished. They may have gone out before the run stopped, so a customer can
+ * occasionally get one twice. Returns how many were requeued.
+ */
+export async function requeueStaleEmails(): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS);
+  const requeued = await prisma.outboundEmail.updateMany({
+    where: {
+      status: 'sending',
+      // Rows claimed before claimedAt was recorded have none
+      OR: [{ claimedAt: { lt: staleBefore } }, { claimedAt: null }],
+    },
+    data: { status: 'queued', claimedAt: null, lastError: 'Delivery was interrupted' },
+  });
+  return requeued.count;
+}
@@ -0,0 +1,48 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { Payment, PaymentMethod, SalesTaxSummary } from '../../../types.js';
+import { balanceDue } from '../../../utils/payments.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+type PaymentRow = {
+  id: string;
+  estimateId: string;
+  kind: string;
+  amount: number;
+  date: string;
+  method: string;
+  reference: string | null;
+  recordedBy: string;
+  createdAt: Date;
+};
+
+export function toPaymentResponse(p: PaymentRow): Payment {
+  return {
+    id: p.id,
+    estimateId: p.estimateId,
+    kind: p.kind as Payment['kind'],
+    amount: p.amount,
+    date: p.date,
+    method: p.method as PaymentMethod,
+    reference: p.reference || undefined,
+    recordedBy: p.recordedBy,
+    createdAt: p.createdAt.toISOString(),
+  };
+}
+
+/** What is still owed on an estimate's totals, less the payments on record. */
+export async function getBalanceDue(
+  db: Db,
+  estimate: { id: string; totalValue?: number | null; salesTax?: unknown },
+): Promise<number> {
+  const payments = await db.payment.findMany({
+    where: { estimateId: estimate.id },
+    select: { amount: true },
+  });
+  return balanceDue({
+    totalValue: estimate.totalValue || 0,
+    salesTax: (estimate.salesTax || undefined) as SalesTaxSummary | undefined,
+    payments: payments as Payment[],
+  });
+}
@@ -0,0 +1,105 @@
+import { prisma } from './prisma.js';
+import { deliverQueuedEmails, requeueStaleEmails } from './mail.js';
+import { toPaymentResponse } from './payments.js';
+import { EstimateRecord } from '../../../types.js';
+import {
+  dueReminderStep,
+  fillReminderTemplate,
+  getOpenInvoices,
+  getReceivablesSettings,
+} from '../../../utils/receivables.js';
+
+const formatMoney = (val: number) => `$${val.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Queues the reminder each overdue invoice has reached in its org's
+ * schedule. Invoices whose customer has no email address are skipped, and
+ * a step already queued for an invoice is never queued again. Runs for
+ * every org with reminders on, or just `organizationId`. Returns how many
+ * were queued.
+ */
+export async function queueOverdueReminders(organizationId?: string): Promise<number> {
+  const asOf = new Date().toISOString().split('T')[0];
+  const orgs = await prisma.organization.findMany({
+    where: organizationId ? { id: organizationId } : {},
+    select: {
+      id: true,
+      companyName: true,
+      receivables: true,
+      profile: { select: { companyName: true, email: true } },
+    },
+  });
+
+  let queued = 0;
+  for (const org of orgs) {
+    const settings = getReceivablesSettings(org.receivables as any);
+    if (!settings.remindersEnabled || settings.reminderSteps.length === 0) continue;
+
+    const estimates = await prisma.estimate.findMany({
+      where: { organizationId: org.id, status: 'Invoiced' },
+      include: { customer: true, payments: true },
+    });
+    const records = estimates.map(e => ({
+      ...e,
+      status: 'Invoiced',
+      payments: e.payments.map(toPaymentResponse),
+    })) as unknown as EstimateRecord[];
+
+    const companyName = org.profile?.companyName || org.companyName;
+    const data = [];
+    for (const invoice of getOpenInvoices(records, asOf, settings.lateFee)) {
+      const { record } = invoice;
+      const step = invoice.daysOverdue > 0 ? dueReminderStep(settings.reminderSteps, invoice.daysOverdue) : undefined;
+      if (!step || !record.customer?.email) continue;
+
+      const values = {
+        customer: record.customer.name,
+        invoiceNumber: record.invoiceNumber || record.id.substring(0, 8).toUpperCase(),
+        balance: formatMoney(invoice.balance),
+        dueDate: invoice.dueDate,
+        daysOverdue: String(invoice.daysOverdue),
+        lateFee: formatMoney(invoice.lateFee),
+        companyName,
+      };
+      data.push({
+        organizationId: org.id,
+        kind: 'overdue_reminder',
+        estimateId: record.id,
+        customerId: record.customerId,
+        reminderStepId: step.id,
+        to: record.customer.email,
+        replyTo: org.profile?.email || null,
+        subject: fillReminderTemplate(step.subject, values),
+        body: fillReminderTemplate(step.message, values),
+      });
+    }
+
+    if (data.length > 0) {
+      const result = await prisma.outboundEmail.createMany({ data, skipDuplicates: true });
+      queued += result.count;
+    }
+  }
+  return queued;
+}
+
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Queues and sends overdue reminders now and then hourly, first putting back
+ * any email an interrupted run left half-sent.
+ */
+export function startReminderScheduler(): void {
+  const run = async () => {
+    try {
+      const requeued = await requeueStaleEmails();
+      if (requeued > 0) console.warn(`Reminders: ${requeued} interrupted emails requeued`);
+      const queued = await queueOverdueReminders();
+      const sent = await deliverQueuedEmails();
+      if (queued > 0 || sent > 0) console.log(`✓ Reminders: ${queued} queued, ${sent} sent`);
+    } catch (err) {
+      console.error('Reminder run error:', err);
+    }
+  };
+  run();
+  setInterval(run, REMINDER_INTERVAL_MS).unref();
+}
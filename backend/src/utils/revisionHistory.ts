@@ -0,0 +1,61 @@
+import { prisma } from './prisma.js';
+import { getActorName } from './actor.js';
+import type { TokenPayload } from './jwt.js';
+import { EstimateRecord, EstimateRevision, EstimateRevisionSnapshot } from '../../../types.js';
+import { buildRevisionSnapshot, isSameSnapshot } from '../../../utils/estimateRevisions.js';
+
+type RevisionRow = {
+  id: string;
+  estimateId: string;
+  revisionNumber: number;
+  authorName: string;
+  note: string | null;
+  createdAt: Date;
+  snapshot: unknown;
+};
+
+export function toRevisionResponse(r: RevisionRow): EstimateRevision {
+  return {
+    id: r.id,
+    estimateId: r.estimateId,
+    revisionNumber: r.revisionNumber,
+    authorName: r.authorName,
+    note: r.note || undefined,
+    createdAt: r.createdAt.toISOString(),
+    snapshot: r.snapshot as EstimateRevisionSnapshot,
+  };
+}
+
+/**
+ * Appends a revision holding the estimate as just saved. A save that
+ * changed nothing (auto-saves, re-sends after a rename) adds no revision
+ * unless it carries a note. Returns the new revision, or null if skipped.
+ */
+export async function recordEstimateRevision(
+  auth: TokenPayload,
+  estimate: Partial<EstimateRecord> & { id: string },
+  note?: string,
+): Promise<EstimateRevision | null> {
+  const snapshot = buildRevisionSnapshot(estimate);
+
+  const latest = await prisma.estimateRevision.findFirst({
+    where: { estimateId: estimate.id, organizationId: auth.organizationId },
+    orderBy: { revisionNumber: 'desc' },
+  });
+  if (latest && !note && isSameSnapshot(latest.snapshot as unknown as EstimateRevisionSnapshot, snapshot)) {
+    return null;
+  }
+
+  const revision = await prisma.estimateRevision.create({
+    data: {
+      organizationId: auth.organizationId,
+      estimateId: estimate.id,
+      revisionNumber: (latest?.revisionNumber || 0) + 1,
+      authorId: auth.userId,
+      authorName: await getActorName(auth),
+      note,
+      snapshot: snapshot as any,
+    },
+  });
+  return toRevisionResponse(revision);
+}
@@ -1,6 +1,7 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import { IncomingMessage } from 'http';
 import { verifyAccessToken, type TokenPayload } from '../utils/jwt.js';
+import { sharedCrewUserId } from '../utils/crews.js';
 
 interface AuthenticatedSocket extends WebSocket {
   auth?: TokenPayload;
@@ -119,3 +120,24 @@ export function broadcastToOrgRole(orgId: string, event: string, role: 'admin' |
     }
   });
 }
+
+/**
+ * Broadcast a work order event to the office and to the crews it concerns.
+ * The shared crew login (orgs that haven't set crews up) gets them all; a
+ * personal login on no crew gets none.
+ */
+export function broadcastToCrews(orgId: string, crewIds: Array<string | null | undefined>, event: string, data?: unknown): void {
+  const room = orgRooms.get(orgId);
+  if (!room) return;
+
+  const message = JSON.stringify({ type: event, data, timestamp: Date.now() });
+
+  room.forEach((ws) => {
+    const auth = ws.auth;
+    const concerned = auth?.role !== 'crew'
+      || (auth.crewId ? crewIds.includes(auth.crewId) : auth.userId === sharedCrewUserId(orgId));
+    if (ws.readyState === WebSocket.OPEN && concerned) {
+      ws.send(message);
+    }
+  });
+}
@@ -8,6 +8,7 @@ import {
   Receipt, 
   DollarSign,
   Plus,
+  Minus,
   Trash2,
   HardHat,
   ArrowRight,
@@ -26,9 +27,25 @@ import {
   EstimateRecord,
   EquipmentItem,
   AreaType,
-  AdditionalArea
+  AdditionalArea,
+  TakeoffLine,
+  OpeningType,
+  RoofType,
+  WallOpening,
+  OPENING_PRESETS
 } from '../types';
 import { JobProgress } from './JobProgress';
+import { FoamLayersEditor, addFoamLayer } from './FoamLayersEditor';
+import { FoamProductSelect } from './FoamProductSelect';
+import { JobConditionsPanel } from './JobConditionsPanel';
+import { MarginTargetsPanel } from './MarginTargetsPanel';
+import { EstimateOptionsBar } from './EstimateOptionsBar';
+import { JobTemplatePicker } from './JobTemplatePicker';
+import { RValueSizing } from './RValueSizing';
+import { isLayeredSpec, applyRValueSizing } from '../utils/calculatorHelpers';
+import { UnitKind, formatNumber, formatQuantity, fromDisplay, isMetric, toDisplay, unitLabel } from '../utils/units';
+import { getProductionRates } from '../utils/laborEstimate';
+import { getJobTaxJurisdiction } from '../utils/salesTax';
 
 interface CalculatorProps {
   state: CalculatorState;
@@ -46,8 +63,8 @@ interface CalculatorProps {
   onStageInvoice: () => void;
   onStageEstimate: () => void;
   onAddNewCustomer: () => void;
-  onMarkPaid?: (id: string) => void; 
   onCreateWarehouseItem?: (name: string, unit: string, cost: number) => string | null;
+  onNotify?: (notification: { type: 'success' | 'error'; message: string }) => void;
 }
 
 export const Calculator: React.FC<CalculatorProps> = ({
@@ -66,8 +83,8 @@ export const Calculator: React.FC<CalculatorProps> = ({
   onStageInvoice,
   onStageEstimate,
   onAddNewCustomer,
-  onMarkPaid,
-  onCreateWarehouseItem
+  onCreateWarehouseItem,
+  onNotify
 }) => {
 
   const currentRecord = editingEstimateId ? state.savedEstimates.find(e => e.id === editingEstimateId) : null;
@@ -76,6 +93,13 @@ export const Calculator: React.FC<CalculatorProps> = ({
   
   const activeScheduledDate = currentRecord?.scheduledDate || state.scheduledDate;
 
+  // Dimensions are stored imperial; metric orgs see and type converted values
+  const units = state.unitSystem;
+  const shown = (value: number, kind: UnitKind) => toDisplay(value, kind, units);
+  const typed = (value: string, kind: UnitKind) => fromDisplay(parseFloat(value), kind, units);
+
+  const isAutoHours = state.expenses.manHoursMode === 'auto';
+
   // Equipment Helpers
   const addEquipmentToJob = (eqId: string) => {
       const tool = state.equipment.find(e => e.id === eqId);
@@ -110,6 +134,57 @@ export const Calculator: React.FC<CalculatorProps> = ({
       onInputChange('additionalAreas', updated);
   };
 
+  // Opening Helpers (window/door deductions)
+  const addOpening = (presetKey: string) => {
+      const preset = presetKey === 'custom' ? null : OPENING_PRESETS[parseInt(presetKey)];
+      const newOpening: WallOpening = {
+          id: Math.random().toString(36).substr(2, 9),
+          type: preset?.type || OpeningType.OTHER,
+          width: preset?.width || 0,
+          height: preset?.height || 0,
+          count: 1
+      };
+      onInputChange('openings', [...(state.openings || []), newOpening]);
+  };
+
+  const removeOpening = (id: string) => {
+      onInputChange('openings', (state.openings || []).filter(o => o.id !== id));
+  };
+
+  const updateOpening = (id: string, updates: Partial<WallOpening>) => {
+      onInputChange('openings', (state.openings || []).map(o => 
+          o.id === id ? { ...o, ...updates } : o
+      ));
+  };
+
+  // Takeoff Line Helpers (Custom mode)
+  const addTakeoffLine = () => {
+      const lines = state.takeoffLines || [];
+      const newLine: TakeoffLine = {
+          id: Math.random().toString(36).substr(2, 9),
+          name: `Surface ${lines.length + 1}`,
+          surfaceType: AreaType.WALL,
+          length: 0,
+          width: 0,
+          foam: { ...state.wallSettings }
+      };
+      onInputChange('takeoffLines', [...lines, newLine]);
+  };
+
+  const removeTakeoffLine = (id: string) => {
+      onInputChange('takeoffLines', (state.takeoffLines || []).filter(l => l.id !== id));
+  };
+
+  const updateTakeoffLine = (id: string, updates: Partial<TakeoffLine>) => {
+      onInputChange('takeoffLines', (state.takeoffLines || []).map(l => 
+          l.id === id ? { ...l, ...updates } : l
+      ));
+  };
+
+  const updateTakeoffFoam = (line: TakeoffLine, field: string, value: any) => {
+      updateTakeoffLine(line.id, { foam: { ...line.foam, [field]: value } });
+  };
+
   // Helper to pre-fill inventory from warehouse OR Create New
   // Uses onBatchInventoryUpdate to set all fields in a SINGLE dispatch,
   // preventing stale-closure issues where sequential onInventoryUpdate calls
@@ -228,9 +303,20 @@ export const Calculator: React.FC<CalculatorProps> = ({
                       <option value={CalculationMode.BUILDING}>Full Building (Walls + Roof)</option>
                       <option value={CalculationMode.WALLS_ONLY}>Walls Only (Linear Ft)</option>
                       <option value={CalculationMode.FLAT_AREA}>Flat Area (Attic/Slab)</option>
+                      <option value={CalculationMode.CUSTOM}>Custom Takeoff (Per Surface)</option>
                   </select>
               </div>
           </div>
+
+          {/* Templates set up the scope, so they only apply while it's still a quote */}
+          {currentStatus === 'Draft' && (
+              <JobTemplatePicker
+                  state={state}
+                  currentRecord={currentRecord}
+                  onUpdateState={(updates) => (Object.keys(updates) as (keyof CalculatorState)[]).forEach(field => onInputChange(field, updates[field]))}
+                  onNotify={onNotify}
+              />
+          )}
        </div>
 
        {/* Crew Report Banner */}
@@ -255,11 +341,11 @@ export const Calculator: React.FC<CalculatorProps> = ({
            <div className="grid grid-cols-2 md:grid-cols-4 gap-8">
                <div>
                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">Total Spray Area</div>
-                   <div className="text-3xl font-black">{Math.round(results.totalWallArea + results.totalRoofArea).toLocaleString()} <span className="text-sm text-slate-500 font-bold">sqft</span></div>
+                   <div className="text-3xl font-black">{formatNumber(results.totalWallArea + results.totalRoofArea, 'area', units, 0)} <span className="text-sm text-slate-500 font-bold">{unitLabel('area', units)}</span></div>
                </div>
                <div>
                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">Total Volume</div>
-                   <div className="text-3xl font-black">{Math.round(results.wallBdFt + results.roofBdFt).toLocaleString()} <span className="text-sm text-slate-500 font-bold">bdft</span></div>
+                   <div className="text-3xl font-black">{formatNumber(results.wallBdFt + results.roofBdFt, 'volume', units)} <span className="text-sm text-slate-500 font-bold">{unitLabel('volume', units)}</span></div>
                </div>
                <div>
                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">Chemical Sets</div>
@@ -281,7 +367,7 @@ export const Calculator: React.FC<CalculatorProps> = ({
                </div>
                <div className="text-right">
                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">
-                       {state.pricingMode === 'sqft_pricing' ? 'SqFt Quote Total' : 'Total Estimate'}
+                       {state.pricingMode === 'sqft_pricing' ? `${isMetric(units) ? 'm²' : 'SqFt'} Quote Total` : 'Total Estimate'}
                    </div>
                    <div className="text-3xl font-black text-brand">${Math.round(results.totalCost).toLocaleString()}</div>
                    {state.pricingMode === 'sqft_pricing' && (
@@ -289,6 +375,16 @@ export const Calculator: React.FC<CalculatorProps> = ({
                            Overrides Material+Labor
                        </div>
                    )}
+                   {results.marginFloor !== undefined && (
+                       <div className="text-[9px] text-slate-500 mt-1 uppercase tracking-wide">
+                           {results.marginFloor.toFixed(1)}% Margin Floor
+                       </div>
+                   )}
+                   {results.salesTax && (
+                       <div className="text-[9px] text-slate-500 mt-1 uppercase tracking-wide">
+                           + ${results.salesTax.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {results.salesTax.jurisdictionName} Tax
+                       </div>
+                   )}
                </div>
            </div>
 
@@ -334,40 +430,64 @@ export const Calculator: React.FC<CalculatorProps> = ({
                   <Building2 className="w-5 h-5 text-brand"/> Building Dimensions
                </h3>
                
-               <div className="grid grid-cols-2 gap-4">
+               {state.mode === CalculationMode.CUSTOM && (
+                   <div className="text-[10px] font-bold text-slate-400 bg-slate-50 border border-dashed border-slate-200 rounded-xl p-3">
+                       Custom takeoff: enter each surface below under Takeoff Lines. Extra sections use the wall / roof specs.
+                   </div>
+               )}
+
+               <div className={`grid grid-cols-2 gap-4 ${state.mode === CalculationMode.CUSTOM ? 'hidden' : ''}`}>
                    {state.mode !== CalculationMode.FLAT_AREA && (
                        <div className="col-span-2 md:col-span-1">
-                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Length (ft)</label>
-                           <input type="number" value={state.length} onChange={(e) => onInputChange('length', parseFloat(e.target.value))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Length ({unitLabel('length', units)})</label>
+                           <input type="number" value={shown(state.length, 'length')} onChange={(e) => onInputChange('length', typed(e.target.value, 'length'))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
                        </div>
                    )}
                    {state.mode === CalculationMode.BUILDING && (
                        <div className="col-span-2 md:col-span-1">
-                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Width (ft)</label>
-                           <input type="number" value={state.width} onChange={(e) => onInputChange('width', parseFloat(e.target.value))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Width ({unitLabel('length', units)})</label>
+                           <input type="number" value={shown(state.width, 'length')} onChange={(e) => onInputChange('width', typed(e.target.value, 'length'))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
                        </div>
                    )}
                    {state.mode !== CalculationMode.FLAT_AREA && (
                        <div className="col-span-2 md:col-span-1">
-                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Wall Height (ft)</label>
-                           <input type="number" value={state.wallHeight} onChange={(e) => onInputChange('wallHeight', parseFloat(e.target.value))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Wall Height ({unitLabel('length', units)})</label>
+                           <input type="number" value={shown(state.wallHeight, 'length')} onChange={(e) => onInputChange('wallHeight', typed(e.target.value, 'length'))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                       </div>
+                   )}
+                   {state.mode === CalculationMode.BUILDING && (
+                       <div className="col-span-2 md:col-span-1">
+                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Roof Type</label>
+                           <select value={state.roofType || RoofType.GABLE} onChange={(e) => onInputChange('roofType', e.target.value as RoofType)} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none">
+                               {Object.values(RoofType).map(t => <option key={t} value={t}>{t}</option>)}
+                           </select>
                        </div>
                    )}
                    {state.mode === CalculationMode.BUILDING && (
                        <div className="col-span-2 md:col-span-1">
-                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Roof Pitch (X/12)</label>
+                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">
+                               {state.roofType === RoofType.GAMBREL ? 'Upper Pitch (X/12)' : state.roofType === RoofType.DUAL_PITCH ? 'Front Pitch (X/12)' : 'Roof Pitch (X/12)'}
+                           </label>
                            <input type="text" value={state.roofPitch} onChange={(e) => onInputChange('roofPitch', e.target.value)} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
                        </div>
                    )}
+                   {state.mode === CalculationMode.BUILDING && (state.roofType === RoofType.GAMBREL || state.roofType === RoofType.DUAL_PITCH) && (
+                       <div className="col-span-2 md:col-span-1">
+                           <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">
+                               {state.roofType === RoofType.GAMBREL ? 'Lower Pitch (X/12)' : 'Rear Pitch (X/12)'}
+                           </label>
+                           <input type="text" placeholder={state.roofType === RoofType.GAMBREL ? 'e.g. 18/12' : 'e.g. 8/12'} value={state.roofPitch2 || ''} onChange={(e) => onInputChange('roofPitch2', e.target.value)} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                       </div>
+                   )}
                    {state.mode === CalculationMode.FLAT_AREA && (
                         <>
                            <div className="col-span-2 md:col-span-1">
-                               <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Length (ft)</label>
-                               <input type="number" value={state.length} onChange={(e) => onInputChange('length', parseFloat(e.target.value))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                               <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Length ({unitLabel('length', units)})</label>
+                               <input type="number" value={shown(state.length, 'length')} onChange={(e) => onInputChange('length', typed(e.target.value, 'length'))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
                            </div>
                            <div className="col-span-2 md:col-span-1">
-                               <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Width (ft)</label>
-                               <input type="number" value={state.width} onChange={(e) => onInputChange('width', parseFloat(e.target.value))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                               <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Width ({unitLabel('length', units)})</label>
+                               <input type="number" value={shown(state.width, 'length')} onChange={(e) => onInputChange('width', typed(e.target.value, 'length'))} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
                            </div>
                            <div className="col-span-2">
                                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Pitch / Slope (Optional)</label>
@@ -387,7 +507,7 @@ export const Calculator: React.FC<CalculatorProps> = ({
                                 onChange={(e) => onInputChange('includeGables', e.target.checked)}
                                 className="w-5 h-5 text-brand rounded focus:ring-brand border-slate-300"
                             />
-                            <label htmlFor="gables" className="text-sm font-bold text-slate-700">Include Gable Ends?</label>
+                            <label htmlFor="gables" className="text-sm font-bold text-slate-700">{(state.roofType || RoofType.GABLE) === RoofType.GABLE ? 'Include Gable Ends?' : 'Include End Walls?'}</label>
                        </div>
                    )}
                    
@@ -411,7 +531,7 @@ export const Calculator: React.FC<CalculatorProps> = ({
                {state.mode === CalculationMode.BUILDING && state.includeGables && (
                    <div className="mt-2 flex items-center gap-2">
                        <span className="text-[10px] font-black text-sky-600 bg-sky-50 border border-sky-100 px-3 py-1.5 rounded-lg flex items-center gap-1">
-                           <ArrowRight className="w-3 h-3" /> {Math.round(results.gableArea).toLocaleString()} sqft (Gables)
+                           <ArrowRight className="w-3 h-3" /> {formatQuantity(results.gableArea, 'area', units, 0)} ({(state.roofType || RoofType.GABLE) === RoofType.GABLE ? 'Gables' : 'End Walls'})
                        </span>
                    </div>
                )}
@@ -443,22 +563,22 @@ export const Calculator: React.FC<CalculatorProps> = ({
                                    <input 
                                        type="number" 
                                        placeholder="L" 
-                                       value={area.length || ''} 
-                                       onChange={(e) => updateArea(index, 'length', parseFloat(e.target.value))}
+                                       value={shown(area.length || 0, 'length') || ''} 
+                                       onChange={(e) => updateArea(index, 'length', typed(e.target.value, 'length'))}
                                        className="w-full bg-white border border-slate-200 text-[10px] font-bold rounded-lg p-1.5 outline-none focus:border-brand"
                                    />
                                    <span className="text-slate-300 font-black text-[10px]">x</span>
                                    <input 
                                        type="number" 
                                        placeholder="W" 
-                                       value={area.width || ''} 
-                                       onChange={(e) => updateArea(index, 'width', parseFloat(e.target.value))}
+                                       value={shown(area.width || 0, 'length') || ''} 
+                                       onChange={(e) => updateArea(index, 'width', typed(e.target.value, 'length'))}
                                        className="w-full bg-white border border-slate-200 text-[10px] font-bold rounded-lg p-1.5 outline-none focus:border-brand"
                                    />
                                </div>
 
                                <div className="text-[10px] font-black text-slate-400 w-16 text-right">
-                                   {Math.round((area.length || 0) * (area.width || 0))} sqft
+                                   {formatQuantity((area.length || 0) * (area.width || 0), 'area', units, 0)}
                                </div>
 
                                <button onClick={() => removeArea(index)} className="p-1.5 text-slate-300 hover:text-red-500 transition-colors">
@@ -473,6 +593,87 @@ export const Calculator: React.FC<CalculatorProps> = ({
                        )}
                    </div>
                </div>
+
+               {/* WINDOW / DOOR OPENINGS */}
+               {(state.mode === CalculationMode.BUILDING || state.mode === CalculationMode.WALLS_ONLY) && (
+                   <div className="mt-6 border-t border-slate-100 pt-4">
+                       <div className="flex justify-between items-center mb-3 gap-2">
+                           <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1">
+                               <Minus className="w-3 h-3" /> Openings (Deduct)
+                           </label>
+                           <select
+                               value=""
+                               onChange={(e) => addOpening(e.target.value)}
+                               className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-1 rounded-lg transition-colors outline-none cursor-pointer"
+                           >
+                               <option value="" disabled>+ Add Opening</option>
+                               {OPENING_PRESETS.map((p, i) => (
+                                   <option key={p.label} value={String(i)}>{p.label}</option>
+                               ))}
+                               <option value="custom">Custom Size</option>
+                           </select>
+                       </div>
+
+                       <div className="space-y-2">
+                           {(state.openings || []).map(opening => (
+                               <div key={opening.id} className="flex gap-2 items-center bg-slate-50 p-1.5 rounded-xl border border-slate-100">
+                                   <select 
+                                       value={opening.type}
+                                       onChange={(e) => updateOpening(opening.id, { type: e.target.value as OpeningType })}
+                                       className="bg-white border border-slate-200 text-[10px] font-bold rounded-lg p-1.5 outline-none focus:border-brand w-24"
+                                   >
+                                       {Object.values(OpeningType).map(t => <option key={t} value={t}>{t}</option>)}
+                                   </select>
+
+                                   <div className="flex-1 flex items-center gap-1">
+                                       <input 
+                                           type="number" 
+                                           placeholder="W" 
+                                           value={shown(opening.width || 0, 'length') || ''} 
+                                           onChange={(e) => updateOpening(opening.id, { width: typed(e.target.value, 'length') })}
+                                           className="w-full bg-white border border-slate-200 text-[10px] font-bold rounded-lg p-1.5 outline-none focus:border-brand"
+                                       />
+                                       <span className="text-slate-300 font-black text-[10px]">x</span>
+                                       <input 
+                                           type="number" 
+                                           placeholder="H" 
+                                           value={shown(opening.height || 0, 'length') || ''} 
+                                           onChange={(e) => updateOpening(opening.id, { height: typed(e.target.value, 'length') })}
+                                           className="w-full bg-white border border-slate-200 text-[10px] font-bold rounded-lg p-1.5 outline-none focus:border-brand"
+                                       />
+                                       <span className="text-slate-300 font-black text-[10px]">×</span>
+                                       <input 
+                                           type="number" 
+                                           placeholder="Qty" 
+                                           value={opening.count || ''} 
+                                           onChange={(e) => updateOpening(opening.id, { count: parseInt(e.target.value) || 0 })}
+                                           className="w-12 bg-white border border-slate-200 text-[10px] font-bold rounded-lg p-1.5 outline-none focus:border-brand text-center"
+                                       />
+                                   </div>
+
+                                   <div className="text-[10px] font-black text-slate-400 w-16 text-right">
+                                       -{formatQuantity((opening.width || 0) * (opening.height || 0) * (opening.count || 0), 'area', units, 0)}
+                                   </div>
+
+                                   <button onClick={() => removeOpening(opening.id)} className="p-1.5 text-slate-300 hover:text-red-500 transition-colors">
+                                       <Trash2 className="w-3 h-3" />
+                                   </button>
+                               </div>
+                           ))}
+                           {(state.openings || []).length === 0 ? (
+                               <div className="text-center py-2 text-[10px] text-slate-300 italic border border-dashed border-slate-100 rounded-lg">
+                                   No openings deducted.
+                               </div>
+                           ) : (
+                               <div className="flex justify-end">
+                                   <span className="text-[10px] font-black text-sky-600 bg-sky-50 border border-sky-100 px-3 py-1.5 rounded-lg">
+                                       -{formatQuantity(results.openingDeduction, 'area', units, 0)} (Openings)
+                                   </span>
+                               </div>
+                           )}
+                       </div>
+                   </div>
+               )}
            </div>
 
            {/* SPECS & PRICING */}
@@ -498,48 +699,75 @@ export const Calculator: React.FC<CalculatorProps> = ({
                              state.pricingMode === 'sqft_pricing' ? 'bg-white shadow-sm text-brand' : 'text-slate-400 hover:text-slate-600'
                          }`}
                        >
-                           SqFt Price
+                           {isMetric(units) ? 'm² Price' : 'SqFt Price'}
+                       </button>
+                       <button 
+                         onClick={() => onInputChange('pricingMode', 'margin_pricing')}
+                         className={`px-3 py-1.5 rounded-md text-[9px] font-black uppercase tracking-wider transition-all ${
+                             state.pricingMode === 'margin_pricing' ? 'bg-white shadow-sm text-brand' : 'text-slate-400 hover:text-slate-600'
+                         }`}
+                       >
+                           Margin
                        </button>
                    </div>
                </div>
                
                <div className="space-y-6">
+                   <EstimateOptionsBar
+                       state={state}
+                       results={results}
+                       onUpdate={(updates) => (Object.keys(updates) as (keyof CalculatorState)[]).forEach(field => onInputChange(field, updates[field]))}
+                   />
+                   {state.pricingMode === 'margin_pricing' && (
+                       <MarginTargetsPanel targets={state.marginTargets} results={results} onChange={(targets) => onInputChange('marginTargets', targets)} />
+                   )}
+                   <JobConditionsPanel conditions={state.jobConditions || {}} results={results} units={units} onChange={(conditions) => onInputChange('jobConditions', conditions)} />
+
                    {state.mode !== CalculationMode.FLAT_AREA && (
                        <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
                            <div className="flex justify-between items-center mb-3">
                                 <span className="text-xs font-black uppercase tracking-widest text-slate-500">Walls</span>
                                 {/* LIVE WALL AREA DISPLAY */}
                                 <span className="text-xs font-black text-sky-600 bg-white border border-sky-100 px-2 py-1 rounded shadow-sm">
-                                    Total: {Math.round(results.totalWallArea).toLocaleString()} sqft
+                                    Total: {formatQuantity(results.totalWallArea, 'area', units, 0)}
                                 </span>
                            </div>
                            <div className="grid grid-cols-2 gap-3">
-                               <select 
-                                value={state.wallSettings.type} 
-                                onChange={(e) => onSettingsChange('wallSettings', 'type', e.target.value)} 
-                                className="col-span-2 bg-white border border-slate-200 p-2 rounded-lg font-bold text-sm"
-                               >
-                                   <option value={FoamType.OPEN_CELL}>Open Cell</option>
-                                   <option value={FoamType.CLOSED_CELL}>Closed Cell</option>
-                               </select>
-                               <div>
-                                   <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Depth (in)</label>
-                                   <input type="number" value={state.wallSettings.thickness} onChange={(e) => onSettingsChange('wallSettings', 'thickness', parseFloat(e.target.value))} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm" />
-                               </div>
-                               <div>
-                                   <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Waste %</label>
-                                   <input type="number" value={state.wallSettings.wastePercentage} onChange={(e) => onSettingsChange('wallSettings', 'wastePercentage', parseFloat(e.target.value))} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm" />
-                               </div>
+                               {isLayeredSpec(state.wallSettings) ? (
+                                   <FoamLayersEditor settings={state.wallSettings} materials={state} units={units} onChange={(settings) => onInputChange('wallSettings', settings)} />
+                               ) : (
+                                   <>
+                                       <FoamProductSelect
+                                        type={state.wallSettings.type}
+                                        productId={state.wallSettings.productId}
+                                        materials={state}
+                                        onChange={(selection) => onInputChange('wallSettings', applyRValueSizing({ ...state.wallSettings, ...selection }, state))}
+                                        className="col-span-2 bg-white border border-slate-200 p-2 rounded-lg font-bold text-sm"
+                                       />
+                                       <div>
+                                           <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Depth ({unitLabel('depth', units)})</label>
+                                           <input type="number" value={shown(state.wallSettings.thickness, 'depth')} readOnly={(state.wallSettings.thicknessMode || 'inches') !== 'inches'} onChange={(e) => onSettingsChange('wallSettings', 'thickness', typed(e.target.value, 'depth'))} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm read-only:bg-slate-100 read-only:text-slate-500" />
+                                       </div>
+                                       <div>
+                                           <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Waste %</label>
+                                           <input type="number" value={state.wallSettings.wastePercentage} onChange={(e) => onSettingsChange('wallSettings', 'wastePercentage', parseFloat(e.target.value))} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm" />
+                                       </div>
+                                       <button onClick={() => onInputChange('wallSettings', addFoamLayer(state.wallSettings))} className="col-span-2 text-[10px] bg-white border border-dashed border-slate-200 hover:border-brand text-slate-500 font-bold py-1.5 rounded-lg transition-colors">
+                                           + Add Layer (Hybrid / Flash & Batt)
+                                       </button>
+                                   </>
+                               )}
+                               <RValueSizing settings={state.wallSettings} materials={state} check={results.rValues?.wall} units={units} onChange={(settings) => onInputChange('wallSettings', settings)} />
                                {/* SQFT PRICING INPUT */}
                                {state.pricingMode === 'sqft_pricing' && (
                                    <div className="col-span-2 mt-2 pt-2 border-t border-slate-200">
-                                       <label className="text-[9px] font-black text-brand uppercase block mb-1">Price Per Sq Ft ($)</label>
+                                       <label className="text-[9px] font-black text-brand uppercase block mb-1">Price Per {isMetric(units) ? 'm²' : 'Sq Ft'} ($)</label>
                                        <div className="relative">
                                            <span className="absolute left-3 top-2 text-slate-400 text-xs">$</span>
                                            <input 
                                                 type="number" 
-                                                value={state.sqFtRates.wall} 
-                                                onChange={(e) => onInputChange('sqFtRates', { ...state.sqFtRates, wall: parseFloat(e.target.value) })} 
+                                                value={shown(state.sqFtRates.wall, 'areaRate')} 
+                                                onChange={(e) => onInputChange('sqFtRates', { ...state.sqFtRates, wall: typed(e.target.value, 'areaRate') })} 
                                                 className="w-full pl-6 p-2 bg-white border border-brand/20 rounded-lg font-bold text-sm focus:ring-1 focus:ring-brand outline-none text-brand" 
                                                 placeholder="0.00"
                                            />
@@ -555,36 +783,45 @@ export const Calculator: React.FC<CalculatorProps> = ({
                             <span className="text-xs font-black uppercase tracking-widest text-slate-500">Roof / Ceiling</span>
                             {/* LIVE ROOF AREA DISPLAY */}
                             <span className="text-xs font-black text-sky-600 bg-white border border-sky-100 px-2 py-1 rounded shadow-sm">
-                                Total: {Math.round(results.totalRoofArea).toLocaleString()} sqft
+                                Total: {formatQuantity(results.totalRoofArea, 'area', units, 0)}
                             </span>
                        </div>
                        <div className="grid grid-cols-2 gap-3">
-                           <select 
-                            value={state.roofSettings.type} 
-                            onChange={(e) => onSettingsChange('roofSettings', 'type', e.target.value)} 
-                            className="col-span-2 bg-white border border-slate-200 p-2 rounded-lg font-bold text-sm"
-                           >
-                               <option value={FoamType.OPEN_CELL}>Open Cell</option>
-                               <option value={FoamType.CLOSED_CELL}>Closed Cell</option>
-                           </select>
-                           <div>
-                               <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Depth (in)</label>
-                               <input type="number" value={state.roofSettings.thickness} onChange={(e) => onSettingsChange('roofSettings', 'thickness', parseFloat(e.target.value))} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm" />
-                           </div>
-                           <div>
-                               <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Waste %</label>
-                               <input type="number" value={state.roofSettings.wastePercentage} onChange={(e) => onSettingsChange('roofSettings', 'wastePercentage', parseFloat(e.target.value))} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm" />
-                           </div>
+                           {isLayeredSpec(state.roofSettings) ? (
+                               <FoamLayersEditor settings={state.roofSettings} materials={state} units={units} onChange={(settings) => onInputChange('roofSettings', settings)} />
+                           ) : (
+                               <>
+                                   <FoamProductSelect
+                                    type={state.roofSettings.type}
+                                    productId={state.roofSettings.productId}
+                                    materials={state}
+                                    onChange={(selection) => onInputChange('roofSettings', applyRValueSizing({ ...state.roofSettings, ...selection }, state))}
+                                    className="col-span-2 bg-white border border-slate-200 p-2 rounded-lg font-bold text-sm"
+                                   />
+                                   <div>
+                                       <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Depth ({unitLabel('depth', units)})</label>
+                                       <input type="number" value={shown(state.roofSettings.thickness, 'depth')} readOnly={(state.roofSettings.thicknessMode || 'inches') !== 'inches'} onChange={(e) => onSettingsChange('roofSettings', 'thickness', typed(e.target.value, 'depth'))} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm read-only:bg-slate-100 read-only:text-slate-500" />
+                                   </div>
+                                   <div>
+                                       <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Waste %</label>
+                                       <input type="number" value={state.roofSettings.wastePercentage} onChange={(e) => onSettingsChange('roofSettings', 'wastePercentage', parseFloat(e.target.value))} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm" />
+                                   </div>
+                                   <button onClick={() => onInputChange('roofSettings', addFoamLayer(state.roofSettings))} className="col-span-2 text-[10px] bg-white border border-dashed border-slate-200 hover:border-brand text-slate-500 font-bold py-1.5 rounded-lg transition-colors">
+                                       + Add Layer (Hybrid / Flash & Batt)
+                                   </button>
+                               </>
+                           )}
+                           <RValueSizing settings={state.roofSettings} materials={state} check={results.rValues?.roof} units={units} onChange={(settings) => onInputChange('roofSettings', settings)} />
                            {/* SQFT PRICING INPUT */}
                            {state.pricingMode === 'sqft_pricing' && (
                                <div className="col-span-2 mt-2 pt-2 border-t border-slate-200">
-                                   <label className="text-[9px] font-black text-brand uppercase block mb-1">Price Per Sq Ft ($)</label>
+                                   <label className="text-[9px] font-black text-brand uppercase block mb-1">Price Per {isMetric(units) ? 'm²' : 'Sq Ft'} ($)</label>
                                    <div className="relative">
                                        <span className="absolute left-3 top-2 text-slate-400 text-xs">$</span>
                                        <input 
                                             type="number" 
-                                            value={state.sqFtRates.roof} 
-                                            onChange={(e) => onInputChange('sqFtRates', { ...state.sqFtRates, roof: parseFloat(e.target.value) })} 
+                                            value={shown(state.sqFtRates.roof, 'areaRate')} 
+                                            onChange={(e) => onInputChange('sqFtRates', { ...state.sqFtRates, roof: typed(e.target.value, 'areaRate') })} 
                                             className="w-full pl-6 p-2 bg-white border border-brand/20 rounded-lg font-bold text-sm focus:ring-1 focus:ring-brand outline-none text-brand" 
                                             placeholder="0.00"
                                        />
@@ -596,6 +833,80 @@ export const Calculator: React.FC<CalculatorProps> = ({
                </div>
            </div>
 
+           {/* TAKEOFF LINES (Custom mode) */}
+           {state.mode === CalculationMode.CUSTOM && (
+               <div className="md:col-span-2 bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+                   <div className="flex justify-between items-center mb-6">
+                       <h3 className="font-black text-slate-900 flex items-center gap-2 uppercase text-sm tracking-widest">
+                           <ClipboardList className="w-5 h-5 text-brand"/> Takeoff Lines
+                       </h3>
+                       <button onClick={addTakeoffLine} className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-3 py-1.5 rounded-lg transition-colors flex items-center gap-1">
+                           <Plus className="w-3 h-3"/> Add Surface
+                       </button>
+                   </div>
+
+                   <div className="space-y-3">
+                       {(state.takeoffLines || []).length === 0 ? (
+                           <div className="text-center py-6 text-slate-300 text-xs italic border-2 border-dashed border-slate-100 rounded-xl">
+                               No surfaces yet. Add one per area, e.g. "Rim Joists", "Attic Deck", "Basement Walls".
+                           </div>
+                       ) : (
+                           (state.takeoffLines || []).map(line => {
+                               const lineResult = results.takeoffLines?.find(r => r.id === line.id);
+                               return (
+                                   <div key={line.id} className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+                                       <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+                                           <div className="col-span-2 md:col-span-3">
+                                               <label className="text-[9px] font-black uppercase text-slate-400 mb-1 block">Surface</label>
+                                               <input type="text" value={line.name} onChange={(e) => updateTakeoffLine(line.id, { name: e.target.value })} className="w-full bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold outline-none focus:border-brand" />
+                                           </div>
+                                           <div className="md:col-span-2">
+                                               <label className="text-[9px] font-black uppercase text-slate-400 mb-1 block">Type</label>
+                                               <select value={line.surfaceType} onChange={(e) => updateTakeoffLine(line.id, { surfaceType: e.target.value as AreaType })} className="w-full bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold outline-none focus:border-brand">
+                                                   <option value={AreaType.WALL}>Wall</option>
+                                                   <option value={AreaType.ROOF}>Roof / Ceiling</option>
+                                               </select>
+                                           </div>
+                                           <div className="md:col-span-2">
+                                               <label className="text-[9px] font-black uppercase text-slate-400 mb-1 block">L x W ({unitLabel('length', units)})</label>
+                                               <div className="flex items-center gap-1">
+                                                   <input type="number" placeholder="L" value={shown(line.length || 0, 'length') || ''} onChange={(e) => updateTakeoffLine(line.id, { length: typed(e.target.value, 'length') })} className="w-full bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold text-center" />
+                                                   <span className="text-slate-300 font-black text-[10px]">x</span>
+                                                   <input type="number" placeholder="W" value={shown(line.width || 0, 'length') || ''} onChange={(e) => updateTakeoffLine(line.id, { width: typed(e.target.value, 'length') })} className="w-full bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold text-center" />
+                                               </div>
+                                           </div>
+                                           <div className="md:col-span-2">
+                                               <label className="text-[9px] font-black uppercase text-slate-400 mb-1 block">Foam</label>
+                                               <FoamProductSelect type={line.foam.type} productId={line.foam.productId} materials={state} onChange={(selection) => updateTakeoffLine(line.id, { foam: { ...line.foam, ...selection } })} className="w-full bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold outline-none focus:border-brand" />
+                                           </div>
+                                           <div className="md:col-span-1">
+                                               <label className="text-[9px] font-black uppercase text-slate-400 mb-1 block">Depth ({unitLabel('depth', units)})</label>
+                                               <input type="number" value={shown(line.foam.thickness, 'depth')} onChange={(e) => updateTakeoffFoam(line, 'thickness', typed(e.target.value, 'depth'))} className="w-full bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold text-center" />
+                                           </div>
+                                           <div className="md:col-span-1">
+                                               <label className="text-[9px] font-black uppercase text-slate-400 mb-1 block">Waste %</label>
+                                               <input type="number" value={line.foam.wastePercentage} onChange={(e) => updateTakeoffFoam(line, 'wastePercentage', parseFloat(e.target.value))} className="w-full bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold text-center" />
+                                           </div>
+                                           <div className="md:col-span-1 flex justify-end">
+                                               <button onClick={() => removeTakeoffLine(line.id)} className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+                                           </div>
+                                       </div>
+                                       {lineResult && (
+                                           <div className="flex flex-wrap gap-4 mt-2 pt-2 border-t border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                                               <span>{formatQuantity(lineResult.area, 'area', units, 0)}</span>
+                                               <span>{formatQuantity(lineResult.bdFt, 'volume', units)}</span>
+                                               <span>{lineResult.sets.toFixed(2)} {lineResult.foamType === FoamType.OPEN_CELL ? 'OC' : 'CC'} Sets</span>
+                                               {state.showPricing && <span className="text-brand">${Math.round(lineResult.cost).toLocaleString()} Chemical</span>}
+                                           </div>
+                                       )}
+                                   </div>
+                               );
+                           })
+                       )}
+                   </div>
+               </div>
+           )}
+
            {/* Inventory & Expenses */}
            <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6">
                 
@@ -704,12 +1015,34 @@ export const Calculator: React.FC<CalculatorProps> = ({
                     <div className="grid grid-cols-2 gap-4">
                         <div className="col-span-1">
                             <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Est. Man Hours</label>
-                            <input type="number" value={state.expenses.manHours} onChange={(e) => onInputChange('expenses', { ...state.expenses, manHours: parseFloat(e.target.value) })} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                            {/* Typing a value overrides the production-rate suggestion */}
+                            <input type="number" value={isAutoHours ? (results.suggestedManHours ?? 0) : state.expenses.manHours} onChange={(e) => onInputChange('expenses', { ...state.expenses, manHours: parseFloat(e.target.value), manHoursMode: 'manual' })} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                            <div className="mt-1 ml-1 text-[10px] font-bold text-slate-400">
+                                {isAutoHours ? 'Suggested from production rates' : (
+                                    <button onClick={() => onInputChange('expenses', { ...state.expenses, manHoursMode: 'auto' })} className="text-brand hover:underline">
+                                        Use suggested {results.suggestedManHours ?? 0} hrs
+                                    </button>
+                                )}
+                            </div>
                         </div>
                          <div className="col-span-1">
                             <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Trip / Fuel ($)</label>
                             <input type="number" value={state.expenses.tripCharge} onChange={(e) => onInputChange('expenses', { ...state.expenses, tripCharge: parseFloat(e.target.value) })} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
                         </div>
+                        <div className="col-span-1">
+                            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Crew Size</label>
+                            <input type="number" min="1" value={state.expenses.crewSize || ''} placeholder={String(getProductionRates(state.productionRates).crewSize)} onChange={(e) => onInputChange('expenses', { ...state.expenses, crewSize: parseInt(e.target.value) || undefined })} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none" />
+                        </div>
+                        {(state.taxJurisdictions || []).length > 0 && (
+                            <div className="col-span-1">
+                                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Sales Tax</label>
+                                {/* Picking one (or Untaxed) pins the job; otherwise it follows the org default */}
+                                <select value={getJobTaxJurisdiction(state)?.id || ''} onChange={(e) => onInputChange('taxJurisdictionId', e.target.value)} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold focus:ring-2 focus:ring-brand outline-none">
+                                    <option value="">Untaxed</option>
+                                    {state.taxJurisdictions.map(j => <option key={j.id} value={j.id}>{j.name} ({j.rate}%)</option>)}
+                                </select>
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -0,0 +1,292 @@
+
+import React, { useEffect, useState } from 'react';
+import { ClipboardPen, Plus, Trash2, Download, CheckCircle2, XCircle } from 'lucide-react';
+import { AreaType, ChangeOrder, ChangeOrderItem, EstimateRecord, FoamType, UnitSystem } from '../types';
+import {
+  changeOrderDelta,
+  getApprovedChangeOrders,
+  originalContractValue,
+  revisedContractValue,
+  suggestChangeOrderAmount,
+} from '../utils/changeOrders';
+import { fromDisplay, toDisplay, unitLabel } from '../utils/units';
+
+interface ChangeOrdersProps {
+  record: EstimateRecord;
+  units?: UnitSystem;
+  onSave: (changeOrders: ChangeOrder[]) => Promise<boolean>;
+  onDownloadPDF?: (changeOrder: ChangeOrder) => void;
+}
+
+const formatMoney = (val: number) => `$${val.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatDelta = (val: number) => `${val < 0 ? '-' : '+'}${formatMoney(Math.abs(val))}`;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const STATUS_STYLES: Record<ChangeOrder['status'], string> = {
+  Pending: 'bg-amber-100 text-amber-700',
+  Approved: 'bg-emerald-100 text-emerald-700',
+  Rejected: 'bg-slate-100 text-slate-500',
+};
+
+/**
+ * Change orders on a sold job. Pending ones are editable; approving one
+ * records who signed off and locks it, and InvoiceStage bills it.
+ */
+export const ChangeOrders: React.FC<ChangeOrdersProps> = ({ record, units, onSave, onDownloadPDF }) => {
+  const [draft, setDraft] = useState<ChangeOrder[]>(record.changeOrders || []);
+  const [dirty, setDirty] = useState(false);
+  const [approver, setApprover] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setDraft(record.changeOrders || []);
+    setDirty(false);
+  }, [record.id, record.changeOrders]);
+
+  // New change orders only make sense once the job is sold and not yet paid
+  const canAdd = record.status === 'Work Order' || record.status === 'Invoiced';
+
+  const edit = (next: ChangeOrder[]) => {
+    setDraft(next);
+    setDirty(true);
+  };
+
+  const save = async (next: ChangeOrder[]) => {
+    setDraft(next);
+    if (await onSave(next)) setDirty(false);
+  };
+
+  const updateOrder = (id: string, updates: Partial<ChangeOrder>) =>
+    edit(draft.map(co => co.id === id ? { ...co, ...updates } : co));
+
+  const updateItem = (co: ChangeOrder, itemId: string, updates: Partial<ChangeOrderItem>) => {
+    const items = co.items.map(item => {
+      if (item.id !== itemId) return item;
+      const next = { ...item, ...updates };
+      // Re-price from the job's rate while the size changes; a typed amount is kept until then
+      if ('area' in updates || 'thickness' in updates) next.amount = suggestChangeOrderAmount(record, next);
+      return next;
+    });
+    updateOrder(co.id, { items });
+  };
+
+  const addOrder = () => {
+    const number = draft.reduce((max, co) => Math.max(max, co.number), 0) + 1;
+    edit([...draft, {
+      id: newId(),
+      number,
+      date: new Date().toISOString().split('T')[0],
+      reason: '',
+      items: [],
+      status: 'Pending',
+    }]);
+  };
+
+  const addItem = (co: ChangeOrder) => {
+    updateOrder(co.id, {
+      items: [...co.items, {
+        id: newId(),
+        action: 'add',
+        description: '',
+        surfaceType: AreaType.WALL,
+        area: 0,
+        foamType: record.wallSettings?.type || FoamType.OPEN_CELL,
+        thickness: record.wallSettings?.thickness || 0,
+        amount: 0,
+      }],
+    });
+  };
+
+  const setStatus = (co: ChangeOrder, status: ChangeOrder['status']) => {
+    const updates: Partial<ChangeOrder> = status === 'Approved'
+      ? { status, approvedBy: approver[co.id] || record.customer?.name, approvedDate: new Date().toISOString().split('T')[0] }
+      : { status, approvedBy: undefined, approvedDate: undefined };
+    save(draft.map(c => c.id === co.id ? { ...c, ...updates } : c));
+  };
+
+  const removeOrder = (co: ChangeOrder) => {
+    if (!window.confirm(`Delete Change Order #${co.number}?`)) return;
+    edit(draft.filter(c => c.id !== co.id));
+  };
+
+  if (!canAdd && draft.length === 0) return null;
+
+  const inputClass = 'w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs';
+  const labelClass = 'text-[9px] font-bold text-slate-400 uppercase block mb-1';
+  const approvedTotal = getApprovedChangeOrders({ changeOrders: draft }).reduce((sum, co) => sum + changeOrderDelta(co), 0);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+        <h3 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <ClipboardPen className="w-4 h-4 text-slate-400" /> Change Orders
+        </h3>
+        <div className="flex items-center gap-2">
+          {dirty && (
+            <button onClick={() => save(draft)} className="text-[10px] bg-slate-900 hover:bg-slate-800 text-white font-bold px-3 py-1.5 rounded-lg transition-colors">
+              Save Changes
+            </button>
+          )}
+          {canAdd && (
+            <button onClick={addOrder} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-3 py-1.5 rounded-lg transition-colors flex items-center gap-1">
+              <Plus className="w-3 h-3" /> Change Order
+            </button>
+          )}
+        </div>
+      </div>
+
+      {draft.length === 0 ? (
+        <p className="p-6 text-xs text-slate-400 font-medium">
+          No change orders. Record on-site scope changes here instead of editing the signed estimate.
+        </p>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {draft.map(co => {
+            const editable = co.status === 'Pending' && canAdd;
+            return (
+              <div key={co.id} className="p-6 space-y-4">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-black text-slate-900">Change Order #{co.number}</span>
+                    <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-widest ${STATUS_STYLES[co.status]}`}>{co.status}</span>
+                    <span className={`text-sm font-black ${changeOrderDelta(co) < 0 ? 'text-red-600' : 'text-emerald-700'}`}>{formatDelta(changeOrderDelta(co))}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {onDownloadPDF && (
+                      <button onClick={() => onDownloadPDF(co)} disabled={dirty} title={dirty ? 'Save changes first' : 'Download PDF'} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-40">
+                        <Download className="w-4 h-4" />
+                      </button>
+                    )}
+                    {editable && (
+                      <button onClick={() => removeOrder(co)} className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {co.status === 'Approved' && (
+                  <p className="text-xs text-emerald-700 font-bold">
+                    Approved{co.approvedBy ? ` by ${co.approvedBy}` : ''}{co.approvedDate ? ` on ${new Date(co.approvedDate).toLocaleDateString()}` : ''}
+                  </p>
+                )}
+
+                <div>
+                  <label className={labelClass}>Reason</label>
+                  {editable ? (
+                    <textarea
+                      value={co.reason}
+                      onChange={(e) => updateOrder(co.id, { reason: e.target.value })}
+                      placeholder="e.g. Customer added bonus room over garage"
+                      className={`${inputClass} resize-none h-14 font-medium`}
+                    />
+                  ) : (
+                    <p className="text-xs text-slate-600 font-medium">{co.reason || '—'}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {co.items.map(item => (
+                    <div key={item.id} className="p-3 rounded-xl border bg-slate-50 border-slate-200 grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+                      <div className="md:col-span-2">
+                        <label className={labelClass}>Change</label>
+                        <select disabled={!editable} value={item.action} onChange={(e) => updateItem(co, item.id, { action: e.target.value as ChangeOrderItem['action'] })} className={inputClass}>
+                          <option value="add">Add</option>
+                          <option value="remove">Remove</option>
+                        </select>
+                      </div>
+                      <div className="col-span-2 md:col-span-3">
+                        <label className={labelClass}>Description</label>
+                        <input disabled={!editable} type="text" value={item.description} onChange={(e) => updateItem(co, item.id, { description: e.target.value })} placeholder="Bonus room walls" className={inputClass} />
+                      </div>
+                      <div className="md:col-span-1">
+                        <label className={labelClass}>Surface</label>
+                        <select disabled={!editable} value={item.surfaceType} onChange={(e) => updateItem(co, item.id, { surfaceType: e.target.value as AreaType })} className={inputClass}>
+                          <option value={AreaType.WALL}>Wall</option>
+                          <option value={AreaType.ROOF}>Roof</option>
+                        </select>
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className={labelClass}>Area ({unitLabel('area', units)})</label>
+                        <input disabled={!editable} type="number" value={toDisplay(item.area, 'area', units) || ''} onChange={(e) => updateItem(co, item.id, { area: fromDisplay(parseFloat(e.target.value) || 0, 'area', units) })} className={inputClass} />
+                      </div>
+                      <div className="md:col-span-1">
+                        <label className={labelClass}>Foam</label>
+                        <select disabled={!editable} value={item.foamType} onChange={(e) => updateItem(co, item.id, { foamType: e.target.value as FoamType })} className={inputClass}>
+                          <option value={FoamType.OPEN_CELL}>OC</option>
+                          <option value={FoamType.CLOSED_CELL}>CC</option>
+                        </select>
+                      </div>
+                      <div className="md:col-span-1">
+                        <label className={labelClass}>Depth ({unitLabel('depth', units)})</label>
+                        <input disabled={!editable} type="number" value={toDisplay(item.thickness, 'depth', units) || ''} onChange={(e) => updateItem(co, item.id, { thickness: fromDisplay(parseFloat(e.target.value) || 0, 'depth', units) })} className={inputClass} />
+                      </div>
+                      <div className="md:col-span-1">
+                        <label className={labelClass}>Price ($)</label>
+                        <input disabled={!editable} type="number" value={item.amount} onChange={(e) => updateItem(co, item.id, { amount: parseFloat(e.target.value) || 0 })} className={`${inputClass} text-right`} />
+                      </div>
+                      <div className="md:col-span-1 flex justify-end">
+                        {editable && (
+                          <button onClick={() => updateOrder(co.id, { items: co.items.filter(i => i.id !== item.id) })} className="p-2 text-slate-300 hover:text-red-500 rounded-lg">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  {editable && (
+                    <button onClick={() => addItem(co)} className="text-[10px] text-slate-500 hover:text-slate-900 font-bold flex items-center gap-1">
+                      <Plus className="w-3 h-3" /> Surface
+                    </button>
+                  )}
+                </div>
+
+                {editable && co.items.length > 0 && (
+                  <div className="flex flex-col md:flex-row md:items-end gap-2 pt-2 border-t border-slate-100">
+                    <div className="flex-1">
+                      <label className={labelClass}>Approved By</label>
+                      <input
+                        type="text"
+                        value={approver[co.id] ?? record.customer?.name ?? ''}
+                        onChange={(e) => setApprover({ ...approver, [co.id]: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <button onClick={() => setStatus(co, 'Approved')} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-black uppercase text-[10px] tracking-widest flex items-center gap-1">
+                      <CheckCircle2 className="w-3 h-3" /> Customer Approved
+                    </button>
+                    <button onClick={() => setStatus(co, 'Rejected')} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg font-black uppercase text-[10px] tracking-widest flex items-center gap-1">
+                      <XCircle className="w-3 h-3" /> Declined
+                    </button>
+                  </div>
+                )}
+                {co.status !== 'Pending' && canAdd && record.status !== 'Invoiced' && (
+                  <button onClick={() => setStatus(co, 'Pending')} className="text-[10px] text-slate-400 hover:text-slate-700 font-bold">
+                    Reopen
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {draft.length > 0 && (
+        <div className="p-6 border-t border-slate-100 bg-slate-50/50 space-y-1 text-xs font-bold">
+          <div className="flex justify-between text-slate-500">
+            <span>Original Contract</span>
+            <span>{formatMoney(originalContractValue(record))}</span>
+          </div>
+          <div className="flex justify-between text-slate-500">
+            <span>Approved Changes</span>
+            <span>{formatDelta(approvedTotal)}</span>
+          </div>
+          <div className="flex justify-between text-slate-900 font-black">
+            <span>Revised Contract</span>
+            <span>{formatMoney(revisedContractValue({ ...record, changeOrders: draft }))}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
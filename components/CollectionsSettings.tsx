@@ -0,0 +1,125 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CalculatorState, LateFeeRule, ReminderStep } from '../types';
+import { getReceivablesSettings, REMINDER_PLACEHOLDERS } from '../utils/receivables';
+
+interface CollectionsSettingsProps {
+  state: CalculatorState;
+  onUpdateState: (newState: Partial<CalculatorState>) => void;
+}
+
+const MAX_REMINDER_STEPS = 10;
+
+const labelClass = 'block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1';
+const inputClass = 'w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none';
+
+/**
+ * Settings section for collecting on overdue invoices: the reminder emails
+ * sent to customers as an invoice ages, and the late fee shown on the
+ * receivables report and statements.
+ */
+export const CollectionsSettings: React.FC<CollectionsSettingsProps> = ({ state, onUpdateState }) => {
+  const settings = getReceivablesSettings(state.receivables);
+
+  const updateSteps = (reminderSteps: ReminderStep[]) => onUpdateState({ receivables: { ...settings, reminderSteps } });
+
+  const updateStep = (id: string, updates: Partial<ReminderStep>) =>
+    updateSteps(settings.reminderSteps.map(step => step.id === id ? { ...step, ...updates } : step));
+
+  const addStep = () => {
+    const last = settings.reminderSteps.reduce((max, step) => Math.max(max, step.daysOverdue), 0);
+    updateSteps([...settings.reminderSteps, {
+      id: Math.random().toString(36).substr(2, 9),
+      daysOverdue: last + 30,
+      subject: 'Reminder: invoice {invoiceNumber} is past due',
+      message: 'Hi {customer},\n\nInvoice {invoiceNumber} for {balance} was due on {dueDate}.\n\n{companyName}',
+    }]);
+  };
+
+  const updateLateFee = (updates: Partial<LateFeeRule>) =>
+    onUpdateState({ receivables: { ...settings, lateFee: { ...settings.lateFee, ...updates } } });
+
+  const steps = [...settings.reminderSteps].sort((a, b) => a.daysOverdue - b.daysOverdue);
+
+  return (
+    <div className="space-y-6">
+      <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em] border-b border-slate-100 pb-3">Collections</h3>
+
+      <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+        <input
+          type="checkbox"
+          checked={settings.remindersEnabled}
+          onChange={(e) => onUpdateState({ receivables: { ...settings, remindersEnabled: e.target.checked } })}
+          className="w-4 h-4 accent-slate-900"
+        />
+        Email customers about overdue invoices
+      </label>
+
+      {settings.remindersEnabled && (
+        <div className="space-y-4">
+          {steps.map(step => (
+            <div key={step.id} className="p-4 bg-white border border-slate-200 rounded-2xl space-y-3">
+              <div className="grid grid-cols-[8rem_1fr_auto] gap-4 items-end">
+                <div>
+                  <label className={labelClass}>Days Overdue</label>
+                  <input type="number" min="1" value={step.daysOverdue} onChange={(e) => updateStep(step.id, { daysOverdue: Math.max(1, parseInt(e.target.value) || 1) })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Subject</label>
+                  <input type="text" maxLength={200} value={step.subject} onChange={(e) => updateStep(step.id, { subject: e.target.value })} className={inputClass} />
+                </div>
+                <button onClick={() => updateSteps(settings.reminderSteps.filter(s => s.id !== step.id))} title="Remove reminder" className="p-4 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-2xl">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div>
+                <label className={labelClass}>Message</label>
+                <textarea rows={5} maxLength={5000} value={step.message} onChange={(e) => updateStep(step.id, { message: e.target.value })} className={`${inputClass} font-medium text-sm`} />
+              </div>
+            </div>
+          ))}
+          {settings.reminderSteps.length < MAX_REMINDER_STEPS && (
+            <button onClick={addStep} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-black uppercase tracking-widest px-4 py-3 rounded-xl flex items-center gap-2">
+              <Plus className="w-3 h-3" /> Add Reminder
+            </button>
+          )}
+          <p className="text-xs text-slate-500 font-medium">
+            Each invoice gets one email per step, to the customer's email address, once it is that many days past its due date. An invoice that is already further overdue than a step when reminders are turned on skips straight to the latest step it has reached. Available placeholders: {REMINDER_PLACEHOLDERS.map(p => `{${p}}`).join(' ')}
+          </p>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+        <input type="checkbox" checked={settings.lateFee.enabled} onChange={(e) => updateLateFee({ enabled: e.target.checked })} className="w-4 h-4 accent-slate-900" />
+        Charge a late fee on overdue balances
+      </label>
+
+      {settings.lateFee.enabled && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className={labelClass}>Fee Type</label>
+            <select value={settings.lateFee.type} onChange={(e) => updateLateFee({ type: e.target.value as LateFeeRule['type'] })} className={inputClass}>
+              <option value="percent">% of Balance</option>
+              <option value="flat">Flat Amount</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{settings.lateFee.type === 'percent' ? 'Rate (%)' : 'Amount ($)'}</label>
+            <input type="number" min="0" step="0.01" value={settings.lateFee.amount} onChange={(e) => updateLateFee({ amount: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Grace Days</label>
+            <input type="number" min="0" value={settings.lateFee.graceDays} onChange={(e) => updateLateFee({ graceDays: Math.max(0, parseInt(e.target.value) || 0) })} className={inputClass} />
+          </div>
+          <label className="flex items-center gap-2 p-4 text-xs font-bold text-slate-600">
+            <input type="checkbox" checked={settings.lateFee.repeatMonthly} onChange={(e) => updateLateFee({ repeatMonthly: e.target.checked })} className="w-4 h-4 accent-slate-900" />
+            Every 30 Days
+          </label>
+        </div>
+      )}
+      <p className="text-xs text-slate-500 font-medium">
+        Late fees are shown on the receivables report and customer statements. They are not added to the invoice; bill them separately if you collect them.
+      </p>
+    </div>
+  );
+};
@@ -5,10 +5,12 @@ import {
     ChevronLeft, CheckCircle2, Package, AlertTriangle, User,
     ArrowRight, Play, Square, Clock, Save, Loader2, Download,
     MessageSquare, History, Zap, RotateCcw, Bluetooth,
-    Mail, MailOpen, Megaphone, Paperclip, X
+    Mail, MailOpen, Megaphone, Paperclip, X, Truck
 } from 'lucide-react';
-import { CalculatorState, EstimateRecord, CrewMessage } from '../types';
+import { CalculatorState, Crew, EstimateRecord, CrewMessage, JobConditions, JobSession } from '../types';
 import { crewUpdateJob } from '../services/supabaseService';
+import { punch } from '../services/timeClockService';
+import { startJobSession, updateJobSession } from '../services/jobSessionService';
 import {
     getCrewMessages,
     markMessageRead,
@@ -16,7 +18,12 @@ import {
     subscribeToCrewMessages,
 } from '../services/messagingService';
 import safeStorage from '../utils/safeStorage';
+import { getFoamLayers, isLayeredSpec } from '../utils/calculatorHelpers';
+import { applySessionTotals, openSession, sessionHours, sessionLaborHours, sumSessions } from '../utils/jobSessions';
+import { describeJobConditions } from '../utils/yieldDerate';
+import { formatQuantity, fromDisplay, toDisplay, unitLabel } from '../utils/units';
 import { FeedbackButton } from './FeedbackButton';
+import { CrewTimeClock } from './CrewTimeClock';
 
 interface CrewDashboardProps {
   state: CalculatorState;
@@ -26,10 +33,16 @@ interface CrewDashboardProps {
   onSync: () => Promise<void>; // This is forceRefresh (Sync Down) now passed from parent
   installPrompt: any;
   onInstall: () => void;
+  // The logged-in crew; its work orders are the only ones the API sends
+  crew?: Crew;
 }
 
-export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizationId, onLogout, syncStatus, onSync, installPrompt, onInstall }) => {
-  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+const ACTIVE_JOB_KEY = 'foamProCrewActiveJob';
+
+export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizationId, onLogout, syncStatus, onSync, installPrompt, onInstall, crew }) => {
+  // A reload goes back to the job whose session was running
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(() => safeStorage.getItem(ACTIVE_JOB_KEY));
+  const units = state.unitSystem;
   const [showHistory, setShowHistory] = useState(false);
   const [showMessages, setShowMessages] = useState(false);
   const [crewMessages, setCrewMessages] = useState<CrewMessage[]>([]);
@@ -41,6 +54,9 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
   const [jobStartTime, setJobStartTime] = useState<string | null>(null);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [isSyncingTime, setIsSyncingTime] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // Sessions ended here, so a sync that still shows them running doesn't resume them
+  const endedSessionIds = useRef(new Set<string>());
   
   // Completion Modal State
   const [showCompletionModal, setShowCompletionModal] = useState(false);
@@ -51,9 +67,12 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
       closedCellStrokes: 0,
       laborHours: 0,
       inventory: [] as any[],
-      notes: ''
+      notes: '',
+      conditions: {} as JobConditions
   });
   const [isCompleting, setIsCompleting] = useState(false);
+  // Session the modal's figures are for; unset for jobs from before sessions
+  const [modalSessionId, setModalSessionId] = useState<string | null>(null);
 
   // ── STROKE COUNTER STATE ─────────────────────────────────────────────
   const [liveOCStrokes, setLiveOCStrokes] = useState(0);
@@ -85,31 +104,22 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
   const ocStrokesPerSet = selectedJobForRatio?.materials?.ocStrokesPerSet || state.yields?.openCellStrokes || 6600;
   const ccStrokesPerSet = selectedJobForRatio?.materials?.ccStrokesPerSet || state.yields?.closedCellStrokes || 6600;
 
-  // Keep stroke counters in memory and sync to Supabase while a job is active.
+  // Keep stroke counters in memory and sync them to the running session.
   useEffect(() => {
-    if (!selectedJobId || !isTimerRunning) return;
+    if (!selectedJobId || !sessionId || !isTimerRunning) return;
 
     const syncTimer = setTimeout(async () => {
-      try {
-        await crewUpdateJob(
-          resolveSessionOrgId(),
-          selectedJobId,
-          {
-            openCellStrokes: liveOCStrokes,
-            closedCellStrokes: liveCCStrokes,
-            openCellSets: round2(liveOCStrokes / ocStrokesPerSet),
-            closedCellSets: round2(liveCCStrokes / ccStrokesPerSet),
-            lastStrokeSyncAt: new Date().toISOString(),
-          },
-          'In Progress'
-        );
-      } catch (e) {
-        console.warn('Live stroke sync failed:', e);
-      }
+      const { error } = await updateJobSession(selectedJobId, sessionId, {
+        openCellStrokes: liveOCStrokes,
+        closedCellStrokes: liveCCStrokes,
+        openCellSets: round2(liveOCStrokes / ocStrokesPerSet),
+        closedCellSets: round2(liveCCStrokes / ccStrokesPerSet),
+      });
+      if (error) console.warn('Live stroke sync failed:', error);
     }, 500);
 
     return () => clearTimeout(syncTimer);
-  }, [selectedJobId, isTimerRunning, liveOCStrokes, liveCCStrokes, ocStrokesPerSet, ccStrokesPerSet]);
+  }, [selectedJobId, sessionId, isTimerRunning, liveOCStrokes, liveCCStrokes, ocStrokesPerSet, ccStrokesPerSet]);
 
   // Stroke increment handler — used by click AND keyboard/USB/BT input
   const incrementStroke = useCallback((type?: 'oc' | 'cc', source?: string) => {
@@ -597,19 +607,53 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
   
   const displayedJobs = showHistory ? completedWorkOrders : activeWorkOrders;
   const selectedJob = selectedJobId ? state.savedEstimates.find(j => j.id === selectedJobId) : null;
+  const crewRig = crew?.rigId ? state.equipment.find(item => item.id === crew.rigId) : undefined;
+  const runningSession = openSession(selectedJob?.sessions);
+
+  const resumeSession = (session: JobSession) => {
+      setSessionId(session.id);
+      setJobStartTime(session.startedAt);
+      setLiveOCStrokes(session.openCellStrokes);
+      setLiveCCStrokes(session.closedCellStrokes);
+      setIsTimerRunning(true);
+  };
+
+  const clearTimer = () => {
+      setIsTimerRunning(false);
+      setJobStartTime(null);
+      setElapsedSeconds(0);
+      setSessionId(null);
+  };
+
+  // Pick the job's running session back up after a reload, or when it was
+  // started on another device
+  useEffect(() => {
+      if (!runningSession || isTimerRunning || endedSessionIds.current.has(runningSession.id)) return;
+      resumeSession(runningSession);
+  }, [runningSession?.id, isTimerRunning]);
+
+  useEffect(() => {
+      if (isTimerRunning && selectedJobId) safeStorage.setItem(ACTIVE_JOB_KEY, selectedJobId);
+      else safeStorage.removeItem(ACTIVE_JOB_KEY);
+  }, [isTimerRunning, selectedJobId]);
 
   const handleStartTimer = async () => {
-      const now = new Date().toISOString();
-      setJobStartTime(now);
-      setIsTimerRunning(true);
+      if (!selectedJobId) return;
+      const { session, error } = await startJobSession(selectedJobId);
+      if (!session) {
+          alert(`Could not start the job: ${error}`);
+          return;
+      }
+      resumeSession(session);
 
-      // Notify backend that crew started the job (with retry via crewUpdateJob)
+      // Notify backend that crew started the job (with retry via crewUpdateJob);
+      // the API fills in who started it and the session totals
       try {
           if (selectedJobId) {
               const success = await crewUpdateJob(
                   resolveSessionOrgId(),
                   selectedJobId,
-                  { startedAt: now, startedBy: 'Crew' },
+                  { ...selectedJob?.actuals },
                   'In Progress'
               );
               if (success) {
@@ -621,84 +665,78 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
       } catch (e) {
           console.warn('Failed to notify backend of job start:', e);
       }
+
+      // With personal logins, starting the job also clocks this person onto it
+      if (selectedJobId && state.crewMembers.length > 0) {
+          const { error } = await punch({ kind: 'job', estimateId: selectedJobId });
+          if (error) console.warn('Failed to clock in on job start:', error);
+      }
   };
 
   const handleStopTimer = async (isCompletion: boolean) => {
       if (!selectedJob || !jobStartTime) return;
-      
-      try {
-          const endTime = new Date().toISOString();
-          setIsSyncingTime(true);
-          
-          const sessionDurationHours = (new Date(endTime).getTime() - new Date(jobStartTime).getTime()) / (1000 * 60 * 60);
-
-          // Log crew time to estimate actuals
-          if (selectedJob.id) {
-            let user = "Crew";
-            try {
-                // Check both session keys — iOS can evict one or both
-                const s = safeStorage.getItem('foamProCrewSession') || safeStorage.getItem('foamProSession');
-                if (s) {
-                  const parsed = JSON.parse(s);
-                  user = parsed.username || parsed.companyName || 'Crew';
-                }
-            } catch(e) {
-                console.warn("Could not retrieve session user for timer log");
-            }
-            
-            await crewUpdateJob(
-              resolveSessionOrgId(),
-              selectedJob.id,
-              { 
-                ...selectedJob.actuals, 
-                lastTimeLog: { start: jobStartTime, end: endTime, user, hours: sessionDurationHours } 
-              },
-              selectedJob.executionStatus || 'In Progress'
-            );
-          }
 
-          // Clear local state
-          setIsTimerRunning(false);
-          setJobStartTime(null);
-          setElapsedSeconds(0);
-          
-          if (isCompletion) {
-              const estLabor = selectedJob.expenses?.manHours || 0;
-              // Safe access to materials and inventory
-              const estInventory = selectedJob.materials?.inventory ? [...selectedJob.materials.inventory] : [];
-              const ocSets = selectedJob.materials?.openCellSets || 0;
-              const ccSets = selectedJob.materials?.closedCellSets || 0;
-              
-              // Auto-populate stroke counts from the live counter
-              // Use ?? to preserve legitimate 0 values
-              const finalOCStrokes = liveOCStrokes || (selectedJob.actuals?.openCellStrokes ?? 0);
-              const finalCCStrokes = liveCCStrokes || (selectedJob.actuals?.closedCellStrokes ?? 0);
-
-              // Calculate actual sets from live stroke counts if available
-              // Use nullish coalescing (??) instead of || to preserve legitimate 0 values
-              const actualOCSets = liveOCStrokes > 0 
-                ? round2(liveOCStrokes / ocStrokesPerSet) 
-                : (selectedJob.actuals?.openCellSets ?? round2(ocSets));
-              const actualCCSets = liveCCStrokes > 0 
-                ? round2(liveCCStrokes / ccStrokesPerSet) 
-                : (selectedJob.actuals?.closedCellSets ?? round2(ccSets));
-
-              setActuals({
-                  openCellSets: actualOCSets,
-                  closedCellSets: actualCCSets,
-                  openCellStrokes: finalOCStrokes,
-                  closedCellStrokes: finalCCStrokes,
-                  laborHours: selectedJob.actuals?.laborHours ?? round2(parseFloat((estLabor || sessionDurationHours).toFixed(2))),
-                  inventory: selectedJob.actuals?.inventory ?? estInventory,
-                  notes: selectedJob.actuals?.notes ?? ''
-              });
-              setShowCompletionModal(true);
-          }
-      } catch (e: any) {
-          alert(`Error updating timer: ${e.message}`);
-      } finally {
-          setIsSyncingTime(false);
+      if (isCompletion) {
+          // The session keeps running until the completion figures are submitted
+          const earlier = (selectedJob.sessions || []).filter(session => session.id !== sessionId);
+          const current = selectedJob.sessions?.find(session => session.id === sessionId);
+          // Without a stroke count, a single-visit job defaults to the estimate
+          const estOCSets = earlier.length === 0 ? round2(selectedJob.materials?.openCellSets || 0) : 0;
+          const estCCSets = earlier.length === 0 ? round2(selectedJob.materials?.closedCellSets || 0) : 0;
+
+          setActuals({
+              openCellSets: liveOCStrokes > 0 ? round2(liveOCStrokes / ocStrokesPerSet) : estOCSets,
+              closedCellSets: liveCCStrokes > 0 ? round2(liveCCStrokes / ccStrokesPerSet) : estCCSets,
+              openCellStrokes: liveOCStrokes,
+              closedCellStrokes: liveCCStrokes,
+              laborHours: round2(sessionHours({ startedAt: jobStartTime })),
+              inventory: selectedJob.actuals?.inventory ?? (selectedJob.materials?.inventory ? [...selectedJob.materials.inventory] : []),
+              notes: current?.notes ?? '',
+              conditions: current?.conditions ?? {}
+          });
+          setModalSessionId(sessionId);
+          setShowCompletionModal(true);
+          return;
+      }
+
+      if (!sessionId) {
+          clearTimer();
+          return;
       }
+
+      setIsSyncingTime(true);
+      const { error } = await updateJobSession(selectedJob.id, sessionId, {
+          openCellStrokes: liveOCStrokes,
+          closedCellStrokes: liveCCStrokes,
+          openCellSets: round2(liveOCStrokes / ocStrokesPerSet),
+          closedCellSets: round2(liveCCStrokes / ccStrokesPerSet),
+          end: true,
+      });
+      setIsSyncingTime(false);
+      if (error) {
+          alert(`Error updating timer: ${error}`);
+          return;
+      }
+      endedSessionIds.current.add(sessionId);
+      clearTimer();
+  };
+
+  const handleEditDetails = () => {
+      if (!selectedJob) return;
+      // A job tracked in sessions is corrected through its last one
+      const last = selectedJob.sessions?.[selectedJob.sessions.length - 1];
+      setActuals({
+          openCellSets: (last ? last.openCellSets : selectedJob.actuals?.openCellSets) || 0,
+          closedCellSets: (last ? last.closedCellSets : selectedJob.actuals?.closedCellSets) || 0,
+          openCellStrokes: (last ? last.openCellStrokes : selectedJob.actuals?.openCellStrokes) || 0,
+          closedCellStrokes: (last ? last.closedCellStrokes : selectedJob.actuals?.closedCellStrokes) || 0,
+          laborHours: (last ? sessionLaborHours(last) : selectedJob.actuals?.laborHours) || 0,
+          inventory: selectedJob.actuals?.inventory || [],
+          notes: (last ? last.notes : selectedJob.actuals?.notes) || '',
+          conditions: (last ? last.conditions : selectedJob.actuals?.conditions) || {}
+      });
+      setModalSessionId(last?.id || null);
+      setShowCompletionModal(true);
   };
 
   const handleCompleteJobSubmit = async () => {
@@ -719,19 +757,38 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
           }
         } catch { /* use default */ }
         
-        const finalData = {
+        // The modal's figures are for this visit; the job gets the totals
+        let sessions = selectedJob.sessions || [];
+        if (modalSessionId) {
+            const { session, error } = await updateJobSession(selectedJob.id, modalSessionId, {
+                openCellSets: actuals.openCellSets,
+                closedCellSets: actuals.closedCellSets,
+                openCellStrokes: actuals.openCellStrokes,
+                closedCellStrokes: actuals.closedCellStrokes,
+                laborHours: actuals.laborHours,
+                conditions: actuals.conditions,
+                notes: actuals.notes,
+                end: true,
+            });
+            if (!session) throw new Error(error || 'Could not save this visit.');
+            endedSessionIds.current.add(session.id);
+            sessions = sessions.map(existing => existing.id === session.id ? session : existing);
+        }
+
+        const finalData = applySessionTotals({
             ...actuals,
             ocStrokesPerSet,
             ccStrokesPerSet,
             completionDate: new Date().toISOString(),
             completedBy: sessionUser
-        };
+        }, sessions);
 
         const success = await crewUpdateJob(sessionOrgId, selectedJob.id, finalData, 'Completed');
         
         if (success) {
             setLiveOCStrokes(0);
             setLiveCCStrokes(0);
+            clearTimer();
 
             setShowCompletionModal(false);
             setSelectedJobId(null);
@@ -789,7 +846,7 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
                     </button>
                     <div className="text-right font-mono">
                         <div className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">Work Order</div>
-                        <div className="text-base font-bold text-orange-500">#{selectedJob.id.substring(0,8).toUpperCase()}</div>
+                        <div className="text-base font-bold text-orange-500">#{selectedJob.workOrderNumber || selectedJob.id.substring(0,8).toUpperCase()}</div>
                     </div>
                 </div>
                 
@@ -808,19 +865,7 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
                         <div className="flex gap-2">
                             {selectedJob.executionStatus === 'Completed' ? (
                                 <button 
-                                    onClick={() => {
-                                        // Allow editing completion details without timer
-                                        setActuals({
-                                            openCellSets: selectedJob.actuals?.openCellSets || 0,
-                                            closedCellSets: selectedJob.actuals?.closedCellSets || 0,
-                                            openCellStrokes: selectedJob.actuals?.openCellStrokes || 0,
-                                            closedCellStrokes: selectedJob.actuals?.closedCellStrokes || 0,
-                                            laborHours: selectedJob.actuals?.laborHours || 0,
-                                            inventory: selectedJob.actuals?.inventory || [],
-                                            notes: selectedJob.actuals?.notes || ''
-                                        });
-                                        setShowCompletionModal(true);
-                                    }}
+                                    onClick={handleEditDetails}
                                     className="bg-gray-700 border border-gray-600 text-white px-5 py-2 rounded-sm font-mono font-bold text-xs uppercase tracking-widest flex items-center gap-2 hover:bg-gray-600"
                                 >
                                     Edit Details
@@ -1315,17 +1360,43 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
                         {(selectedJob.results?.totalWallArea ?? 0) > 0 && (
                             <div className="p-3 bg-[#172032] border border-gray-700">
                                 <div className="text-[10px] text-orange-500 font-mono font-bold uppercase tracking-widest mb-1">Walls</div>
-                                <div className="text-white font-mono font-bold text-base leading-tight">{selectedJob.wallSettings?.type}</div>
-                                <div className="text-gray-400 font-mono text-sm mt-1">@ {selectedJob.wallSettings?.thickness}" Depth</div>
-                                <div className="mt-2 pt-2 border-t border-gray-700 text-xs font-mono font-bold text-gray-500 text-right">{Math.round(selectedJob.results?.totalWallArea ?? 0).toLocaleString()} sqft</div>
+                                {selectedJob.wallSettings && isLayeredSpec(selectedJob.wallSettings) ? (
+                                    <div className="space-y-1">
+                                        {getFoamLayers(selectedJob.wallSettings).map((layer, i) => (
+                                            <div key={i} className="text-white font-mono font-bold text-sm leading-tight">
+                                                <span className="text-gray-500">Pass {i + 1}:</span> {layer.type} @ {formatQuantity(layer.thickness, 'depth', units)}
+                                            </div>
+                                        ))}
+                                        <div className="text-gray-400 font-mono text-sm">{formatQuantity(selectedJob.wallSettings.thickness, 'depth', units)} Total Depth</div>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div className="text-white font-mono font-bold text-base leading-tight">{selectedJob.wallSettings?.type}</div>
+                                        <div className="text-gray-400 font-mono text-sm mt-1">@ {formatQuantity(selectedJob.wallSettings?.thickness || 0, 'depth', units)} Depth</div>
+                                    </>
+                                )}
+                                <div className="mt-2 pt-2 border-t border-gray-700 text-xs font-mono font-bold text-gray-500 text-right">{formatQuantity(selectedJob.results?.totalWallArea ?? 0, 'area', units, 0)}</div>
                             </div>
                         )}
                         {(selectedJob.results?.totalRoofArea ?? 0) > 0 && (
                             <div className="p-3 bg-[#172032] border border-gray-700">
                                 <div className="text-[10px] text-orange-500 font-mono font-bold uppercase tracking-widest mb-1">Roof / Ceiling</div>
-                                <div className="text-white font-mono font-bold text-base leading-tight">{selectedJob.roofSettings?.type}</div>
-                                <div className="text-gray-400 font-mono text-sm mt-1">@ {selectedJob.roofSettings?.thickness}" Depth</div>
-                                <div className="mt-2 pt-2 border-t border-gray-700 text-xs font-mono font-bold text-gray-500 text-right">{Math.round(selectedJob.results?.totalRoofArea ?? 0).toLocaleString()} sqft</div>
+                                {selectedJob.roofSettings && isLayeredSpec(selectedJob.roofSettings) ? (
+                                    <div className="space-y-1">
+                                        {getFoamLayers(selectedJob.roofSettings).map((layer, i) => (
+                                            <div key={i} className="text-white font-mono font-bold text-sm leading-tight">
+                                                <span className="text-gray-500">Pass {i + 1}:</span> {layer.type} @ {formatQuantity(layer.thickness, 'depth', units)}
+                                            </div>
+                                        ))}
+                                        <div className="text-gray-400 font-mono text-sm">{formatQuantity(selectedJob.roofSettings.thickness, 'depth', units)} Total Depth</div>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div className="text-white font-mono font-bold text-base leading-tight">{selectedJob.roofSettings?.type}</div>
+                                        <div className="text-gray-400 font-mono text-sm mt-1">@ {formatQuantity(selectedJob.roofSettings?.thickness || 0, 'depth', units)} Depth</div>
+                                    </>
+                                )}
+                                <div className="mt-2 pt-2 border-t border-gray-700 text-xs font-mono font-bold text-gray-500 text-right">{formatQuantity(selectedJob.results?.totalRoofArea ?? 0, 'area', units, 0)}</div>
                             </div>
                         )}
                     </div>
@@ -1379,6 +1450,32 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
                         </p>
                     </div>
                 )}
+
+                {/* Visits Card */}
+                {selectedJob.sessions && selectedJob.sessions.length > 0 && (
+                    <div className="bg-gray-800 p-4 border-2 border-gray-600">
+                        <h3 className="text-xs font-mono font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                            <Calendar className="w-4 h-4" /> Visits
+                        </h3>
+                        <div className="divide-y divide-gray-700">
+                            {selectedJob.sessions.map((session, idx) => (
+                                <div key={session.id} className="py-2 flex justify-between gap-3 text-xs font-mono">
+                                    <div>
+                                        <div className="font-bold text-white">Visit {idx + 1} · {session.workDate}</div>
+                                        <div className="text-gray-500">
+                                            {session.crewName || session.startedBy}
+                                            {session.endedAt ? '' : <span className="text-red-400"> · on site now</span>}
+                                        </div>
+                                    </div>
+                                    <div className="text-right text-gray-400">
+                                        <div>OC {session.openCellSets.toFixed(2)} · CC {session.closedCellSets.toFixed(2)} sets</div>
+                                        <div>{session.endedAt ? `${sessionLaborHours(session)} labor hrs` : `${round2(sessionHours(session))} hrs so far`}</div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </div>
 
             {/* Completion Modal */}
@@ -1388,8 +1485,18 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
                         <h3 className="text-xl font-mono font-bold text-white uppercase tracking-tight mb-6 border-b border-gray-600 pb-3">Complete Job</h3>
                         
                         <div className="space-y-4">
+                            {(() => {
+                                const earlier = (selectedJob.sessions || []).filter(session => session.id !== modalSessionId);
+                                if (!modalSessionId || earlier.length === 0) return null;
+                                const totals = sumSessions(earlier);
+                                return (
+                                    <div className="p-3 bg-[#172032] border border-gray-700 text-xs font-mono text-gray-400">
+                                        Enter this visit only. Other visits ({earlier.length}) add {totals.openCellSets.toFixed(2)} OC sets, {totals.closedCellSets.toFixed(2)} CC sets and {totals.laborHours} labor hrs to the job.
+                                    </div>
+                                );
+                            })()}
                             <div>
-                                <label className="block text-[10px] font-mono font-bold text-gray-500 uppercase tracking-widest mb-2">Total Labor Hours</label>
+                                <label className="block text-[10px] font-mono font-bold text-gray-500 uppercase tracking-widest mb-2">{modalSessionId ? 'Labor Hours (This Visit)' : 'Total Labor Hours'}</label>
                                 <input 
                                     type="number" 
                                     value={actuals.laborHours || ''} 
@@ -1465,6 +1572,32 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
                                 </div>
                             </div>
 
+                            {/* SITE READINGS — compared against the estimate's job conditions */}
+                            <div className="p-3 bg-[#1f1a2e] border border-violet-900 space-y-3">
+                                <h4 className="text-xs font-mono font-bold text-violet-400 uppercase tracking-widest border-b border-violet-900 pb-2">Site Readings</h4>
+                                {selectedJob.inputs?.jobConditions && describeJobConditions(selectedJob.inputs.jobConditions, units) && (
+                                    <p className="text-[10px] text-violet-500 font-mono">Est: {describeJobConditions(selectedJob.inputs.jobConditions, units)}</p>
+                                )}
+                                <div className="grid grid-cols-3 gap-2">
+                                    {([['ambientTempF', `Ambient ${unitLabel('temperature', units)}`], ['substrateTempF', `Substrate ${unitLabel('temperature', units)}`], ['humidity', 'Humidity %']] as const).map(([field, label]) => (
+                                        <div key={field}>
+                                            <label className="text-[10px] font-mono font-bold text-violet-600 block mb-1">{label}</label>
+                                            <input 
+                                                type="number"
+                                                value={actuals.conditions[field] === undefined ? '' : field === 'humidity' ? actuals.conditions[field] : toDisplay(actuals.conditions[field]!, 'temperature', units)} 
+                                                onChange={(e) => {
+                                                    const reading = parseFloat(e.target.value);
+                                                    const stored = isNaN(reading) ? undefined : field === 'humidity' ? reading : fromDisplay(reading, 'temperature', units);
+                                                    setActuals({ ...actuals, conditions: { ...actuals.conditions, [field]: stored } });
+                                                }}
+                                                placeholder="—"
+                                                className="w-full p-2 bg-gray-900 border-2 border-violet-900 font-mono font-bold text-lg text-violet-300 focus:border-violet-500 outline-none"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
                             {/* INVENTORY ITEMS (Non-Foam Materials) */}
                             {actuals.inventory && actuals.inventory.length > 0 && (
                                 <div className="p-3 bg-[#252515] border border-yellow-900 space-y-3">
@@ -1566,7 +1699,12 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
             </div>
             <div className="flex justify-between items-end">
                 <div>
-                    <h1 className="text-lg font-mono font-bold uppercase tracking-widest">Crew Dashboard</h1>
+                    <h1 className="text-lg font-mono font-bold uppercase tracking-widest">{crew ? crew.name : 'Crew Dashboard'}</h1>
+                    {crew && (
+                        <p className="text-gray-400 text-xs font-mono flex items-center gap-2">
+                            {crewRig && <><Truck className="w-3 h-3" /> {crewRig.name} · </>}{crew.members.join(', ') || 'No members listed'}
+                        </p>
+                    )}
                     <p className="text-gray-500 text-xs font-mono">Select a Work Order to begin.</p>
                     <div className="mt-2"><FeedbackButton area="Crew Dashboard" /></div>
                 </div>
@@ -1701,6 +1839,12 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
           </div>
         )}
 
+        {!showHistory && (
+            <div className="px-4 mt-4 max-w-2xl mx-auto">
+                <CrewTimeClock people={state.crewMembers} jobs={activeWorkOrders} />
+            </div>
+        )}
+
         <div className="px-4 mt-4 space-y-2 max-w-2xl mx-auto">
             {displayedJobs.length === 0 ? (
                 <div className="bg-gray-800 border-2 border-gray-600 p-8 text-center">
@@ -1727,8 +1871,9 @@ export const CrewDashboard: React.FC<CrewDashboardProps> = ({ state, organizatio
                             <div>
                                 <div className="text-[10px] font-mono font-bold text-gray-500 uppercase tracking-widest mb-1 flex items-center gap-2">
                                     Work Order {job.executionStatus === 'Completed' && <span className="bg-emerald-900 text-emerald-400 px-1.5 py-0.5 border border-emerald-700">DONE</span>}
+                                    {openSession(job.sessions) && <span className="bg-[#2a1015] text-red-400 px-1.5 py-0.5 border border-red-900">ON SITE</span>}
                                 </div>
-                                <div className="text-base font-mono font-bold text-orange-500">#{job.id.substring(0,8).toUpperCase()}</div>
+                                <div className="text-base font-mono font-bold text-orange-500">#{job.workOrderNumber || job.id.substring(0,8).toUpperCase()}</div>
                             </div>
                             <div className="p-1.5 border border-gray-600 text-gray-500 group-hover:text-orange-500 group-hover:border-orange-600 transition-colors">
                                 <ArrowRight className="w-4 h-4" />
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Loader2, Truck, KeyRound } from 'lucide-react';
+import { CalculatorState, Crew, CrewMember } from '../types';
+import { createCrew, createCrewMember, CrewInput, CrewMemberInput, deleteCrew, updateCrew, updateCrewMember } from '../services/crewService';
+
+interface CrewManagerProps {
+  state: CalculatorState;
+  onUpdateState: (newState: Partial<CalculatorState>) => void;
+  onNotify?: (notification: { type: 'success' | 'error'; message: string }) => void;
+}
+
+const askPin = (name: string) => {
+  const pin = prompt(`PIN for ${name} (at least 4 characters):`)?.trim();
+  if (pin && pin.length < 4) alert('A PIN needs at least 4 characters.');
+  return pin && pin.length >= 4 ? pin : undefined;
+};
+
+/**
+ * Settings section for the org's crews and the people on them. Each crew
+ * has the rig it runs; each person has their own login and PIN and sees
+ * only their crew's work orders. Edits are saved when a field loses focus.
+ */
+export const CrewManager: React.FC<CrewManagerProps> = ({ state, onUpdateState, onNotify }) => {
+  const crews = state.crews || [];
+  const members = state.crewMembers || [];
+  const [isAdding, setIsAdding] = useState(false);
+
+  const setCrews = (next: Crew[]) => onUpdateState({ crews: [...next].sort((a, b) => a.name.localeCompare(b.name)) });
+  const setMembers = (next: CrewMember[]) => onUpdateState({ crewMembers: [...next].sort((a, b) => a.name.localeCompare(b.name)) });
+
+  const addCrew = async () => {
+    const name = prompt('Crew name (e.g. Rig 1):')?.trim();
+    if (!name) return;
+    setIsAdding(true);
+    const { crew, error } = await createCrew({ name });
+    setIsAdding(false);
+    if (!crew) {
+      onNotify?.({ type: 'error', message: error || 'Failed to add crew.' });
+      return;
+    }
+    setCrews([...crews, crew]);
+  };
+
+  const saveCrew = async (original: Crew, input: Partial<CrewInput>) => {
+    const { crew, error } = await updateCrew(original.id, input);
+    if (!crew) {
+      onNotify?.({ type: 'error', message: error || `Failed to save ${original.name}.` });
+      setCrews(crews.map(c => c.id === original.id ? original : c));
+      return;
+    }
+    setCrews(crews.map(c => c.id === crew.id ? crew : c));
+  };
+
+  const removeCrew = async (crew: Crew) => {
+    if (!confirm(`Delete ${crew.name}? Its work orders become unassigned and its members see no work orders until you put them on another crew.`)) return;
+    if (await deleteCrew(crew.id)) {
+      setCrews(crews.filter(c => c.id !== crew.id));
+    } else {
+      onNotify?.({ type: 'error', message: 'Failed to delete crew.' });
+    }
+  };
+
+  const addMember = async () => {
+    const name = prompt("Person's name, as they'll type it to log in:")?.trim();
+    if (!name) return;
+    const pin = askPin(name);
+    if (!pin) return;
+    setIsAdding(true);
+    const { member, error } = await createCrewMember({ name, pin, crewId: crews.length === 1 ? crews[0].id : null });
+    setIsAdding(false);
+    if (!member) {
+      onNotify?.({ type: 'error', message: error || `Failed to add ${name}.` });
+      return;
+    }
+    setMembers([...members, member]);
+    onNotify?.({ type: 'success', message: `${name} can now log in with their PIN.` });
+  };
+
+  const saveMember = async (original: CrewMember, input: Partial<CrewMemberInput>) => {
+    const { member, error } = await updateCrewMember(original.id, input);
+    if (!member) {
+      onNotify?.({ type: 'error', message: error || `Failed to save ${original.name}.` });
+      setMembers(members.map(m => m.id === original.id ? original : m));
+      return false;
+    }
+    setMembers(members.map(m => m.id === member.id ? member : m));
+    return true;
+  };
+
+  const resetPin = async (member: CrewMember) => {
+    const pin = askPin(member.name);
+    if (pin && await saveMember(member, { pin })) {
+      onNotify?.({ type: 'success', message: `${member.name}'s PIN changed.` });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-end border-b border-slate-100 pb-3">
+        <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em]">Crews</h3>
+        <div className="flex gap-2">
+          {isAdding && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+          <button disabled={isAdding} onClick={addCrew} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-1 rounded-lg transition-colors flex items-center gap-1">
+            <Plus className="w-3 h-3" /> Crew
+          </button>
+          <button disabled={isAdding} onClick={addMember} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-1 rounded-lg transition-colors flex items-center gap-1">
+            <Plus className="w-3 h-3" /> Person
+          </button>
+        </div>
+      </div>
+
+      {crews.length === 0 && members.length === 0 ? (
+        <p className="text-xs text-slate-400 font-medium">
+          No crews yet. Crews log in with the shared Crew Access PIN and see every work order until you add a crew or a person.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {crews.map(crew => (
+            <CrewRow
+              key={crew.id}
+              crew={crew}
+              state={state}
+              onNameChange={(name) => setCrews(crews.map(c => c.id === crew.id ? { ...c, name } : c))}
+              onNameBlur={(name) => name.trim() && saveCrew(crew, { name: name.trim() })}
+              onRigChange={(rigId) => saveCrew(crew, { rigId: rigId || null })}
+              onRemove={() => removeCrew(crew)}
+            />
+          ))}
+          {members.length > 0 && (
+            <div className="pt-2 space-y-2">
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Crew Logins</h4>
+              {members.map(member => (
+                <CrewMemberRow
+                  key={member.id}
+                  member={member}
+                  crews={crews}
+                  onNameChange={(name) => setMembers(members.map(m => m.id === member.id ? { ...m, name } : m))}
+                  onNameBlur={(name) => name.trim() && saveMember(member, { name: name.trim() })}
+                  onCrewChange={(crewId) => saveMember(member, { crewId: crewId || null })}
+                  onToggleActive={() => saveMember(member, { active: !member.active })}
+                  onResetPin={() => resetPin(member)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-slate-400 font-medium ml-1">
+        Once you add a crew or a person, the shared Crew Access PIN stops working and everyone logs in with their own name and PIN. Turn a login off to lock one person out without changing anyone else's PIN.
+      </p>
+    </div>
+  );
+};
+
+interface CrewRowProps {
+  crew: Crew;
+  state: CalculatorState;
+  onNameChange: (name: string) => void;
+  onNameBlur: (name: string) => void;
+  onRigChange: (rigId: string) => void;
+  onRemove: () => void;
+}
+
+const CrewRow: React.FC<CrewRowProps> = ({ crew, state, onNameChange, onNameBlur, onRigChange, onRemove }) => {
+  const openJobs = state.savedEstimates.filter(e => e.crewId === crew.id && e.status === 'Work Order' && e.executionStatus !== 'Completed').length;
+
+  return (
+    <div className="p-3 rounded-xl border bg-slate-50 border-slate-200">
+      <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+        <div className="col-span-2 md:col-span-3">
+          <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Crew · {openJobs} open</label>
+          <input
+            type="text"
+            maxLength={60}
+            value={crew.name}
+            onChange={(e) => onNameChange(e.target.value)}
+            onBlur={(e) => onNameBlur(e.target.value)}
+            className="w-full bg-white border border-slate-200 p-2 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-brand"
+          />
+        </div>
+        <div className="col-span-2 md:col-span-5">
+          <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Members</label>
+          <p className="p-2 text-sm font-medium text-slate-600 truncate">
+            {crew.members.length > 0 ? crew.members.join(', ') : <span className="text-slate-400">Nobody yet</span>}
+          </p>
+        </div>
+        <div className="col-span-1 md:col-span-3">
+          <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1 flex items-center gap-1"><Truck className="w-3 h-3" /> Rig</label>
+          <select
+            value={crew.rigId || ''}
+            onChange={(e) => onRigChange(e.target.value)}
+            className="w-full bg-white border border-slate-200 p-2 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-brand"
+          >
+            <option value="">None</option>
+            {(state.equipment || []).map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+          </select>
+        </div>
+        <div className="col-span-1 md:col-span-1 flex justify-end">
+          <button onClick={onRemove} title="Delete crew" className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface CrewMemberRowProps {
+  member: CrewMember;
+  crews: Crew[];
+  onNameChange: (name: string) => void;
+  onNameBlur: (name: string) => void;
+  onCrewChange: (crewId: string) => void;
+  onToggleActive: () => void;
+  onResetPin: () => void;
+}
+
+const CrewMemberRow: React.FC<CrewMemberRowProps> = ({ member, crews, onNameChange, onNameBlur, onCrewChange, onToggleActive, onResetPin }) => (
+  <div className={`p-3 rounded-xl border grid grid-cols-2 md:grid-cols-12 gap-2 items-center ${member.active ? 'bg-white border-slate-200' : 'bg-slate-50 border-slate-100 opacity-60'}`}>
+    <input
+      type="text"
+      maxLength={60}
+      value={member.name}
+      onChange={(e) => onNameChange(e.target.value)}
+      onBlur={(e) => onNameBlur(e.target.value)}
+      className="col-span-2 md:col-span-4 bg-white border border-slate-200 p-2 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-brand"
+    />
+    <select
+      value={member.crewId || ''}
+      onChange={(e) => onCrewChange(e.target.value)}
+      className="col-span-2 md:col-span-4 bg-white border border-slate-200 p-2 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-brand"
+    >
+      <option value="">No crew</option>
+      {crews.map(crew => <option key={crew.id} value={crew.id}>{crew.name}</option>)}
+    </select>
+    <button onClick={onResetPin} className="md:col-span-2 text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-2 rounded-lg transition-colors flex items-center justify-center gap-1">
+      <KeyRound className="w-3 h-3" /> Reset PIN
+    </button>
+    <label className="md:col-span-2 flex items-center justify-end gap-2 text-[10px] font-bold text-slate-500 uppercase cursor-pointer">
+      <input type="checkbox" checked={member.active} onChange={onToggleActive} className="w-4 h-4 accent-slate-900" />
+      {member.active ? 'Active' : 'Off'}
+    </label>
+  </div>
+);
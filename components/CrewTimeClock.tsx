@@ -0,0 +1,159 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Clock, Loader2, RefreshCw } from 'lucide-react';
+import { CrewMember, EstimateRecord, TimeEntry, TimeEntryKind } from '../types';
+import { clockOut, getOpenEntries, punch } from '../services/timeClockService';
+import { entryHours, TIME_ENTRY_LABELS } from '../utils/timesheets';
+
+interface CrewTimeClockProps {
+  // Everyone this login can punch: the crew, or just the person logged in
+  people: CrewMember[];
+  // Work orders job time can go against
+  jobs: EstimateRecord[];
+}
+
+const REFRESH_MS = 30_000;
+
+const jobLabel = (job: EstimateRecord) => `#${job.workOrderNumber || job.id.substring(0, 8).toUpperCase()} ${job.customer.name}`;
+
+const formatElapsed = (hours: number) => {
+  const minutes = Math.floor(hours * 60);
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+/**
+ * Clock-in board for the crew tablet: one row per person, each punched onto
+ * a job, travel, shop time or a break, or out. Switching ends the previous
+ * entry, so a person is only ever on one thing at a time.
+ */
+export const CrewTimeClock: React.FC<CrewTimeClockProps> = ({ people, jobs }) => {
+  const [openEntries, setOpenEntries] = useState<TimeEntry[]>([]);
+  const [jobId, setJobId] = useState(jobs[0]?.id || '');
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    setOpenEntries(await getOpenEntries());
+    setNow(Date.now());
+    setIsRefreshing(false);
+  }, []);
+
+  useEffect(() => {
+    if (people.length === 0) return;
+    refresh();
+    const interval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [people.length, refresh]);
+
+  useEffect(() => {
+    if (!jobs.some(job => job.id === jobId)) setJobId(jobs[0]?.id || '');
+  }, [jobs, jobId]);
+
+  const handlePunch = async (userId: string, kind: TimeEntryKind) => {
+    setBusyUserId(userId);
+    setError(null);
+    const result = await punch({ userId, kind, estimateId: kind === 'job' ? jobId : undefined });
+    if (result.error) setError(result.error);
+    await refresh();
+    setBusyUserId(null);
+  };
+
+  const handleClockOut = async (userId: string) => {
+    setBusyUserId(userId);
+    setError(null);
+    const failure = await clockOut(userId);
+    if (failure) setError(failure);
+    await refresh();
+    setBusyUserId(null);
+  };
+
+  const describe = (entry: TimeEntry) => {
+    if (entry.kind !== 'job') return TIME_ENTRY_LABELS[entry.kind];
+    const job = jobs.find(j => j.id === entry.estimateId);
+    return job ? jobLabel(job) : 'Job';
+  };
+
+  if (people.length === 0) {
+    return (
+      <div className="bg-gray-800 border-2 border-gray-600 p-4 text-xs font-mono text-gray-500">
+        <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-gray-400 mb-1">
+          <Clock className="w-4 h-4" /> Time Clock
+        </div>
+        The time clock needs personal crew logins. Ask your admin to add each person under Settings.
+      </div>
+    );
+  }
+
+  const buttonClass = 'px-2 py-1.5 border text-[10px] font-mono font-bold uppercase tracking-widest transition-colors disabled:opacity-40';
+
+  return (
+    <div className="bg-gray-800 border-2 border-gray-600">
+      <div className="px-4 py-3 border-b border-gray-700 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-[10px] font-mono font-bold uppercase tracking-widest text-gray-400">
+          <Clock className="w-4 h-4 text-orange-500" /> Time Clock
+        </div>
+        <div className="flex items-center gap-2 min-w-0">
+          <select
+            value={jobId}
+            onChange={(e) => setJobId(e.target.value)}
+            className="bg-gray-900 border border-gray-600 text-white text-xs font-mono px-2 py-1.5 min-w-0 max-w-[14rem]"
+          >
+            {jobs.length === 0 && <option value="">No open work orders</option>}
+            {jobs.map(job => <option key={job.id} value={job.id}>{jobLabel(job)}</option>)}
+          </select>
+          <button onClick={refresh} disabled={isRefreshing} className="p-1.5 border border-gray-600 text-gray-400 hover:text-white">
+            <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="px-4 py-2 text-xs font-mono text-red-400 border-b border-gray-700">{error}</div>}
+
+      <div className="divide-y divide-gray-700">
+        {people.map(person => {
+          const open = openEntries.find(entry => entry.userId === person.id);
+          const busy = busyUserId === person.id;
+          return (
+            <div key={person.id} className="px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm font-mono font-bold text-white truncate">{person.name}</div>
+                <div className={`text-[10px] font-mono uppercase tracking-widest ${open ? 'text-emerald-400' : 'text-gray-500'}`}>
+                  {open ? `${describe(open)} · ${formatElapsed(entryHours(open, now))}` : 'Clocked out'}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                {busy && <Loader2 className="w-4 h-4 animate-spin text-gray-400 mr-1" />}
+                <button
+                  onClick={() => handlePunch(person.id, 'job')}
+                  disabled={busy || !jobId}
+                  className={`${buttonClass} ${open?.kind === 'job' && open.estimateId === jobId ? 'bg-emerald-700 border-emerald-600 text-white' : 'border-gray-600 text-gray-300 hover:border-emerald-600'}`}
+                >
+                  On Job
+                </button>
+                {(['travel', 'shop', 'break'] as TimeEntryKind[]).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => handlePunch(person.id, kind)}
+                    disabled={busy}
+                    className={`${buttonClass} ${open?.kind === kind ? 'bg-orange-600 border-orange-500 text-white' : 'border-gray-600 text-gray-300 hover:border-orange-600'}`}
+                  >
+                    {TIME_ENTRY_LABELS[kind]}
+                  </button>
+                ))}
+                <button
+                  onClick={() => handleClockOut(person.id)}
+                  disabled={busy || !open}
+                  className={`${buttonClass} border-gray-600 text-gray-300 hover:border-red-600`}
+                >
+                  Out
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
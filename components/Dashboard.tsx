@@ -6,17 +6,20 @@ import { CalculatorState, EstimateRecord, SubscriptionInfo } from '../types';
 import { usePagination } from '../hooks/usePagination';
 import { PaginationControls } from './PaginationControls';
 import { FeedbackButton } from './FeedbackButton';
+import { SalesTaxReport } from './SalesTaxReport';
+import { ReceivablesReport } from './ReceivablesReport';
+import { actualLaborHours } from '../utils/jobFinancials';
 
 interface DashboardProps {
   state: CalculatorState;
   onEditEstimate: (record: EstimateRecord) => void;
   onDeleteEstimate: (id: string, e?: React.MouseEvent) => void;
   onNewEstimate: () => void;
-  onMarkPaid?: (id: string) => void; 
   initialFilter?: 'all' | 'work_orders' | 'invoices';
   onGoToWarehouse: () => void;
   onViewInvoice?: (record: EstimateRecord) => Promise<void> | void;
   onDownloadPDF?: (record: EstimateRecord, type: 'ESTIMATE' | 'INVOICE' | 'RECEIPT') => void;
+  onDownloadStatement?: (customerId: string) => void;
   onSync: () => void;
   subscription?: SubscriptionInfo | null;
 }
@@ -26,15 +29,15 @@ export const Dashboard: React.FC<DashboardProps> = ({
   onEditEstimate, 
   onDeleteEstimate, 
   onNewEstimate,
-  onMarkPaid,
   initialFilter = 'all',
   onGoToWarehouse,
   onViewInvoice,
   onDownloadPDF,
+  onDownloadStatement,
   onSync,
   subscription
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'financials'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'financials' | 'receivables'>('overview');
   const [dashboardFilter, setDashboardFilter] = useState<'all' | 'review' | 'work_orders' | 'invoices'>('all');
 
   // React to prop changes
@@ -97,7 +100,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
           } else {
               totalRevenue += job.totalValue || 0;
               const matCost = job.results.materialCost || 0;
-              const laborHrs = job.actuals?.laborHours || job.expenses.manHours || 0;
+              const laborHrs = actualLaborHours(job.actuals) || job.expenses.manHours || 0;
               const laborRate = job.expenses.laborRate || state.costs.laborRate || 0;
               const lCost = laborHrs * laborRate;
               const misc = (job.expenses.tripCharge || 0) + (job.expenses.fuelSurcharge || 0) + (job.expenses.other?.amount || 0);
@@ -137,14 +140,6 @@ export const Dashboard: React.FC<DashboardProps> = ({
     estimatesPagination.goToPage(1);
   }, [dashboardFilter]);
 
-  const handlePaidClick = (id: string, e: React.MouseEvent) => {
-      e.stopPropagation();
-      e.preventDefault();
-      if (confirm("Mark this invoice as PAID in full? This will finalize Profit & Loss for this job.")) {
-          if (onMarkPaid) onMarkPaid(id);
-      }
-  };
-
   const TabButton = ({ id, label, icon: Icon }: any) => (
       <button 
         onClick={() => setActiveTab(id)}
@@ -268,6 +263,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
         <div className="flex border-b border-slate-200 gap-2">
             <TabButton id="overview" label="Operations" icon={HardHat} />
             <TabButton id="financials" label="Profit & Loss" icon={TrendingUp} />
+            <TabButton id="receivables" label="Receivables" icon={Wallet} />
         </div>
 
         {/* OPERATIONS VIEW */}
@@ -468,7 +464,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                                             }}
                                                             className="px-3 py-1 bg-emerald-500 hover:bg-emerald-600 text-white rounded shadow-sm text-[10px] font-bold uppercase tracking-wider transition-colors"
                                                         >
-                                                            Mark Paid
+                                                            Record Payment
                                                         </button>
                                                     )}
                                                     <button 
@@ -555,6 +551,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     </div>
                 </div>
 
+                <SalesTaxReport estimates={state.savedEstimates} />
+
                 {/* Job Profitability Table */}
                 <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
                     <div className="p-4 md:p-6 border-b border-slate-100">
@@ -573,7 +571,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                 } else {
                                     rev = job.totalValue || 0;
                                     const mat = job.results.materialCost || 0;
-                                    const labor = (job.actuals?.laborHours || job.expenses.manHours || 0) * (job.expenses.laborRate || state.costs.laborRate || 0);
+                                    const labor = (actualLaborHours(job.actuals) || job.expenses.manHours || 0) * (job.expenses.laborRate || state.costs.laborRate || 0);
                                     const misc = (job.expenses.tripCharge || 0) + (job.expenses.fuelSurcharge || 0) + (job.expenses.other?.amount || 0);
                                     cogs = mat + labor + misc; net = rev - cogs;
                                     margin = rev > 0 ? net / rev : 0;
@@ -587,7 +585,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                                     onClick={(e) => { e.stopPropagation(); if (onViewInvoice) onViewInvoice(job); }}
                                                     className="text-[10px] text-blue-500 font-bold flex items-center gap-1 mt-0.5"
                                                 >
-                                                    #{job.invoiceNumber || job.id.substring(0, 8)} <ArrowRight className="w-2 h-2" />
+                                                    #{job.invoiceNumber || job.workOrderNumber || job.id.substring(0, 8)} <ArrowRight className="w-2 h-2" />
                                                 </button>
                                             </div>
                                             <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase shrink-0 ${
@@ -608,6 +606,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                             <div>
                                                 <div className="text-[9px] text-slate-400 uppercase font-bold">Margin</div>
                                                 <div className={`text-xs font-bold ${margin >= 0.4 ? 'text-emerald-600' : margin >= 0.2 ? 'text-amber-600' : 'text-red-600'}`}>{(margin * 100).toFixed(1)}%</div>
+                                                {job.financials?.targetMargin !== undefined && <div className="text-[9px] text-slate-400">Target {job.financials.targetMargin.toFixed(1)}%</div>}
                                             </div>
                                         </div>
                                     </div>
@@ -644,7 +643,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                         } else {
                                             rev = job.totalValue || 0;
                                             const mat = job.results.materialCost || 0;
-                                            const labor = (job.actuals?.laborHours || job.expenses.manHours || 0) * (job.expenses.laborRate || state.costs.laborRate || 0);
+                                            const labor = (actualLaborHours(job.actuals) || job.expenses.manHours || 0) * (job.expenses.laborRate || state.costs.laborRate || 0);
                                             const misc = (job.expenses.tripCharge || 0) + (job.expenses.fuelSurcharge || 0) + (job.expenses.other?.amount || 0);
                                             
                                             // COGS Calculation (Material incl inventory + Labor + Misc)
@@ -664,7 +663,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                                         }} 
                                                         className="text-[10px] text-blue-500 font-bold hover:underline flex items-center gap-1 mt-1"
                                                     >
-                                                        #{job.invoiceNumber || job.id.substring(0,8)} <ArrowRight className="w-2 h-2" />
+                                                        #{job.invoiceNumber || job.workOrderNumber || job.id.substring(0,8)} <ArrowRight className="w-2 h-2" />
                                                     </button>
                                                 </td>
                                                 <td className="px-6 py-4">
@@ -693,6 +692,9 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                                     }`}>
                                                         {(margin * 100).toFixed(1)}%
                                                     </span>
+                                                    {job.financials?.targetMargin !== undefined && (
+                                                        <div className="text-[9px] text-slate-400 font-bold mt-1">Target {job.financials.targetMargin.toFixed(1)}%</div>
+                                                    )}
                                                 </td>
                                             </tr>
                                         );
@@ -704,6 +706,18 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 </div>
             </div>
         )}
+
+        {/* RECEIVABLES VIEW */}
+        {activeTab === 'receivables' && (
+            <div className="animate-in slide-in-from-right-4 duration-300">
+                <ReceivablesReport
+                    estimates={state.savedEstimates}
+                    settings={state.receivables}
+                    onViewInvoice={onViewInvoice}
+                    onDownloadStatement={onDownloadStatement}
+                />
+            </div>
+        )}
     </div>
   );
 };
@@ -0,0 +1,66 @@
+
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { DeratePoint, UnitSystem, YieldDerateCurve } from '../types';
+import { fromDisplay, toDisplay, unitLabel } from '../utils/units';
+
+interface DerateCurveEditorProps {
+  curve: YieldDerateCurve;
+  units?: UnitSystem;
+  onChange: (curve: YieldDerateCurve) => void;
+}
+
+/**
+ * Table editor for a yield derate curve: substrate °F → % of nominal yield,
+ * plus the humidity threshold and penalty. Points are stored in °F and shown
+ * in °C for metric orgs.
+ */
+export const DerateCurveEditor: React.FC<DerateCurveEditorProps> = ({ curve, units, onChange }) => {
+  const points = curve.points || [];
+
+  const updatePoint = (index: number, field: keyof DeratePoint, value: number) => {
+    onChange({ ...curve, points: points.map((p, i) => i === index ? { ...p, [field]: value } : p) });
+  };
+
+  const addPoint = () => {
+    const last = points[points.length - 1];
+    onChange({ ...curve, points: [...points, { tempF: last ? last.tempF + 10 : 70, yieldPercent: 100 }] });
+  };
+
+  const removePoint = (index: number) => {
+    onChange({ ...curve, points: points.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-2">
+      {points.map((point, index) => (
+        <div key={index} className="flex gap-2 items-end">
+          <div className="flex-1">
+            {index === 0 && <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Substrate {unitLabel('temperature', units)}</label>}
+            <input type="number" value={toDisplay(point.tempF, 'temperature', units)} onChange={(e) => updatePoint(index, 'tempF', fromDisplay(parseFloat(e.target.value) || 0, 'temperature', units))} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs" />
+          </div>
+          <div className="flex-1">
+            {index === 0 && <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Yield %</label>}
+            <input type="number" value={point.yieldPercent} onChange={(e) => updatePoint(index, 'yieldPercent', parseFloat(e.target.value) || 0)} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs" />
+          </div>
+          <button onClick={() => removePoint(index)} className="p-2 text-slate-300 hover:text-red-500 transition-colors">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <div className="grid grid-cols-3 gap-2 items-end">
+        <div>
+          <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Humidity Above %</label>
+          <input type="number" value={curve.humidityThreshold ?? ''} onChange={(e) => onChange({ ...curve, humidityThreshold: parseFloat(e.target.value) || undefined })} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs" />
+        </div>
+        <div>
+          <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Yield Penalty %</label>
+          <input type="number" value={curve.humidityPenaltyPercent ?? ''} onChange={(e) => onChange({ ...curve, humidityPenaltyPercent: parseFloat(e.target.value) || undefined })} className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs" />
+        </div>
+        <button onClick={addPoint} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-2 rounded-lg transition-colors">
+          + Point
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { CalculatorState, DocumentNumberFormat, DocumentNumberKind } from '../types';
+import {
+  DOCUMENT_NUMBER_KINDS,
+  DOCUMENT_NUMBER_LABELS,
+  formatSequenceNumber,
+  getDocumentNumbering,
+} from '../utils/documentNumbers';
+
+interface DocumentNumberingSettingsProps {
+  state: CalculatorState;
+  onUpdateState: (newState: Partial<CalculatorState>) => void;
+}
+
+/**
+ * Settings section for how estimate, work order and invoice numbers are
+ * written. The numbers themselves are handed out by the server in sequence.
+ */
+export const DocumentNumberingSettings: React.FC<DocumentNumberingSettingsProps> = ({ state, onUpdateState }) => {
+  const numbering = getDocumentNumbering(state.documentNumbering);
+  const year = new Date().getFullYear();
+
+  const updateFormat = (kind: DocumentNumberKind, updates: Partial<DocumentNumberFormat>) =>
+    onUpdateState({ documentNumbering: { ...numbering, [kind]: { ...numbering[kind], ...updates } } });
+
+  return (
+    <div className="space-y-6">
+      <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em] border-b border-slate-100 pb-3">Document Numbering</h3>
+      <div className="space-y-3">
+        {DOCUMENT_NUMBER_KINDS.map(kind => {
+          const format = numbering[kind];
+          return (
+            <div key={kind} className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1">{DOCUMENT_NUMBER_LABELS[kind]} Prefix</label>
+                <input type="text" maxLength={12} value={format.prefix} onChange={(e) => updateFormat(kind, { prefix: e.target.value.toUpperCase() })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1">Digits</label>
+                <input type="number" min="1" max="10" value={format.padding} onChange={(e) => updateFormat(kind, { padding: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" />
+              </div>
+              <label className="flex items-center gap-2 p-4 text-xs font-bold text-slate-600">
+                <input type="checkbox" checked={format.includeYear} onChange={(e) => updateFormat(kind, { includeYear: e.target.checked })} className="w-4 h-4 accent-slate-900" />
+                Include Year
+              </label>
+              <div className="p-4 bg-slate-50 border border-slate-200 rounded-2xl font-mono text-sm font-bold text-slate-500 truncate">
+                {formatSequenceNumber(format, 1, year)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500 font-medium">
+        Numbers are issued in order as an estimate is created, becomes a work order and is invoiced. With the year included, the count restarts each January. A number is never reused, even when its job is deleted. Format changes apply to the next number issued.
+      </p>
+    </div>
+  );
+};
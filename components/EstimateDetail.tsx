@@ -13,35 +13,77 @@ import {
   Phone,
   DollarSign,
   ArrowRight,
-  Download
+  Download,
+  AlertTriangle,
+  Users
 } from 'lucide-react';
-import { EstimateRecord, CalculationResults } from '../types';
+import { EstimateRecord, EstimateRevision, CalculationResults, UnitSystem, ChangeOrder, Payment, Crew } from '../types';
+import { getSpecSurfaceTotals, isLayeredSpec, describeFoamSpec } from '../utils/calculatorHelpers';
+import { describeJobConditions } from '../utils/yieldDerate';
+import { sessionLaborHours } from '../utils/jobSessions';
+import { formatQuantity } from '../utils/units';
 import { JobProgress } from './JobProgress';
+import { EstimateRevisions } from './EstimateRevisions';
+import { ChangeOrders } from './ChangeOrders';
+import { PaymentLedger } from './PaymentLedger';
+import { PaymentInput } from '../services/paymentService';
 
 interface EstimateDetailProps {
   record: EstimateRecord;
   results: CalculationResults;
+  units?: UnitSystem;
   onBack: () => void;
   onEdit: () => void;
   onDownloadPDF?: (type: 'ESTIMATE' | 'INVOICE' | 'RECEIPT') => void;
+  onDownloadRevisionPDF?: (record: EstimateRecord, type: 'ESTIMATE' | 'INVOICE' | 'RECEIPT') => void;
+  onRestoreRevision: (revision: EstimateRevision) => Promise<EstimateRevision | null>;
+  onSaveChangeOrders: (changeOrders: ChangeOrder[]) => Promise<boolean>;
+  onDownloadChangeOrderPDF?: (changeOrder: ChangeOrder) => void;
+  onRecordPayment: (input: PaymentInput) => Promise<boolean>;
+  onDeletePayment: (payment: Payment) => Promise<boolean>;
+  onDownloadReceipt?: (payment: Payment) => void;
+  onDownloadDepositRequest?: (amount: number, percent: number) => void;
   onSold: () => void;
   onInvoice: () => void;
+  crews?: Crew[];
+  onAssignCrew?: (crewId: string | null) => void;
 }
 
 export const EstimateDetail: React.FC<EstimateDetailProps> = ({ 
   record, 
   results, 
+  units,
   onBack, 
   onEdit, 
   onDownloadPDF,
+  onDownloadRevisionPDF,
+  onRestoreRevision,
+  onSaveChangeOrders,
+  onDownloadChangeOrderPDF,
+  onRecordPayment,
+  onDeletePayment,
+  onDownloadReceipt,
+  onDownloadDepositRequest,
   onSold,
-  onInvoice
+  onInvoice,
+  crews = [],
+  onAssignCrew
 }) => {
   const isPaid = record.status === 'Paid';
+  const spec = getSpecSurfaceTotals(results);
   const margin = results.totalCost > 0 
     ? ((results.totalCost - (results.materialCost + results.laborCost + results.miscExpenses)) / results.totalCost) * 100 
     : 0;
 
+  // Realized yield as a fraction of nominal: nominal sets (estimate with derating
+  // backed out) over the sets the crew actually used
+  const yieldComparison = [
+    { label: 'OC', estSets: results.openCellSets, planned: results.yieldFactors?.openCell ?? 1, actualSets: record.actuals?.openCellSets || 0 },
+    { label: 'CC', estSets: results.closedCellSets, planned: results.yieldFactors?.closedCell ?? 1, actualSets: record.actuals?.closedCellSets || 0 },
+  ]
+    .filter(row => row.estSets > 0 && row.actualSets > 0)
+    .map(row => ({ label: row.label, planned: row.planned, realized: (row.estSets * row.planned) / row.actualSets }));
+
   // Single next-step logic matching the workflow
   const getNextStep = () => {
     if (record.status === 'Draft') return { label: 'Mark Sold', icon: CheckCircle2, action: onSold, style: 'bg-brand hover:bg-brand-hover text-white shadow-lg shadow-red-200' };
@@ -78,6 +120,18 @@ export const EstimateDetail: React.FC<EstimateDetailProps> = ({
         </div>
       </div>
 
+      {record.calculationMismatches?.length ? (
+        <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex items-start gap-3">
+          <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0 mt-0.5" />
+          <div className="text-xs text-amber-800">
+            <p className="font-black uppercase tracking-widest mb-1">Recalculated by Server</p>
+            <p className="font-medium">
+              {record.calculationMismatches.map(m => `${m.field}: ${m.client.toLocaleString()} → ${m.server.toLocaleString()}`).join(' · ')}
+            </p>
+          </div>
+        </div>
+      ) : null}
+
       {/* Workflow Stepper Card — same pattern as Calculator */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
           <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-3">
@@ -106,6 +160,22 @@ export const EstimateDetail: React.FC<EstimateDetailProps> = ({
           <div className="md:px-8">
               <JobProgress status={record.status} scheduledDate={record.scheduledDate} />
 
+              {record.status === 'Work Order' && crews.length > 0 && onAssignCrew && (
+                  <div className="mt-4 flex justify-center">
+                      <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                          <Users className="w-4 h-4" /> Crew
+                          <select
+                              value={record.crewId || ''}
+                              onChange={(e) => onAssignCrew(e.target.value || null)}
+                              className="bg-slate-50 border border-slate-200 text-slate-900 text-xs rounded-lg px-3 py-2 font-bold normal-case tracking-normal outline-none focus:ring-2 focus:ring-brand"
+                          >
+                              <option value="">Unassigned</option>
+                              {crews.map(crew => <option key={crew.id} value={crew.id}>{crew.name}</option>)}
+                          </select>
+                      </label>
+                  </div>
+              )}
+
               {isPaid ? (
                   <div className="mt-4 flex justify-center">
                       <div className="flex items-center gap-2 px-8 py-3 rounded-full bg-emerald-100 text-emerald-700 font-black text-xs uppercase tracking-widest border border-emerald-200">
@@ -135,6 +205,18 @@ export const EstimateDetail: React.FC<EstimateDetailProps> = ({
                   <div className="text-3xl font-black text-brand tracking-tight">
                       ${Math.round(results.totalCost).toLocaleString()}
                   </div>
+                  {(record.options || []).length > 1 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                          {record.options!.map(option => (
+                              <span key={option.id} className={`text-[10px] font-bold px-2 py-1 rounded flex items-center gap-1 ${
+                                  option.id === record.acceptedOptionId ? 'bg-emerald-500/20 text-emerald-400' : 'bg-white/10 text-slate-400'
+                              }`}>
+                                  {option.id === record.acceptedOptionId && <CheckCircle2 className="w-3 h-3" />}
+                                  {option.name}: ${Math.round(option.results?.totalCost || 0).toLocaleString()}
+                              </span>
+                          ))}
+                      </div>
+                  )}
               </div>
               <div className="flex items-center gap-3">
                   <span className={`text-xs font-bold px-2.5 py-1 rounded ${margin > 30 ? 'bg-emerald-500/20 text-emerald-400' : 'bg-amber-500/20 text-amber-400'}`}>
@@ -153,30 +235,42 @@ export const EstimateDetail: React.FC<EstimateDetailProps> = ({
                           <HardHat className="w-4 h-4 text-slate-400" /> Installation Scope
                       </h3>
                       <div className="space-y-2">
-                          {results.totalWallArea > 0 && (
+                          {spec.wallArea > 0 && (
                               <div className="flex justify-between p-3 bg-slate-50 rounded-xl border border-slate-100">
                                   <div>
                                       <span className="block text-sm font-bold text-slate-800">Walls</span>
-                                      <span className="text-xs text-slate-500 font-medium">{record.wallSettings.type} @ {record.wallSettings.thickness}"</span>
+                                      <span className="text-xs text-slate-500 font-medium">{isLayeredSpec(record.wallSettings) ? describeFoamSpec(record.wallSettings, units) : `${record.wallSettings.type} @ ${formatQuantity(record.wallSettings.thickness, 'depth', units)}`}</span>
                                   </div>
                                   <div className="text-right">
-                                      <span className="block text-sm font-bold text-slate-800">{Math.round(results.totalWallArea).toLocaleString()} sqft</span>
-                                      <span className="text-xs text-slate-500 font-medium">{Math.round(results.wallBdFt).toLocaleString()} bdft</span>
+                                      <span className="block text-sm font-bold text-slate-800">{formatQuantity(spec.wallArea, 'area', units, 0)}</span>
+                                      <span className="text-xs text-slate-500 font-medium">{formatQuantity(spec.wallBdFt, 'volume', units)}</span>
                                   </div>
                               </div>
                           )}
-                          {results.totalRoofArea > 0 && (
+                          {spec.roofArea > 0 && (
                               <div className="flex justify-between p-3 bg-slate-50 rounded-xl border border-slate-100">
                                   <div>
                                       <span className="block text-sm font-bold text-slate-800">Roof</span>
-                                      <span className="text-xs text-slate-500 font-medium">{record.roofSettings.type} @ {record.roofSettings.thickness}"</span>
+                                      <span className="text-xs text-slate-500 font-medium">{isLayeredSpec(record.roofSettings) ? describeFoamSpec(record.roofSettings, units) : `${record.roofSettings.type} @ ${formatQuantity(record.roofSettings.thickness, 'depth', units)}`}</span>
                                   </div>
                                   <div className="text-right">
-                                      <span className="block text-sm font-bold text-slate-800">{Math.round(results.totalRoofArea).toLocaleString()} sqft</span>
-                                      <span className="text-xs text-slate-500 font-medium">{Math.round(results.roofBdFt).toLocaleString()} bdft</span>
+                                      <span className="block text-sm font-bold text-slate-800">{formatQuantity(spec.roofArea, 'area', units, 0)}</span>
+                                      <span className="text-xs text-slate-500 font-medium">{formatQuantity(spec.roofBdFt, 'volume', units)}</span>
                                   </div>
                               </div>
                           )}
+                          {(results.takeoffLines || []).map(line => (
+                              <div key={line.id} className="flex justify-between p-3 bg-slate-50 rounded-xl border border-slate-100">
+                                  <div>
+                                      <span className="block text-sm font-bold text-slate-800">{line.name}</span>
+                                      <span className="text-xs text-slate-500 font-medium">{line.foamType} @ {formatQuantity(line.thickness, 'depth', units)} · {line.sets.toFixed(2)} Sets</span>
+                                  </div>
+                                  <div className="text-right">
+                                      <span className="block text-sm font-bold text-slate-800">{formatQuantity(line.area, 'area', units, 0)}</span>
+                                      <span className="text-xs text-slate-500 font-medium">{formatQuantity(line.bdFt, 'volume', units)}</span>
+                                  </div>
+                              </div>
+                          ))}
                       </div>
                   </div>
 
@@ -226,6 +320,41 @@ export const EstimateDetail: React.FC<EstimateDetailProps> = ({
                                           <span className="font-bold text-emerald-800">{record.actuals.closedCellSets.toFixed(2)} Sets / {(record.actuals.closedCellStrokes || 0).toLocaleString()} Strokes</span>
                                       </div>
                                   )}
+                                  {(describeJobConditions(record.inputs.jobConditions, units) || describeJobConditions(record.actuals.conditions, units)) && (
+                                      <div className="mt-2 pt-2 border-t border-emerald-100 space-y-1 text-xs">
+                                          <div className="flex justify-between gap-2">
+                                              <span className="font-medium text-slate-500">Estimated For</span>
+                                              <span className="font-bold text-slate-700 text-right">{describeJobConditions(record.inputs.jobConditions, units) || '—'}</span>
+                                          </div>
+                                          <div className="flex justify-between gap-2">
+                                              <span className="font-medium text-slate-500">Crew Readings</span>
+                                              <span className="font-bold text-slate-700 text-right">{describeJobConditions(record.actuals.conditions, units) || '—'}</span>
+                                          </div>
+                                          {yieldComparison.map(row => (
+                                              <div key={row.label} className="flex justify-between gap-2">
+                                                  <span className="font-medium text-slate-500">{row.label} Yield</span>
+                                                  <span className={`font-bold text-right ${row.realized < row.planned ? 'text-red-600' : 'text-emerald-800'}`}>
+                                                      {Math.round(row.realized * 100)}% actual vs {Math.round(row.planned * 100)}% planned
+                                                  </span>
+                                              </div>
+                                          ))}
+                                      </div>
+                                  )}
+                                  {record.sessions && record.sessions.length > 0 && (
+                                      <div className="mt-2 pt-2 border-t border-emerald-100 space-y-1 text-xs">
+                                          <span className="block text-[10px] font-black text-emerald-700 uppercase tracking-widest">Visits</span>
+                                          {record.sessions.map(session => (
+                                              <div key={session.id} className="flex justify-between gap-2">
+                                                  <span className="font-medium text-slate-500">
+                                                      {session.workDate} · {session.crewName || session.startedBy}{session.endedAt ? '' : ' · on site'}
+                                                  </span>
+                                                  <span className="font-bold text-slate-700 text-right">
+                                                      {session.openCellSets.toFixed(2)} OC / {session.closedCellSets.toFixed(2)} CC · {sessionLaborHours(session)} hrs
+                                                  </span>
+                                              </div>
+                                          ))}
+                                      </div>
+                                  )}
                               </div>
                           )}
                       </div>
@@ -256,6 +385,20 @@ export const EstimateDetail: React.FC<EstimateDetailProps> = ({
               </div>
           </div>
       </div>
+
+      <ChangeOrders record={record} units={units} onSave={onSaveChangeOrders} onDownloadPDF={onDownloadChangeOrderPDF} />
+
+      {(record.status === 'Work Order' || record.status === 'Invoiced' || isPaid) && (
+        <PaymentLedger
+          record={record}
+          onRecord={onRecordPayment}
+          onDelete={onDeletePayment}
+          onDownloadReceipt={onDownloadReceipt}
+          onDownloadDepositRequest={onDownloadDepositRequest}
+        />
+      )}
+
+      <EstimateRevisions record={record} onRestore={onRestoreRevision} onPrint={onDownloadRevisionPDF} />
     </div>
   );
 };
@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import { Layers, Plus, X, CheckCircle2 } from 'lucide-react';
+import { CalculatorState, CalculationResults } from '../types';
+import {
+  addEstimateOption,
+  calculateOptionResults,
+  removeEstimateOption,
+  switchEstimateOption,
+} from '../utils/estimateOptions';
+
+interface EstimateOptionsBarProps {
+  state: CalculatorState;
+  results: CalculationResults;
+  onUpdate: (updates: Partial<CalculatorState>) => void;
+}
+
+/**
+ * Good / better / best tabs above the specs. Each tab is a full scope;
+ * switching keeps the current tab's edits and loads the other one.
+ */
+export const EstimateOptionsBar: React.FC<EstimateOptionsBarProps> = ({ state, results, onUpdate }) => {
+  const options = state.estimateOptions || [];
+
+  // The active tab prices off the live results; the others from their saved scope
+  const prices = useMemo(() => {
+    const map: Record<string, number> = {};
+    options.forEach(option => {
+      map[option.id] = option.id === state.activeOptionId
+        ? results.totalCost
+        : calculateOptionResults(state, option).totalCost;
+    });
+    return map;
+  }, [state, results.totalCost]);
+
+  if (options.length === 0) {
+    return (
+      <button
+        onClick={() => onUpdate(addEstimateOption(state))}
+        className="w-full text-[10px] bg-white border border-dashed border-slate-200 hover:border-brand text-slate-500 font-bold py-2 rounded-xl transition-colors flex items-center justify-center gap-1"
+      >
+        <Layers className="w-3 h-3" /> Offer Options (Good / Better / Best)
+      </button>
+    );
+  }
+
+  const renameActive = (name: string) => {
+    onUpdate({ estimateOptions: options.map(o => o.id === state.activeOptionId ? { ...o, name } : o) });
+  };
+
+  return (
+    <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-xs font-black uppercase tracking-widest text-slate-500 flex items-center gap-1">
+          <Layers className="w-3.5 h-3.5" /> Options
+        </span>
+        <button
+          onClick={() => onUpdate(addEstimateOption(state))}
+          className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-1 rounded-lg transition-colors flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add Option
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => {
+          const isActive = option.id === state.activeOptionId;
+          return (
+            <div
+              key={option.id}
+              className={`flex items-center gap-2 pl-3 pr-1 py-1.5 rounded-xl border transition-all ${
+                isActive ? 'bg-white border-brand shadow-sm' : 'bg-white/60 border-slate-200 hover:border-slate-300 cursor-pointer'
+              }`}
+              onClick={() => !isActive && onUpdate(switchEstimateOption(state, option.id))}
+            >
+              {isActive ? (
+                <input
+                  type="text"
+                  value={option.name}
+                  onChange={(e) => renameActive(e.target.value)}
+                  className="w-20 bg-transparent text-xs font-black text-slate-900 outline-none"
+                />
+              ) : (
+                <span className="text-xs font-black text-slate-500">{option.name}</span>
+              )}
+              {option.id === state.acceptedOptionId && <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />}
+              <span className={`text-[10px] font-bold ${isActive ? 'text-brand' : 'text-slate-400'}`}>
+                ${Math.round(prices[option.id] || 0).toLocaleString()}
+              </span>
+              <button
+                onClick={(e) => { e.stopPropagation(); onUpdate(removeEstimateOption(state, option.id)); }}
+                className="p-1 text-slate-300 hover:text-red-500 transition-colors"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-slate-400 font-medium mt-2">
+        Surfaces below belong to the selected option. Customer, expenses and pricing are shared.
+      </p>
+    </div>
+  );
+};
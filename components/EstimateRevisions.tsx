@@ -0,0 +1,162 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, Download, ArrowRight } from 'lucide-react';
+import { EstimateRecord, EstimateRevision } from '../types';
+import { applyRevisionSnapshot, diffSnapshots, RESTORABLE_STATUSES, RevisionValue } from '../utils/estimateRevisions';
+import { getEstimateRevisions } from '../services/estimateRevisionService';
+
+type DocumentType = 'ESTIMATE' | 'INVOICE' | 'RECEIPT';
+
+interface EstimateRevisionsProps {
+  record: EstimateRecord;
+  onRestore: (revision: EstimateRevision) => Promise<EstimateRevision | null>;
+  onPrint?: (record: EstimateRecord, type: DocumentType) => void;
+}
+
+const formatValue = (value: RevisionValue) => {
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return value;
+};
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const documentTypeFor = (status: EstimateRecord['status']): DocumentType =>
+  status === 'Paid' ? 'RECEIPT' : status === 'Invoiced' ? 'INVOICE' : 'ESTIMATE';
+
+/**
+ * Saved revisions of an estimate, newest first. Any two can be compared
+ * field by field; any past one can be printed, and restored while the job
+ * is still a draft or work order.
+ */
+export const EstimateRevisions: React.FC<EstimateRevisionsProps> = ({ record, onRestore, onPrint }) => {
+  const [revisions, setRevisions] = useState<EstimateRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [compare, setCompare] = useState<{ from?: string; to?: string }>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getEstimateRevisions(record.id).then(list => {
+      if (cancelled) return;
+      setRevisions(list);
+      // Default to what changed in the latest save
+      setCompare({ from: list[1]?.id, to: list[0]?.id });
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [record.id, record.lastModified]);
+
+  const from = revisions.find(r => r.id === compare.from);
+  const to = revisions.find(r => r.id === compare.to);
+  const changes = useMemo(() => (from && to ? diffSnapshots(from.snapshot, to.snapshot) : []), [from, to]);
+
+  const handleRestore = async (revision: EstimateRevision) => {
+    if (!window.confirm(`Restore revision ${revision.revisionNumber}? The current version stays in the history.`)) return;
+    // The restore touches the record's lastModified, which reloads the list
+    await onRestore(revision);
+  };
+
+  const canRestore = RESTORABLE_STATUSES.includes(record.status);
+
+  const selectClass = 'p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100">
+        <h3 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <History className="w-4 h-4 text-slate-400" /> Revision History
+        </h3>
+      </div>
+
+      {loading ? (
+        <p className="p-6 text-xs text-slate-400 font-medium">Loading revisions...</p>
+      ) : revisions.length === 0 ? (
+        <p className="p-6 text-xs text-slate-400 font-medium">No revisions yet. One is recorded each time the estimate is saved.</p>
+      ) : (
+        <>
+          <div className="divide-y divide-slate-100">
+            {revisions.map((revision, index) => (
+              <div key={revision.id} className="px-6 py-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-slate-800">
+                    Revision {revision.revisionNumber}
+                    {index === 0 && <span className="ml-2 text-[10px] font-black uppercase tracking-widest text-emerald-600">Current</span>}
+                  </div>
+                  <div className="text-xs text-slate-500 font-medium truncate">
+                    {formatWhen(revision.createdAt)}
+                    {revision.authorName && ` · ${revision.authorName}`}
+                    {` · ${revision.snapshot.status}`}
+                    {` · $${Math.round(revision.snapshot.totalValue || 0).toLocaleString()}`}
+                    {revision.note && ` · ${revision.note}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {onPrint && (
+                    <button
+                      onClick={() => onPrint(applyRevisionSnapshot(record, revision.snapshot), documentTypeFor(revision.snapshot.status))}
+                      className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                      title="Download PDF"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                  )}
+                  {canRestore && index > 0 && (
+                    <button
+                      onClick={() => handleRestore(revision)}
+                      className="p-2 text-slate-400 hover:text-slate-900 hover:bg-slate-100 rounded-lg"
+                      title="Restore"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {revisions.length > 1 && (
+            <div className="p-6 border-t border-slate-100 bg-slate-50/50">
+              <div className="flex items-center gap-2 mb-4">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Compare</span>
+                <select value={compare.from || ''} onChange={(e) => setCompare({ ...compare, from: e.target.value })} className={selectClass}>
+                  {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.revisionNumber}</option>)}
+                </select>
+                <ArrowRight className="w-3 h-3 text-slate-400" />
+                <select value={compare.to || ''} onChange={(e) => setCompare({ ...compare, to: e.target.value })} className={selectClass}>
+                  {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.revisionNumber}</option>)}
+                </select>
+              </div>
+              {changes.length === 0 ? (
+                <p className="text-xs text-slate-400 font-medium">No differences.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-xs">
+                    <thead className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                      <tr>
+                        <th className="py-2 pr-4">Field</th>
+                        <th className="py-2 pr-4">Rev {from?.revisionNumber}</th>
+                        <th className="py-2">Rev {to?.revisionNumber}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {changes.map(change => (
+                        <tr key={change.path}>
+                          <td className="py-2 pr-4 font-bold text-slate-700">{change.label}</td>
+                          <td className="py-2 pr-4 text-red-600 font-medium">{formatValue(change.before)}</td>
+                          <td className="py-2 text-emerald-700 font-medium">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
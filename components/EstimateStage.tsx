@@ -9,7 +9,11 @@ import {
   Trash2,
   Download
 } from 'lucide-react';
-import { CalculatorState, CalculationResults, EstimateRecord, InvoiceLineItem, FoamType } from '../types';
+import { CalculatorState, CalculationResults, EstimateRecord, InvoiceLineItem, AreaType } from '../types';
+import { getSpecSurfaceTotals, getFoamSpecCost, calculateLayerResults, formatSprayScope, formatSprayDepth } from '../utils/calculatorHelpers';
+import { getMarginTargets, grossMargin, priceForMargin } from '../utils/marginPricing';
+import { applyTaxDefaults, calculateLineTax, getJobTaxJurisdiction } from '../utils/salesTax';
+import { formatQuantity, toDisplay, unitLabel } from '../utils/units';
 import { useEstimates } from '../hooks/useEstimates';
 
 interface EstimateStageProps {
@@ -39,11 +43,15 @@ export const EstimateStage: React.FC<EstimateStageProps> = ({
   const [estimateLines, setEstimateLines] = useState<InvoiceLineItem[]>([]);
 
   const formatCurrency = (val: number) => `$${val.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`;
+  const units = state.unitSystem;
+  const jurisdiction = getJobTaxJurisdiction(state);
 
   // Initialize Data & Lines
   useEffect(() => {
-    // Load or Generate Lines
-    if (currentRecord?.estimateLines && currentRecord.estimateLines.length > 0) {
+    // Load or Generate Lines; a template applied since the job was opened brings its own
+    if (state.templateLines && state.templateLines.length > 0) {
+        setEstimateLines(state.templateLines);
+    } else if (currentRecord?.estimateLines && currentRecord.estimateLines.length > 0) {
         setEstimateLines(currentRecord.estimateLines);
     } else {
         generateDefaultLines();
@@ -53,98 +61,139 @@ export const EstimateStage: React.FC<EstimateStageProps> = ({
   const generateDefaultLines = () => {
       const lines: InvoiceLineItem[] = [];
       const pricingMode = state.pricingMode;
+      const margins = getMarginTargets(state.marginTargets);
+      const spec = getSpecSurfaceTotals(results);
 
       // 1. Wall Insulation
-      if (results.wallBdFt > 0) {
-          const type = state.wallSettings.type;
+      if (spec.wallBdFt > 0) {
+          const settings = state.wallSettings;
           let lineCost = 0;
           let descExtra = '';
 
           if (pricingMode === 'sqft_pricing') {
-              lineCost = results.totalWallArea * (state.sqFtRates.wall || 0);
-              descExtra = ` @ ${formatCurrency(state.sqFtRates.wall || 0)}/sqft`;
+              lineCost = spec.wallArea * (state.sqFtRates.wall || 0);
+              descExtra = ` @ ${formatCurrency(toDisplay(state.sqFtRates.wall || 0, 'areaRate', units))}${unitLabel('areaRate', units)}`;
           } else {
-              const costPerSet = type === FoamType.OPEN_CELL ? state.costs.openCell : state.costs.closedCell;
-              const yieldPerSet = type === FoamType.OPEN_CELL ? state.yields.openCell : state.yields.closedCell;
-              const setsNeeded = results.wallBdFt / yieldPerSet;
-              lineCost = setsNeeded * costPerSet;
+              lineCost = getFoamSpecCost(settings, spec.wallArea, state);
+              if (pricingMode === 'margin_pricing') lineCost = priceForMargin(lineCost, margins.chemical);
           }
 
-          const wallStrokesPerSet = type === FoamType.OPEN_CELL ? (state.yields?.openCellStrokes || 6600) : (state.yields?.closedCellStrokes || 6600);
-          const wallSets = results.wallBdFt / (type === FoamType.OPEN_CELL ? state.yields.openCell : state.yields.closedCell);
-          const wallStrokes = Math.round(wallSets * wallStrokesPerSet);
+          const wallLayers = calculateLayerResults(settings, spec.wallArea, state);
+          const wallSets = wallLayers.reduce((sum, l) => sum + l.sets, 0);
+          const wallStrokes = wallLayers.reduce((sum, l) => sum + l.strokes, 0);
           lines.push({
               id: 'wall',
               item: 'Wall Insulation',
-              description: `Spray approximately ${state.wallSettings.thickness} inches of ${type} to walls. Est. ${wallSets.toFixed(2)} Sets / ${wallStrokes.toLocaleString()} Strokes.${descExtra}`,
-              qty: `${Math.round(results.totalWallArea).toLocaleString()} sqft`,
-              amount: parseFloat(lineCost.toFixed(2))
+              description: `${formatSprayScope(settings, 'walls', units)} Est. ${wallSets.toFixed(2)} Sets / ${wallStrokes.toLocaleString()} Strokes.${descExtra}`,
+              qty: formatQuantity(spec.wallArea, 'area', units, 0),
+              amount: parseFloat(lineCost.toFixed(2)),
+              taxCategory: 'material'
+          });
+      }
+
+      // 1b. Opening Deductions (informational, already netted out of the wall line)
+      if ((results.openingDeduction || 0) > 0) {
+          lines.push({
+              id: 'openings',
+              item: 'Openings',
+              description: 'Windows/doors deducted from wall area.',
+              qty: `-${formatQuantity(results.openingDeduction, 'area', units, 0)}`,
+              amount: 0
           });
       }
 
       // 2. Roof Insulation
-      if (results.roofBdFt > 0) {
-          const type = state.roofSettings.type;
+      if (spec.roofBdFt > 0) {
+          const settings = state.roofSettings;
           let lineCost = 0;
           let descExtra = '';
 
           if (pricingMode === 'sqft_pricing') {
-              lineCost = results.totalRoofArea * (state.sqFtRates.roof || 0);
-              descExtra = ` @ ${formatCurrency(state.sqFtRates.roof || 0)}/sqft`;
+              lineCost = spec.roofArea * (state.sqFtRates.roof || 0);
+              descExtra = ` @ ${formatCurrency(toDisplay(state.sqFtRates.roof || 0, 'areaRate', units))}${unitLabel('areaRate', units)}`;
           } else {
-              const costPerSet = type === FoamType.OPEN_CELL ? state.costs.openCell : state.costs.closedCell;
-              const yieldPerSet = type === FoamType.OPEN_CELL ? state.yields.openCell : state.yields.closedCell;
-              const setsNeeded = results.roofBdFt / yieldPerSet;
-              lineCost = setsNeeded * costPerSet;
+              lineCost = getFoamSpecCost(settings, spec.roofArea, state);
+              if (pricingMode === 'margin_pricing') lineCost = priceForMargin(lineCost, margins.chemical);
           }
 
-          const roofStrokesPerSet = type === FoamType.OPEN_CELL ? (state.yields?.openCellStrokes || 6600) : (state.yields?.closedCellStrokes || 6600);
-          const roofSets = results.roofBdFt / (type === FoamType.OPEN_CELL ? state.yields.openCell : state.yields.closedCell);
-          const roofStrokes = Math.round(roofSets * roofStrokesPerSet);
+          const roofLayers = calculateLayerResults(settings, spec.roofArea, state);
+          const roofSets = roofLayers.reduce((sum, l) => sum + l.sets, 0);
+          const roofStrokes = roofLayers.reduce((sum, l) => sum + l.strokes, 0);
           lines.push({
               id: 'roof',
               item: 'Roof Insulation',
-              description: `Spray approximately ${state.roofSettings.thickness} inches of ${type} to ceiling/roof deck. Est. ${roofSets.toFixed(2)} Sets / ${roofStrokes.toLocaleString()} Strokes.${descExtra}`,
-              qty: `${Math.round(results.totalRoofArea).toLocaleString()} sqft`,
-              amount: parseFloat(lineCost.toFixed(2))
+              description: `${formatSprayScope(settings, 'ceiling/roof deck', units)} Est. ${roofSets.toFixed(2)} Sets / ${roofStrokes.toLocaleString()} Strokes.${descExtra}`,
+              qty: formatQuantity(spec.roofArea, 'area', units, 0),
+              amount: parseFloat(lineCost.toFixed(2)),
+              taxCategory: 'material'
           });
       }
 
+      // 2b. Custom Takeoff Lines
+      (results.takeoffLines || []).forEach(line => {
+          if (line.bdFt <= 0) return;
+          let lineCost = line.cost;
+          let descExtra = '';
+
+          if (pricingMode === 'sqft_pricing') {
+              const rate = (line.surfaceType === AreaType.ROOF ? state.sqFtRates.roof : state.sqFtRates.wall) || 0;
+              lineCost = line.area * rate;
+              descExtra = ` @ ${formatCurrency(toDisplay(rate, 'areaRate', units))}${unitLabel('areaRate', units)}`;
+          } else if (pricingMode === 'margin_pricing') {
+              lineCost = priceForMargin(line.cost, margins.chemical);
+          }
+
+          lines.push({
+              id: `takeoff-${line.id}`,
+              item: line.name,
+              description: `Spray approximately ${formatSprayDepth(line.thickness, units)} of ${line.foamType}. Est. ${line.sets.toFixed(2)} Sets / ${line.strokes.toLocaleString()} Strokes.${descExtra}`,
+              qty: formatQuantity(line.area, 'area', units, 0),
+              amount: parseFloat(lineCost.toFixed(2)),
+              taxCategory: 'material'
+          });
+      });
+
       // 3. Inventory
       state.inventory.forEach((item, idx) => {
-          const itemCost = (Number(item.unitCost) || 0) * (Number(item.quantity) || 0);
+          const unitPrice = pricingMode === 'margin_pricing'
+              ? priceForMargin(Number(item.unitCost) || 0, margins.inventory)
+              : (Number(item.unitCost) || 0);
+          const itemCost = unitPrice * (Number(item.quantity) || 0);
           lines.push({
               id: `inv-${idx}`,
               item: item.name,
-              description: `Material Supply — ${item.quantity} ${item.unit}${item.unitCost ? ` @ ${formatCurrency(item.unitCost)}/${item.unit}` : ''}`,
+              description: `Material Supply — ${item.quantity} ${item.unit}${unitPrice ? ` @ ${formatCurrency(unitPrice)}/${item.unit}` : ''}`,
               qty: `${item.quantity} ${item.unit}`,
-              amount: parseFloat(itemCost.toFixed(2))
+              amount: parseFloat(itemCost.toFixed(2)),
+              taxCategory: 'material'
           });
       });
 
-      // 4. Labor (If Level Pricing)
-      if (pricingMode === 'level_pricing' && results.laborCost > 0) {
+      // 4. Labor (Level or Margin Pricing)
+      if (pricingMode !== 'sqft_pricing' && results.laborCost > 0) {
+          const laborPrice = pricingMode === 'margin_pricing' ? priceForMargin(results.laborCost, margins.labor) : results.laborCost;
           lines.push({
               id: 'labor',
               item: 'Labor',
-              description: `Application Labor (${state.expenses.manHours} hours)`,
-              qty: `${state.expenses.manHours} hrs`,
-              amount: parseFloat(results.laborCost.toFixed(2))
+              description: `Application Labor (${results.manHours ?? state.expenses.manHours} hours)`,
+              qty: `${results.manHours ?? state.expenses.manHours} hrs`,
+              amount: parseFloat(laborPrice.toFixed(2)),
+              taxCategory: 'labor'
           });
       }
 
       // 5. Fees
       if (state.expenses.tripCharge > 0) {
-          lines.push({ id: 'trip', item: 'Trip Charge', description: 'Standard Rate', qty: '1', amount: state.expenses.tripCharge });
+          lines.push({ id: 'trip', item: 'Trip Charge', description: 'Standard Rate', qty: '1', amount: state.expenses.tripCharge, taxCategory: 'fee' });
       }
       if (state.expenses.fuelSurcharge > 0) {
-          lines.push({ id: 'fuel', item: 'Fuel Surcharge', description: 'Distance Adjustment', qty: '1', amount: state.expenses.fuelSurcharge });
+          lines.push({ id: 'fuel', item: 'Fuel Surcharge', description: 'Distance Adjustment', qty: '1', amount: state.expenses.fuelSurcharge, taxCategory: 'fee' });
       }
       if (state.expenses.other.amount !== 0) {
-          lines.push({ id: 'misc', item: state.expenses.other.description || 'Adjustment', description: 'Misc Fee', qty: '1', amount: state.expenses.other.amount });
+          lines.push({ id: 'misc', item: state.expenses.other.description || 'Adjustment', description: 'Misc Fee', qty: '1', amount: state.expenses.other.amount, taxCategory: 'fee' });
       }
 
-      setEstimateLines(lines);
+      setEstimateLines(applyTaxDefaults(lines, jurisdiction));
   };
 
   const updateLine = (index: number, field: keyof InvoiceLineItem, value: any) => {
@@ -163,7 +212,9 @@ export const EstimateStage: React.FC<EstimateStageProps> = ({
           item: 'Custom Item',
           description: '',
           qty: '1',
-          amount: 0
+          amount: 0,
+          taxCategory: 'material',
+          taxable: !!jurisdiction?.taxMaterials
       }]);
   };
 
@@ -171,6 +222,11 @@ export const EstimateStage: React.FC<EstimateStageProps> = ({
       return estimateLines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0);
   }, [estimateLines]);
 
+  const salesTax = useMemo(() => calculateLineTax(estimateLines, jurisdiction), [estimateLines, jurisdiction]);
+
+  // Margin the edited lines actually keep, checked against the floor the job was priced at
+  const quotedMargin = grossMargin(estimateTotal, results.materialCost + results.laborCost + results.miscExpenses);
+
   const handleContinue = async () => {
       setIsProcessing(true);
 
@@ -180,7 +236,8 @@ export const EstimateStage: React.FC<EstimateStageProps> = ({
           // navigating — this guarantees the crew dashboard can see the data.
           const updatedRecord = await saveEstimate(results, undefined, {
               estimateLines: estimateLines,
-              totalValue: estimateTotal
+              totalValue: estimateTotal,
+              salesTax
           }, false, true);
 
           if (updatedRecord) {
@@ -283,6 +340,17 @@ export const EstimateStage: React.FC<EstimateStageProps> = ({
                                         onChange={(e) => updateLine(idx, 'qty', e.target.value)}
                                     />
                                 </div>
+                                {jurisdiction && (
+                                    <label className="flex flex-col items-center justify-end text-[9px] font-black text-slate-400 uppercase">
+                                        Taxable
+                                        <input
+                                            type="checkbox"
+                                            checked={!!line.taxable}
+                                            onChange={(e) => updateLine(idx, 'taxable', e.target.checked)}
+                                            className="w-4 h-4 mt-2 mb-2 accent-brand"
+                                        />
+                                    </label>
+                                )}
                                 <div className="w-32">
                                     <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Amount ($)</label>
                                     <input 
@@ -313,11 +381,35 @@ export const EstimateStage: React.FC<EstimateStageProps> = ({
                     ))}
                 </div>
                 <div className="border-t border-slate-700 pt-4 mt-2">
+                    {salesTax && (
+                        <div className="space-y-1 mb-3 text-xs">
+                            <div className="flex justify-between opacity-80">
+                                <span>Subtotal</span>
+                                <span>{formatCurrency(estimateTotal)}</span>
+                            </div>
+                            <div className="flex justify-between opacity-80">
+                                <span>{salesTax.jurisdictionName} Tax ({salesTax.rate}%)</span>
+                                <span>{formatCurrency(salesTax.amount)}</span>
+                            </div>
+                        </div>
+                    )}
                     <div className="flex justify-between text-2xl">
                         <span className="font-bold">Total</span>
-                        <span className="font-black text-brand">${estimateTotal.toLocaleString(undefined, {minimumFractionDigits: 2})}</span>
+                        <span className="font-black text-brand">${(estimateTotal + (salesTax?.amount || 0)).toLocaleString(undefined, {minimumFractionDigits: 2})}</span>
                     </div>
                 </div>
+                {results.marginFloor !== undefined && (
+                    <div className="mt-4 space-y-1 text-xs">
+                        <div className="flex justify-between opacity-80">
+                            <span>Margin Floor</span>
+                            <span>{results.marginFloor.toFixed(1)}%</span>
+                        </div>
+                        <div className={`flex justify-between font-bold ${quotedMargin + 0.05 < results.marginFloor ? 'text-red-400' : 'text-emerald-400'}`}>
+                            <span>Quoted Margin</span>
+                            <span>{quotedMargin.toFixed(1)}%</span>
+                        </div>
+                    </div>
+                )}
                 <p className="text-[10px] text-slate-500 mt-4 text-center">
                     Editing line items above updates this total automatically.
                 </p>
@@ -0,0 +1,93 @@
+
+import React from 'react';
+import { Trash2, Layers } from 'lucide-react';
+import { FoamLayer, FoamSettings, FoamType, UnitSystem } from '../types';
+import { FoamMaterialSource, getFoamLayers } from '../utils/calculatorHelpers';
+import { FoamProductSelect } from './FoamProductSelect';
+import { formatQuantity, fromDisplay, toDisplay, unitLabel } from '../utils/units';
+
+/**
+ * Rebuilds a spec from its passes. A single pass collapses back to a plain
+ * spec; otherwise `type`/`wastePercentage` mirror the first pass and
+ * `thickness` is the total build-up.
+ */
+export const withFoamLayers = (layers: FoamLayer[], base?: FoamSettings): FoamSettings => {
+  const first = layers[0];
+  // Code-check context carries over; sizing goes back to inches since layers are typed by hand
+  const codeCheck = { climateZone: base?.climateZone, assembly: base?.assembly };
+  if (layers.length <= 1) {
+    return { ...codeCheck, type: first.type, productId: first.productId, thickness: first.thickness, wastePercentage: first.wastePercentage };
+  }
+  return {
+    ...codeCheck,
+    type: first.type,
+    productId: first.productId,
+    thickness: layers.reduce((sum, l) => sum + (l.thickness || 0), 0),
+    wastePercentage: first.wastePercentage,
+    layers,
+  };
+};
+
+export const addFoamLayer = (settings: FoamSettings): FoamSettings => {
+  const current = getFoamLayers(settings);
+  // Typical hybrid: closed cell flash first, open cell fill on top
+  const nextType = current[current.length - 1].type === FoamType.CLOSED_CELL ? FoamType.OPEN_CELL : FoamType.CLOSED_CELL;
+  return withFoamLayers([...current, { type: nextType, thickness: 0, wastePercentage: current[0].wastePercentage }], settings);
+};
+
+interface FoamLayersEditorProps {
+  settings: FoamSettings;
+  materials: FoamMaterialSource;
+  units?: UnitSystem;
+  onChange: (settings: FoamSettings) => void;
+}
+
+export const FoamLayersEditor: React.FC<FoamLayersEditorProps> = ({ settings, materials, units, onChange }) => {
+  const layers = getFoamLayers(settings);
+
+  const updateLayer = (index: number, updates: Partial<FoamLayer>) => {
+    onChange(withFoamLayers(layers.map((l, i) => i === index ? { ...l, ...updates } : l), settings));
+  };
+
+  const removeLayer = (index: number) => {
+    onChange(withFoamLayers(layers.filter((_, i) => i !== index), settings));
+  };
+
+  return (
+    <div className="col-span-2 space-y-2">
+      {layers.map((layer, index) => (
+        <div key={index} className="flex gap-2 items-end bg-white p-2 rounded-lg border border-slate-200">
+          <div className="text-[9px] font-black text-slate-400 uppercase w-10 pb-2">Pass {index + 1}</div>
+          <div className="flex-1">
+            <FoamProductSelect
+              type={layer.type}
+              productId={layer.productId}
+              materials={materials}
+              onChange={(selection) => updateLayer(index, selection)}
+              className="w-full bg-slate-50 border border-slate-200 p-1.5 rounded-lg font-bold text-xs"
+            />
+          </div>
+          <div className="w-16">
+            <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">{unitLabel('depth', units)}</label>
+            <input type="number" value={toDisplay(layer.thickness, 'depth', units)} onChange={(e) => updateLayer(index, { thickness: fromDisplay(parseFloat(e.target.value), 'depth', units) })} className="w-full p-1.5 bg-slate-50 border border-slate-200 rounded-lg font-bold text-xs" />
+          </div>
+          <div className="w-16">
+            <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Waste %</label>
+            <input type="number" value={layer.wastePercentage} onChange={(e) => updateLayer(index, { wastePercentage: parseFloat(e.target.value) })} className="w-full p-1.5 bg-slate-50 border border-slate-200 rounded-lg font-bold text-xs" />
+          </div>
+          <button onClick={() => removeLayer(index)} className="p-1.5 text-slate-300 hover:text-red-500 transition-colors">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1">
+          <Layers className="w-3 h-3" /> {formatQuantity(settings.thickness, 'depth', units)} Total Build-up
+        </span>
+        <button onClick={() => onChange(addFoamLayer(settings))} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-1 rounded-lg transition-colors">
+          + Layer
+        </button>
+      </div>
+    </div>
+  );
+};
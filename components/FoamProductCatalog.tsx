@@ -0,0 +1,183 @@
+
+import React, { useState } from 'react';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
+import { CalculatorState, FoamProduct, FoamType } from '../types';
+import { getFoamMaterial } from '../utils/calculatorHelpers';
+import { DerateCurveEditor } from './DerateCurveEditor';
+import { upsertFoamProduct, deleteFoamProduct } from '../services/foamProductService';
+import { UnitKind, fromDisplay, isMetric, toDisplay, unitLabel } from '../utils/units';
+
+interface FoamProductCatalogProps {
+  state: CalculatorState;
+  onUpdateState: (newState: Partial<CalculatorState>) => void;
+  onNotify?: (notification: { type: 'success' | 'error'; message: string }) => void;
+}
+
+/**
+ * Settings section for the org's foam products. Edits apply locally as you
+ * type and are persisted when a field loses focus.
+ */
+export const FoamProductCatalog: React.FC<FoamProductCatalogProps> = ({ state, onUpdateState, onNotify }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const products = state.foamProducts || [];
+
+  const setProducts = (next: FoamProduct[]) => onUpdateState({ foamProducts: next });
+
+  const addProduct = async (foamType: FoamType) => {
+    // New entries start from the org-wide numbers for that foam type
+    const defaults = getFoamMaterial(foamType, undefined, state);
+    setIsAdding(true);
+    const saved = await upsertFoamProduct({
+      name: `New ${foamType}`,
+      manufacturer: '',
+      foamType,
+      yield: defaults.yield,
+      costPerSet: defaults.costPerSet,
+      strokesPerSet: defaults.strokesPerSet,
+      rPerInch: defaults.rPerInch,
+      active: true,
+    });
+    setIsAdding(false);
+    if (saved) {
+      setProducts([...products, saved]);
+    } else {
+      onNotify?.({ type: 'error', message: 'Failed to add product.' });
+    }
+  };
+
+  const updateProduct = (id: string, field: keyof FoamProduct, value: any) => {
+    setProducts(products.map(p => p.id === id ? { ...p, [field]: value } : p));
+  };
+
+  const persistProduct = async (product: FoamProduct) => {
+    const saved = await upsertFoamProduct(product);
+    if (!saved) onNotify?.({ type: 'error', message: `Failed to save ${product.name || 'product'}.` });
+  };
+
+  const removeProduct = async (product: FoamProduct) => {
+    if (!window.confirm(`Remove ${product.name} from the catalog? Saved estimates keep their locked-in numbers.`)) return;
+    const ok = await deleteFoamProduct(product.id);
+    if (ok) {
+      setProducts(products.filter(p => p.id !== product.id));
+    } else {
+      onNotify?.({ type: 'error', message: 'Failed to delete product.' });
+    }
+  };
+
+  // Yield and R/inch are stored imperial; `kind` converts them for metric orgs
+  const numberField = (product: FoamProduct, field: 'yield' | 'costPerSet' | 'strokesPerSet' | 'rPerInch', label: string, step?: string, kind?: UnitKind) => (
+    <div>
+      <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">{label}</label>
+      <input
+        type="number"
+        step={step}
+        value={kind ? toDisplay(product[field], kind, state.unitSystem) : product[field]}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value) || 0;
+          updateProduct(product.id, field, kind ? fromDisplay(value, kind, state.unitSystem) : value);
+        }}
+        onBlur={() => persistProduct(product)}
+        className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-end border-b border-slate-100 pb-3">
+        <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em]">Foam Product Catalog</h3>
+        <div className="flex gap-2">
+          {isAdding && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+          <button disabled={isAdding} onClick={() => addProduct(FoamType.OPEN_CELL)} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-1 rounded-lg transition-colors flex items-center gap-1">
+            <Plus className="w-3 h-3" /> Open Cell
+          </button>
+          <button disabled={isAdding} onClick={() => addProduct(FoamType.CLOSED_CELL)} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-1 rounded-lg transition-colors flex items-center gap-1">
+            <Plus className="w-3 h-3" /> Closed Cell
+          </button>
+        </div>
+      </div>
+
+      {products.length === 0 ? (
+        <p className="text-xs text-slate-400 font-medium">
+          No products yet. Estimates use the Open / Closed Cell yields and costs above until you add one.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {products.map(product => (
+            <div key={product.id} className={`p-3 rounded-xl border ${product.active ? 'bg-slate-50 border-slate-200' : 'bg-white border-dashed border-slate-200 opacity-60'}`}>
+              <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+                <div className="col-span-2 md:col-span-4">
+                  <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">{product.foamType} Product</label>
+                  <input
+                    type="text"
+                    value={product.name}
+                    onChange={(e) => updateProduct(product.id, 'name', e.target.value)}
+                    onBlur={() => product.name.trim() && persistProduct(product)}
+                    className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs"
+                  />
+                </div>
+                <div className="col-span-2 md:col-span-3">
+                  <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Manufacturer</label>
+                  <input
+                    type="text"
+                    value={product.manufacturer}
+                    onChange={(e) => updateProduct(product.id, 'manufacturer', e.target.value)}
+                    onBlur={() => persistProduct(product)}
+                    className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs"
+                  />
+                </div>
+                <div className="md:col-span-2 flex items-center gap-2 pb-2">
+                  <input
+                    type="checkbox"
+                    checked={product.active}
+                    onChange={(e) => {
+                      const updated = { ...product, active: e.target.checked };
+                      updateProduct(product.id, 'active', e.target.checked);
+                      persistProduct(updated);
+                    }}
+                    className="w-4 h-4 accent-brand"
+                  />
+                  <span className="text-[10px] font-black text-slate-500 uppercase">Active</span>
+                </div>
+                <div className="md:col-span-3 flex justify-end">
+                  <button onClick={() => removeProduct(product)} className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2">
+                {numberField(product, 'yield', `Yield (${unitLabel('yield', state.unitSystem)})`, undefined, 'yield')}
+                {numberField(product, 'costPerSet', 'Cost / Set')}
+                {numberField(product, 'strokesPerSet', 'Strokes / Set')}
+                {isMetric(state.unitSystem)
+                  ? numberField(product, 'rPerInch', 'RSI / 25mm', '0.01', 'rPerDepth')
+                  : numberField(product, 'rPerInch', 'R / Inch', '0.1')}
+              </div>
+              <div className="mt-2">
+                <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase">
+                  <input
+                    type="checkbox"
+                    checked={!!product.derateCurve?.points?.length}
+                    onChange={(e) => {
+                      // Start from the org curve so the estimator only adjusts what differs
+                      const derateCurve = e.target.checked ? { ...getFoamMaterial(product.foamType, undefined, state).derateCurve } : { points: [] };
+                      updateProduct(product.id, 'derateCurve', derateCurve);
+                      persistProduct({ ...product, derateCurve });
+                    }}
+                    className="w-4 h-4 accent-brand"
+                  />
+                  Own Derate Curve
+                </label>
+                {!!product.derateCurve?.points?.length && (
+                  <div className="mt-2" onBlur={() => persistProduct(product)}>
+                    <DerateCurveEditor curve={product.derateCurve} units={state.unitSystem} onChange={(curve) => updateProduct(product.id, 'derateCurve', curve)} />
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+
+import React from 'react';
+import { FoamType } from '../types';
+import { FoamMaterialSource, findFoamProduct } from '../utils/calculatorHelpers';
+
+export interface FoamSelection {
+  type: FoamType;
+  productId?: string;
+}
+
+interface FoamProductSelectProps {
+  type: FoamType;
+  productId?: string;
+  materials: FoamMaterialSource;
+  onChange: (selection: FoamSelection) => void;
+  className?: string;
+}
+
+/**
+ * Foam picker that offers the generic Open/Closed Cell (org-wide yields)
+ * alongside catalog products. Picking a product also sets the foam type.
+ */
+export const FoamProductSelect: React.FC<FoamProductSelectProps> = ({ type, productId, materials, onChange, className }) => {
+  const selected = findFoamProduct(productId, materials);
+  const products = (materials.foamProducts || []).filter(p => p.active || p.id === selected?.id);
+  // A locked product that has since left the catalog still needs an option to display
+  if (selected && !products.some(p => p.id === selected.id)) products.push(selected);
+
+  const handleChange = (value: string) => {
+    if (value === FoamType.OPEN_CELL || value === FoamType.CLOSED_CELL) {
+      onChange({ type: value, productId: undefined });
+      return;
+    }
+    const product = findFoamProduct(value, materials);
+    if (product) onChange({ type: product.foamType, productId: product.id });
+  };
+
+  return (
+    <select value={selected ? selected.id : type} onChange={(e) => handleChange(e.target.value)} className={className}>
+      <option value={FoamType.OPEN_CELL}>Open Cell</option>
+      <option value={FoamType.CLOSED_CELL}>Closed Cell</option>
+      {products.length > 0 && (
+        <optgroup label="Product Catalog">
+          {products.map(p => (
+            <option key={p.id} value={p.id}>
+              {p.name}{p.manufacturer ? ` (${p.manufacturer})` : ''} — {p.foamType === FoamType.OPEN_CELL ? 'OC' : 'CC'}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+};
@@ -11,8 +11,15 @@ import {
   Trash2,
   Download
 } from 'lucide-react';
-import { CalculatorState, CalculationResults, EstimateRecord, InvoiceLineItem, FoamType } from '../types';
+import { CalculatorState, CalculationResults, EstimateRecord, InvoiceLineItem, AreaType, Payment } from '../types';
+import { getSpecSurfaceTotals, getFoamSpecCost, formatSprayScope, formatSprayDepth } from '../utils/calculatorHelpers';
+import { getMarginTargets, priceForMargin } from '../utils/marginPricing';
+import { applyTaxDefaults, calculateLineTax, getJobTaxJurisdiction } from '../utils/salesTax';
+import { formatQuantity, toDisplay, unitLabel } from '../utils/units';
+import { buildChangeOrderLines, isChangeOrderLine, mergeChangeOrderLines } from '../utils/changeOrders';
 import { useEstimates } from '../hooks/useEstimates';
+import { PaymentInput } from '../services/paymentService';
+import { PaymentLedger } from './PaymentLedger';
 
 interface InvoiceStageProps {
   state: CalculatorState;
@@ -22,9 +29,11 @@ interface InvoiceStageProps {
   onUpdateExpense: (field: string, value: any) => void;
   onCancel: () => void;
   onConfirm: (record?: EstimateRecord) => Promise<void>;
-  onMarkPaid?: (id: string) => Promise<void>;
-  onSaveAndMarkPaid: (lines: InvoiceLineItem[]) => Promise<void>;
+  // Saves the lines first, so the payment is taken against the invoice as shown
+  onRecordPayment: (lines: InvoiceLineItem[], input: PaymentInput) => Promise<boolean>;
+  onDeletePayment: (payment: Payment) => Promise<boolean>;
   onDownloadPDF?: (type: 'INVOICE' | 'RECEIPT') => void;
+  onDownloadReceipt?: (payment: Payment) => void;
 }
 
 export const InvoiceStage: React.FC<InvoiceStageProps> = ({ 
@@ -34,17 +43,21 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
   onUpdateState, 
   onCancel, 
   onConfirm,
-  onSaveAndMarkPaid,
-  onDownloadPDF
+  onRecordPayment,
+  onDeletePayment,
+  onDownloadPDF,
+  onDownloadReceipt
 }) => {
   const { saveEstimate } = useEstimates();
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processingAction, setProcessingAction] = useState<'save' | 'pay' | null>(null);
+  const [processingAction, setProcessingAction] = useState<'save' | null>(null);
   
   // Local state for editable lines
   const [invoiceLines, setInvoiceLines] = useState<InvoiceLineItem[]>([]);
 
   const formatCurrency = (val: number) => `$${val.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`;
+  const units = state.unitSystem;
+  const jurisdiction = getJobTaxJurisdiction(state);
 
   // Initialize Invoice Data & Lines
   useEffect(() => {
@@ -54,13 +67,10 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
     if (!state.paymentTerms) {
         onUpdateState('paymentTerms', 'Due on Receipt');
     }
-    if (currentRecord?.invoiceNumber && !state.invoiceNumber) {
-        onUpdateState('invoiceNumber', currentRecord.invoiceNumber);
-    }
 
-    // Load or Generate Lines
+    // Load or Generate Lines. Saved lines pick up change orders approved since the last save.
     if (currentRecord?.invoiceLines && currentRecord.invoiceLines.length > 0) {
-        setInvoiceLines(currentRecord.invoiceLines);
+        setInvoiceLines(mergeChangeOrderLines(currentRecord.invoiceLines, currentRecord.changeOrders || [], jurisdiction, units));
     } else {
         generateDefaultLines();
     }
@@ -69,57 +79,81 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
   const generateDefaultLines = () => {
       const lines: InvoiceLineItem[] = [];
       const pricingMode = state.pricingMode;
+      const margins = getMarginTargets(state.marginTargets);
+      const spec = getSpecSurfaceTotals(results);
 
       // 1. Wall Insulation
-      if (results.wallBdFt > 0) {
-          const type = state.wallSettings.type;
+      if (spec.wallBdFt > 0) {
+          const settings = state.wallSettings;
           let lineCost = 0;
           let descExtra = '';
 
           if (pricingMode === 'sqft_pricing') {
-              lineCost = results.totalWallArea * (state.sqFtRates.wall || 0);
-              descExtra = ` @ ${formatCurrency(state.sqFtRates.wall || 0)}/sqft`;
+              lineCost = spec.wallArea * (state.sqFtRates.wall || 0);
+              descExtra = ` @ ${formatCurrency(toDisplay(state.sqFtRates.wall || 0, 'areaRate', units))}${unitLabel('areaRate', units)}`;
           } else {
-              const costPerSet = type === FoamType.OPEN_CELL ? state.costs.openCell : state.costs.closedCell;
-              const yieldPerSet = type === FoamType.OPEN_CELL ? state.yields.openCell : state.yields.closedCell;
-              const setsNeeded = results.wallBdFt / yieldPerSet;
-              lineCost = setsNeeded * costPerSet;
+              lineCost = getFoamSpecCost(settings, spec.wallArea, state);
+              if (pricingMode === 'margin_pricing') lineCost = priceForMargin(lineCost, margins.chemical);
           }
 
           lines.push({
               id: 'wall',
               item: 'Wall Insulation',
-              description: `Spray approximately ${state.wallSettings.thickness} inches of ${type} to walls.${descExtra}`,
-              qty: `${Math.round(results.totalWallArea).toLocaleString()} sqft`,
-              amount: parseFloat(lineCost.toFixed(2))
+              description: `${formatSprayScope(settings, 'walls', units)}${descExtra}`,
+              qty: formatQuantity(spec.wallArea, 'area', units, 0),
+              amount: parseFloat(lineCost.toFixed(2)),
+              taxCategory: 'material'
           });
       }
 
       // 2. Roof Insulation
-      if (results.roofBdFt > 0) {
-          const type = state.roofSettings.type;
+      if (spec.roofBdFt > 0) {
+          const settings = state.roofSettings;
           let lineCost = 0;
           let descExtra = '';
 
           if (pricingMode === 'sqft_pricing') {
-              lineCost = results.totalRoofArea * (state.sqFtRates.roof || 0);
-              descExtra = ` @ ${formatCurrency(state.sqFtRates.roof || 0)}/sqft`;
+              lineCost = spec.roofArea * (state.sqFtRates.roof || 0);
+              descExtra = ` @ ${formatCurrency(toDisplay(state.sqFtRates.roof || 0, 'areaRate', units))}${unitLabel('areaRate', units)}`;
           } else {
-              const costPerSet = type === FoamType.OPEN_CELL ? state.costs.openCell : state.costs.closedCell;
-              const yieldPerSet = type === FoamType.OPEN_CELL ? state.yields.openCell : state.yields.closedCell;
-              const setsNeeded = results.roofBdFt / yieldPerSet;
-              lineCost = setsNeeded * costPerSet;
+              lineCost = getFoamSpecCost(settings, spec.roofArea, state);
+              if (pricingMode === 'margin_pricing') lineCost = priceForMargin(lineCost, margins.chemical);
           }
 
           lines.push({
               id: 'roof',
               item: 'Roof Insulation',
-              description: `Spray approximately ${state.roofSettings.thickness} inches of ${type} to ceiling/roof deck.${descExtra}`,
-              qty: `${Math.round(results.totalRoofArea).toLocaleString()} sqft`,
-              amount: parseFloat(lineCost.toFixed(2))
+              description: `${formatSprayScope(settings, 'ceiling/roof deck', units)}${descExtra}`,
+              qty: formatQuantity(spec.roofArea, 'area', units, 0),
+              amount: parseFloat(lineCost.toFixed(2)),
+              taxCategory: 'material'
           });
       }
 
+      // 2b. Custom Takeoff Lines
+      (results.takeoffLines || []).forEach(line => {
+          if (line.bdFt <= 0) return;
+          let lineCost = line.cost;
+          let descExtra = '';
+
+          if (pricingMode === 'sqft_pricing') {
+              const rate = (line.surfaceType === AreaType.ROOF ? state.sqFtRates.roof : state.sqFtRates.wall) || 0;
+              lineCost = line.area * rate;
+              descExtra = ` @ ${formatCurrency(toDisplay(rate, 'areaRate', units))}${unitLabel('areaRate', units)}`;
+          } else if (pricingMode === 'margin_pricing') {
+              lineCost = priceForMargin(line.cost, margins.chemical);
+          }
+
+          lines.push({
+              id: `takeoff-${line.id}`,
+              item: line.name,
+              description: `Spray approximately ${formatSprayDepth(line.thickness, units)} of ${line.foamType}.${descExtra}`,
+              qty: formatQuantity(line.area, 'area', units, 0),
+              amount: parseFloat(lineCost.toFixed(2)),
+              taxCategory: 'material'
+          });
+      });
+
       // 3. Inventory
       state.inventory.forEach((item, idx) => {
           lines.push({
@@ -127,33 +161,39 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
               item: item.name,
               description: `Material Supply`,
               qty: `${item.quantity} ${item.unit}`,
-              amount: 0 
+              amount: 0,
+              taxCategory: 'material'
           });
       });
 
-      // 4. Labor (If Level Pricing)
-      if (pricingMode === 'level_pricing' && results.laborCost > 0) {
+      // 4. Labor (Level or Margin Pricing)
+      if (pricingMode !== 'sqft_pricing' && results.laborCost > 0) {
+          const laborPrice = pricingMode === 'margin_pricing' ? priceForMargin(results.laborCost, margins.labor) : results.laborCost;
           lines.push({
               id: 'labor',
               item: 'Labor',
-              description: `Application Labor (${state.expenses.manHours} hours)`,
-              qty: `${state.expenses.manHours} hrs`,
-              amount: parseFloat(results.laborCost.toFixed(2))
+              description: `Application Labor (${results.manHours ?? state.expenses.manHours} hours)`,
+              qty: `${results.manHours ?? state.expenses.manHours} hrs`,
+              amount: parseFloat(laborPrice.toFixed(2)),
+              taxCategory: 'labor'
           });
       }
 
       // 5. Fees
       if (state.expenses.tripCharge > 0) {
-          lines.push({ id: 'trip', item: 'Trip Charge', description: 'Standard Rate', qty: '1', amount: state.expenses.tripCharge });
+          lines.push({ id: 'trip', item: 'Trip Charge', description: 'Standard Rate', qty: '1', amount: state.expenses.tripCharge, taxCategory: 'fee' });
       }
       if (state.expenses.fuelSurcharge > 0) {
-          lines.push({ id: 'fuel', item: 'Fuel Surcharge', description: 'Distance Adjustment', qty: '1', amount: state.expenses.fuelSurcharge });
+          lines.push({ id: 'fuel', item: 'Fuel Surcharge', description: 'Distance Adjustment', qty: '1', amount: state.expenses.fuelSurcharge, taxCategory: 'fee' });
       }
       if (state.expenses.other.amount !== 0) {
-          lines.push({ id: 'misc', item: state.expenses.other.description || 'Adjustment', description: 'Misc Fee', qty: '1', amount: state.expenses.other.amount });
+          lines.push({ id: 'misc', item: state.expenses.other.description || 'Adjustment', description: 'Misc Fee', qty: '1', amount: state.expenses.other.amount, taxCategory: 'fee' });
       }
 
-      setInvoiceLines(lines);
+      // 6. Approved change orders, after the original scope
+      lines.push(...buildChangeOrderLines(currentRecord?.changeOrders || [], jurisdiction, units));
+
+      setInvoiceLines(applyTaxDefaults(lines, jurisdiction));
   };
 
   const updateLine = (index: number, field: keyof InvoiceLineItem, value: any) => {
@@ -172,7 +212,9 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
           item: 'Custom Item',
           description: '',
           qty: '1',
-          amount: 0
+          amount: 0,
+          taxCategory: 'material',
+          taxable: !!jurisdiction?.taxMaterials
       }]);
   };
 
@@ -180,22 +222,7 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
       return invoiceLines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0);
   }, [invoiceLines]);
 
-  const handleMarkPaidClick = async () => {
-      if (confirm("Confirm payment receipt? This will finalize the invoice.")) {
-          setProcessingAction('pay');
-          setIsProcessing(true);
-          try {
-              // Pass lines directly to parent to handle save and pay in one flow
-              await onSaveAndMarkPaid(invoiceLines);
-          } catch(e) {
-              console.error(e);
-              alert("Error processing payment.");
-          } finally {
-              setIsProcessing(false);
-              setProcessingAction(null);
-          }
-      }
-  };
+  const salesTax = useMemo(() => calculateLineTax(invoiceLines, jurisdiction), [invoiceLines, jurisdiction]);
 
   const handleUpdateClick = async () => {
       setProcessingAction('save');
@@ -206,7 +233,8 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
           // so the data is confirmed persisted before navigating away.
           const updatedRecord = await saveEstimate(results, 'Invoiced', {
               invoiceLines: invoiceLines,
-              totalValue: invoiceTotal
+              totalValue: invoiceTotal,
+              salesTax
           }, false, true);
 
           if (updatedRecord) {
@@ -221,7 +249,8 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
       }
   };
 
-  const invoiceNum = state.invoiceNumber || currentRecord?.invoiceNumber || "DRAFT";
+  // Numbered by the server when the job is first saved as invoiced
+  const invoiceNum = currentRecord?.invoiceNumber || "Assigned on save";
   const isPaid = currentRecord?.status === 'Paid';
   const statusLabel = currentRecord?.status || 'Draft';
   const actuals = currentRecord?.actuals;
@@ -263,17 +292,8 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
                   )}
                   {isPaid ? (
                       <div className="px-8 py-4 bg-emerald-50 border border-emerald-100 text-emerald-700 rounded-xl font-black uppercase text-xs tracking-widest flex items-center justify-center gap-2 w-full md:w-auto">
-                          <CheckCircle2 className="w-5 h-5" /> Payment Recorded
+                          <CheckCircle2 className="w-5 h-5" /> Paid in Full
                       </div>
-                  ) : currentRecord?.status === 'Invoiced' ? (
-                      <button 
-                          onClick={handleMarkPaidClick}
-                          disabled={isProcessing}
-                          className="px-8 py-4 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl font-black uppercase text-xs tracking-widest flex items-center justify-center gap-2 shadow-lg shadow-emerald-200 transition-all w-full md:w-auto"
-                      >
-                          {isProcessing ? <Loader2 className="w-5 h-5 animate-spin"/> : <CheckCircle2 className="w-5 h-5" />}
-                          Mark as Paid
-                      </button>
                   ) : (
                       <button 
                           onClick={handleUpdateClick}
@@ -322,9 +342,9 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
                         <label className="block text-[10px] font-black text-slate-400 uppercase mb-2">Invoice #</label>
                         <input 
                             type="text"
-                            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-800 outline-none focus:ring-2 focus:ring-sky-500"
+                            readOnly
+                            className="w-full p-3 bg-slate-100 border border-slate-200 rounded-xl font-bold text-slate-500 outline-none"
                             value={invoiceNum}
-                            onChange={(e) => onUpdateState('invoiceNumber', e.target.value)}
                         />
                     </div>
                     <div>
@@ -363,6 +383,9 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
                 <div className="space-y-4">
                     {invoiceLines.map((line, idx) => (
                         <div key={idx} className="p-4 bg-slate-50 rounded-xl border border-slate-200 group hover:border-sky-300 transition-colors">
+                            {isChangeOrderLine(line) && (
+                                <span className="inline-block mb-2 px-2 py-0.5 rounded bg-amber-100 text-amber-700 text-[9px] font-black uppercase tracking-widest">Approved Change Order</span>
+                            )}
                             <div className="flex justify-between items-start mb-2">
                                 <input 
                                     type="text" 
@@ -393,6 +416,17 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
                                         onChange={(e) => updateLine(idx, 'qty', e.target.value)}
                                     />
                                 </div>
+                                {jurisdiction && (
+                                    <label className="flex flex-col items-center justify-end text-[9px] font-black text-slate-400 uppercase">
+                                        Taxable
+                                        <input
+                                            type="checkbox"
+                                            checked={!!line.taxable}
+                                            onChange={(e) => updateLine(idx, 'taxable', e.target.checked)}
+                                            className="w-4 h-4 mt-2 mb-2 accent-sky-500"
+                                        />
+                                    </label>
+                                )}
                                 <div className="w-32">
                                     <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Amount ($)</label>
                                     <input 
@@ -411,8 +445,9 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
         </div>
 
         {/* SUMMARY COLUMN */}
-        <div className="space-y-6">
-            <div className="bg-slate-900 text-white p-6 rounded-2xl shadow-lg sticky top-28">
+        <div>
+          <div className="space-y-6 sticky top-28">
+            <div className="bg-slate-900 text-white p-6 rounded-2xl shadow-lg">
                 <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">Invoice Total</h3>
                 <div className="space-y-2 mb-4">
                     {invoiceLines.map((line, i) => (
@@ -423,15 +458,38 @@ export const InvoiceStage: React.FC<InvoiceStageProps> = ({
                     ))}
                 </div>
                 <div className="border-t border-slate-700 pt-4 mt-2">
+                    {salesTax && (
+                        <div className="space-y-1 mb-3 text-xs">
+                            <div className="flex justify-between opacity-80">
+                                <span>Subtotal</span>
+                                <span>{formatCurrency(invoiceTotal)}</span>
+                            </div>
+                            <div className="flex justify-between opacity-80">
+                                <span>{salesTax.jurisdictionName} Tax ({salesTax.rate}%)</span>
+                                <span>{formatCurrency(salesTax.amount)}</span>
+                            </div>
+                        </div>
+                    )}
                     <div className="flex justify-between text-2xl">
                         <span className="font-bold">Total Due</span>
-                        <span className="font-black text-sky-400">${invoiceTotal.toLocaleString(undefined, {minimumFractionDigits: 2})}</span>
+                        <span className="font-black text-sky-400">${(invoiceTotal + (salesTax?.amount || 0)).toLocaleString(undefined, {minimumFractionDigits: 2})}</span>
                     </div>
                 </div>
                 <p className="text-[10px] text-slate-500 mt-4 text-center">
                     Editing line items above updates this total automatically.
                 </p>
             </div>
+
+            {currentRecord && (currentRecord.status === 'Invoiced' || isPaid) && (
+                <PaymentLedger
+                    record={currentRecord}
+                    totalDue={invoiceTotal + (salesTax?.amount || 0)}
+                    onRecord={(input) => onRecordPayment(invoiceLines, input)}
+                    onDelete={onDeletePayment}
+                    onDownloadReceipt={onDownloadReceipt}
+                />
+            )}
+          </div>
         </div>
 
       </div>
@@ -0,0 +1,81 @@
+
+import React from 'react';
+import { Thermometer } from 'lucide-react';
+import { CalculationResults, JobConditions, Season, UnitSystem } from '../types';
+import { hasJobConditions } from '../utils/yieldDerate';
+import { fromDisplay, toDisplay, unitLabel } from '../utils/units';
+
+interface JobConditionsPanelProps {
+  conditions: JobConditions;
+  results: CalculationResults;
+  units?: UnitSystem;
+  onChange: (conditions: JobConditions) => void;
+}
+
+const parseReading = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+};
+
+/**
+ * Optional site conditions. When any are entered, each product's derate
+ * curve lowers its yield and the set counts go up accordingly.
+ */
+export const JobConditionsPanel: React.FC<JobConditionsPanelProps> = ({ conditions, results, units, onChange }) => {
+  const update = (updates: Partial<JobConditions>) => onChange({ ...conditions, ...updates });
+  const factors = results.yieldFactors;
+
+  // Temperatures are stored in °F; humidity is a plain percentage either way
+  const numberInput = (field: 'ambientTempF' | 'substrateTempF' | 'humidity', label: string) => {
+    const isTemp = field !== 'humidity';
+    const stored = conditions[field];
+    return (
+      <div>
+        <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">{label}</label>
+        <input
+          type="number"
+          value={stored === undefined ? '' : isTemp ? toDisplay(stored, 'temperature', units) : stored}
+          onChange={(e) => {
+            const reading = parseReading(e.target.value);
+            update({ [field]: isTemp && reading !== undefined ? fromDisplay(reading, 'temperature', units) : reading });
+          }}
+          placeholder="—"
+          className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm"
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-xs font-black uppercase tracking-widest text-slate-500 flex items-center gap-1">
+          <Thermometer className="w-3.5 h-3.5" /> Job Conditions
+        </span>
+        {hasJobConditions(conditions) && factors && (
+          <span className={`text-[10px] font-black px-2 py-1 rounded border ${
+            Math.min(factors.openCell, factors.closedCell) < 1 ? 'bg-amber-50 border-amber-100 text-amber-700' : 'bg-white border-slate-200 text-slate-500'
+          }`}>
+            Yield: OC {Math.round(factors.openCell * 100)}% · CC {Math.round(factors.closedCell * 100)}%
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {numberInput('ambientTempF', `Ambient ${unitLabel('temperature', units)}`)}
+        {numberInput('substrateTempF', `Substrate ${unitLabel('temperature', units)}`)}
+        {numberInput('humidity', 'Humidity %')}
+        <div>
+          <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Season</label>
+          <select
+            value={conditions.season || ''}
+            onChange={(e) => update({ season: (e.target.value || undefined) as Season | undefined })}
+            className="w-full bg-white border border-slate-200 p-2 rounded-lg font-bold text-sm"
+          >
+            <option value="">—</option>
+            {Object.values(Season).map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
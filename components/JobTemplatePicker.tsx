@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { LayoutTemplate, Save, Trash2, Loader2, RefreshCw } from 'lucide-react';
+import { CalculatorState, EstimateRecord, JobTemplate } from '../types';
+import { applyTemplateData, captureTemplateData, toTemplateRef } from '../utils/jobTemplates';
+import { createJobTemplate, deleteJobTemplate, updateJobTemplate } from '../services/jobTemplateService';
+
+interface JobTemplatePickerProps {
+  state: CalculatorState;
+  currentRecord?: EstimateRecord | null;
+  onUpdateState: (newState: Partial<CalculatorState>) => void;
+  onNotify?: (notification: { type: 'success' | 'error'; message: string }) => void;
+}
+
+/**
+ * Starts a draft from a saved job template, or saves the calculator's setup
+ * as one. Applying copies the template into the job, so saving a new
+ * version later leaves jobs already built from it alone.
+ */
+export const JobTemplatePicker: React.FC<JobTemplatePickerProps> = ({ state, currentRecord, onUpdateState, onNotify }) => {
+  const templates = state.jobTemplates || [];
+  const [selectedId, setSelectedId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = templates.find(t => t.id === selectedId);
+  const applied = state.appliedTemplate;
+  const appliedLatest = applied ? templates.find(t => t.id === applied.id) : undefined;
+  const setTemplates = (next: JobTemplate[]) =>
+    onUpdateState({ jobTemplates: [...next].sort((a, b) => a.name.localeCompare(b.name)) });
+
+  const apply = (template: JobTemplate) => {
+    if (currentRecord && !confirm(`Replace this job's dimensions, foam, materials and pricing with "${template.name}" (v${template.version})?`)) return;
+    onUpdateState(applyTemplateData(template));
+    onNotify?.({ type: 'success', message: `Applied template "${template.name}"` });
+  };
+
+  const currentData = () => captureTemplateData(state, state.templateLines || currentRecord?.estimateLines);
+
+  const saveAsNew = async () => {
+    const name = prompt('Template name (e.g. 40x60 Pole Barn):', applied?.name ? `${applied.name} (copy)` : '')?.trim();
+    if (!name) return;
+    setIsSaving(true);
+    const { template, error } = await createJobTemplate({ name, data: currentData() });
+    setIsSaving(false);
+    if (!template) {
+      onNotify?.({ type: 'error', message: error || 'Failed to save template.' });
+      return;
+    }
+    setTemplates([...templates, template]);
+    setSelectedId(template.id);
+    onUpdateState({ appliedTemplate: toTemplateRef(template) });
+    onNotify?.({ type: 'success', message: `Saved template "${name}"` });
+  };
+
+  const saveNewVersion = async (latest: JobTemplate) => {
+    if (!confirm(`Save this setup as version ${latest.version + 1} of "${latest.name}"? Jobs already built from it keep the version they used.`)) return;
+    setIsSaving(true);
+    const { template, error } = await updateJobTemplate(latest, { data: currentData() });
+    setIsSaving(false);
+    if (!template) {
+      onNotify?.({ type: 'error', message: error || 'Failed to update template.' });
+      return;
+    }
+    setTemplates(templates.map(t => t.id === template.id ? template : t));
+    onUpdateState({ appliedTemplate: toTemplateRef(template) });
+    onNotify?.({ type: 'success', message: `Saved "${template.name}" v${template.version}` });
+  };
+
+  const remove = async (template: JobTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? Jobs built from it are not affected.`)) return;
+    if (await deleteJobTemplate(template.id)) {
+      setTemplates(templates.filter(t => t.id !== template.id));
+      setSelectedId('');
+    } else {
+      onNotify?.({ type: 'error', message: 'Failed to delete template.' });
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-100 pt-6 mt-6 space-y-3">
+      <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Job Template</label>
+      <div className="flex flex-col md:flex-row gap-2">
+        <select
+          className="flex-1 bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-xl p-3 font-bold outline-none focus:ring-2 focus:ring-brand"
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+        >
+          <option value="">{templates.length === 0 ? 'No templates saved yet' : 'Choose a template…'}</option>
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>{t.name} · v{t.version}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button
+            onClick={() => selected && apply(selected)}
+            disabled={!selected}
+            className="flex-1 md:flex-none px-4 py-3 bg-slate-900 hover:bg-slate-800 text-white rounded-xl font-black uppercase text-[10px] tracking-widest flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <LayoutTemplate className="w-4 h-4" /> Apply
+          </button>
+          {selected && (
+            <button onClick={() => remove(selected)} title="Delete template" className="p-3 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={saveAsNew}
+            disabled={isSaving}
+            className="flex-1 md:flex-none px-4 py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl font-black uppercase text-[10px] tracking-widest flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save as Template
+          </button>
+        </div>
+      </div>
+      {applied && (
+        <div className="flex flex-wrap items-center gap-2 text-xs font-bold text-slate-500">
+          <span>Built from <span className="text-slate-900">{applied.name}</span> v{applied.version}</span>
+          {appliedLatest && appliedLatest.version > applied.version && (
+            <button onClick={() => apply(appliedLatest)} className="text-[10px] bg-amber-100 hover:bg-amber-200 text-amber-700 font-black uppercase tracking-widest px-2 py-1 rounded-lg flex items-center gap-1">
+              <RefreshCw className="w-3 h-3" /> Use v{appliedLatest.version}
+            </button>
+          )}
+          {appliedLatest && (
+            <button
+              onClick={() => saveNewVersion(appliedLatest)}
+              disabled={isSaving}
+              className="text-[10px] text-slate-400 hover:text-slate-700 font-black uppercase tracking-widest px-2 py-1 rounded-lg hover:bg-slate-100 disabled:opacity-50"
+            >
+              Save as v{appliedLatest.version + 1}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
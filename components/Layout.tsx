@@ -30,7 +30,9 @@ import {
   MoreHorizontal,
   Cog,
   BookOpen,
-  MessageSquare
+  MessageSquare,
+  CalendarDays,
+  Timer
 } from 'lucide-react';
 import { UserSession } from '../types';
 
@@ -242,6 +244,8 @@ export const Layout: React.FC<LayoutProps> = ({
           {!collapsedSections.jobs && (
             <div className="space-y-0.5">
               <SidebarItem target="customers" icon={Users} label="Customers" />
+              <SidebarItem target="schedule" icon={CalendarDays} label="Schedule" />
+              <SidebarItem target="timesheets" icon={Timer} label="Timesheets" />
             </div>
           )}
 
@@ -370,6 +374,8 @@ export const Layout: React.FC<LayoutProps> = ({
               {/* Jobs & CRM */}
               <div className="text-[10px] font-bold uppercase tracking-[0.15em] text-slate-400 px-3 pt-3 pb-1">Jobs & CRM</div>
               <MobileMenuButton icon={Users} label="Customers" isActive={view === 'customers' || view === 'customer_detail'} onClick={() => { setView('customers'); setIsMobileMoreOpen(false); }} />
+              <MobileMenuButton icon={CalendarDays} label="Schedule" isActive={view === 'schedule'} onClick={() => { setView('schedule'); setIsMobileMoreOpen(false); }} />
+              <MobileMenuButton icon={Timer} label="Timesheets" isActive={view === 'timesheets'} onClick={() => { setView('timesheets'); setIsMobileMoreOpen(false); }} />
               
               {/* Inventory & Equipment */}
               <div className="text-[10px] font-bold uppercase tracking-[0.15em] text-slate-400 px-3 pt-3 pb-1">Inventory & Equipment</div>
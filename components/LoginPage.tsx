@@ -23,6 +23,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess, installPrompt, on
     companyName: '',
     crewCompany: '',
     crewPin: '',
+    crewName: '',
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -32,12 +33,12 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess, installPrompt, on
 
     try {
       if (activeTab === 'crew') {
-        if (!formData.crewCompany || !formData.crewPin) {
-          setError('Company name and PIN are required.');
+        if (!formData.crewCompany || !formData.crewPin || !formData.crewName.trim()) {
+          setError('Company name, your name and PIN are required.');
           setIsLoading(false);
           return;
         }
-        const session = await signInCrew(formData.crewCompany, formData.crewPin);
+        const session = await signInCrew(formData.crewCompany, formData.crewPin, formData.crewName.trim());
         // Store crew session in both keys for iOS resilience.
         // iOS WebKit can evict localStorage entries under memory pressure;
         // storing in both keys gives us a fallback.
@@ -140,7 +141,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess, installPrompt, on
           </h2>
           <p className="text-xs text-slate-400 text-center mb-6">
             {activeTab === 'crew'
-              ? 'Enter your company name and crew PIN'
+              ? 'Enter your company name, your name and your PIN'
               : isSignup
               ? 'Set up your organization'
               : 'Sign in with your email and password'}
@@ -245,18 +246,31 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess, installPrompt, on
                   </div>
                 </div>
                 <div>
-                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1 ml-1">Crew Access PIN</label>
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1 ml-1">Your Name</label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-3 w-5 h-5 text-slate-400" />
+                    <input
+                      type="text"
+                      required
+                      className="w-full pl-10 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-brand outline-none transition-all"
+                      placeholder="As listed on your crew"
+                      value={formData.crewName}
+                      onChange={(e) => setFormData({ ...formData, crewName: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1 ml-1">PIN</label>
                   <div className="relative">
                     <KeyRound className="absolute left-3 top-3 w-5 h-5 text-slate-400" />
                     <input
                       type="password"
                       required
-                      inputMode="numeric"
-                      maxLength={6}
+                      maxLength={64}
                       className="w-full pl-10 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-brand outline-none transition-all tracking-[0.3em] text-center text-lg font-mono"
                       placeholder="• • • •"
                       value={formData.crewPin}
-                      onChange={(e) => setFormData({ ...formData, crewPin: e.target.value.replace(/\D/g, '') })}
+                      onChange={(e) => setFormData({ ...formData, crewPin: e.target.value })}
                     />
                   </div>
                 </div>
@@ -306,7 +320,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess, installPrompt, on
           {/* Crew helper text */}
           {activeTab === 'crew' && (
             <div className="mt-6 text-center text-xs text-slate-400">
-              Contact your administrator for the Company Name and Crew PIN.
+              Contact your administrator for the Company Name and your PIN.
             </div>
           )}
         </div>
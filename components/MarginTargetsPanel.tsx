@@ -0,0 +1,68 @@
+import React from 'react';
+import { Percent } from 'lucide-react';
+import { CalculationResults, MarginTargets } from '../types';
+import { getMarginTargets } from '../utils/marginPricing';
+
+interface MarginTargetsPanelProps {
+  targets: MarginTargets;
+  results: CalculationResults;
+  onChange: (targets: MarginTargets) => void;
+}
+
+const parsePercent = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+};
+
+/**
+ * Target gross margins for margin pricing. Chemical, labor and inventory
+ * inherit the overall target unless given their own.
+ */
+export const MarginTargetsPanel: React.FC<MarginTargetsPanelProps> = ({ targets, results, onChange }) => {
+  const resolved = getMarginTargets(targets);
+
+  const categoryInput = (field: 'chemical' | 'labor' | 'inventory', label: string) => (
+    <div>
+      <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">{label} %</label>
+      <input
+        type="number"
+        value={targets[field] ?? ''}
+        onChange={(e) => onChange({ ...targets, [field]: parsePercent(e.target.value) })}
+        placeholder={String(resolved.overall)}
+        className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-sm"
+      />
+    </div>
+  );
+
+  return (
+    <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-xs font-black uppercase tracking-widest text-slate-500 flex items-center gap-1">
+          <Percent className="w-3.5 h-3.5" /> Target Margin
+        </span>
+        {results.marginFloor !== undefined && (
+          <span className="text-[10px] font-black px-2 py-1 rounded border bg-white border-slate-200 text-slate-500">
+            Floor: {results.marginFloor.toFixed(1)}%
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label className="text-[9px] font-black text-brand uppercase block mb-1">Overall %</label>
+          <input
+            type="number"
+            value={targets.overall}
+            onChange={(e) => onChange({ ...targets, overall: parsePercent(e.target.value) ?? 0 })}
+            className="w-full p-2 bg-white border border-brand/20 rounded-lg font-bold text-sm text-brand focus:ring-1 focus:ring-brand outline-none"
+          />
+        </div>
+        {categoryInput('chemical', 'Chemical')}
+        {categoryInput('labor', 'Labor')}
+        {categoryInput('inventory', 'Inventory')}
+      </div>
+      <p className="text-[10px] text-slate-400 font-medium mt-2">
+        Sell price is solved from cost so each category keeps its margin. Trip, fuel and misc fees pass through at cost.
+      </p>
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ import { CalculatorState, MaterialUsageLogEntry } from '../types';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { FeedbackButton } from './FeedbackButton';
+import { formatQuantity } from '../utils/units';
 
 interface MaterialReportProps {
   state: CalculatorState;
@@ -32,6 +33,11 @@ export const MaterialReport: React.FC<MaterialReportProps> = ({ state, onBack })
     return { oc, cc, itemCount };
   }, [filteredLogs]);
 
+  // Nominal coverage of the sets used, in the org's units
+  const units = state.unitSystem;
+  const ocVolume = formatQuantity(stats.oc * (state.yields.openCell || 0), 'volume', units);
+  const ccVolume = formatQuantity(stats.cc * (state.yields.closedCell || 0), 'volume', units);
+
   const generatePDF = () => {
       const doc = new jsPDF();
       doc.setFontSize(18);
@@ -39,6 +45,7 @@ export const MaterialReport: React.FC<MaterialReportProps> = ({ state, onBack })
       doc.setFontSize(10);
       doc.text(`Period: ${filterMonth}`, 14, 26);
       doc.text(`Generated: ${new Date().toLocaleDateString()}`, 14, 32);
+      doc.text(`Open Cell: ${stats.oc.toFixed(2)} sets (~${ocVolume})   Closed Cell: ${stats.cc.toFixed(2)} sets (~${ccVolume})`, 14, 38);
 
       const tableData = filteredLogs.map(log => [
           new Date(log.date).toLocaleDateString(),
@@ -50,7 +57,7 @@ export const MaterialReport: React.FC<MaterialReportProps> = ({ state, onBack })
       ]);
 
       autoTable(doc, {
-          startY: 40,
+          startY: 44,
           head: [['Date', 'Customer', 'Material', 'Qty', 'Unit', 'Tech']],
           body: tableData,
           theme: 'grid',
@@ -83,7 +90,7 @@ export const MaterialReport: React.FC<MaterialReportProps> = ({ state, onBack })
                 <div>
                     <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">Open Cell Used</div>
                     <div className="text-3xl font-black text-slate-900">{stats.oc.toFixed(2)}</div>
-                    <div className="text-xs text-slate-500 font-bold mt-1">Sets</div>
+                    <div className="text-xs text-slate-500 font-bold mt-1">Sets · ~{ocVolume}</div>
                 </div>
                 <div className="mt-4 bg-brand/10 p-2 rounded-lg w-fit"><Droplet className="w-5 h-5 text-brand" /></div>
             </div>
@@ -91,7 +98,7 @@ export const MaterialReport: React.FC<MaterialReportProps> = ({ state, onBack })
                 <div>
                     <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">Closed Cell Used</div>
                     <div className="text-3xl font-black text-slate-900">{stats.cc.toFixed(2)}</div>
-                    <div className="text-xs text-slate-500 font-bold mt-1">Sets</div>
+                    <div className="text-xs text-slate-500 font-bold mt-1">Sets · ~{ccVolume}</div>
                 </div>
                 <div className="mt-4 bg-slate-100 p-2 rounded-lg w-fit"><Droplet className="w-5 h-5 text-slate-600" /></div>
             </div>
@@ -14,7 +14,7 @@ import {
   CalculationResults,
   EstimateRecord,
   DocumentType,
-  formatDocumentNumber,
+  documentNumberFor,
 } from '../types';
 import {
   PDFDocumentData,
@@ -34,6 +34,10 @@ interface PDFPreviewModalProps {
   onClose: () => void;
 }
 
+// Tax applies only to lines flagged taxable
+const taxableTotal = (items: PDFLineItem[]) =>
+  items.filter((item) => item.taxable).reduce((sum, item) => sum + (parseFloat(item.total) || 0), 0);
+
 const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
   state,
   results,
@@ -65,11 +69,11 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
         ...prev,
         documentType: newType,
         documentTitle: newType,
-        documentNumber: formatDocumentNumber(prev.documentNumber, newType),
+        documentNumber: documentNumberFor(record, newType),
         termsAndConditions: TERMS_MAP[newType],
       };
     });
-  }, []);
+  }, [record]);
 
   const updateField = useCallback(
     (field: keyof PDFDocumentData, value: string) => {
@@ -95,6 +99,15 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
     []
   );
 
+  const toggleLineItemTaxable = useCallback((index: number, taxable: boolean) => {
+    setDocData((prev) => {
+      if (!prev) return prev;
+      const items = [...prev.lineItems];
+      items[index] = { ...items[index], taxable };
+      return { ...prev, lineItems: items };
+    });
+  }, []);
+
   const addLineItem = useCallback(() => {
     setDocData((prev) => {
       if (!prev) return prev;
@@ -125,7 +138,7 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
       );
       const taxMatch = prev.taxLabel.match(/([\d.]+)%/);
       const taxRate = taxMatch ? parseFloat(taxMatch[1]) : 0;
-      const tax = subtotal * (taxRate / 100);
+      const tax = taxableTotal(prev.lineItems) * (taxRate / 100);
       const total = subtotal + tax;
       return {
         ...prev,
@@ -144,7 +157,7 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
     );
     const taxMatch = docData.taxLabel.match(/([\d.]+)%/);
     const taxRate = taxMatch ? parseFloat(taxMatch[1]) : 0;
-    const tax = subtotal * (taxRate / 100);
+    const tax = taxableTotal(docData.lineItems) * (taxRate / 100);
     const total = subtotal + tax;
     return {
       ...docData,
@@ -517,6 +530,12 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
                 </button>
               </div>
 
+              {docData.options.length > 1 && (
+                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                  This estimate prints its {docData.options.length} options ({docData.options.map((o) => o.name).join(' / ')}) side by side in place of these line items.
+                </p>
+              )}
+
               {/* Header Row (desktop) */}
               <div className="hidden sm:grid grid-cols-12 gap-2 text-xs font-medium text-slate-500 uppercase px-1">
                 <div className="col-span-4">Description</div>
@@ -524,7 +543,7 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
                 <div className="col-span-2">Unit</div>
                 <div className="col-span-2">Price</div>
                 <div className="col-span-1">Total</div>
-                <div className="col-span-1"></div>
+                <div className="col-span-1 text-center">Tax</div>
               </div>
 
               {/* Items */}
@@ -571,7 +590,17 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
                     <div className="col-span-2 sm:col-span-1 text-right">
                       <span className="text-sm font-medium text-slate-700">${item.total}</span>
                     </div>
-                    <div className="col-span-1 text-center">
+                    <div className="col-span-1 flex items-center justify-center gap-1">
+                      <input
+                        type="checkbox"
+                        title="Taxable"
+                        checked={!!item.taxable}
+                        onChange={(e) => {
+                          toggleLineItemTaxable(idx, e.target.checked);
+                          setTimeout(recalculateTotals, 0);
+                        }}
+                        className="w-4 h-4"
+                      />
                       <button
                         onClick={() => {
                           removeLineItem(idx);
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Wallet, Trash2, Download, FileText, Loader2 } from 'lucide-react';
+import { EstimateRecord, Payment, PaymentMethod } from '../types';
+import { amountDue, depositAmount, PAYMENT_METHOD_LABELS, PAYMENT_METHODS, totalPaid } from '../utils/payments';
+import { PaymentInput } from '../services/paymentService';
+
+interface PaymentLedgerProps {
+  record: EstimateRecord;
+  /** Amount due when it differs from the saved record, e.g. while invoice lines are being edited. */
+  totalDue?: number;
+  onRecord: (input: PaymentInput) => Promise<boolean>;
+  onDelete: (payment: Payment) => Promise<boolean>;
+  onDownloadReceipt?: (payment: Payment) => void;
+  onDownloadDepositRequest?: (amount: number, percent: number) => void;
+}
+
+const formatMoney = (val: number) => `$${val.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const labelClass = 'block text-[9px] font-black text-slate-400 uppercase mb-1';
+const inputClass = 'w-full bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold text-slate-700 outline-none focus:border-sky-400';
+
+/**
+ * Deposits and payments received on a job, and what is left to collect.
+ * Deposits are taken on the work order; once the invoice balance reaches
+ * zero the API marks the job Paid.
+ */
+export const PaymentLedger: React.FC<PaymentLedgerProps> = ({
+  record,
+  totalDue,
+  onRecord,
+  onDelete,
+  onDownloadReceipt,
+  onDownloadDepositRequest,
+}) => {
+  const payments = [...(record.payments || [])].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+  const due = totalDue ?? amountDue(record);
+  const paid = totalPaid(payments);
+  const balance = Math.max(0, Math.round((due - paid) * 100) / 100);
+
+  const canRecord = (record.status === 'Work Order' || record.status === 'Invoiced') && balance > 0;
+  const isDeposit = record.status === 'Work Order';
+
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(today());
+  const [method, setMethod] = useState<PaymentMethod>('check');
+  const [reference, setReference] = useState('');
+  const [depositPercent, setDepositPercent] = useState(50);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const amountValue = amount === '' ? balance : parseFloat(amount) || 0;
+
+  const submit = async () => {
+    if (amountValue <= 0 || amountValue > balance) return;
+    setIsSaving(true);
+    const recorded = await onRecord({ amount: amountValue, date, method, reference: reference.trim() || undefined });
+    setIsSaving(false);
+    if (recorded) {
+      setAmount('');
+      setReference('');
+    }
+  };
+
+  const remove = async (payment: Payment) => {
+    if (confirm(`Remove the ${formatMoney(payment.amount)} ${payment.kind} from ${payment.date}?`)) {
+      await onDelete(payment);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100">
+        <h3 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <Wallet className="w-4 h-4 text-slate-400" /> Payments
+        </h3>
+        <div className="grid grid-cols-3 gap-3 mt-4">
+          <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+            <div className="text-[9px] font-black text-slate-400 uppercase">Amount Due</div>
+            <div className="text-sm font-black text-slate-900">{formatMoney(due)}</div>
+          </div>
+          <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+            <div className="text-[9px] font-black text-slate-400 uppercase">Received</div>
+            <div className="text-sm font-black text-emerald-700">{formatMoney(paid)}</div>
+          </div>
+          <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+            <div className="text-[9px] font-black text-slate-400 uppercase">Balance</div>
+            <div className={`text-sm font-black ${balance > 0 ? 'text-red-600' : 'text-emerald-700'}`}>{formatMoney(balance)}</div>
+          </div>
+        </div>
+      </div>
+
+      {payments.length === 0 ? (
+        <p className="p-6 text-xs text-slate-400 font-medium">No payments recorded.</p>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {payments.map(p => (
+            <div key={p.id} className="px-6 py-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-black text-slate-900">{formatMoney(p.amount)}</span>
+                  <span className={`px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-widest ${p.kind === 'deposit' ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                    {p.kind === 'deposit' ? 'Deposit' : 'Payment'}
+                  </span>
+                </div>
+                <p className="text-[11px] text-slate-500 font-medium truncate">
+                  {p.date} · {PAYMENT_METHOD_LABELS[p.method] || p.method}{p.reference ? ` #${p.reference}` : ''}{p.recordedBy ? ` · by ${p.recordedBy}` : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {onDownloadReceipt && (
+                  <button onClick={() => onDownloadReceipt(p)} title="Download receipt" className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg">
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+                {(record.status === 'Work Order' || record.status === 'Invoiced') && (
+                  <button onClick={() => remove(p)} title="Remove payment" className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isDeposit && onDownloadDepositRequest && balance > 0 && (
+        <div className="px-6 py-4 border-t border-slate-100 flex items-end gap-3">
+          <div className="w-24">
+            <label className={labelClass}>Deposit %</label>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              className={inputClass}
+              value={depositPercent}
+              onChange={(e) => setDepositPercent(Math.min(100, Math.max(1, parseFloat(e.target.value) || 0)))}
+            />
+          </div>
+          <button
+            onClick={() => onDownloadDepositRequest(depositAmount(record, depositPercent), depositPercent)}
+            disabled={depositAmount(record, depositPercent) <= 0}
+            className="flex-1 text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-3 py-2.5 rounded-lg transition-colors flex items-center justify-center gap-1 disabled:opacity-40"
+          >
+            <FileText className="w-3 h-3" /> Deposit Request ({formatMoney(depositAmount(record, depositPercent))})
+          </button>
+        </div>
+      )}
+
+      {canRecord && (
+        <div className="p-6 border-t border-slate-100 bg-slate-50 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Amount ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                className={`${inputClass} text-right`}
+                value={amount}
+                placeholder={balance.toFixed(2)}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Date</label>
+              <input type="date" className={inputClass} value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Method</label>
+              <select className={inputClass} value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)}>
+                {PAYMENT_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Reference</label>
+              <input
+                type="text"
+                maxLength={100}
+                className={inputClass}
+                value={reference}
+                placeholder={method === 'check' ? 'Check #' : 'Optional'}
+                onChange={(e) => setReference(e.target.value)}
+              />
+            </div>
+          </div>
+          {amountValue > balance && (
+            <p className="text-[11px] text-red-600 font-bold">That is more than the {formatMoney(balance)} outstanding.</p>
+          )}
+          <button
+            onClick={submit}
+            disabled={isSaving || amountValue <= 0 || amountValue > balance || !date}
+            className="w-full py-3 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl font-black uppercase text-[10px] tracking-widest flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isDeposit ? 'Record Deposit' : amountValue === balance ? 'Record Payment in Full' : 'Record Payment'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
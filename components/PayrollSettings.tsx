@@ -0,0 +1,67 @@
+import React from 'react';
+import { CalculatorState } from '../types';
+import { getPayrollSettings } from '../utils/timesheets';
+
+interface PayrollSettingsProps {
+  state: CalculatorState;
+  onUpdateState: (newState: Partial<CalculatorState>) => void;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const labelClass = 'block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1';
+const inputClass = 'w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none';
+
+/**
+ * Settings section for timesheets: the day pay weeks start on, and the
+ * weekly and daily hours past which paid time counts as overtime.
+ */
+export const PayrollSettings: React.FC<PayrollSettingsProps> = ({ state, onUpdateState }) => {
+  const settings = getPayrollSettings(state.payroll);
+
+  return (
+    <div className="space-y-6">
+      <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em] border-b border-slate-100 pb-3">Timesheets &amp; Overtime</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <label className={labelClass}>Pay Week Starts</label>
+          <select
+            value={settings.weekStartsOn}
+            onChange={(e) => onUpdateState({ payroll: { ...settings, weekStartsOn: parseInt(e.target.value, 10) } })}
+            className={inputClass}
+          >
+            {WEEKDAYS.map((label, day) => <option key={label} value={day}>{label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Overtime After (hrs / week)</label>
+          <input
+            type="number"
+            min="1"
+            max="168"
+            step="0.5"
+            value={settings.weeklyOvertimeHours}
+            onChange={(e) => onUpdateState({ payroll: { ...settings, weeklyOvertimeHours: Math.min(168, Math.max(1, parseFloat(e.target.value) || 1)) } })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Overtime After (hrs / day)</label>
+          <input
+            type="number"
+            min="0"
+            max="24"
+            step="0.5"
+            value={settings.dailyOvertimeHours}
+            onChange={(e) => onUpdateState({ payroll: { ...settings, dailyOvertimeHours: Math.min(24, Math.max(0, parseFloat(e.target.value) || 0)) } })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-slate-400 font-medium ml-1">
+        Job, travel and shop time is paid; breaks are not. Set the daily limit to 0 if only weekly overtime applies.
+      </p>
+    </div>
+  );
+};
@@ -188,6 +188,9 @@ export const Profile: React.FC<ProfileProps> = ({ state, onUpdateProfile, onManu
                     <p className="mt-3 text-[10px] text-slate-400 font-medium italic">
                         * Updating the PIN requires a "Save & Sync" to take effect on crew devices.
                     </p>
+                    <p className="mt-1 text-[10px] text-slate-400 font-medium italic">
+                        * Only used until you add crews or people under Settings → Crews; after that everyone has their own PIN.
+                    </p>
                 </div>
 
                 {/* 3. SECURITY SECTION (Admin Password) */}
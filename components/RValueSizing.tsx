@@ -0,0 +1,98 @@
+
+import React from 'react';
+import { ShieldCheck, AlertTriangle } from 'lucide-react';
+import { ClimateZone, FoamSettings, InsulationAssembly, RValueCheck, ThicknessMode, UnitSystem } from '../types';
+import { FoamMaterialSource, applyRValueSizing, isLayeredSpec } from '../utils/calculatorHelpers';
+import { CLIMATE_ZONES } from '../utils/codeTables';
+import { formatQuantity, fromDisplay, isMetric, toDisplay, unitLabel } from '../utils/units';
+
+interface RValueSizingProps {
+  settings: FoamSettings;
+  materials: FoamMaterialSource;
+  check?: RValueCheck;
+  units?: UnitSystem;
+  onChange: (settings: FoamSettings) => void;
+}
+
+/**
+ * Sizing controls for a wall/roof spec: depth by inches, target R, or the
+ * IECC climate-zone table, plus the achieved-vs-required badge.
+ */
+export const RValueSizing: React.FC<RValueSizingProps> = ({ settings, materials, check, units, onChange }) => {
+  const mode: ThicknessMode = settings.thicknessMode || 'inches';
+  const layered = isLayeredSpec(settings);
+
+  const update = (updates: Partial<FoamSettings>) => {
+    onChange(applyRValueSizing({ ...settings, ...updates }, materials));
+  };
+
+  return (
+    <div className="col-span-2 space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {!layered && (
+          <div>
+            <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Size By</label>
+            <select
+              value={mode}
+              onChange={(e) => update({ thicknessMode: e.target.value as ThicknessMode })}
+              className="w-full bg-white border border-slate-200 p-2 rounded-lg font-bold text-xs"
+            >
+              <option value="inches">{isMetric(units) ? 'Depth' : 'Inches'}</option>
+              <option value="target_r">Target {unitLabel('rValue', units)}</option>
+              <option value="code">Code (IECC)</option>
+            </select>
+          </div>
+        )}
+        {!layered && mode === 'target_r' && (
+          <div>
+            <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Target {unitLabel('rValue', units)}</label>
+            <input
+              type="number"
+              value={settings.targetRValue ? toDisplay(settings.targetRValue, 'rValue', units) : ''}
+              onChange={(e) => update({ targetRValue: fromDisplay(parseFloat(e.target.value) || 0, 'rValue', units) })}
+              className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs"
+            />
+          </div>
+        )}
+        <div>
+          <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Climate Zone</label>
+          <select
+            value={settings.climateZone || ''}
+            onChange={(e) => update({ climateZone: (e.target.value || undefined) as ClimateZone | undefined })}
+            className="w-full bg-white border border-slate-200 p-2 rounded-lg font-bold text-xs"
+          >
+            <option value="">None</option>
+            {CLIMATE_ZONES.map(z => <option key={z} value={z}>Zone {z}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Assembly</label>
+          <select
+            value={settings.assembly || ''}
+            onChange={(e) => update({ assembly: (e.target.value || undefined) as InsulationAssembly | undefined })}
+            className="w-full bg-white border border-slate-200 p-2 rounded-lg font-bold text-xs"
+          >
+            <option value="">None</option>
+            {Object.values(InsulationAssembly).map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {check && (
+        <div className={`flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest px-2 py-1.5 rounded-lg border ${
+          check.required === undefined
+            ? 'bg-white border-slate-200 text-slate-500'
+            : check.meetsRequirement
+              ? 'bg-emerald-50 border-emerald-100 text-emerald-600'
+              : 'bg-red-50 border-red-100 text-red-600'
+        }`}>
+          {check.required !== undefined && !check.meetsRequirement ? <AlertTriangle className="w-3 h-3" /> : <ShieldCheck className="w-3 h-3" />}
+          {formatQuantity(check.achieved, 'rValue', units, 2)}
+          {check.required !== undefined && (
+            <span>{check.meetsRequirement ? ' meets ' : ' below '}{formatQuantity(check.required, 'rValue', units, 2)} ({check.requiredSource})</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
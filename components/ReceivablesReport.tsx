@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Wallet, Mail, Download, ChevronDown, ChevronRight, Loader2, Send } from 'lucide-react';
+import { EstimateRecord, ReceivablesSettings, ReminderEmail } from '../types';
+import { AGING_BUCKET_LABELS, AGING_BUCKETS, localToday, summarizeAging } from '../utils/receivables';
+import { getReminderEmails, runReminders } from '../services/receivablesService';
+
+interface ReceivablesReportProps {
+  estimates: EstimateRecord[];
+  settings: ReceivablesSettings;
+  onViewInvoice?: (record: EstimateRecord) => void;
+  onDownloadStatement?: (customerId: string) => void;
+}
+
+const formatMoney = (val: number) => `$${val.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const REMINDER_STATUS_STYLES: Record<ReminderEmail['status'], string> = {
+  queued: 'bg-amber-100 text-amber-700',
+  sent: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+/** Open invoice balances per customer by age, and the overdue reminders sent for them. */
+export const ReceivablesReport: React.FC<ReceivablesReportProps> = ({ estimates, settings, onViewInvoice, onDownloadStatement }) => {
+  const asOf = localToday();
+  const rows = useMemo(() => summarizeAging(estimates, asOf, settings.lateFee), [estimates, asOf, settings.lateFee]);
+  const showLateFees = settings.lateFee.enabled;
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const [reminders, setReminders] = useState<ReminderEmail[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runResult, setRunResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    getReminderEmails().then(setReminders);
+  }, []);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    const result = await runReminders();
+    setIsRunning(false);
+    setRunResult(result ? `${result.queued} queued, ${result.sent} sent` : 'Could not reach the server');
+    if (result) setReminders(await getReminderEmails());
+  };
+
+  const totals = rows.reduce((acc, r) => {
+    AGING_BUCKETS.forEach(b => { acc.buckets[b] += r.buckets[b]; });
+    acc.balance += r.balance;
+    acc.lateFees += r.lateFees;
+    return acc;
+  }, { buckets: { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 } as Record<string, number>, balance: 0, lateFees: 0 });
+
+  const invoiceLabel = (record: EstimateRecord) => record.invoiceNumber || record.id.substring(0, 8).toUpperCase();
+  const estimatesById = useMemo(() => new Map(estimates.map(e => [e.id, e])), [estimates]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 md:p-6 border-b border-slate-100 flex items-center justify-between gap-3">
+          <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+            <Wallet className="w-4 h-4 text-brand" /> Accounts Receivable
+          </h3>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">As of {asOf}</span>
+        </div>
+        {rows.length === 0 ? (
+          <p className="p-6 text-xs text-slate-400 font-medium">No open invoices.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <tr>
+                  <th className="px-4 md:px-6 py-3">Customer</th>
+                  {AGING_BUCKETS.map(b => <th key={b} className="px-4 py-3 text-right">{AGING_BUCKET_LABELS[b]}</th>)}
+                  <th className="px-4 py-3 text-right">Balance</th>
+                  {showLateFees && <th className="px-4 py-3 text-right">Late Fees</th>}
+                  <th className="px-4 md:px-6 py-3 text-right"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 font-bold text-slate-700">
+                {rows.map(row => (
+                  <React.Fragment key={row.customerId}>
+                    <tr className="hover:bg-slate-50 cursor-pointer" onClick={() => setExpanded(expanded === row.customerId ? null : row.customerId)}>
+                      <td className="px-4 md:px-6 py-3">
+                        <span className="flex items-center gap-1">
+                          {expanded === row.customerId ? <ChevronDown className="w-3 h-3 text-slate-400" /> : <ChevronRight className="w-3 h-3 text-slate-400" />}
+                          {row.customerName}
+                          <span className="text-slate-400 font-medium"> · {row.invoices.length}</span>
+                        </span>
+                      </td>
+                      {AGING_BUCKETS.map(b => (
+                        <td key={b} className={`px-4 py-3 text-right ${row.buckets[b] > 0 && b !== '0-30' ? 'text-red-600' : ''}`}>
+                          {row.buckets[b] > 0 ? formatMoney(row.buckets[b]) : '—'}
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-right text-slate-900">{formatMoney(row.balance)}</td>
+                      {showLateFees && <td className="px-4 py-3 text-right">{row.lateFees > 0 ? formatMoney(row.lateFees) : '—'}</td>}
+                      <td className="px-4 md:px-6 py-3 text-right">
+                        {onDownloadStatement && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onDownloadStatement(row.customerId); }}
+                            title="Download statement"
+                            className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                          >
+                            <Download className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded === row.customerId && row.invoices.map(inv => (
+                      <tr key={inv.record.id} className="bg-slate-50/60 text-[11px] font-medium text-slate-500">
+                        <td className="pl-10 pr-4 py-2">
+                          <button
+                            onClick={() => onViewInvoice?.(inv.record)}
+                            className="font-bold text-blue-600 hover:underline"
+                          >
+                            #{invoiceLabel(inv.record)}
+                          </button>
+                          <span> · due {inv.dueDate}</span>
+                        </td>
+                        {AGING_BUCKETS.map(b => (
+                          <td key={b} className="px-4 py-2 text-right">{inv.bucket === b ? formatMoney(inv.balance) : ''}</td>
+                        ))}
+                        <td className="px-4 py-2 text-right">{inv.daysOverdue > 0 ? `${inv.daysOverdue}d late` : 'Current'}</td>
+                        {showLateFees && <td className="px-4 py-2 text-right">{inv.lateFee > 0 ? formatMoney(inv.lateFee) : ''}</td>}
+                        <td className="px-4 md:px-6 py-2"></td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+              <tfoot className="bg-slate-50 font-black text-slate-900">
+                <tr>
+                  <td className="px-4 md:px-6 py-3 uppercase text-[10px] tracking-widest">Total</td>
+                  {AGING_BUCKETS.map(b => <td key={b} className="px-4 py-3 text-right">{formatMoney(totals.buckets[b])}</td>)}
+                  <td className="px-4 py-3 text-right">{formatMoney(totals.balance)}</td>
+                  {showLateFees && <td className="px-4 py-3 text-right">{formatMoney(totals.lateFees)}</td>}
+                  <td className="px-4 md:px-6 py-3"></td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 md:p-6 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <div>
+            <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+              <Mail className="w-4 h-4 text-brand" /> Overdue Reminders
+            </h3>
+            <p className="text-[11px] text-slate-400 font-medium mt-1">
+              {settings.remindersEnabled ? 'Sent automatically every hour. Edit the schedule in Settings.' : 'Reminders are off. Turn them on in Settings.'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {runResult && <span className="text-[11px] font-bold text-slate-500">{runResult}</span>}
+            <button
+              onClick={handleRun}
+              disabled={isRunning || !settings.remindersEnabled}
+              className="px-4 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg text-[10px] font-black uppercase tracking-widest flex items-center gap-2 disabled:opacity-50"
+            >
+              {isRunning ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />} Send Due Reminders Now
+            </button>
+          </div>
+        </div>
+        {reminders.length === 0 ? (
+          <p className="p-6 text-xs text-slate-400 font-medium">No reminders sent yet.</p>
+        ) : (
+          <div className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+            {reminders.map(email => {
+              const record = email.estimateId ? estimatesById.get(email.estimateId) : undefined;
+              return (
+                <div key={email.id} className="px-4 md:px-6 py-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-xs font-bold text-slate-800 truncate">{email.subject}</div>
+                    <p className="text-[11px] text-slate-500 font-medium truncate">
+                      {email.to}{record ? ` · ${record.customer?.name} #${invoiceLabel(record)}` : ''} · {new Date(email.sentAt || email.createdAt).toLocaleString()}
+                      {email.status === 'failed' && email.lastError ? ` · ${email.lastError}` : ''}
+                    </p>
+                  </div>
+                  <span className={`shrink-0 px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-widest ${REMINDER_STATUS_STYLES[email.status]}`}>
+                    {email.status}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
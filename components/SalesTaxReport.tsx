@@ -0,0 +1,87 @@
+
+import React, { useMemo, useState } from 'react';
+import { Receipt } from 'lucide-react';
+import { EstimateRecord } from '../types';
+import { summarizeSalesTax } from '../utils/salesTax';
+
+interface SalesTaxReportProps {
+  estimates: EstimateRecord[];
+}
+
+const formatMoney = (val: number) => `$${val.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Defaults to last calendar month, the usual filing period
+const lastMonthRange = () => {
+  const now = new Date();
+  const from = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  const to = new Date(now.getFullYear(), now.getMonth(), 0);
+  const iso = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  return { from: iso(from), to: iso(to) };
+};
+
+/** Sales tax collected per jurisdiction on jobs invoiced in a date range. */
+export const SalesTaxReport: React.FC<SalesTaxReportProps> = ({ estimates }) => {
+  const [range, setRange] = useState(lastMonthRange);
+  const rows = useMemo(() => summarizeSalesTax(estimates, range.from, range.to), [estimates, range]);
+
+  const totals = rows.reduce((acc, r) => ({
+    grossSales: acc.grossSales + r.grossSales,
+    taxableSales: acc.taxableSales + r.taxableSales,
+    taxCollected: acc.taxCollected + r.taxCollected,
+  }), { grossSales: 0, taxableSales: 0, taxCollected: 0 });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 md:p-6 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <Receipt className="w-4 h-4 text-brand" /> Sales Tax
+        </h3>
+        <div className="flex items-center gap-2 text-xs font-bold text-slate-500">
+          <input type="date" value={range.from} onChange={(e) => setRange({ ...range, from: e.target.value })} className="p-2 bg-slate-50 border border-slate-200 rounded-lg" />
+          <span>to</span>
+          <input type="date" value={range.to} onChange={(e) => setRange({ ...range, to: e.target.value })} className="p-2 bg-slate-50 border border-slate-200 rounded-lg" />
+        </div>
+      </div>
+      {rows.length === 0 ? (
+        <p className="p-6 text-xs text-slate-400 font-medium">No invoiced jobs in this period.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <tr>
+                <th className="px-4 md:px-6 py-3">Jurisdiction</th>
+                <th className="px-4 py-3 text-right">Jobs</th>
+                <th className="px-4 py-3 text-right">Gross Sales</th>
+                <th className="px-4 py-3 text-right">Taxable Sales</th>
+                <th className="px-4 md:px-6 py-3 text-right">Tax Collected</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 font-bold text-slate-700">
+              {rows.map(row => (
+                <tr key={row.jurisdictionId || 'exempt'}>
+                  <td className="px-4 md:px-6 py-3">
+                    {row.jurisdictionName}
+                    {row.jurisdictionId && <span className="text-slate-400 font-medium"> · {row.rate}%</span>}
+                  </td>
+                  <td className="px-4 py-3 text-right">{row.jobCount}</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(row.grossSales)}</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(row.taxableSales)}</td>
+                  <td className="px-4 md:px-6 py-3 text-right">{formatMoney(row.taxCollected)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-slate-50 font-black text-slate-900">
+              <tr>
+                <td className="px-4 md:px-6 py-3 uppercase text-[10px] tracking-widest">Total</td>
+                <td className="px-4 py-3 text-right">{rows.reduce((sum, r) => sum + r.jobCount, 0)}</td>
+                <td className="px-4 py-3 text-right">{formatMoney(totals.grossSales)}</td>
+                <td className="px-4 py-3 text-right">{formatMoney(totals.taxableSales)}</td>
+                <td className="px-4 md:px-6 py-3 text-right">{formatMoney(totals.taxCollected)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
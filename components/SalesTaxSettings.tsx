@@ -0,0 +1,123 @@
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CalculatorState, TaxJurisdiction } from '../types';
+
+interface SalesTaxSettingsProps {
+  state: CalculatorState;
+  onUpdateState: (newState: Partial<CalculatorState>) => void;
+}
+
+/**
+ * Settings section for the org's sales tax jurisdictions. Saved with the other
+ * org settings; jobs pick one (or the default) in the calculator.
+ */
+export const SalesTaxSettings: React.FC<SalesTaxSettingsProps> = ({ state, onUpdateState }) => {
+  const jurisdictions = state.taxJurisdictions || [];
+
+  const setJurisdictions = (next: TaxJurisdiction[], defaultId = state.defaultTaxJurisdictionId) =>
+    onUpdateState({ taxJurisdictions: next, defaultTaxJurisdictionId: defaultId });
+
+  const addJurisdiction = () => {
+    const added: TaxJurisdiction = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: jurisdictions.length === 0 ? 'State' : `Jurisdiction ${jurisdictions.length + 1}`,
+      rate: 0,
+      taxMaterials: true,
+      taxLabor: false,
+    };
+    // The first one becomes the default so new jobs are taxed without an extra step
+    setJurisdictions([...jurisdictions, added], state.defaultTaxJurisdictionId || added.id);
+  };
+
+  const updateJurisdiction = (id: string, updates: Partial<TaxJurisdiction>) => {
+    setJurisdictions(jurisdictions.map(j => j.id === id ? { ...j, ...updates } : j));
+  };
+
+  const removeJurisdiction = (jurisdiction: TaxJurisdiction) => {
+    if (!window.confirm(`Remove ${jurisdiction.name}? Jobs already saved keep the tax they were billed.`)) return;
+    setJurisdictions(
+      jurisdictions.filter(j => j.id !== jurisdiction.id),
+      state.defaultTaxJurisdictionId === jurisdiction.id ? undefined : state.defaultTaxJurisdictionId
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-end border-b border-slate-100 pb-3">
+        <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em]">Sales Tax</h3>
+        <button onClick={addJurisdiction} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-2 py-1 rounded-lg transition-colors flex items-center gap-1">
+          <Plus className="w-3 h-3" /> Jurisdiction
+        </button>
+      </div>
+
+      {jurisdictions.length === 0 ? (
+        <p className="text-xs text-slate-400 font-medium">
+          No jurisdictions yet. Estimates and invoices are untaxed until you add one.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-3">
+            {jurisdictions.map(jurisdiction => (
+              <div key={jurisdiction.id} className="p-3 rounded-xl border bg-slate-50 border-slate-200 grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+                <div className="col-span-2 md:col-span-4">
+                  <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Jurisdiction</label>
+                  <input
+                    type="text"
+                    value={jurisdiction.name}
+                    onChange={(e) => updateJurisdiction(jurisdiction.id, { name: e.target.value })}
+                    className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="text-[9px] font-bold text-slate-400 uppercase block mb-1">Rate %</label>
+                  <input
+                    type="number"
+                    step="0.001"
+                    value={jurisdiction.rate}
+                    onChange={(e) => updateJurisdiction(jurisdiction.id, { rate: parseFloat(e.target.value) || 0 })}
+                    className="w-full p-2 bg-white border border-slate-200 rounded-lg font-bold text-xs"
+                  />
+                </div>
+                <label className="md:col-span-2 flex items-center gap-2 pb-2 text-[10px] font-black text-slate-500 uppercase">
+                  <input
+                    type="checkbox"
+                    checked={jurisdiction.taxMaterials}
+                    onChange={(e) => updateJurisdiction(jurisdiction.id, { taxMaterials: e.target.checked })}
+                    className="w-4 h-4 accent-brand"
+                  />
+                  Materials
+                </label>
+                <label className="md:col-span-2 flex items-center gap-2 pb-2 text-[10px] font-black text-slate-500 uppercase">
+                  <input
+                    type="checkbox"
+                    checked={jurisdiction.taxLabor}
+                    onChange={(e) => updateJurisdiction(jurisdiction.id, { taxLabor: e.target.checked })}
+                    className="w-4 h-4 accent-brand"
+                  />
+                  Labor
+                </label>
+                <div className="md:col-span-2 flex justify-end">
+                  <button onClick={() => removeJurisdiction(jurisdiction)} className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Default for New Jobs</label>
+            <select
+              value={state.defaultTaxJurisdictionId || ''}
+              onChange={(e) => onUpdateState({ defaultTaxJurisdictionId: e.target.value || undefined })}
+              className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none"
+            >
+              <option value="">Untaxed</option>
+              {jurisdictions.map(j => <option key={j.id} value={j.id}>{j.name} ({j.rate}%)</option>)}
+            </select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
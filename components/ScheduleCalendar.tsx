@@ -0,0 +1,330 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, AlertTriangle, Wrench, Users, ExternalLink, X, Inbox } from 'lucide-react';
+import { CalculatorState, Crew, EstimateRecord } from '../types';
+import { getProductionRates } from '../utils/laborEstimate';
+import { localToday } from '../utils/receivables';
+import { addDays, buildSchedule, CrewRigs, estimateJobDays, isSchedulable, ScheduledJob, weekdayOf } from '../utils/schedule';
+import { JobScheduleUpdate } from '../services/scheduleService';
+import { FeedbackButton } from './FeedbackButton';
+
+interface ScheduleCalendarProps {
+  state: CalculatorState;
+  onScheduleJob: (record: EstimateRecord, updates: JobScheduleUpdate) => Promise<boolean>;
+  onOpenJob: (record: EstimateRecord) => void;
+}
+
+type CalendarMode = 'week' | 'day';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatDay = (date: string) => {
+  const [, m, d] = date.split('-').map(Number);
+  return `${WEEKDAYS[weekdayOf(date)]} ${m}/${d}`;
+};
+
+const jobLabel = (record: EstimateRecord) =>
+  record.customer?.name || record.workOrderNumber || `Job #${record.id.slice(0, 6)}`;
+
+/**
+ * Work orders by crew and day. Jobs are dragged onto a crew's day to book
+ * them, or back to the tray to take them off the calendar; a crew booked
+ * past the org's day length, or a rig on two jobs at once, is flagged.
+ */
+export const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({ state, onScheduleJob, onOpenJob }) => {
+  const [mode, setMode] = useState<CalendarMode>('week');
+  const [anchor, setAnchor] = useState(localToday());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const rates = useMemo(() => getProductionRates(state.productionRates), [state.productionRates]);
+  const settings = state.scheduling;
+
+  // Weeks start on Monday
+  const from = mode === 'week' ? addDays(anchor, -((weekdayOf(anchor) + 6) % 7)) : anchor;
+  const days = useMemo(
+    () => Array.from({ length: mode === 'week' ? 7 : 1 }, (_, i) => addDays(from, i)),
+    [from, mode],
+  );
+  const to = days[days.length - 1];
+
+  const crews = state.crews || [];
+  const crewRigs = useMemo(() => {
+    const rigs: CrewRigs = {};
+    crews.forEach(crew => {
+      const rig = crew.rigId ? state.equipment.find(item => item.id === crew.rigId) : undefined;
+      if (rig) rigs[crew.id] = rig;
+    });
+    return rigs;
+  }, [crews, state.equipment]);
+
+  const workOrders = useMemo(() => state.savedEstimates.filter(isSchedulable), [state.savedEstimates]);
+  const schedule = useMemo(
+    () => buildSchedule(workOrders, from, to, rates, settings, crewRigs),
+    [workOrders, from, to, rates, settings, crewRigs],
+  );
+  const unscheduled = workOrders.filter(record => !record.scheduledDate);
+
+  // Unassigned first, then the org's crews by id
+  const lanes = ['', ...crews.map(c => c.id)];
+  const crewName = (id?: string) => crews.find(c => c.id === id)?.name || 'Unassigned';
+
+  const jobsIn = (crew: string, date: string) =>
+    schedule.jobs.filter(job => job.crew === crew && job.dates.includes(date));
+  const overCapacity = (crew: string, date: string) =>
+    schedule.conflicts.find(c => c.kind === 'crew_capacity' && c.crew === crew && c.date === date);
+  const equipmentClash = (job: ScheduledJob, date: string) =>
+    schedule.conflicts.filter(c => c.kind === 'equipment' && c.date === date && c.estimateIds.includes(job.record.id));
+
+  const selected = workOrders.find(r => r.id === selectedId) || null;
+
+  const move = (amount: number) => setAnchor(addDays(anchor, amount * (mode === 'week' ? 7 : 1)));
+
+  const handleDrop = (e: React.DragEvent, updates: JobScheduleUpdate) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const record = workOrders.find(r => r.id === e.dataTransfer.getData('text/plain'));
+    if (record) onScheduleJob(record, updates);
+  };
+
+  const dropProps = (key: string, updates: JobScheduleUpdate) => ({
+    onDragOver: (e: React.DragEvent) => { e.preventDefault(); setDropTarget(key); },
+    onDragLeave: () => setDropTarget(current => (current === key ? null : current)),
+    onDrop: (e: React.DragEvent) => handleDrop(e, updates),
+  });
+
+  const renderChip = (record: EstimateRecord, job?: ScheduledJob, date?: string) => {
+    const clashes = job && date ? equipmentClash(job, date) : [];
+    return (
+      <div
+        key={record.id}
+        draggable
+        onDragStart={(e) => { e.dataTransfer.setData('text/plain', record.id); e.dataTransfer.effectAllowed = 'move'; }}
+        onClick={() => setSelectedId(record.id)}
+        className={`cursor-grab active:cursor-grabbing rounded-xl px-3 py-2 text-left border text-xs transition-colors ${
+          selectedId === record.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-800 border-slate-200 hover:border-brand'
+        } ${clashes.length > 0 ? 'ring-2 ring-amber-400' : ''}`}
+        title={clashes.length > 0 ? `Also booked: ${clashes.map(c => c.equipment?.name).join(', ')}` : undefined}
+      >
+        <div className="font-bold truncate flex items-center gap-1">
+          {clashes.length > 0 && <Wrench className="w-3 h-3 text-amber-500 shrink-0" />}
+          {jobLabel(record)}
+        </div>
+        <div className={`text-[10px] font-medium ${selectedId === record.id ? 'text-slate-300' : 'text-slate-400'}`}>
+          {record.workOrderNumber && <span>{record.workOrderNumber} · </span>}
+          {job ? `${job.crewHoursPerDay} crew-hrs/day` : `${estimateJobDays(record, rates, settings)} day est.`}
+          {record.executionStatus !== 'Not Started' && <span> · {record.executionStatus}</span>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in zoom-in duration-200 pb-20">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div>
+            <h1 className="text-2xl font-black text-slate-900 uppercase tracking-tight flex items-center gap-2">
+              <CalendarDays className="w-6 h-6 text-brand" /> Schedule
+            </h1>
+            <p className="text-slate-500 text-sm font-medium">
+              Drag work orders onto a crew's day. {settings.hoursPerDay} crew-hours per day.
+            </p>
+          </div>
+          <FeedbackButton area="Schedule" />
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {(['day', 'week'] as CalendarMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest ${mode === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          <button onClick={() => move(-1)} className="p-2 hover:bg-slate-200 rounded-xl"><ChevronLeft className="w-5 h-5 text-slate-500" /></button>
+          <button onClick={() => setAnchor(localToday())} className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-50">Today</button>
+          <button onClick={() => move(1)} className="p-2 hover:bg-slate-200 rounded-xl"><ChevronRight className="w-5 h-5 text-slate-500" /></button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-x-auto">
+        <table className="w-full border-collapse min-w-[720px]">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-100">
+              <th className="p-4 text-left text-[10px] font-black uppercase tracking-widest text-slate-400 w-36">Crew</th>
+              {days.map(date => (
+                <th
+                  key={date}
+                  className={`p-4 text-left text-[10px] font-black uppercase tracking-widest ${date === localToday() ? 'text-brand' : 'text-slate-400'} ${settings.workDays.includes(weekdayOf(date)) ? '' : 'bg-slate-100'}`}
+                >
+                  {formatDay(date)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {lanes.map(crew => (
+              <tr key={crew || 'unassigned'}>
+                <td className="p-4 align-top">
+                  <div className="flex items-center gap-2 text-sm font-bold text-slate-700">
+                    <Users className="w-4 h-4 text-slate-400" /> {crew ? crewName(crew) : <span className="italic text-slate-400">Unassigned</span>}
+                  </div>
+                </td>
+                {days.map(date => {
+                  const key = `${crew}|${date}`;
+                  const capacity = crew ? overCapacity(crew, date) : undefined;
+                  return (
+                    <td
+                      key={date}
+                      {...dropProps(key, { scheduledDate: date, crewId: crew || null })}
+                      className={`p-2 align-top border-l border-slate-100 min-h-[80px] ${
+                        capacity ? 'bg-red-50' : settings.workDays.includes(weekdayOf(date)) ? '' : 'bg-slate-50'
+                      } ${dropTarget === key ? 'bg-brand/10' : ''}`}
+                    >
+                      <div className="space-y-2 min-h-[64px]">
+                        {capacity && (
+                          <div className="text-[10px] font-black uppercase tracking-widest text-red-500 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" /> {capacity.crewHours} / {settings.hoursPerDay} hrs
+                          </div>
+                        )}
+                        {jobsIn(crew, date).map(job => renderChip(job.record, job, date))}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div
+          {...dropProps('tray', { scheduledDate: null })}
+          className={`bg-white rounded-3xl shadow-sm border border-slate-200 p-6 ${dropTarget === 'tray' ? 'ring-2 ring-brand' : ''}`}
+        >
+          <h2 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-4 flex items-center gap-2">
+            <Inbox className="w-4 h-4" /> Unscheduled Work Orders ({unscheduled.length})
+          </h2>
+          {unscheduled.length === 0 ? (
+            <p className="text-sm italic text-slate-400">Every work order is on the calendar. Drop a job here to unschedule it.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {unscheduled.map(record => renderChip(record))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-3xl shadow-sm border border-slate-200 p-6">
+          <h2 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-4 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" /> Conflicts ({schedule.conflicts.length})
+          </h2>
+          {schedule.conflicts.length === 0 ? (
+            <p className="text-sm italic text-slate-400">No crew or equipment conflicts in this range.</p>
+          ) : (
+            <ul className="space-y-2">
+              {schedule.conflicts.map(conflict => (
+                <li key={`${conflict.kind}-${conflict.date}-${conflict.crew || conflict.equipment?.id}`} className="text-sm text-slate-700 flex items-start gap-2">
+                  {conflict.kind === 'crew_capacity'
+                    ? <Users className="w-4 h-4 text-red-500 mt-0.5 shrink-0" />
+                    : <Wrench className="w-4 h-4 text-amber-500 mt-0.5 shrink-0" />}
+                  <span>
+                    <span className="font-bold">{formatDay(conflict.date)}</span>{' '}
+                    {conflict.kind === 'crew_capacity'
+                      ? `${crewName(conflict.crew)} is booked for ${conflict.crewHours} crew-hours`
+                      : `${conflict.equipment?.name} is on ${conflict.estimateIds.length} jobs`}
+                    {': '}
+                    {conflict.estimateIds.map(id => workOrders.find(r => r.id === id)).filter(Boolean).map(r => jobLabel(r!)).join(', ')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {selected && (
+        <JobScheduleEditor
+          key={selected.id}
+          record={selected}
+          crews={crews}
+          estimatedDays={estimateJobDays(selected, rates, settings)}
+          onSave={(updates) => onScheduleJob(selected, updates)}
+          onOpen={() => onOpenJob(selected)}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface JobScheduleEditorProps {
+  record: EstimateRecord;
+  crews: Crew[];
+  estimatedDays: number;
+  onSave: (updates: JobScheduleUpdate) => Promise<boolean>;
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+const JobScheduleEditor: React.FC<JobScheduleEditorProps> = ({ record, crews, estimatedDays, onSave, onOpen, onClose }) => {
+  const [date, setDate] = useState(record.scheduledDate?.slice(0, 10) || '');
+  const [days, setDays] = useState(record.scheduledDays ? String(record.scheduledDays) : '');
+  const [crewId, setCrewId] = useState(record.crewId || '');
+
+  const save = async () => {
+    const saved = await onSave({
+      scheduledDate: date || null,
+      scheduledDays: parseInt(days) || null,
+      crewId: crewId || null,
+    });
+    if (saved) onClose();
+  };
+
+  const inputClass = 'w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-xl p-3 font-bold outline-none focus:ring-2 focus:ring-brand';
+
+  return (
+    <div className="bg-white rounded-3xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-black text-slate-900 uppercase tracking-tight">{jobLabel(record)}</h2>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full"><X className="w-4 h-4 text-slate-400" /></button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 ml-1">Start</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 ml-1">Days</label>
+          <input
+            type="number"
+            min={1}
+            max={60}
+            value={days}
+            placeholder={`${estimatedDays} (from job hours)`}
+            onChange={(e) => setDays(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 ml-1">Crew</label>
+          <select value={crewId} onChange={(e) => setCrewId(e.target.value)} className={inputClass}>
+            <option value="">Unassigned</option>
+            {crews.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2 justify-end">
+        <button onClick={onOpen} className="px-4 py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl font-black uppercase text-[10px] tracking-widest flex items-center gap-2">
+          <ExternalLink className="w-4 h-4" /> Open Job
+        </button>
+        <button onClick={save} className="px-4 py-3 bg-slate-900 hover:bg-slate-800 text-white rounded-xl font-black uppercase text-[10px] tracking-widest">
+          Save Schedule
+        </button>
+      </div>
+    </div>
+  );
+};
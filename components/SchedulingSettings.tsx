@@ -0,0 +1,69 @@
+import React from 'react';
+import { CalculatorState } from '../types';
+import { getSchedulingSettings } from '../utils/schedule';
+
+interface SchedulingSettingsProps {
+  state: CalculatorState;
+  onUpdateState: (newState: Partial<CalculatorState>) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const labelClass = 'block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1';
+const inputClass = 'w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none';
+
+/**
+ * Settings section for the schedule: how many crew-hours a crew works in a
+ * day, and which days of the week jobs run on.
+ */
+export const SchedulingSettings: React.FC<SchedulingSettingsProps> = ({ state, onUpdateState }) => {
+  const settings = getSchedulingSettings(state.scheduling);
+
+  const toggleDay = (day: number) => {
+    const workDays = settings.workDays.includes(day)
+      ? settings.workDays.filter(d => d !== day)
+      : [...settings.workDays, day].sort();
+    // At least one day has to stay on
+    if (workDays.length > 0) onUpdateState({ scheduling: { ...settings, workDays } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em] border-b border-slate-100 pb-3">Scheduling</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-6">
+        <div>
+          <label className={labelClass}>Crew-Hours per Day</label>
+          <input
+            type="number"
+            min="1"
+            max="24"
+            step="0.5"
+            value={settings.hoursPerDay}
+            onChange={(e) => onUpdateState({ scheduling: { ...settings, hoursPerDay: Math.min(24, Math.max(1, parseFloat(e.target.value) || 1)) } })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Work Days</label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map((label, day) => (
+              <button
+                key={label}
+                onClick={() => toggleDay(day)}
+                className={`px-4 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border ${
+                  settings.workDays.includes(day) ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-400 border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-slate-400 font-medium ml-1">
+        Jobs without a set length are booked for their man-hours at this day length, and skip days off.
+      </p>
+    </div>
+  );
+};
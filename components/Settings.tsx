@@ -1,9 +1,21 @@
 
 import React from 'react';
 import { Save, Loader2, ArrowRight } from 'lucide-react';
-import { CalculatorState } from '../types';
+import { CalculatorState, ProductionRates, UnitSystem } from '../types';
+import { DEFAULT_R_PER_INCH } from '../utils/calculatorHelpers';
 import { ReplayWalkthroughButton } from './Walkthrough';
 import { FeedbackButton } from './FeedbackButton';
+import { FoamProductCatalog } from './FoamProductCatalog';
+import { SalesTaxSettings } from './SalesTaxSettings';
+import { DocumentNumberingSettings } from './DocumentNumberingSettings';
+import { CollectionsSettings } from './CollectionsSettings';
+import { SchedulingSettings } from './SchedulingSettings';
+import { PayrollSettings } from './PayrollSettings';
+import { CrewManager } from './CrewManager';
+import { DerateCurveEditor } from './DerateCurveEditor';
+import { DEFAULT_DERATE_CURVE } from '../utils/yieldDerate';
+import { UnitKind, fromDisplay, isMetric, toDisplay, unitLabel } from '../utils/units';
+import { calibrateProductionRates, getProductionRates } from '../utils/laborEstimate';
 
 interface SettingsProps {
   state: CalculatorState;
@@ -12,21 +24,31 @@ interface SettingsProps {
   syncStatus: string;
   onNext?: () => void; // Optional callback for onboarding flow
   username?: string; 
+  onNotify?: (notification: { type: 'success' | 'error'; message: string }) => void;
 }
 
-export const Settings: React.FC<SettingsProps> = ({ state, onUpdateState, onManualSync, syncStatus, onNext }) => {
+export const Settings: React.FC<SettingsProps> = ({ state, onUpdateState, onManualSync, syncStatus, onNext, onNotify }) => {
   
   const handleSave = () => {
      onManualSync();
      if (onNext) onNext();
   };
 
+  // Yields and R-values are stored imperial; shown in the org's chosen system
+  const units = state.unitSystem;
+  const shown = (value: number, kind: UnitKind) => toDisplay(value, kind, units);
+  const typed = (value: string, kind: UnitKind) => fromDisplay(parseFloat(value), kind, units);
+
+  const rates = getProductionRates(state.productionRates);
+  const calibration = calibrateProductionRates(state.savedEstimates || [], rates);
+  const updateRates = (updates: Partial<ProductionRates>) => onUpdateState({ productionRates: { ...rates, ...updates } });
+
   return (
      <div className="max-w-2xl mx-auto space-y-6 animate-in fade-in zoom-in duration-200">
          <div className="flex justify-between items-end mb-2">
              <div>
                 <h2 className="text-2xl font-black text-slate-900 uppercase tracking-tight">System Settings</h2>
-                <p className="text-slate-500 font-medium text-sm">Configure material yields, stroke counts, and baseline costs.</p>
+                <p className="text-slate-500 font-medium text-sm">Configure material yields, stroke counts, R-values, baseline costs, and your foam product catalog.</p>
              </div>
              <div className="flex items-center gap-3">
                  <FeedbackButton area="Settings" />
@@ -40,13 +62,24 @@ export const Settings: React.FC<SettingsProps> = ({ state, onUpdateState, onManu
                 Looking for Crew Login? Go to the <strong>Profile</strong> tab to manage Company ID and PIN.
              </div>
 
+             <div className="space-y-4">
+                <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em] border-b border-slate-100 pb-3">Units</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+                    <select value={units} onChange={(e) => onUpdateState({ unitSystem: e.target.value as UnitSystem })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none">
+                        <option value="imperial">Imperial (ft, sqft, bdft, in, °F)</option>
+                        <option value="metric">Metric (m, m², m³, mm, °C)</option>
+                    </select>
+                    <p className="text-xs text-slate-500 font-medium">Applies to the calculator, estimates, PDFs, material reports and the crew dashboard.</p>
+                </div>
+             </div>
+
              <div className="space-y-6">
                 <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em] border-b border-slate-100 pb-3">Material Yields & Strokes</h3>
                 
                 {/* Yields */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Open Cell Yield (bdft)</label> <input type="number" value={state.yields.openCell} onChange={(e) => onUpdateState({ yields: { ...state.yields, openCell: parseFloat(e.target.value) } })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" /> </div>
-                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Closed Cell Yield (bdft)</label> <input type="number" value={state.yields.closedCell} onChange={(e) => onUpdateState({ yields: { ...state.yields, closedCell: parseFloat(e.target.value) } })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" /> </div>
+                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Open Cell Yield ({unitLabel('volume', units)})</label> <input type="number" value={shown(state.yields.openCell, 'yield')} onChange={(e) => onUpdateState({ yields: { ...state.yields, openCell: typed(e.target.value, 'yield') } })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" /> </div>
+                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Closed Cell Yield ({unitLabel('volume', units)})</label> <input type="number" value={shown(state.yields.closedCell, 'yield')} onChange={(e) => onUpdateState({ yields: { ...state.yields, closedCell: typed(e.target.value, 'yield') } })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" /> </div>
                 </div>
 
                 {/* Stroke Counts */}
@@ -54,6 +87,18 @@ export const Settings: React.FC<SettingsProps> = ({ state, onUpdateState, onManu
                     <div> <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">OC Strokes per Set</label> <input type="number" value={state.yields.openCellStrokes || 6600} onChange={(e) => onUpdateState({ yields: { ...state.yields, openCellStrokes: parseFloat(e.target.value) } })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none text-slate-600" /> </div>
                     <div> <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">CC Strokes per Set</label> <input type="number" value={state.yields.closedCellStrokes || 6600} onChange={(e) => onUpdateState({ yields: { ...state.yields, closedCellStrokes: parseFloat(e.target.value) } })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none text-slate-600" /> </div>
                 </div>
+
+                {/* R-Value per Inch (used for Target R / code sizing) */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-2">
+                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">OC {isMetric(units) ? 'RSI per 25mm' : 'R-Value per Inch'}</label> <input type="number" step={isMetric(units) ? '0.01' : '0.1'} value={shown(state.yields.openCellRPerInch || DEFAULT_R_PER_INCH.openCell, 'rPerDepth')} onChange={(e) => onUpdateState({ yields: { ...state.yields, openCellRPerInch: typed(e.target.value, 'rPerDepth') } })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none text-slate-600" /> </div>
+                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">CC {isMetric(units) ? 'RSI per 25mm' : 'R-Value per Inch'}</label> <input type="number" step={isMetric(units) ? '0.01' : '0.1'} value={shown(state.yields.closedCellRPerInch || DEFAULT_R_PER_INCH.closedCell, 'rPerDepth')} onChange={(e) => onUpdateState({ yields: { ...state.yields, closedCellRPerInch: typed(e.target.value, 'rPerDepth') } })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none text-slate-600" /> </div>
+                </div>
+             </div>
+
+             <div className="space-y-4">
+                <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em] border-b border-slate-100 pb-3">Yield Derate Curve (Job Conditions)</h3>
+                <p className="text-xs text-slate-500 font-medium">Applied when an estimate has job conditions entered. Products without their own curve use this one.</p>
+                <DerateCurveEditor curve={state.yields.derateCurve || DEFAULT_DERATE_CURVE} units={units} onChange={(curve) => onUpdateState({ yields: { ...state.yields, derateCurve: curve } })} />
              </div>
 
              <div className="space-y-6">
@@ -63,6 +108,45 @@ export const Settings: React.FC<SettingsProps> = ({ state, onUpdateState, onManu
                     <div> <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1">Closed Cell Cost/Set</label> <input type="number" value={state.costs.closedCell} onChange={(e) => onUpdateState({ costs: { ...state.costs, closedCell: parseFloat(e.target.value) } })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" /> </div>
                 </div>
              </div>
+
+             <div className="space-y-6">
+                <h3 className="font-black text-slate-900 uppercase text-xs tracking-[0.2em] border-b border-slate-100 pb-3">Production Rates (Labor)</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1">OC {unitLabel('volume', units)}/Crew-Hr</label> <input type="number" value={shown(rates.openCellBdFtPerHour, 'volume')} onChange={(e) => updateRates({ openCellBdFtPerHour: typed(e.target.value, 'volume') || 0 })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" /> </div>
+                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1">CC {unitLabel('volume', units)}/Crew-Hr</label> <input type="number" value={shown(rates.closedCellBdFtPerHour, 'volume')} onChange={(e) => updateRates({ closedCellBdFtPerHour: typed(e.target.value, 'volume') || 0 })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" /> </div>
+                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1">Setup/Teardown Hrs</label> <input type="number" step="0.25" value={rates.setupHours} onChange={(e) => updateRates({ setupHours: parseFloat(e.target.value) || 0 })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" /> </div>
+                    <div> <label className="block text-[10px] font-black text-slate-400 uppercase mb-2 ml-1">Crew Size</label> <input type="number" min="1" value={rates.crewSize} onChange={(e) => updateRates({ crewSize: parseInt(e.target.value) || 1 })} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold focus:ring-brand outline-none" /> </div>
+                </div>
+                <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 text-xs text-slate-500 font-medium flex flex-col md:flex-row md:items-center justify-between gap-3">
+                    {calibration ? (
+                        <>
+                            <span>
+                                From {calibration.jobCount} completed job{calibration.jobCount === 1 ? '' : 's'} with logged labor:{' '}
+                                <strong>OC {Math.round(shown(calibration.rates.openCellBdFtPerHour, 'volume') * 100) / 100}</strong> · <strong>CC {Math.round(shown(calibration.rates.closedCellBdFtPerHour, 'volume') * 100) / 100}</strong> {unitLabel('volume', units)}/crew-hr
+                            </span>
+                            <button onClick={() => updateRates(calibration.rates)} className="text-[10px] bg-slate-900 hover:bg-slate-800 text-white font-black uppercase tracking-widest px-3 py-2 rounded-lg">
+                                Apply Calibration
+                            </button>
+                        </>
+                    ) : (
+                        <span>Rates can be calibrated once crews log labor hours on completed jobs.</span>
+                    )}
+                </div>
+             </div>
+
+             <FoamProductCatalog state={state} onUpdateState={onUpdateState} onNotify={onNotify} />
+
+             <SalesTaxSettings state={state} onUpdateState={onUpdateState} />
+
+             <DocumentNumberingSettings state={state} onUpdateState={onUpdateState} />
+
+             <CollectionsSettings state={state} onUpdateState={onUpdateState} />
+
+             <SchedulingSettings state={state} onUpdateState={onUpdateState} />
+
+             <PayrollSettings state={state} onUpdateState={onUpdateState} />
+
+             <CrewManager state={state} onUpdateState={onUpdateState} onNotify={onNotify} />
              
              <div className="pt-4 border-t border-slate-100 flex justify-end">
                 <button 
@@ -8,14 +8,18 @@ import {
   CalculatorState,
   EquipmentItem,
   InvoiceLineItem,
+  Payment,
 } from '../types';
 import { useCalculator, DEFAULT_STATE } from '../context/CalculatorContext';
 import { useSync } from '../hooks/useSync';
 import { useEstimates } from '../hooks/useEstimates';
 import { calculateResults } from '../utils/calculatorHelpers';
-import { generateDocumentPDF, generateEstimatePDF, generateWorkOrderPDF } from '../utils/pdfGenerator';
+import { acceptEstimateOption } from '../utils/estimateOptions';
+import { generateDocumentPDF, generateEstimatePDF, generateWorkOrderPDF, generateChangeOrderPDF, generateStatementPDF, ReceiptDetail } from '../utils/pdfGenerator';
+import { localToday } from '../utils/receivables';
 import { upsertInventoryItem, upsertEquipment, deleteEquipmentItem, upsertCustomer, deleteInventoryItem, updateCompanyProfile } from '../services/supabaseService';
 import { getCurrentSession, signOut } from '../services/auth';
+import { PaymentInput } from '../services/paymentService';
 import safeStorage from '../utils/safeStorage';
 
 import LoginPage from './LoginPage';
@@ -36,6 +40,8 @@ import { EstimateDetail } from './EstimateDetail';
 import { EquipmentTracker } from './EquipmentTracker';
 import { EquipmentMaintenance } from './EquipmentMaintenance';
 import { CrewMessaging } from './CrewMessaging';
+import { ScheduleCalendar } from './ScheduleCalendar';
+import { Timesheets } from './Timesheets';
 import { WalkthroughProvider, useWalkthrough } from '../context/WalkthroughContext';
 import { WalkthroughOverlay } from './Walkthrough';
 import UserManual from './UserManual';
@@ -44,7 +50,7 @@ const SprayFoamCalculator: React.FC = () => {
   const { state, dispatch } = useCalculator();
   const { appData, ui, session } = state;
   const { handleManualSync, forceRefresh } = useSync(); 
-  const { loadEstimateForEditing, saveEstimate, handleDeleteEstimate, handleMarkPaid, saveCustomer, confirmWorkOrder, createPurchaseOrder } = useEstimates();
+  const { loadEstimateForEditing, saveEstimate, handleDeleteEstimate, handleRecordPayment, handleDeletePayment, handleScheduleJob, handleRestoreRevision, saveChangeOrders, saveCustomer, confirmWorkOrder, createPurchaseOrder } = useEstimates();
 
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
   const [autoTriggerCustomerModal, setAutoTriggerCustomerModal] = useState(false);
@@ -62,9 +68,9 @@ const SprayFoamCalculator: React.FC = () => {
     estimateId: ui.editingEstimateId || undefined,
   });
 
-  const generatePDF = async (type: 'ESTIMATE' | 'INVOICE' | 'RECEIPT', record?: EstimateRecord) => {
+  const generatePDF = async (type: 'ESTIMATE' | 'INVOICE' | 'RECEIPT', record?: EstimateRecord, receipt?: ReceiptDetail) => {
     const rec = record || appData.savedEstimates.find(e => e.id === ui.editingEstimateId);
-    await generateDocumentPDF(appData, rec?.results || results, type, rec, cloudOpts());
+    await generateDocumentPDF(appData, rec?.results || results, type, rec, cloudOpts(), receipt);
   };
 
   // Restore Supabase session on mount
@@ -330,27 +336,29 @@ const SprayFoamCalculator: React.FC = () => {
       }
   };
 
-  const handleSaveAndMarkPaid = async (lines: InvoiceLineItem[]) => {
-      // Pass lines here to ensure they are saved.
+  const handleSaveAndRecordPayment = async (lines: InvoiceLineItem[], input: PaymentInput) => {
       const totalFromLines = lines.reduce((sum, l) => sum + (Number(l.amount) || 0), 0);
 
-      // awaitCloud=true ensures the invoice is persisted in Supabase before
-      // marking paid, preventing the race condition where markEstimatePaid
-      // targets a record that doesn't exist in the DB yet.
+      // awaitCloud=true so the API takes the payment against the invoice as
+      // shown, not against lines it hasn't seen yet.
       const savedRecord = await saveEstimate(results, 'Invoiced', {
           invoiceLines: lines,
           totalValue: totalFromLines
-      }, false, true); // awaitCloud=true
+      }, false, true);
+      if (!savedRecord) return false;
 
-      if (savedRecord) {
-          const targetId = savedRecord.id;
-          await handleMarkPaid(targetId);
-      }
+      const updated = await handleRecordPayment(savedRecord, input);
+      return !!updated;
+  };
+
+  const handleRecordPaymentFor = async (id: string, input: PaymentInput) => {
+    const rec = appData.savedEstimates.find(e => e.id === id);
+    return rec ? !!(await handleRecordPayment(rec, input)) : false;
   };
 
-  // Wrapper for mark paid — just marks paid, no auto-PDF
-  const handleMarkPaidWithPDF = async (id: string) => {
-    await handleMarkPaid(id);
+  const handleDeletePaymentFor = async (id: string, payment: Payment) => {
+    const rec = appData.savedEstimates.find(e => e.id === id);
+    return rec ? handleDeletePayment(rec, payment) : false;
   };
 
   const handleStageWorkOrder = () => {
@@ -524,6 +532,7 @@ const SprayFoamCalculator: React.FC = () => {
             onSync={forceRefresh} 
             installPrompt={deferredPrompt}
             onInstall={handleInstallApp}
+            crew={appData.crews.find(c => c.id === session.crewId)}
           />
       );
   }
@@ -570,7 +579,6 @@ const SprayFoamCalculator: React.FC = () => {
                 onEditEstimate={handleEditFromDashboard}
                 onDeleteEstimate={handleDeleteEstimate}
                 onNewEstimate={() => { resetCalculator(); dispatch({ type: 'SET_VIEW', payload: 'calculator' }); }}
-                onMarkPaid={handleMarkPaidWithPDF}
                 initialFilter={initialDashboardFilter}
                 onGoToWarehouse={() => dispatch({ type: 'SET_VIEW', payload: 'warehouse' })}
                 onViewInvoice={(rec) => {
@@ -579,6 +587,10 @@ const SprayFoamCalculator: React.FC = () => {
                     dispatch({ type: 'SET_VIEW', payload: 'invoice_stage' });
                 }}
                 onDownloadPDF={(rec, type) => generatePDF(type, rec)}
+                onDownloadStatement={(customerId) => {
+                    const customer = appData.customers.find(c => c.id === customerId);
+                    if (customer) generateStatementPDF(appData, customer, localToday(), { orgId: session?.organizationId, customerId });
+                }}
                 onSync={forceRefresh}
                 subscription={state.subscription}
             />
@@ -601,8 +613,8 @@ const SprayFoamCalculator: React.FC = () => {
                 onStageInvoice={handleStageInvoice}
                 onStageEstimate={handleStageEstimate} // Pass new handler
                 onAddNewCustomer={() => { dispatch({ type: 'SET_VIEW', payload: 'customers' }); setAutoTriggerCustomerModal(true); }}
-                onMarkPaid={handleMarkPaidWithPDF}
                 onCreateWarehouseItem={handleCreateWarehouseItem}
+                onNotify={(n) => dispatch({ type: 'SET_NOTIFICATION', payload: n })}
             />
         )}
 
@@ -610,11 +622,34 @@ const SprayFoamCalculator: React.FC = () => {
             <EstimateDetail 
                 record={appData.savedEstimates.find(e => e.id === ui.editingEstimateId) || ({} as EstimateRecord)}
                 results={results} 
+                units={appData.unitSystem}
                 onBack={() => dispatch({ type: 'SET_VIEW', payload: 'dashboard' })}
                 onEdit={() => dispatch({ type: 'SET_VIEW', payload: 'calculator' })}
                 onDownloadPDF={(type) => generatePDF(type)}
+                onDownloadRevisionPDF={(rec, type) => generatePDF(type, rec)}
+                onRestoreRevision={(revision) => {
+                    const rec = appData.savedEstimates.find(e => e.id === ui.editingEstimateId);
+                    return rec ? handleRestoreRevision(rec, revision) : Promise.resolve(null);
+                }}
+                onSaveChangeOrders={(changeOrders) => {
+                    const rec = appData.savedEstimates.find(e => e.id === ui.editingEstimateId);
+                    return rec ? saveChangeOrders(rec, changeOrders) : Promise.resolve(false);
+                }}
+                onDownloadChangeOrderPDF={(changeOrder) => {
+                    const rec = appData.savedEstimates.find(e => e.id === ui.editingEstimateId);
+                    if (rec) generateChangeOrderPDF(appData, rec, changeOrder, cloudOpts());
+                }}
+                onRecordPayment={(input) => handleRecordPaymentFor(ui.editingEstimateId!, input)}
+                onDeletePayment={(payment) => handleDeletePaymentFor(ui.editingEstimateId!, payment)}
+                onDownloadReceipt={(payment) => generatePDF('RECEIPT', undefined, { payment })}
+                onDownloadDepositRequest={(amount, percent) => generatePDF('RECEIPT', undefined, { depositRequest: { amount, percent } })}
                 onSold={handleStageWorkOrder}
                 onInvoice={handleStageInvoice}
+                crews={appData.crews}
+                onAssignCrew={(crewId) => {
+                    const rec = appData.savedEstimates.find(e => e.id === ui.editingEstimateId);
+                    if (rec) handleScheduleJob(rec, { crewId });
+                }}
             />
         )}
 
@@ -625,6 +660,7 @@ const SprayFoamCalculator: React.FC = () => {
                 onUpdateState={handleInputChange}
                 onCancel={() => dispatch({ type: 'SET_VIEW', payload: 'calculator' })}
                 onConfirm={handleConfirmWorkOrder}
+                onAcceptOption={(optionId) => dispatch({ type: 'UPDATE_DATA', payload: acceptEstimateOption(appData, optionId) })}
                 onDownloadPDF={() => {
                   const rec = appData.savedEstimates.find(e => e.id === ui.editingEstimateId);
                   if (rec) generateWorkOrderPDF(appData, rec, cloudOpts());
@@ -641,9 +677,10 @@ const SprayFoamCalculator: React.FC = () => {
                 onUpdateExpense={(field, val) => dispatch({ type: 'UPDATE_DATA', payload: { expenses: { ...appData.expenses, [field]: val } } })}
                 onCancel={() => dispatch({ type: 'SET_VIEW', payload: 'dashboard' })}
                 onConfirm={handleConfirmInvoice}
-                onMarkPaid={handleMarkPaidWithPDF}
-                onSaveAndMarkPaid={handleSaveAndMarkPaid}
+                onRecordPayment={handleSaveAndRecordPayment}
+                onDeletePayment={(payment) => handleDeletePaymentFor(ui.editingEstimateId!, payment)}
                 onDownloadPDF={(type) => generatePDF(type)}
+                onDownloadReceipt={(payment) => generatePDF('RECEIPT', undefined, { payment })}
             />
         )}
 
@@ -743,6 +780,21 @@ const SprayFoamCalculator: React.FC = () => {
             />
         )}
 
+        {ui.view === 'schedule' && (
+            <ScheduleCalendar
+                state={appData}
+                onScheduleJob={handleScheduleJob}
+                onOpenJob={handleEditFromDashboard}
+            />
+        )}
+
+        {ui.view === 'timesheets' && (
+            <Timesheets
+                state={appData}
+                onNotify={(notification) => dispatch({ type: 'SET_NOTIFICATION', payload: notification })}
+            />
+        )}
+
         {ui.view === 'settings' && (
             <Settings 
                 state={appData}
@@ -754,6 +806,7 @@ const SprayFoamCalculator: React.FC = () => {
                    dispatch({ type: 'SET_NOTIFICATION', payload: { type: 'success', message: 'Settings Saved. Now update your inventory.' } });
                 }}
                 username={session?.username}
+                onNotify={(n) => dispatch({ type: 'SET_NOTIFICATION', payload: n })}
             />
         )}
 
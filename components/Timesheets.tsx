@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Timer, ChevronLeft, ChevronRight, ChevronDown, Download, Loader2, Plus, Trash2, CheckCircle2, RotateCcw, RefreshCw } from 'lucide-react';
+import { CalculatorState, EstimateRecord, TimeEntry, TimeEntryKind, TimesheetWeek } from '../types';
+import { localToday } from '../utils/receivables';
+import { addDays } from '../utils/schedule';
+import { buildTimesheets, entryHours, getPayrollSettings, TIME_ENTRY_KINDS, TIME_ENTRY_LABELS, timesheetsToCsv, weekStartFor } from '../utils/timesheets';
+import {
+  createTimeEntry,
+  deleteTimeEntry,
+  getTimeEntries,
+  setTimesheetApproval,
+  TimeEntryInput,
+  updateTimeEntry,
+} from '../services/timeClockService';
+import { FeedbackButton } from './FeedbackButton';
+
+interface TimesheetsProps {
+  state: CalculatorState;
+  onNotify: (notification: { type: 'success' | 'error'; message: string }) => void;
+}
+
+const formatHours = (hours: number) => hours.toFixed(2);
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+const fromLocalInput = (value: string) => new Date(value).toISOString();
+
+const jobLabel = (record?: EstimateRecord) =>
+  record ? record.customer?.name || record.workOrderNumber || `Job #${record.id.slice(0, 6)}` : 'Removed job';
+
+const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Weekly timesheets from the crew time clock. Entries can be corrected or
+ * added until the week is approved; approved job time becomes the labor
+ * hours of the jobs it was on, and approved weeks go out in the payroll CSV.
+ */
+export const Timesheets: React.FC<TimesheetsProps> = ({ state, onNotify }) => {
+  const settings = useMemo(() => getPayrollSettings(state.payroll), [state.payroll]);
+  const [weekStart, setWeekStart] = useState(() => weekStartFor(localToday(), settings));
+  const [entries, setEntries] = useState<TimeEntry[] | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const weekEnd = addDays(weekStart, 6);
+
+  // A changed pay week start moves the week shown onto the new boundary
+  useEffect(() => {
+    setWeekStart(current => weekStartFor(current, settings));
+  }, [settings.weekStartsOn]);
+
+  const load = useCallback(async () => {
+    const loaded = await getTimeEntries(weekStart, weekEnd);
+    if (!loaded) onNotify({ type: 'error', message: 'Could not load time entries.' });
+    setEntries(loaded || []);
+  }, [weekStart, weekEnd]);
+
+  useEffect(() => {
+    setEntries(null);
+    load();
+  }, [load]);
+
+  const weeks = useMemo(() => buildTimesheets(entries || [], weekStart, settings), [entries, weekStart, settings]);
+  const jobsById = useMemo(() => new Map(state.savedEstimates.map(e => [e.id, e])), [state.savedEstimates]);
+  const workOrders = state.savedEstimates.filter(e => e.status === 'Work Order');
+  const approvedWeeks = weeks.filter(week => week.approved);
+
+  const setApproval = async (week: TimesheetWeek, approved: boolean) => {
+    setBusy(week.userId);
+    const error = await setTimesheetApproval(weekStart, week.userId, approved);
+    setBusy(null);
+    if (error) {
+      onNotify({ type: 'error', message: error });
+      return;
+    }
+    onNotify({ type: 'success', message: approved ? `${week.userName}'s week approved.` : `${week.userName}'s week reopened.` });
+    load();
+  };
+
+  const saveEntry = async (entry: TimeEntry, input: Partial<Omit<TimeEntryInput, 'userId'>>) => {
+    const { entry: saved, error } = await updateTimeEntry(entry.id, input);
+    if (!saved) {
+      onNotify({ type: 'error', message: error || 'Failed to save entry.' });
+      return;
+    }
+    setEntries(current => (current || []).map(e => e.id === saved.id ? saved : e));
+  };
+
+  const removeEntry = async (entry: TimeEntry) => {
+    if (!confirm(`Delete this ${TIME_ENTRY_LABELS[entry.kind].toLowerCase()} entry for ${entry.userName}?`)) return;
+    const error = await deleteTimeEntry(entry.id);
+    if (error) {
+      onNotify({ type: 'error', message: error });
+      return;
+    }
+    setEntries(current => (current || []).filter(e => e.id !== entry.id));
+  };
+
+  const addEntry = async (input: TimeEntryInput) => {
+    const { entry, error } = await createTimeEntry(input);
+    if (!entry) {
+      onNotify({ type: 'error', message: error || 'Failed to add entry.' });
+      return false;
+    }
+    setEntries(current => [...(current || []), entry]);
+    setExpanded(entry.userId);
+    return true;
+  };
+
+  const exportCsv = () => {
+    downloadCsv(`timesheets-${weekStart}.csv`, timesheetsToCsv(approvedWeeks));
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in zoom-in duration-200 pb-20">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div>
+            <h1 className="text-2xl font-black text-slate-900 uppercase tracking-tight flex items-center gap-2">
+              <Timer className="w-6 h-6 text-brand" /> Timesheets
+            </h1>
+            <p className="text-slate-500 text-sm font-medium">
+              Week of {weekStart} to {weekEnd}. Overtime after {settings.weeklyOvertimeHours} hrs/week
+              {settings.dailyOvertimeHours > 0 && ` or ${settings.dailyOvertimeHours} hrs/day`}.
+            </p>
+          </div>
+          <FeedbackButton area="Timesheets" />
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setWeekStart(addDays(weekStart, -7))} className="p-2 hover:bg-slate-200 rounded-xl"><ChevronLeft className="w-5 h-5 text-slate-500" /></button>
+          <button onClick={() => setWeekStart(weekStartFor(localToday(), settings))} className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-50">This Week</button>
+          <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="p-2 hover:bg-slate-200 rounded-xl"><ChevronRight className="w-5 h-5 text-slate-500" /></button>
+          <button onClick={load} title="Refresh" className="p-2 hover:bg-slate-200 rounded-xl"><RefreshCw className="w-4 h-4 text-slate-500" /></button>
+          <button
+            onClick={exportCsv}
+            disabled={approvedWeeks.length === 0}
+            title={approvedWeeks.length === 0 ? 'Approve a timesheet to export it' : 'Approved timesheets only'}
+            className="px-3 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-1 disabled:opacity-40"
+          >
+            <Download className="w-3 h-3" /> Payroll CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        {entries === null ? (
+          <div className="p-6 flex items-center gap-2 text-xs text-slate-400 font-medium"><Loader2 className="w-4 h-4 animate-spin" /> Loading time…</div>
+        ) : weeks.length === 0 ? (
+          <p className="p-6 text-xs text-slate-400 font-medium">Nobody has clocked any time this week.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <tr>
+                  <th className="px-4 md:px-6 py-3">Person</th>
+                  <th className="px-4 py-3 text-right">Job</th>
+                  <th className="px-4 py-3 text-right">Travel</th>
+                  <th className="px-4 py-3 text-right">Shop</th>
+                  <th className="px-4 py-3 text-right">Break</th>
+                  <th className="px-4 py-3 text-right">Regular</th>
+                  <th className="px-4 py-3 text-right">Overtime</th>
+                  <th className="px-4 md:px-6 py-3 text-right">Timesheet</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 font-bold text-slate-700">
+                {weeks.map(week => (
+                  <React.Fragment key={week.userId}>
+                    <tr className="hover:bg-slate-50 cursor-pointer" onClick={() => setExpanded(expanded === week.userId ? null : week.userId)}>
+                      <td className="px-4 md:px-6 py-3">
+                        <span className="flex items-center gap-1">
+                          {expanded === week.userId ? <ChevronDown className="w-3 h-3 text-slate-400" /> : <ChevronRight className="w-3 h-3 text-slate-400" />}
+                          {week.userName}
+                          {week.clockedIn && <span className="ml-2 px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700 text-[9px] uppercase">On the clock</span>}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right">{formatHours(week.jobHours)}</td>
+                      <td className="px-4 py-3 text-right">{formatHours(week.travelHours)}</td>
+                      <td className="px-4 py-3 text-right">{formatHours(week.shopHours)}</td>
+                      <td className="px-4 py-3 text-right text-slate-400">{formatHours(week.breakHours)}</td>
+                      <td className="px-4 py-3 text-right">{formatHours(week.regularHours)}</td>
+                      <td className={`px-4 py-3 text-right ${week.overtimeHours > 0 ? 'text-amber-600' : ''}`}>{formatHours(week.overtimeHours)}</td>
+                      <td className="px-4 md:px-6 py-3 text-right" onClick={(e) => e.stopPropagation()}>
+                        {busy === week.userId ? (
+                          <Loader2 className="w-4 h-4 animate-spin text-slate-400 inline" />
+                        ) : week.approved ? (
+                          <button onClick={() => setApproval(week, false)} className="inline-flex items-center gap-1 text-[10px] uppercase font-black text-emerald-600 hover:text-slate-600" title="Reopen to make changes">
+                            <CheckCircle2 className="w-3 h-3" /> Approved <RotateCcw className="w-3 h-3" />
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => setApproval(week, true)}
+                            disabled={week.clockedIn}
+                            title={week.clockedIn ? 'Clock them out first' : undefined}
+                            className="px-3 py-1.5 bg-brand text-white rounded-lg text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+                          >
+                            Approve
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded === week.userId && (
+                      <tr>
+                        <td colSpan={8} className="bg-slate-50 px-4 md:px-6 py-3">
+                          <EntryList
+                            week={week}
+                            jobsById={jobsById}
+                            onSave={saveEntry}
+                            onRemove={removeEntry}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {isAdding ? (
+        <AddEntryForm
+          state={state}
+          workOrders={workOrders}
+          defaultDate={weekStart <= localToday() && localToday() <= weekEnd ? localToday() : weekStart}
+          onAdd={async (input) => { if (await addEntry(input)) setIsAdding(false); }}
+          onCancel={() => setIsAdding(false)}
+        />
+      ) : (
+        <button onClick={() => setIsAdding(true)} className="text-[10px] bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold px-3 py-2 rounded-lg transition-colors flex items-center gap-1">
+          <Plus className="w-3 h-3" /> Add Missed Time
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface EntryListProps {
+  week: TimesheetWeek;
+  jobsById: Map<string, EstimateRecord>;
+  onSave: (entry: TimeEntry, input: Partial<Omit<TimeEntryInput, 'userId'>>) => void;
+  onRemove: (entry: TimeEntry) => void;
+}
+
+const EntryList: React.FC<EntryListProps> = ({ week, jobsById, onSave, onRemove }) => (
+  <div className="space-y-2">
+    {week.entries.map(entry => {
+      const locked = !!entry.approvedAt;
+      return (
+        <div key={entry.id} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center font-medium">
+          <span className="md:col-span-1 text-slate-500">{entry.workDate.slice(5)}</span>
+          <span className="md:col-span-3 truncate">
+            {TIME_ENTRY_LABELS[entry.kind]}
+            {entry.kind === 'job' && <span className="text-slate-500"> · {jobLabel(jobsById.get(entry.estimateId || ''))}</span>}
+          </span>
+          <input
+            type="datetime-local"
+            disabled={locked}
+            defaultValue={toLocalInput(entry.clockIn)}
+            onBlur={(e) => e.target.value && e.target.value !== toLocalInput(entry.clockIn) && onSave(entry, { clockIn: fromLocalInput(e.target.value) })}
+            className="md:col-span-3 bg-white border border-slate-200 p-1.5 rounded-lg disabled:bg-transparent disabled:border-transparent"
+          />
+          <input
+            type="datetime-local"
+            disabled={locked}
+            defaultValue={toLocalInput(entry.clockOut)}
+            onBlur={(e) => e.target.value && e.target.value !== toLocalInput(entry.clockOut) && onSave(entry, { clockOut: fromLocalInput(e.target.value) })}
+            className="md:col-span-3 bg-white border border-slate-200 p-1.5 rounded-lg disabled:bg-transparent disabled:border-transparent"
+          />
+          <span className="md:col-span-1 text-right font-bold">{entry.clockOut ? formatHours(entryHours(entry)) : 'open'}</span>
+          <span className="md:col-span-1 flex justify-end">
+            {!locked && (
+              <button onClick={() => onRemove(entry)} title="Delete entry" className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </span>
+        </div>
+      );
+    })}
+    {week.approved && week.entries[0]?.approvedBy && (
+      <p className="text-[10px] text-slate-400">Approved by {week.entries[0].approvedBy}</p>
+    )}
+  </div>
+);
+
+interface AddEntryFormProps {
+  state: CalculatorState;
+  workOrders: EstimateRecord[];
+  defaultDate: string;
+  onAdd: (input: TimeEntryInput) => void;
+  onCancel: () => void;
+}
+
+const AddEntryForm: React.FC<AddEntryFormProps> = ({ state, workOrders, defaultDate, onAdd, onCancel }) => {
+  const people = (state.crewMembers || []).filter(member => member.active);
+  const [userId, setUserId] = useState(people[0]?.id || '');
+  const [kind, setKind] = useState<TimeEntryKind>('job');
+  const [estimateId, setEstimateId] = useState('');
+  const [workDate, setWorkDate] = useState(defaultDate);
+  const [start, setStart] = useState('07:00');
+  const [end, setEnd] = useState('15:30');
+
+  const submit = () => {
+    if (!userId || (kind === 'job' && !estimateId)) return;
+    onAdd({
+      userId,
+      kind,
+      estimateId: kind === 'job' ? estimateId : null,
+      workDate,
+      clockIn: fromLocalInput(`${workDate}T${start}`),
+      // Past midnight means the next day
+      clockOut: fromLocalInput(`${end <= start ? addDays(workDate, 1) : workDate}T${end}`),
+    });
+  };
+
+  const fieldClass = 'w-full bg-white border border-slate-200 p-2 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-brand';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+      <select value={userId} onChange={(e) => setUserId(e.target.value)} className={`${fieldClass} md:col-span-2`}>
+        {people.length === 0 && <option value="">No crew logins</option>}
+        {people.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+      </select>
+      <select value={kind} onChange={(e) => setKind(e.target.value as TimeEntryKind)} className={`${fieldClass} md:col-span-2`}>
+        {TIME_ENTRY_KINDS.map(k => <option key={k} value={k}>{TIME_ENTRY_LABELS[k]}</option>)}
+      </select>
+      <select value={estimateId} disabled={kind !== 'job'} onChange={(e) => setEstimateId(e.target.value)} className={`${fieldClass} md:col-span-3 disabled:opacity-40`}>
+        <option value="">Work order…</option>
+        {workOrders.map(job => <option key={job.id} value={job.id}>{jobLabel(job)}</option>)}
+      </select>
+      <input type="date" value={workDate} onChange={(e) => setWorkDate(e.target.value)} className={`${fieldClass} md:col-span-2`} />
+      <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className={`${fieldClass} md:col-span-1`} />
+      <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className={`${fieldClass} md:col-span-1`} />
+      <div className="col-span-2 md:col-span-1 flex gap-1">
+        <button onClick={submit} disabled={!userId || (kind === 'job' && !estimateId)} className="flex-1 bg-brand text-white rounded-lg py-2 text-[10px] font-black uppercase disabled:opacity-40">Add</button>
+        <button onClick={onCancel} className="px-2 text-slate-400 hover:text-slate-600 text-[10px] font-black uppercase">✕</button>
+      </div>
+    </div>
+  );
+};
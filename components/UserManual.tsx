@@ -300,14 +300,14 @@ const buildSections = (): ManualSection[] => [
                 </div>
                 <ul className="text-sm text-amber-800 space-y-1">
                   <li>• Enter the <strong>Company Name</strong></li>
-                  <li>• Enter the <strong>Crew Access PIN</strong> (6-digit code)</li>
+                  <li>• Enter <strong>Your Name</strong> and your <strong>PIN</strong></li>
                   <li>• Click <strong>"Access Jobs"</strong></li>
                   <li>• Opens simplified Crew Dashboard</li>
                 </ul>
               </div>
             </div>
             <InfoBox type="note">
-              Crew members do not need individual accounts. All crew share the same PIN within an organization.
+              Each crew member has their own login and PIN. Until the admin adds the first crew or person, everyone uses the shared Crew Access PIN.
             </InfoBox>
           </>
         ),
@@ -653,7 +653,7 @@ const buildSections = (): ManualSection[] => [
               </div>
               <div className="p-4 rounded-xl border border-green-200 bg-green-50">
                 <span className="text-sm font-bold text-green-900">Step 6: Record Payment</span>
-                <p className="text-xs text-green-700 mt-1">Click "Mark Paid" — status changes to Paid, financials are calculated, and a Receipt PDF is generated with "PAID IN FULL" stamp.</p>
+                <p className="text-xs text-green-700 mt-1">Record deposits and payments in the Payments panel. Once the balance reaches zero the status changes to Paid, financials are calculated, and receipts show the "PAID IN FULL" stamp.</p>
               </div>
             </div>
           </>
@@ -938,8 +938,8 @@ const buildSections = (): ManualSection[] => [
           <>
             <StepList steps={[
               'On the login page, select the "Crew Login" tab',
-              'Enter the Company Name and Crew Access PIN (provided by admin)',
-              'Tap "Access Jobs" — the Crew Dashboard opens with assigned work orders',
+              'Enter the Company Name, your name and your PIN (provided by admin)',
+              'Tap "Access Jobs" — the Crew Dashboard opens with your crew\'s work orders',
             ]} />
             <InfoBox type="warning">Crew members <strong>cannot see pricing</strong> — all costs, totals, and financial data are hidden.</InfoBox>
           </>
@@ -970,14 +970,19 @@ const buildSections = (): ManualSection[] => [
             <div className="space-y-3">
               <div className="p-4 rounded-xl border border-emerald-200 bg-emerald-50">
                 <span className="text-sm font-bold text-emerald-900">Starting a Job</span>
-                <p className="text-xs text-emerald-700 mt-1">Tap "Start Job" (green button) — starts the timer and notifies the office. Timer displays HH:MM:SS and persists across app refreshes.</p>
+                <p className="text-xs text-emerald-700 mt-1">Tap "Start Job" (green button) — starts a visit and notifies the office. "Pause / End Day" ends the visit; start again the next day, with any crew, for a new one. A running visit carries on after a reload or on another device.</p>
               </div>
               <div className="p-4 rounded-xl border border-red-200 bg-red-50">
                 <span className="text-sm font-bold text-red-900">Completing a Job</span>
-                <p className="text-xs text-red-700 mt-1">Tap "Complete Job" — the Completion Modal appears. Enter actual labor hours, material usage (OC/CC sets), machine counters, inventory used, and crew notes. Tap "Submit & Finish".</p>
+                <p className="text-xs text-red-700 mt-1">Tap "Complete Job" — the Completion Modal appears. Enter this visit's labor hours, material usage (OC/CC sets), machine counters and notes, plus inventory used on the job. Tap "Submit & Finish" — the job's actuals add up every visit.</p>
+              </div>
+              <div className="p-4 rounded-xl border border-sky-200 bg-sky-50">
+                <span className="text-sm font-bold text-sky-900">Clocking the Crew In & Out</span>
+                <p className="text-xs text-sky-700 mt-1">With personal logins, the Time Clock at the top of the work order list has a row per person. Pick the work order, then tap On Job, Travel, Shop, Break or Out — switching ends the previous task automatically.</p>
               </div>
             </div>
             <InfoBox type="note">Completion data syncs to the cloud and appears on the admin's Dashboard as <strong>"Review Needed"</strong>.</InfoBox>
+            <InfoBox type="info">Admins review punches under <strong>Timesheets</strong>, approve each person's week and download the <strong>Payroll CSV</strong>. Approved job hours become the job's labor hours.</InfoBox>
           </>
         ),
       },
@@ -1021,9 +1026,9 @@ const buildSections = (): ManualSection[] => [
               <li>• <strong>Company Name</strong> — displayed on documents and in the app header</li>
               <li>• <strong>Business Address, Phone, Email</strong> — appears on generated documents</li>
               <li>• <strong>Company ID</strong> — unique, read-only identifier. Click to copy and share with crew.</li>
-              <li>• <strong>Crew Access PIN</strong> — numeric PIN for crew login. Click "Update" to change immediately.</li>
+              <li>• <strong>Crew Access PIN</strong> — shared PIN for crew login, used only until you set up crews or crew logins. Click "Update" to change immediately.</li>
             </ul>
-            <InfoBox type="warning" title="Security">All crew members share the same PIN. Change it periodically or when crew membership changes.</InfoBox>
+            <InfoBox type="warning" title="Security">A shared PIN can't tell crew members apart. Give each person their own login under Settings → Crews so you can turn one person off without changing everyone's PIN.</InfoBox>
           </>
         ),
       },
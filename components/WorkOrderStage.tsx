@@ -11,9 +11,13 @@ import {
   Wrench,
   Plus,
   Trash2,
-  Download
+  Download,
+  CheckCircle2
 } from 'lucide-react';
 import { CalculatorState, CalculationResults, InvoiceLineItem } from '../types';
+import { getSpecSurfaceTotals, isLayeredSpec, describeFoamSpec } from '../utils/calculatorHelpers';
+import { formatQuantity } from '../utils/units';
+import { calculateOptionResults, hasEstimateOptions } from '../utils/estimateOptions';
 
 interface WorkOrderStageProps {
   state: CalculatorState;
@@ -21,6 +25,7 @@ interface WorkOrderStageProps {
   onUpdateState: (field: keyof CalculatorState, value: any) => void;
   onCancel: () => void;
   onConfirm: (lines: InvoiceLineItem[]) => Promise<void>;
+  onAcceptOption?: (optionId: string) => void;
   onDownloadPDF?: () => void;
 }
 
@@ -30,34 +35,53 @@ export const WorkOrderStage: React.FC<WorkOrderStageProps> = ({
   onUpdateState, 
   onCancel, 
   onConfirm,
+  onAcceptOption,
   onDownloadPDF 
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [lines, setLines] = useState<InvoiceLineItem[]>([]);
 
-  // Initialize Default Lines on Mount
+  // With options on the estimate, the crew scope is whichever one the customer accepted
+  const needsAcceptedOption = hasEstimateOptions(state) && !state.acceptedOptionId;
+
+  // Initialize Default Lines on Mount (and again once an option is accepted)
   useEffect(() => {
       const defaultLines: InvoiceLineItem[] = [];
+      const units = state.unitSystem;
       
       // 1. Scope Lines
-      if (results.wallBdFt > 0) {
+      const spec = getSpecSurfaceTotals(results);
+      if (spec.wallBdFt > 0) {
           defaultLines.push({
               id: 'wall',
               item: 'Wall Scope',
-              description: `Install ${state.wallSettings.type} @ ${state.wallSettings.thickness}" depth.`,
-              qty: `${Math.round(results.totalWallArea).toLocaleString()} sqft`,
+              description: isLayeredSpec(state.wallSettings)
+                  ? `Install in pass order: ${describeFoamSpec(state.wallSettings, units)} (${formatQuantity(state.wallSettings.thickness, 'depth', units)} total).`
+                  : `Install ${state.wallSettings.type} @ ${formatQuantity(state.wallSettings.thickness, 'depth', units)} depth.`,
+              qty: formatQuantity(spec.wallArea, 'area', units, 0),
               amount: 0
           });
       }
-      if (results.roofBdFt > 0) {
+      if (spec.roofBdFt > 0) {
           defaultLines.push({
               id: 'roof',
               item: 'Roof/Ceiling Scope',
-              description: `Install ${state.roofSettings.type} @ ${state.roofSettings.thickness}" depth.`,
-              qty: `${Math.round(results.totalRoofArea).toLocaleString()} sqft`,
+              description: isLayeredSpec(state.roofSettings)
+                  ? `Install in pass order: ${describeFoamSpec(state.roofSettings, units)} (${formatQuantity(state.roofSettings.thickness, 'depth', units)} total).`
+                  : `Install ${state.roofSettings.type} @ ${formatQuantity(state.roofSettings.thickness, 'depth', units)} depth.`,
+              qty: formatQuantity(spec.roofArea, 'area', units, 0),
               amount: 0
           });
       }
+      (results.takeoffLines || []).forEach(line => {
+          defaultLines.push({
+              id: `takeoff-${line.id}`,
+              item: `${line.name} Scope`,
+              description: `Install ${line.foamType} @ ${formatQuantity(line.thickness, 'depth', units)} depth. ${line.sets.toFixed(2)} Sets (Est. ${line.strokes.toLocaleString()} Strokes).`,
+              qty: formatQuantity(line.area, 'area', units, 0),
+              amount: 0
+          });
+      });
 
       // 2. Material Lines (With Stroke Counts)
       if (results.openCellSets > 0) {
@@ -88,7 +112,7 @@ export const WorkOrderStage: React.FC<WorkOrderStageProps> = ({
       });
 
       setLines(defaultLines);
-  }, []);
+  }, [state.acceptedOptionId]);
 
   const updateLine = (index: number, field: keyof InvoiceLineItem, value: any) => {
       const newLines = [...lines];
@@ -123,6 +147,37 @@ export const WorkOrderStage: React.FC<WorkOrderStageProps> = ({
         
         {/* Main Form Area */}
         <div className="md:col-span-2 space-y-6">
+
+            {/* Accepted Option Card */}
+            {hasEstimateOptions(state) && (
+                <div className={`bg-white p-6 rounded-2xl shadow-sm border ${needsAcceptedOption ? 'border-amber-300' : 'border-slate-200'}`}>
+                    <h2 className="flex items-center gap-2 text-sm font-black text-brand uppercase tracking-widest mb-1">
+                       <CheckCircle2 className="w-5 h-5" /> Accepted Option
+                    </h2>
+                    <p className="text-xs text-slate-500 font-medium mb-4">The option the customer chose becomes the work order scope.</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {state.estimateOptions.map(option => {
+                            const isAccepted = option.id === state.acceptedOptionId;
+                            const total = option.id === state.activeOptionId ? results.totalCost : calculateOptionResults(state, option).totalCost;
+                            return (
+                                <button
+                                    key={option.id}
+                                    onClick={() => onAcceptOption?.(option.id)}
+                                    className={`p-4 rounded-xl border text-left transition-all ${
+                                        isAccepted ? 'bg-emerald-50 border-emerald-300' : 'bg-slate-50 border-slate-200 hover:border-slate-300'
+                                    }`}
+                                >
+                                    <div className="flex justify-between items-center">
+                                        <span className="font-black text-slate-900 text-sm">{option.name}</span>
+                                        {isAccepted && <CheckCircle2 className="w-4 h-4 text-emerald-500" />}
+                                    </div>
+                                    <div className="text-xs font-bold text-slate-500 mt-1">${Math.round(total).toLocaleString()}</div>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
             
             {/* Scheduling Card */}
             <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
@@ -241,7 +296,7 @@ export const WorkOrderStage: React.FC<WorkOrderStageProps> = ({
 
             <button 
                 onClick={handleConfirm}
-                disabled={isProcessing}
+                disabled={isProcessing || needsAcceptedOption}
                 className="w-full bg-brand hover:bg-brand-hover text-white font-black py-4 rounded-xl shadow-lg shadow-red-200 transition-all active:scale-95 flex items-center justify-center gap-2 uppercase text-xs tracking-widest disabled:opacity-70 disabled:cursor-not-allowed"
             >
                 {isProcessing ? (
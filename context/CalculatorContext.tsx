@@ -5,9 +5,16 @@ import {
   UserSession, 
   CalculationMode, 
   FoamType,
+  RoofType,
   EstimateRecord,
   SubscriptionInfo
 } from '../types';
+import { DEFAULT_PRODUCTION_RATES } from '../utils/laborEstimate';
+import { getDocumentNumbering } from '../utils/documentNumbers';
+import { getReceivablesSettings } from '../utils/receivables';
+import { getSchedulingSettings } from '../utils/schedule';
+import { getPayrollSettings } from '../utils/timesheets';
+import { DEFAULT_MARGIN_TARGETS } from '../utils/marginPricing';
 
 // --- INITIAL STATE ---
 export const DEFAULT_STATE: CalculatorState = {
@@ -16,6 +23,8 @@ export const DEFAULT_STATE: CalculatorState = {
   width: 30,
   wallHeight: 10,
   roofPitch: '4/12', 
+  roofType: RoofType.GABLE,
+  roofPitch2: '',
   includeGables: true,
   isMetalSurface: false,
   wallSettings: {
@@ -48,6 +57,9 @@ export const DEFAULT_STATE: CalculatorState = {
   equipment: [], 
   showPricing: true,
   additionalAreas: [],
+  takeoffLines: [],
+  openings: [],
+  jobConditions: {},
   inventory: [],
   jobEquipment: [], 
   companyProfile: {
@@ -77,12 +89,24 @@ export const DEFAULT_STATE: CalculatorState = {
     status: 'Active'
   },
   pricingMode: 'level_pricing',
+  marginTargets: { ...DEFAULT_MARGIN_TARGETS },
+  taxJurisdictions: [],
+  unitSystem: 'imperial',
+  productionRates: { ...DEFAULT_PRODUCTION_RATES },
+  documentNumbering: getDocumentNumbering(),
+  receivables: getReceivablesSettings(),
+  scheduling: getSchedulingSettings(),
+  payroll: getPayrollSettings(),
+  crews: [],
+  crewMembers: [],
+  jobTemplates: [],
   sqFtRates: {
     wall: 0,
     roof: 0
   },
   expenses: {
     manHours: 0,
+    manHoursMode: 'auto',
     tripCharge: 0,
     fuelSurcharge: 0,
     other: {
@@ -93,6 +117,9 @@ export const DEFAULT_STATE: CalculatorState = {
   savedEstimates: [],
   purchaseOrders: [],
   materialLogs: [],
+  foamProducts: [],
+  lockedProducts: [],
+  estimateOptions: [],
   
   // NEW: Initial State
   lifetimeUsage: {
@@ -103,12 +130,11 @@ export const DEFAULT_STATE: CalculatorState = {
   scheduledDate: '',
   jobNotes: '',
   invoiceDate: '',
-  invoiceNumber: '',
   paymentTerms: 'Due on Receipt'
 };
 
 // --- TYPES ---
-type ViewType = 'calculator' | 'settings' | 'profile' | 'warehouse' | 'estimate' | 'dashboard' | 'customers' | 'customer_detail' | 'work_order_stage' | 'invoice_stage' | 'estimate_stage' | 'material_order' | 'material_report' | 'estimate_detail' | 'equipment_tracker' | 'equipment_maintenance' | 'user_manual' | 'crew_messaging';
+type ViewType = 'calculator' | 'settings' | 'profile' | 'warehouse' | 'estimate' | 'dashboard' | 'customers' | 'customer_detail' | 'work_order_stage' | 'invoice_stage' | 'estimate_stage' | 'material_order' | 'material_report' | 'estimate_detail' | 'equipment_tracker' | 'equipment_maintenance' | 'user_manual' | 'crew_messaging' | 'schedule' | 'timesheets';
 
 interface UIState {
   view: ViewType;
@@ -236,13 +262,21 @@ const calculatorReducer = (state: ContextState, action: Action): ContextState =>
           mode: CalculationMode.BUILDING,
           customerProfile: { ...DEFAULT_STATE.customerProfile },
           length: 40, width: 30, wallHeight: 10,
-          roofPitch: '4/12', 
+          roofPitch: '4/12', roofType: RoofType.GABLE, roofPitch2: '',
           isMetalSurface: false,
           wallSettings: { ...DEFAULT_STATE.wallSettings },
           roofSettings: { ...DEFAULT_STATE.roofSettings },
+          lockedProducts: [],
+          takeoffLines: [],
+          openings: [],
+          jobConditions: {},
+          expenses: { ...state.appData.expenses, manHoursMode: 'auto', crewSize: undefined },
           inventory: [], jobEquipment: [], jobNotes: '', scheduledDate: '', invoiceDate: '', 
-          invoiceNumber: '', paymentTerms: 'Due on Receipt',
+          paymentTerms: 'Due on Receipt',
           pricingMode: 'level_pricing', sqFtRates: { wall: 0, roof: 0 },
+          estimateOptions: [], activeOptionId: undefined, acceptedOptionId: undefined,
+          taxJurisdictionId: undefined,
+          appliedTemplate: undefined, templateLines: undefined,
           // Keep lifetime stats from current state, don't reset
           lifetimeUsage: state.appData.lifetimeUsage 
         }
@@ -2,8 +2,9 @@
  * useEstimates — Estimate CRUD hook
  *
  * Replaces all supabaseService calls with Express API (apiClient).
- * Handles: save, delete, mark paid, confirm work order, customer upsert,
- * purchase order creation, and background work-order sync.
+ * Handles: save, delete, payments, revision restore, change orders, confirm
+ * work order, customer upsert, purchase order creation, and background
+ * work-order sync.
  */
 
 import React, { useRef } from 'react';
@@ -15,11 +16,30 @@ import {
   PurchaseOrder,
   InvoiceLineItem,
   MaterialUsageLogEntry,
+  RoofType,
+  EstimateRevision,
+  ChangeOrder,
+  Payment,
 } from '../types';
 import { checkPlanLimit } from '../services/subscriptionService';
+import { getUsedFoamProducts } from '../utils/calculatorHelpers';
+import { projectFinancials } from '../utils/jobFinancials';
+import { hasEstimateOptions, priceEstimateOptions } from '../utils/estimateOptions';
+import { getBilledSalesTax, getJobTaxJurisdiction } from '../utils/salesTax';
+import { applyRevisionSnapshot, RESTORABLE_FIELDS } from '../utils/estimateRevisions';
+import { restoreEstimateRevision } from '../services/estimateRevisionService';
+import { deletePayment, PaymentInput, recordPayment } from '../services/paymentService';
+import { JobScheduleUpdate, updateJobSchedule } from '../services/scheduleService';
 import { api } from '../services/apiClient';
 import { setInventorySyncLock } from './useSync';
 
+// The API refuses status moves that break the estimate lifecycle with a 409.
+// Retrying won't help, so its reason is shown instead of the retry message.
+class LifecycleConflictError extends Error {}
+
+const syncErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof LifecycleConflictError ? err.message : fallback;
+
 export const useEstimates = () => {
   const { state, dispatch } = useCalculator();
   const { appData, ui, session } = state;
@@ -36,7 +56,8 @@ export const useEstimates = () => {
     estimate: EstimateRecord,
     _orgId: string,
   ): Promise<EstimateRecord | null> {
-    const { data, error } = await api.post<EstimateRecord>('/api/estimates', estimate);
+    const { data, error, status } = await api.post<EstimateRecord>('/api/estimates', estimate);
+    if (status === 409) throw new LifecycleConflictError(error);
     if (error) throw new Error(error);
     return data;
   }
@@ -47,14 +68,53 @@ export const useEstimates = () => {
     return true;
   }
 
-  async function markEstimatePaidApi(
-    id: string,
-    financials: any,
-  ): Promise<boolean> {
-    const { error } = await api.patch(`/api/estimates/${id}/paid`, financials);
-    if (error) throw new Error(error);
-    return true;
-  }
+  // Document numbers are assigned by the API as an estimate is created and
+  // moves through its stages; take them onto the local record.
+  const applyServerNumbers = (local: EstimateRecord, saved: EstimateRecord) => {
+    const numbers = {
+      estimateNumber: saved.estimateNumber || undefined,
+      workOrderNumber: saved.workOrderNumber || undefined,
+      invoiceNumber: saved.invoiceNumber || undefined,
+    };
+    if (
+      numbers.estimateNumber === local.estimateNumber &&
+      numbers.workOrderNumber === local.workOrderNumber &&
+      numbers.invoiceNumber === local.invoiceNumber
+    ) return;
+    Object.assign(local, numbers);
+    dispatch({
+      type: 'UPDATE_SAVED_ESTIMATE',
+      payload: { ...local, id: saved.id, customerId: saved.customerId },
+    });
+  };
+
+  // The API recalculates every saved estimate. When its figures differ from
+  // ours, take the server's and tell the user rather than keep a stale total.
+  const applyServerCalculation = (local: EstimateRecord, saved: EstimateRecord) => {
+    if (!saved.calculationMismatches?.length) return;
+    dispatch({
+      type: 'UPDATE_SAVED_ESTIMATE',
+      payload: {
+        ...local,
+        id: saved.id,
+        customerId: saved.customerId,
+        results: saved.results,
+        totalValue: saved.totalValue,
+        materials: saved.materials,
+        options: saved.options,
+        salesTax: saved.salesTax,
+        financials: saved.financials,
+        calculationMismatches: saved.calculationMismatches,
+      },
+    });
+    dispatch({
+      type: 'SET_NOTIFICATION',
+      payload: {
+        type: 'error',
+        message: 'Totals were recalculated by the server. Review the estimate before sending.',
+      },
+    });
+  };
 
   async function upsertCustomerApi(
     customer: CustomerProfile,
@@ -127,6 +187,10 @@ export const useEstimates = () => {
   // ─── Load estimate for editing ────────────────────────────────────────────
 
   const loadEstimateForEditing = (record: EstimateRecord) => {
+    // Open on the accepted option if there is one, otherwise the first
+    const options = record.options || [];
+    const activeOption = options.find(o => o.id === record.acceptedOptionId) || options[0];
+
     dispatch({
       type: 'UPDATE_DATA',
       payload: {
@@ -135,9 +199,14 @@ export const useEstimates = () => {
         width: record.inputs.width,
         wallHeight: record.inputs.wallHeight,
         roofPitch: record.inputs.roofPitch,
+        roofType: record.inputs.roofType || RoofType.GABLE,
+        roofPitch2: record.inputs.roofPitch2 || '',
         includeGables: record.inputs.includeGables,
         isMetalSurface: record.inputs.isMetalSurface || false,
         additionalAreas: record.inputs.additionalAreas || [],
+        takeoffLines: record.inputs.takeoffLines || [],
+        openings: record.inputs.openings || [],
+        jobConditions: record.inputs.jobConditions || {},
         wallSettings: record.wallSettings,
         roofSettings: record.roofSettings,
         expenses: {
@@ -145,14 +214,27 @@ export const useEstimates = () => {
           laborRate: record.expenses?.laborRate ?? appData.costs.laborRate,
         },
         inventory: record.materials.inventory,
+        lockedProducts: record.materials.products || [],
         customerProfile: record.customer,
         jobNotes: record.notes || '',
         scheduledDate: record.scheduledDate || '',
         invoiceDate: record.invoiceDate || '',
-        invoiceNumber: record.invoiceNumber || '',
         paymentTerms: record.paymentTerms || 'Due on Receipt',
         pricingMode: record.pricingMode || 'level_pricing',
         sqFtRates: record.sqFtRates || { wall: 0, roof: 0 },
+        ...(record.marginTargets ? { marginTargets: record.marginTargets } : {}),
+        // Jobs saved before sales tax existed stay untaxed
+        taxJurisdictionId: record.taxJurisdictionId ?? '',
+        estimateOptions: options,
+        activeOptionId: activeOption?.id,
+        acceptedOptionId: record.acceptedOptionId,
+        appliedTemplate: record.template,
+        templateLines: undefined,
+        ...(activeOption ? {
+          wallSettings: activeOption.wallSettings,
+          roofSettings: activeOption.roofSettings,
+          takeoffLines: activeOption.takeoffLines || [],
+        } : {}),
       },
     });
     dispatch({ type: 'SET_EDITING_ESTIMATE', payload: record.id });
@@ -198,11 +280,20 @@ export const useEstimates = () => {
     let newStatus: EstimateRecord['status'] =
       targetStatus || (existingRecord?.status || 'Draft');
 
-    let invoiceNumber = appData.invoiceNumber;
-    if (!invoiceNumber) {
-      invoiceNumber = existingRecord?.invoiceNumber;
-      if (newStatus === 'Invoiced' && !invoiceNumber)
-        invoiceNumber = `INV-${Math.floor(Math.random() * 100000)}`;
+    // The stages pass the tax on their edited lines in extraData
+    const jurisdiction = getJobTaxJurisdiction(appData);
+    const salesTax = getBilledSalesTax(
+      extraData?.invoiceLines || existingRecord?.invoiceLines ||
+        extraData?.estimateLines || existingRecord?.estimateLines,
+      jurisdiction,
+      results.salesTax,
+    );
+
+    // Margin-priced quotes carry a planned P&L with the floor they were priced at;
+    // markAsPaid replaces it with actuals and keeps `targetMargin` for comparison
+    let financials = existingRecord?.financials;
+    if (appData.pricingMode === 'margin_pricing' && newStatus !== 'Paid') {
+      financials = projectFinancials(results, extraData?.totalValue ?? results.totalCost, extraData?.salesTax ?? salesTax);
     }
 
     const newEstimate: EstimateRecord = {
@@ -212,10 +303,14 @@ export const useEstimates = () => {
         Math.random().toString(36).substr(2, 9),
       date: existingRecord?.date || new Date().toISOString(),
       scheduledDate: appData.scheduledDate,
+      scheduledDays: existingRecord?.scheduledDays,
+      crewId: existingRecord?.crewId,
       invoiceDate: appData.invoiceDate,
       paymentTerms: appData.paymentTerms,
       status: newStatus,
-      invoiceNumber: invoiceNumber,
+      estimateNumber: existingRecord?.estimateNumber,
+      workOrderNumber: existingRecord?.workOrderNumber,
+      invoiceNumber: existingRecord?.invoiceNumber,
       customer: { ...appData.customerProfile },
       inputs: {
         mode: appData.mode,
@@ -223,9 +318,14 @@ export const useEstimates = () => {
         width: appData.width,
         wallHeight: appData.wallHeight,
         roofPitch: appData.roofPitch,
+        roofType: appData.roofType,
+        roofPitch2: appData.roofPitch2,
         includeGables: appData.includeGables,
         isMetalSurface: appData.isMetalSurface,
         additionalAreas: appData.additionalAreas,
+        takeoffLines: appData.takeoffLines,
+        openings: appData.openings,
+        jobConditions: appData.jobConditions,
       },
       results: { ...results },
       materials: {
@@ -233,31 +333,43 @@ export const useEstimates = () => {
         closedCellSets: results.closedCellSets,
         openCellStrokes: results.openCellStrokes,
         closedCellStrokes: results.closedCellStrokes,
-        ocStrokesPerSet: appData.yields?.openCellStrokes || 6600,
-        ccStrokesPerSet: appData.yields?.closedCellStrokes || 6600,
+        ocStrokesPerSet: results.ocStrokesPerSet || appData.yields?.openCellStrokes || 6600,
+        ccStrokesPerSet: results.ccStrokesPerSet || appData.yields?.closedCellStrokes || 6600,
+        products: getUsedFoamProducts(appData),
         inventory: [...appData.inventory],
         equipment: [...appData.jobEquipment],
       },
       totalValue: results.totalCost,
       wallSettings: { ...appData.wallSettings },
       roofSettings: { ...appData.roofSettings },
-      expenses: { ...appData.expenses },
+      // Store the hours actually billed so crews and reports see the same number
+      expenses: { ...appData.expenses, manHours: results.manHours ?? appData.expenses.manHours },
+      rValues: results.rValues,
+      options: hasEstimateOptions(appData) ? priceEstimateOptions(appData) : undefined,
+      acceptedOptionId: appData.acceptedOptionId,
       notes: appData.jobNotes,
       pricingMode: appData.pricingMode,
+      marginTargets: appData.marginTargets,
+      // Pin the resolved jurisdiction so a later org default change doesn't retax the job
+      taxJurisdictionId: jurisdiction?.id || '',
+      salesTax,
       sqFtRates: appData.sqFtRates,
       executionStatus: existingRecord?.executionStatus || 'Not Started',
       actuals: existingRecord?.actuals,
-      financials: existingRecord?.financials,
+      financials,
       inventoryProcessed: existingRecord?.inventoryProcessed || false,
       workOrderSheetUrl: existingRecord?.workOrderSheetUrl,
+      changeOrders: existingRecord?.changeOrders,
+      template: appData.appliedTemplate,
       lastModified: new Date().toISOString(),
 
       // Preserve custom lines if not provided in extraData
       invoiceLines: extraData?.invoiceLines || existingRecord?.invoiceLines,
       workOrderLines:
         extraData?.workOrderLines || existingRecord?.workOrderLines,
+      // Lines from a template applied since the job was opened replace its own
       estimateLines:
-        extraData?.estimateLines || existingRecord?.estimateLines,
+        extraData?.estimateLines || appData.templateLines || existingRecord?.estimateLines,
 
       ...extraData,
     };
@@ -270,9 +382,10 @@ export const useEstimates = () => {
     if (idx >= 0) updatedEstimates[idx] = newEstimate;
     else updatedEstimates.unshift(newEstimate);
 
+    // The estimate now carries any template lines itself
     dispatch({
       type: 'UPDATE_DATA',
-      payload: { savedEstimates: updatedEstimates },
+      payload: { savedEstimates: updatedEstimates, templateLines: undefined },
     });
     dispatch({ type: 'SET_EDITING_ESTIMATE', payload: estimateId });
 
@@ -340,6 +453,8 @@ export const useEstimates = () => {
               newEstimate.id = saved.id;
               newEstimate.customerId = saved.customerId;
             }
+            applyServerNumbers(newEstimate, saved);
+            applyServerCalculation(newEstimate, saved);
             if (
               saved.customer?.id &&
               saved.customer.id !== appData.customerProfile.id
@@ -376,8 +491,10 @@ export const useEstimates = () => {
             type: 'SET_NOTIFICATION',
             payload: {
               type: 'error',
-              message:
+              message: syncErrorMessage(
+                err,
                 'Cloud save failed. Data saved locally — will retry automatically.',
+              ),
             },
           });
         }
@@ -399,6 +516,8 @@ export const useEstimates = () => {
                   },
                 });
               }
+              applyServerNumbers(newEstimate, saved);
+              applyServerCalculation(newEstimate, saved);
               if (
                 saved.customer?.id &&
                 saved.customer.id !== appData.customerProfile.id
@@ -430,8 +549,10 @@ export const useEstimates = () => {
               type: 'SET_NOTIFICATION',
               payload: {
                 type: 'error',
-                message:
+                message: syncErrorMessage(
+                  err,
                   'Cloud save failed. Data saved locally — will retry automatically.',
+                ),
               },
             });
           });
@@ -492,92 +613,172 @@ export const useEstimates = () => {
     }
   };
 
-  // ─── Mark paid ─────────────────────────────────────────────────────────────
+  // ─── Payments ──────────────────────────────────────────────────────────────
 
-  const handleMarkPaid = async (
-    id: string,
-    onPDFReady?: (record: EstimateRecord) => void,
-  ) => {
-    const estimate = appData.savedEstimates.find(
-      (e: EstimateRecord) => e.id === id,
-    );
-    if (!estimate) return;
+  // The balance is the API's, so payments are recorded online only and the
+  // record is updated from its reply.
+  const handleRecordPayment = async (
+    record: EstimateRecord,
+    input: PaymentInput,
+  ): Promise<EstimateRecord | null> => {
+    dispatch({ type: 'SET_SYNC_STATUS', payload: 'syncing' });
+    const { recorded, error } = await recordPayment(record.id, input);
+    dispatch({ type: 'SET_SYNC_STATUS', payload: 'idle' });
 
+    if (!recorded) {
+      dispatch({
+        type: 'SET_NOTIFICATION',
+        payload: { type: 'error', message: `Payment not recorded: ${error}` },
+      });
+      return null;
+    }
+
+    const updated: EstimateRecord = {
+      ...record,
+      status: recorded.status,
+      payments: [...(record.payments || []), recorded.payment],
+      financials: recorded.financials || record.financials,
+      lastModified: new Date().toISOString(),
+    };
+    dispatch({ type: 'UPDATE_SAVED_ESTIMATE', payload: updated });
     dispatch({
       type: 'SET_NOTIFICATION',
-      payload: { type: 'success', message: 'Processing Payment & P&L...' },
+      payload: {
+        type: 'success',
+        message: recorded.status === 'Paid' ? 'Paid in full! Profit Calculated.' : 'Payment recorded.',
+      },
     });
+    return updated;
+  };
+
+  const handleDeletePayment = async (
+    record: EstimateRecord,
+    payment: Payment,
+  ): Promise<boolean> => {
     dispatch({ type: 'SET_SYNC_STATUS', payload: 'syncing' });
+    const error = await deletePayment(record.id, payment.id);
+    dispatch({ type: 'SET_SYNC_STATUS', payload: 'idle' });
 
-    const revenue = estimate.totalValue || 0;
-    const chemicalCost =
-      (estimate.materials?.openCellSets || 0) *
-        (appData.costs.openCell || 0) +
-      (estimate.materials?.closedCellSets || 0) *
-        (appData.costs.closedCell || 0);
-    const laborCost =
-      (estimate.expenses?.manHours || 0) *
-      (estimate.expenses?.laborRate || appData.costs.laborRate || 0);
-    const inventoryCost = (estimate.materials?.inventory || []).reduce(
-      (sum: number, i: any) => sum + (i.unitCost || 0) * (i.quantity || 0),
-      0,
-    );
-    const miscCost =
-      (estimate.expenses?.tripCharge || 0) +
-      (estimate.expenses?.fuelSurcharge || 0) +
-      (estimate.expenses?.other?.amount || 0);
-    const totalCOGS = chemicalCost + laborCost + inventoryCost + miscCost;
-    const netProfit = revenue - totalCOGS;
-    const margin = revenue > 0 ? (netProfit / revenue) * 100 : 0;
-
-    const financials = {
-      revenue,
-      totalCOGS,
-      chemicalCost,
-      laborCost,
-      inventoryCost,
-      miscCost,
-      netProfit,
-      margin,
-    };
+    if (error) {
+      dispatch({
+        type: 'SET_NOTIFICATION',
+        payload: { type: 'error', message: `Payment not removed: ${error}` },
+      });
+      return false;
+    }
 
-    const paidEstimate: EstimateRecord = {
-      ...estimate,
-      status: 'Paid',
-      financials,
+    dispatch({
+      type: 'UPDATE_SAVED_ESTIMATE',
+      payload: {
+        ...record,
+        payments: (record.payments || []).filter((p) => p.id !== payment.id),
+        lastModified: new Date().toISOString(),
+      },
+    });
+    return true;
+  };
+
+  // ─── Schedule ──────────────────────────────────────────────────────────────
+
+  // Booked on the calendar straight away and put back if the API refuses it
+  const handleScheduleJob = async (
+    record: EstimateRecord,
+    updates: JobScheduleUpdate,
+  ): Promise<boolean> => {
+    const booked: EstimateRecord = {
+      ...record,
+      ...(updates.scheduledDate !== undefined ? { scheduledDate: updates.scheduledDate || undefined } : {}),
+      ...(updates.scheduledDays !== undefined ? { scheduledDays: updates.scheduledDays || undefined } : {}),
+      ...(updates.crewId !== undefined ? { crewId: updates.crewId || undefined } : {}),
       lastModified: new Date().toISOString(),
     };
-    const updatedEstimates = appData.savedEstimates.map(
-      (e: EstimateRecord) => (e.id === id ? paidEstimate : e),
-    );
+    dispatch({ type: 'UPDATE_SAVED_ESTIMATE', payload: booked });
+    // Keep an open job's date in step so saving it doesn't move it back
+    if (ui.editingEstimateId === record.id && updates.scheduledDate !== undefined) {
+      dispatch({ type: 'UPDATE_DATA', payload: { scheduledDate: updates.scheduledDate || '' } });
+    }
+
+    const error = await updateJobSchedule(record.id, updates);
+    if (!error) return true;
+
+    dispatch({ type: 'UPDATE_SAVED_ESTIMATE', payload: record });
+    if (ui.editingEstimateId === record.id && updates.scheduledDate !== undefined) {
+      dispatch({ type: 'UPDATE_DATA', payload: { scheduledDate: record.scheduledDate || '' } });
+    }
     dispatch({
-      type: 'UPDATE_DATA',
-      payload: { savedEstimates: updatedEstimates },
+      type: 'SET_NOTIFICATION',
+      payload: { type: 'error', message: `Schedule not changed: ${error}` },
     });
+    return false;
+  };
+
+  // ─── Restore revision ──────────────────────────────────────────────────────
+
+  const handleRestoreRevision = async (
+    record: EstimateRecord,
+    revision: EstimateRevision,
+  ): Promise<EstimateRevision | null> => {
+    dispatch({ type: 'SET_SYNC_STATUS', payload: 'syncing' });
+    const recorded = await restoreEstimateRevision(record.id, revision.id);
+    dispatch({ type: 'SET_SYNC_STATUS', payload: 'idle' });
+
+    if (!recorded) {
+      dispatch({
+        type: 'SET_NOTIFICATION',
+        payload: { type: 'error', message: 'Restore failed. The estimate was not changed.' },
+      });
+      return null;
+    }
+
+    const restored: EstimateRecord = {
+      ...applyRevisionSnapshot(record, revision.snapshot, RESTORABLE_FIELDS),
+      calculationMismatches: undefined,
+      lastModified: new Date().toISOString(),
+    };
+    dispatch({ type: 'UPDATE_SAVED_ESTIMATE', payload: restored });
+    // Reload the calculator so the detail view and any further edits start from the restored quote
+    loadEstimateForEditing(restored);
     dispatch({
       type: 'SET_NOTIFICATION',
-      payload: { type: 'success', message: 'Paid! Profit Calculated.' },
+      payload: { type: 'success', message: `Restored revision ${revision.revisionNumber}` },
     });
+    return recorded;
+  };
 
-    if (onPDFReady) {
-      onPDFReady(paidEstimate);
-    }
+  // ─── Change orders ─────────────────────────────────────────────────────────
+
+  const saveChangeOrders = async (
+    record: EstimateRecord,
+    changeOrders: ChangeOrder[],
+  ): Promise<boolean> => {
+    const updated: EstimateRecord = {
+      ...record,
+      changeOrders,
+      lastModified: new Date().toISOString(),
+    };
+    dispatch({ type: 'UPDATE_SAVED_ESTIMATE', payload: updated });
 
+    if (!session?.organizationId) return true;
     try {
-      await markEstimatePaidApi(id, financials);
+      dispatch({ type: 'SET_SYNC_STATUS', payload: 'syncing' });
+      await upsertEstimateApi(updated, session.organizationId);
+      dispatch({ type: 'SET_SYNC_STATUS', payload: 'idle' });
+      return true;
     } catch (err) {
-      console.error('markPaid error:', err);
+      console.error('Change order save failed:', err);
+      dispatch({ type: 'SET_SYNC_STATUS', payload: 'error' });
       dispatch({
         type: 'SET_NOTIFICATION',
         payload: {
           type: 'error',
-          message:
-            'Payment saved locally but failed to sync to cloud. Use Force Sync to retry.',
+          message: syncErrorMessage(
+            err,
+            'Change order saved locally but failed to sync to cloud. Use Force Sync to retry.',
+          ),
         },
       });
+      return false;
     }
-
-    dispatch({ type: 'SET_SYNC_STATUS', payload: 'idle' });
   };
 
   // ─── Save customer ────────────────────────────────────────────────────────
@@ -787,8 +988,9 @@ export const useEstimates = () => {
       closedCellSets: results.closedCellSets,
       openCellStrokes: results.openCellStrokes,
       closedCellStrokes: results.closedCellStrokes,
-      ocStrokesPerSet: appData.yields?.openCellStrokes || 6600,
-      ccStrokesPerSet: appData.yields?.closedCellStrokes || 6600,
+      ocStrokesPerSet: results.ocStrokesPerSet || appData.yields?.openCellStrokes || 6600,
+      ccStrokesPerSet: results.ccStrokesPerSet || appData.yields?.closedCellStrokes || 6600,
+      products: getUsedFoamProducts(appData),
       inventory:
         appData.inventory.length > 0
           ? (() => {
@@ -1090,7 +1292,11 @@ export const useEstimates = () => {
     saveEstimate,
     awaitPendingUpsert,
     handleDeleteEstimate,
-    handleMarkPaid,
+    handleRecordPayment,
+    handleDeletePayment,
+    handleScheduleJob,
+    handleRestoreRevision,
+    saveChangeOrders,
     saveCustomer,
     confirmWorkOrder,
     createPurchaseOrder,
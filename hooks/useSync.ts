@@ -17,6 +17,12 @@ import { useRef, useEffect, useCallback } from 'react';
 import { useCalculator } from '../context/CalculatorContext';
 import { api, getWsUrl, getAccessToken } from '../services/apiClient';
 import { EstimateRecord } from '../types';
+import { getProductionRates } from '../utils/laborEstimate';
+import { getDocumentNumbering } from '../utils/documentNumbers';
+import { getReceivablesSettings } from '../utils/receivables';
+import { getSchedulingSettings } from '../utils/schedule';
+import { getPayrollSettings } from '../utils/timesheets';
+import { DEFAULT_MARGIN_TARGETS } from '../utils/marginPricing';
 
 // ─── Inventory Sync Lock ─────────────────────────────────────────────────────
 // Prevents realtime/polling overwrites during in-flight writes
@@ -65,7 +71,16 @@ function buildSyncHash(appData: any): string {
       y: appData.yields,
       c: appData.costs,
       pm: appData.pricingMode,
+      mt: appData.marginTargets,
+      tj: appData.taxJurisdictions,
+      dt: appData.defaultTaxJurisdictionId,
+      us: appData.unitSystem,
       sr: appData.sqFtRates,
+      pr: appData.productionRates,
+      dn: appData.documentNumbering,
+      ar: appData.receivables,
+      sc: appData.scheduling,
+      pp: appData.payroll,
       lu: appData.lifetimeUsage,
       cp: appData.companyProfile,
     });
@@ -107,17 +122,30 @@ export const useSync = () => {
         yields: data.yields || {},
         costs: data.costs || {},
         pricingMode: data.pricingMode || 'level_pricing',
+        marginTargets: data.marginTargets || { ...DEFAULT_MARGIN_TARGETS },
+        taxJurisdictions: data.taxJurisdictions || [],
+        defaultTaxJurisdictionId: data.defaultTaxJurisdictionId || undefined,
+        unitSystem: data.unitSystem || 'imperial',
         sqFtRates: data.sqFtRates || {},
+        productionRates: getProductionRates(data.productionRates),
+        documentNumbering: getDocumentNumbering(data.documentNumbering),
+        receivables: getReceivablesSettings(data.receivables),
+        scheduling: getSchedulingSettings(data.scheduling),
+        payroll: getPayrollSettings(data.payroll),
         lifetimeUsage: data.lifetimeUsage || {},
         warehouse: data.warehouse || { openCellSets: 0, closedCellSets: 0, items: [] },
         equipment: data.equipment || [],
         companyProfile: data.companyProfile || {},
         savedEstimates: data.savedEstimates || [],
+        crews: data.crews || [],
       };
 
       if (data.customers) payload.customers = data.customers;
       if (data.purchaseOrders) payload.purchaseOrders = data.purchaseOrders;
       if (data.materialLogs) payload.materialLogs = data.materialLogs;
+      if (data.foamProducts) payload.foamProducts = data.foamProducts;
+      if (data.jobTemplates) payload.jobTemplates = data.jobTemplates;
+      if (data.crewMembers) payload.crewMembers = data.crewMembers;
 
       dispatch({ type: 'UPDATE_DATA', payload });
 
@@ -173,6 +201,33 @@ export const useSync = () => {
     }
   }, [dispatch]);
 
+  const refreshFoamProducts = useCallback(async () => {
+    if (session?.role !== 'admin') return;
+    const { data } = await api.get<any[]>('/api/materials/products');
+    if (data && mountedRef.current) {
+      dispatch({ type: 'UPDATE_DATA', payload: { foamProducts: data } });
+    }
+  }, [dispatch, session?.role]);
+
+  const refreshCrews = useCallback(async () => {
+    if (session?.role !== 'admin') return;
+    const [crews, members] = await Promise.all([
+      api.get<any[]>('/api/crews'),
+      api.get<any[]>('/api/crews/members'),
+    ]);
+    if (crews.data && members.data && mountedRef.current) {
+      dispatch({ type: 'UPDATE_DATA', payload: { crews: crews.data, crewMembers: members.data } });
+    }
+  }, [dispatch, session?.role]);
+
+  const refreshJobTemplates = useCallback(async () => {
+    if (session?.role !== 'admin') return;
+    const { data } = await api.get<any[]>('/api/templates');
+    if (data && mountedRef.current) {
+      dispatch({ type: 'UPDATE_DATA', payload: { jobTemplates: data } });
+    }
+  }, [dispatch, session?.role]);
+
   // ─── WebSocket event handler ───────────────────────────────────────────────
 
   const handleWsEvent = useCallback(
@@ -201,6 +256,15 @@ export const useSync = () => {
         case 'equipment:updated':
           refreshEquipment();
           break;
+        case 'products:updated':
+          refreshFoamProducts();
+          break;
+        case 'templates:updated':
+          refreshJobTemplates();
+          break;
+        case 'crews:updated':
+          refreshCrews();
+          break;
         case 'message:new':
         case 'maintenance:updated':
         case 'pong':
@@ -210,7 +274,7 @@ export const useSync = () => {
           console.log('[WS] Unknown event:', msg.type);
       }
     },
-    [refreshEstimates, refreshCustomers, refreshWarehouse, refreshEquipment],
+    [refreshEstimates, refreshCustomers, refreshWarehouse, refreshEquipment, refreshFoamProducts, refreshJobTemplates, refreshCrews],
   );
 
   // ─── WebSocket connection ──────────────────────────────────────────────────
@@ -314,7 +378,16 @@ export const useSync = () => {
           yields: appData.yields,
           costs: appData.costs,
           pricingMode: appData.pricingMode,
+          marginTargets: appData.marginTargets,
+          taxJurisdictions: appData.taxJurisdictions,
+          defaultTaxJurisdictionId: appData.defaultTaxJurisdictionId || null,
+          unitSystem: appData.unitSystem,
           sqFtRates: appData.sqFtRates,
+          productionRates: appData.productionRates,
+          documentNumbering: appData.documentNumbering,
+          receivables: appData.receivables,
+          scheduling: appData.scheduling,
+          payroll: appData.payroll,
           lifetimeUsage: appData.lifetimeUsage,
         });
 
@@ -380,7 +453,16 @@ export const useSync = () => {
           yields: appData.yields,
           costs: appData.costs,
           pricingMode: appData.pricingMode,
+          marginTargets: appData.marginTargets,
+          taxJurisdictions: appData.taxJurisdictions,
+          defaultTaxJurisdictionId: appData.defaultTaxJurisdictionId || null,
+          unitSystem: appData.unitSystem,
           sqFtRates: appData.sqFtRates,
+          productionRates: appData.productionRates,
+          documentNumbering: appData.documentNumbering,
+          receivables: appData.receivables,
+          scheduling: appData.scheduling,
+          payroll: appData.payroll,
           lifetimeUsage: appData.lifetimeUsage,
         });
 
@@ -488,7 +570,16 @@ export const useSync = () => {
     appData.yields,
     appData.costs,
     appData.pricingMode,
+    appData.marginTargets,
+    appData.taxJurisdictions,
+    appData.defaultTaxJurisdictionId,
+    appData.unitSystem,
     appData.sqFtRates,
+    appData.productionRates,
+    appData.documentNumbering,
+    appData.receivables,
+    appData.scheduling,
+    appData.payroll,
     appData.lifetimeUsage,
     appData.companyProfile,
   ]);
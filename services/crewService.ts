@@ -0,0 +1,94 @@
+/**
+ * Crew Service
+ *
+ * Create, edit and delete the org's crews, and the crew logins of the
+ * people on them. Work orders are assigned to a crew through the estimate
+ * status endpoint (see scheduleService).
+ */
+
+import { api } from './apiClient';
+import { Crew, CrewMember } from '../types';
+
+export type CrewInput = Omit<Crew, 'id' | 'members' | 'rigId'> & { rigId?: string | null };
+
+export interface CrewMemberInput {
+  name: string;
+  // Only sent when setting or resetting it
+  pin?: string;
+  crewId?: string | null;
+  active?: boolean;
+}
+
+/** Returns the new crew, or the reason it was refused. */
+export const createCrew = async (input: CrewInput): Promise<{ crew?: Crew; error?: string }> => {
+  try {
+    const { data, error } = await api.post<Crew>('/api/crews', input);
+    if (error) {
+      console.error('createCrew error:', error);
+      return { error };
+    }
+    return { crew: data };
+  } catch (err) {
+    console.error('createCrew exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+/** Returns the updated crew, or the reason it was refused. */
+export const updateCrew = async (id: string, input: Partial<CrewInput>): Promise<{ crew?: Crew; error?: string }> => {
+  try {
+    const { data, error } = await api.patch<Crew>(`/api/crews/${id}`, input);
+    if (error) {
+      console.error('updateCrew error:', error);
+      return { error };
+    }
+    return { crew: data };
+  } catch (err) {
+    console.error('updateCrew exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+export const deleteCrew = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await api.delete(`/api/crews/${id}`);
+    if (error) {
+      console.error('deleteCrew error:', error);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('deleteCrew exception:', err);
+    return false;
+  }
+};
+
+/** Returns the new crew login, or the reason it was refused. */
+export const createCrewMember = async (input: CrewMemberInput): Promise<{ member?: CrewMember; error?: string }> => {
+  try {
+    const { data, error } = await api.post<CrewMember>('/api/crews/members', input);
+    if (error) {
+      console.error('createCrewMember error:', error);
+      return { error };
+    }
+    return { member: data };
+  } catch (err) {
+    console.error('createCrewMember exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+/** Returns the updated crew login, or the reason it was refused. */
+export const updateCrewMember = async (id: string, input: Partial<CrewMemberInput>): Promise<{ member?: CrewMember; error?: string }> => {
+  try {
+    const { data, error } = await api.patch<CrewMember>(`/api/crews/members/${id}`, input);
+    if (error) {
+      console.error('updateCrewMember error:', error);
+      return { error };
+    }
+    return { member: data };
+  } catch (err) {
+    console.error('updateCrewMember exception:', err);
+    return { error: 'Network error' };
+  }
+};
@@ -11,7 +11,7 @@ import { api } from './apiClient';
 
 // ─── TYPES ──────────────────────────────────────────────────────────────────
 
-export type DocumentType = 'estimate' | 'invoice' | 'receipt' | 'work_order' | 'purchase_order';
+export type DocumentType = 'estimate' | 'invoice' | 'receipt' | 'work_order' | 'purchase_order' | 'change_order' | 'statement';
 
 export interface DocumentRecord {
   id: string;
@@ -34,7 +34,7 @@ export interface DocumentRecord {
  * Map the PDF generator's type strings to our document_type enum.
  */
 const mapDocType = (
-  type: 'ESTIMATE' | 'INVOICE' | 'RECEIPT' | 'WORK_ORDER' | 'PURCHASE_ORDER',
+  type: 'ESTIMATE' | 'INVOICE' | 'RECEIPT' | 'WORK_ORDER' | 'PURCHASE_ORDER' | 'CHANGE_ORDER' | 'STATEMENT',
 ): DocumentType => {
   const mapping: Record<string, DocumentType> = {
     ESTIMATE: 'estimate',
@@ -42,6 +42,8 @@ const mapDocType = (
     RECEIPT: 'receipt',
     WORK_ORDER: 'work_order',
     PURCHASE_ORDER: 'purchase_order',
+    CHANGE_ORDER: 'change_order',
+    STATEMENT: 'statement',
   };
   return mapping[type] || 'estimate';
 };
@@ -58,7 +60,7 @@ export const saveDocument = async (options: {
   orgId: string;
   customerId?: string | null;
   estimateId?: string | null;
-  documentType: 'ESTIMATE' | 'INVOICE' | 'RECEIPT' | 'WORK_ORDER' | 'PURCHASE_ORDER';
+  documentType: 'ESTIMATE' | 'INVOICE' | 'RECEIPT' | 'WORK_ORDER' | 'PURCHASE_ORDER' | 'CHANGE_ORDER' | 'STATEMENT';
   metadata?: Record<string, any>;
 }): Promise<DocumentRecord | null> => {
   // TODO: Implement file upload when storage backend is added
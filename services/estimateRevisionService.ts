@@ -0,0 +1,43 @@
+/**
+ * Estimate Revision Service
+ *
+ * Read and restore the revision history the API keeps for each estimate.
+ */
+
+import { api } from './apiClient';
+import { EstimateRevision } from '../types';
+
+export const getEstimateRevisions = async (estimateId: string): Promise<EstimateRevision[]> => {
+  try {
+    const { data, error } = await api.get<EstimateRevision[]>(`/api/estimates/${estimateId}/revisions`);
+    if (error) {
+      console.error('getEstimateRevisions error:', error);
+      return [];
+    }
+    return data || [];
+  } catch (err) {
+    console.error('getEstimateRevisions exception:', err);
+    return [];
+  }
+};
+
+/** Returns the revision recorded for the restore, or null if it failed. */
+export const restoreEstimateRevision = async (
+  estimateId: string,
+  revisionId: string,
+): Promise<EstimateRevision | null> => {
+  try {
+    const { data, error } = await api.post<{ success: boolean; revision: EstimateRevision | null }>(
+      `/api/estimates/${estimateId}/revisions/${revisionId}/restore`,
+      {},
+    );
+    if (error) {
+      console.error('restoreEstimateRevision error:', error);
+      return null;
+    }
+    return data?.revision || null;
+  } catch (err) {
+    console.error('restoreEstimateRevision exception:', err);
+    return null;
+  }
+};
@@ -0,0 +1,41 @@
+/**
+ * Foam Product Service
+ *
+ * CRUD operations for the org's foam product catalog
+ * (per-manufacturer yield, set price, strokes and R-per-inch).
+ */
+
+import { api } from './apiClient';
+import { FoamProduct } from '../types';
+
+// ─── PRODUCT CRUD ───────────────────────────────────────────────────────────
+
+export const upsertFoamProduct = async (
+  product: Partial<FoamProduct>,
+): Promise<FoamProduct | null> => {
+  try {
+    const { data, error } = await api.post<FoamProduct>('/api/materials/products', product);
+    if (error) {
+      console.error('upsertFoamProduct error:', error);
+      return null;
+    }
+    return data;
+  } catch (err) {
+    console.error('upsertFoamProduct exception:', err);
+    return null;
+  }
+};
+
+export const deleteFoamProduct = async (productId: string): Promise<boolean> => {
+  try {
+    const { error } = await api.delete(`/api/materials/products/${productId}`);
+    if (error) {
+      console.error('deleteFoamProduct error:', error);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('deleteFoamProduct exception:', err);
+    return false;
+  }
+};
@@ -0,0 +1,56 @@
+/**
+ * Job Session Service
+ *
+ * Start, update and end a crew's work sessions on a work order. The API
+ * adds the sessions up into the job's actuals after every change.
+ */
+
+import { api } from './apiClient';
+import { JobConditions, JobSession } from '../types';
+import { localToday } from '../utils/receivables';
+
+export interface JobSessionUpdate {
+  openCellSets?: number;
+  closedCellSets?: number;
+  openCellStrokes?: number;
+  closedCellStrokes?: number;
+  laborHours?: number | null;
+  conditions?: JobConditions;
+  notes?: string;
+  // Ends the session if it is still running
+  end?: boolean;
+}
+
+/** Starts a session on the job, or hands back the one already running. */
+export const startJobSession = async (estimateId: string): Promise<{ session?: JobSession; error?: string }> => {
+  try {
+    const { data, error } = await api.post<JobSession>(`/api/estimates/${estimateId}/sessions`, { workDate: localToday() });
+    if (error) {
+      console.error('startJobSession error:', error);
+      return { error };
+    }
+    return { session: data };
+  } catch (err) {
+    console.error('startJobSession exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+/** Returns the updated session, or the reason the update was refused. */
+export const updateJobSession = async (
+  estimateId: string,
+  sessionId: string,
+  input: JobSessionUpdate,
+): Promise<{ session?: JobSession; error?: string }> => {
+  try {
+    const { data, error } = await api.patch<JobSession>(`/api/estimates/${estimateId}/sessions/${sessionId}`, input);
+    if (error) {
+      console.error('updateJobSession error:', error);
+      return { error };
+    }
+    return { session: data };
+  } catch (err) {
+    console.error('updateJobSession exception:', err);
+    return { error: 'Network error' };
+  }
+};
@@ -0,0 +1,67 @@
+/**
+ * Job Template Service
+ *
+ * Create, save and delete the org's job templates. Each save on the API is
+ * a new version, so updates send the version they were based on.
+ */
+
+import { api } from './apiClient';
+import { JobTemplate, JobTemplateData } from '../types';
+
+export interface JobTemplateInput {
+  name: string;
+  description?: string;
+  data: JobTemplateData;
+}
+
+/** Returns the new template, or the reason it was refused. */
+export const createJobTemplate = async (
+  input: JobTemplateInput,
+): Promise<{ template?: JobTemplate; error?: string }> => {
+  try {
+    const { data, error } = await api.post<JobTemplate>('/api/templates', input);
+    if (error) {
+      console.error('createJobTemplate error:', error);
+      return { error };
+    }
+    return { template: data };
+  } catch (err) {
+    console.error('createJobTemplate exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+/** Saves the next version of `template`. Returns it, or the reason it was refused. */
+export const updateJobTemplate = async (
+  template: JobTemplate,
+  input: Partial<JobTemplateInput>,
+): Promise<{ template?: JobTemplate; error?: string }> => {
+  try {
+    const { data, error } = await api.patch<JobTemplate>(`/api/templates/${template.id}`, {
+      ...input,
+      version: template.version,
+    });
+    if (error) {
+      console.error('updateJobTemplate error:', error);
+      return { error };
+    }
+    return { template: data };
+  } catch (err) {
+    console.error('updateJobTemplate exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+export const deleteJobTemplate = async (templateId: string): Promise<boolean> => {
+  try {
+    const { error } = await api.delete(`/api/templates/${templateId}`);
+    if (error) {
+      console.error('deleteJobTemplate error:', error);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('deleteJobTemplate exception:', err);
+    return false;
+  }
+};
@@ -0,0 +1,57 @@
+/**
+ * Payment Service
+ *
+ * Record and remove the deposits and payments the API keeps for each job.
+ * The API owns the balance, so these calls are never queued offline.
+ */
+
+import { api } from './apiClient';
+import { EstimateRecord, Payment, PaymentMethod } from '../types';
+
+export interface PaymentInput {
+  amount: number;
+  date: string;
+  method: PaymentMethod;
+  reference?: string;
+}
+
+export interface RecordedPayment {
+  payment: Payment;
+  // Paid once the payment clears the invoice balance
+  status: EstimateRecord['status'];
+  balance: number;
+  financials?: EstimateRecord['financials'];
+}
+
+/** Returns the recorded payment, or the reason it was refused. */
+export const recordPayment = async (
+  estimateId: string,
+  input: PaymentInput,
+): Promise<{ recorded?: RecordedPayment; error?: string }> => {
+  try {
+    const { data, error } = await api.post<RecordedPayment>(`/api/estimates/${estimateId}/payments`, input);
+    if (error) {
+      console.error('recordPayment error:', error);
+      return { error };
+    }
+    return { recorded: data };
+  } catch (err) {
+    console.error('recordPayment exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+/** Returns the reason the payment couldn't be removed, or null. */
+export const deletePayment = async (estimateId: string, paymentId: string): Promise<string | null> => {
+  try {
+    const { error } = await api.delete(`/api/estimates/${estimateId}/payments/${paymentId}`);
+    if (error) {
+      console.error('deletePayment error:', error);
+      return error;
+    }
+    return null;
+  } catch (err) {
+    console.error('deletePayment exception:', err);
+    return 'Network error';
+  }
+};
@@ -5,10 +5,17 @@ import {
   EstimateRecord,
   CustomerProfile,
   DocumentType,
-  FoamType,
+  EstimateOption,
+  AreaType,
+  TaxJurisdiction,
   statusToDocumentType,
-  formatDocumentNumber,
+  documentNumberFor,
 } from '../types';
+import { getSpecSurfaceTotals, getFoamSpecCost, describeFoamSpec, getRValueLines } from '../utils/calculatorHelpers';
+import { getMarginTargets, priceForMargin } from '../utils/marginPricing';
+import { hasEstimateOptions, priceEstimateOptions } from '../utils/estimateOptions';
+import { getJobTaxJurisdiction, getTaxJurisdiction, isTaxableCategory } from '../utils/salesTax';
+import { formatNumber, formatQuantity, unitLabel } from '../utils/units';
 
 // ============================================================
 // Types for editable PDF sections
@@ -19,6 +26,14 @@ export interface PDFLineItem {
   unit: string;
   unitPrice: string;
   total: string;
+  taxable?: boolean;
+}
+
+// One column of a good/better/best estimate
+export interface PDFOptionColumn {
+  name: string;
+  scopeLines: string[];
+  total: string;
 }
 
 export interface PDFDocumentData {
@@ -50,6 +65,9 @@ export interface PDFDocumentData {
   // Line items
   lineItems: PDFLineItem[];
 
+  // Good/better/best columns, shown side by side in place of line items on estimates
+  options: PDFOptionColumn[];
+
   // Totals
   subtotal: string;
   taxLabel: string;
@@ -67,6 +85,7 @@ export interface PDFDocumentData {
   paymentTerms: string;
   workScope: string;
   scheduledDate: string;
+  rValueLines: string[];
 }
 
 // ============================================================
@@ -103,13 +122,20 @@ export const buildPDFDocumentData = (
   const status = record?.status || 'Draft';
   const docType = overrideType ?? statusToDocumentType(status as EstimateRecord['status']);
 
+  // Saved jobs use the jurisdiction pinned to them ('' or missing = untaxed)
+  const jurisdiction = record
+    ? getTaxJurisdiction(state.taxJurisdictions, record.taxJurisdictionId)
+    : getJobTaxJurisdiction(state);
+
   // Build line items from custom lines or auto-generate
-  const lineItems = buildLineItems(state, results, record, docType);
+  const lineItems = buildLineItems(state, results, record, docType, jurisdiction);
+  const options = docType === DocumentType.ESTIMATE ? buildOptionColumns(state, record) : [];
 
-  // Compute subtotal from items
+  // Compute subtotal from items; tax applies only to the taxable ones
   const subtotal = lineItems.reduce((sum, li) => sum + (parseFloat(li.total) || 0), 0);
-  const taxRate = 0; // Foam Pro doesn't have tax on estimates — keep at 0 or make configurable
-  const tax = subtotal * (taxRate / 100);
+  const taxRate = jurisdiction?.rate || 0;
+  const taxableSubtotal = lineItems.filter(li => li.taxable).reduce((sum, li) => sum + (parseFloat(li.total) || 0), 0);
+  const tax = Math.round(taxableSubtotal * taxRate) / 100;
   const total = subtotal + tax;
 
   const displayDate = docType === DocumentType.INVOICE && record?.invoiceDate
@@ -119,8 +145,6 @@ export const buildPDFDocumentData = (
   const validDate = new Date(displayDate);
   validDate.setDate(validDate.getDate() + 30);
 
-  const baseNumber = record?.invoiceNumber || record?.id?.substring(0, 8).toUpperCase() || String(Math.floor(Math.random() * 10000 + 1000));
-
   const company = state.companyProfile;
   const companyAddr = [company.addressLine1, company.addressLine2]
     .filter(Boolean)
@@ -132,7 +156,7 @@ export const buildPDFDocumentData = (
   return {
     documentType: docType,
     documentTitle: docType,
-    documentNumber: formatDocumentNumber(baseNumber, docType),
+    documentNumber: documentNumberFor(record, docType),
     documentDate: displayDate.toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
@@ -154,8 +178,9 @@ export const buildPDFDocumentData = (
     jobName: 'Spray Foam Insulation',
     jobAddress: customer?.address || '',
     lineItems,
+    options,
     subtotal: subtotal.toFixed(2),
-    taxLabel: `Tax (${taxRate}%)`,
+    taxLabel: jurisdiction ? `${jurisdiction.name} Tax (${taxRate}%)` : `Tax (${taxRate}%)`,
     taxAmount: tax.toFixed(2),
     total: total.toFixed(2),
     notes: record?.notes || state.jobNotes || '',
@@ -170,15 +195,46 @@ export const buildPDFDocumentData = (
     paymentTerms: record?.paymentTerms || state.paymentTerms || 'Net 30',
     workScope: `Spray foam insulation per specifications`,
     scheduledDate: record?.scheduledDate || state.scheduledDate || '',
+    rValueLines: docType === DocumentType.WORK_ORDER ? [] : getRValueLines(results, record?.rValues, state.unitSystem),
   };
 };
 
+// Saved options carry the prices they were quoted at; unsaved ones are priced now
+function buildOptionColumns(state: CalculatorState, record: EstimateRecord | undefined): PDFOptionColumn[] {
+  let options: EstimateOption[] = [];
+  if (record) {
+    options = (record.options || []).length > 1 ? record.options! : [];
+  } else if (hasEstimateOptions(state)) {
+    options = priceEstimateOptions(state);
+  }
+  const units = state.unitSystem;
+
+  return options.map((option) => {
+    const scopeLines: string[] = [];
+    const results = option.results;
+    const spec = results ? getSpecSurfaceTotals(results) : undefined;
+    if (spec && spec.wallBdFt > 0) scopeLines.push(`Walls: ${describeFoamSpec(option.wallSettings, units)}`);
+    if (spec && spec.roofBdFt > 0) scopeLines.push(`Roof/Ceiling: ${describeFoamSpec(option.roofSettings, units)}`);
+    (results?.takeoffLines || []).forEach((line) => {
+      if (line.bdFt > 0) scopeLines.push(`${line.name}: ${formatQuantity(line.thickness, 'depth', units)} ${line.foamType}`);
+    });
+    if (results) scopeLines.push(...getRValueLines(results, results.rValues, units));
+
+    return {
+      name: option.name,
+      scopeLines,
+      total: (results?.totalCost || 0).toFixed(2),
+    };
+  });
+}
+
 // Build line items from record custom lines or auto-generate from calc results
 function buildLineItems(
   state: CalculatorState,
   results: CalculationResults,
   record: EstimateRecord | undefined,
-  docType: DocumentType
+  docType: DocumentType,
+  jurisdiction?: TaxJurisdiction
 ): PDFLineItem[] {
   // Check for saved custom lines
   const customLines =
@@ -195,6 +251,7 @@ function buildLineItems(
       unit: 'ea',
       unitPrice: String(Number(line.amount) || 0),
       total: String(Number(line.amount) || 0),
+      taxable: !!line.taxable,
     }));
   }
 
@@ -202,57 +259,79 @@ function buildLineItems(
   const items: PDFLineItem[] = [];
   const wallSettings = record ? record.wallSettings : state.wallSettings;
   const roofSettings = record ? record.roofSettings : state.roofSettings;
+  // Saved jobs price against the products and site conditions saved with them
+  const materialSource = record
+    ? { ...state, lockedProducts: record.materials?.products, jobConditions: record.inputs.jobConditions }
+    : state;
   const pricingMode = record?.pricingMode || state.pricingMode;
   const sqFtRates = record?.sqFtRates || state.sqFtRates;
+  const margins = getMarginTargets(record?.marginTargets || state.marginTargets);
+  const spec = getSpecSurfaceTotals(results);
+  const units = state.unitSystem;
+  const areaUnit = unitLabel('area', units);
 
-  if (results.wallBdFt > 0) {
+  if (spec.wallBdFt > 0) {
     let lineCost = 0;
     if (pricingMode === 'sqft_pricing') {
-      lineCost = results.totalWallArea * (sqFtRates.wall || 0);
+      lineCost = spec.wallArea * (sqFtRates.wall || 0);
     } else {
-      const costPerSet =
-        wallSettings.type === FoamType.OPEN_CELL
-          ? state.costs.openCell
-          : state.costs.closedCell;
-      const yieldPerSet =
-        wallSettings.type === FoamType.OPEN_CELL
-          ? state.yields.openCell
-          : state.yields.closedCell;
-      lineCost = (results.wallBdFt / yieldPerSet) * costPerSet;
+      lineCost = getFoamSpecCost(wallSettings, spec.wallArea, materialSource);
+      if (pricingMode === 'margin_pricing') lineCost = priceForMargin(lineCost, margins.chemical);
     }
     items.push({
-      description: `Wall Insulation — ${wallSettings.thickness}" ${wallSettings.type}`,
-      quantity: String(Math.round(results.totalWallArea)),
-      unit: 'sqft',
+      description: `Wall Insulation — ${describeFoamSpec(wallSettings, units)}`,
+      quantity: formatNumber(spec.wallArea, 'area', units, 0),
+      unit: areaUnit,
       unitPrice: state.showPricing ? lineCost.toFixed(2) : '0.00',
       total: state.showPricing ? lineCost.toFixed(2) : '0.00',
+      taxable: isTaxableCategory('material', jurisdiction),
+    });
+  }
+
+  if ((results.openingDeduction || 0) > 0) {
+    items.push({
+      description: 'Less: Window/Door Openings (deducted from wall area)',
+      quantity: `-${formatNumber(results.openingDeduction, 'area', units, 0)}`,
+      unit: areaUnit,
+      unitPrice: '0.00',
+      total: '0.00',
     });
   }
 
-  if (results.roofBdFt > 0) {
+  if (spec.roofBdFt > 0) {
     let lineCost = 0;
     if (pricingMode === 'sqft_pricing') {
-      lineCost = results.totalRoofArea * (sqFtRates.roof || 0);
+      lineCost = spec.roofArea * (sqFtRates.roof || 0);
     } else {
-      const costPerSet =
-        roofSettings.type === FoamType.OPEN_CELL
-          ? state.costs.openCell
-          : state.costs.closedCell;
-      const yieldPerSet =
-        roofSettings.type === FoamType.OPEN_CELL
-          ? state.yields.openCell
-          : state.yields.closedCell;
-      lineCost = (results.roofBdFt / yieldPerSet) * costPerSet;
+      lineCost = getFoamSpecCost(roofSettings, spec.roofArea, materialSource);
+      if (pricingMode === 'margin_pricing') lineCost = priceForMargin(lineCost, margins.chemical);
     }
     items.push({
-      description: `Roof/Ceiling Insulation — ${roofSettings.thickness}" ${roofSettings.type}`,
-      quantity: String(Math.round(results.totalRoofArea)),
-      unit: 'sqft',
+      description: `Roof/Ceiling Insulation — ${describeFoamSpec(roofSettings, units)}`,
+      quantity: formatNumber(spec.roofArea, 'area', units, 0),
+      unit: areaUnit,
       unitPrice: state.showPricing ? lineCost.toFixed(2) : '0.00',
       total: state.showPricing ? lineCost.toFixed(2) : '0.00',
+      taxable: isTaxableCategory('material', jurisdiction),
     });
   }
 
+  // Custom takeoff lines — one row per surface with its own spec
+  (results.takeoffLines || []).forEach((line) => {
+    if (line.bdFt <= 0) return;
+    const lineCost = pricingMode === 'sqft_pricing'
+      ? line.area * ((line.surfaceType === AreaType.ROOF ? sqFtRates.roof : sqFtRates.wall) || 0)
+      : pricingMode === 'margin_pricing' ? priceForMargin(line.cost, margins.chemical) : line.cost;
+    items.push({
+      description: `${line.name} — ${formatQuantity(line.thickness, 'depth', units)} ${line.foamType} (${formatQuantity(line.bdFt, 'volume', units)}, ${line.sets.toFixed(2)} sets)`,
+      quantity: formatNumber(line.area, 'area', units, 0),
+      unit: areaUnit,
+      unitPrice: state.showPricing ? lineCost.toFixed(2) : '0.00',
+      total: state.showPricing ? lineCost.toFixed(2) : '0.00',
+      taxable: isTaxableCategory('material', jurisdiction),
+    });
+  });
+
   // Inventory items
   const inventory = record ? record.materials.inventory : state.inventory;
   inventory.forEach((item) => {
@@ -266,13 +345,15 @@ function buildLineItems(
   });
 
   // Labor
-  if (pricingMode === 'level_pricing' && results.laborCost > 0 && state.showPricing) {
+  if (pricingMode !== 'sqft_pricing' && results.laborCost > 0 && state.showPricing) {
+    const laborPrice = pricingMode === 'margin_pricing' ? priceForMargin(results.laborCost, margins.labor) : results.laborCost;
     items.push({
-      description: `Application Labor (${state.expenses.manHours} hours)`,
+      description: `Application Labor (${results.manHours ?? state.expenses.manHours} hours)`,
       quantity: '1',
       unit: 'job',
-      unitPrice: results.laborCost.toFixed(2),
-      total: results.laborCost.toFixed(2),
+      unitPrice: laborPrice.toFixed(2),
+      total: laborPrice.toFixed(2),
+      taxable: isTaxableCategory('labor', jurisdiction),
     });
   }
 
@@ -440,93 +521,140 @@ export const generatePDFFromData = (data: PDFDocumentData): jsPDF => {
 
   y = Math.max(leftY, rightY) + 20;
 
-  // ── LINE ITEMS TABLE ──
-  checkPageBreak(80);
+  // ── OPTIONS (side by side) ──
+  const showOptions = data.options.length > 1;
+  if (showOptions) {
+    const gap = 12;
+    const perRow = Math.min(data.options.length, 3);
+    const cardWidth = (contentWidth - gap * (perRow - 1)) / perRow;
+
+    for (let start = 0; start < data.options.length; start += perRow) {
+      const row = data.options.slice(start, start + perRow);
+      doc.setFontSize(8);
+      const wrapped = row.map((option) =>
+        option.scopeLines.flatMap((line) => doc.splitTextToSize(line, cardWidth - 16) as string[])
+      );
+      const cardHeight = 28 + Math.max(...wrapped.map((lines) => lines.length)) * 11 + 40;
+      checkPageBreak(cardHeight + 10);
+
+      row.forEach((option, i) => {
+        const x = margin + i * (cardWidth + gap);
+        doc.setDrawColor(...borderColor);
+        doc.setFillColor(...lightBg);
+        doc.roundedRect(x, y, cardWidth, cardHeight, 3, 3, 'FD');
+        doc.setFillColor(...brandColor);
+        doc.rect(x, y, cardWidth, 22, 'F');
+
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(255, 255, 255);
+        doc.text(option.name.toUpperCase(), x + cardWidth / 2, y + 15, { align: 'center' });
+
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(...darkText);
+        doc.text(wrapped[i], x + 8, y + 36);
+
+        doc.setFontSize(14);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(...brandColor);
+        doc.text(`$${option.total}`, x + cardWidth / 2, y + cardHeight - 14, { align: 'center' });
+      });
+
+      y += cardHeight + gap;
+    }
+    y += 10;
+  }
 
-  const colDesc = margin;
-  const colQty = margin + contentWidth * 0.5;
-  const colUnit = margin + contentWidth * 0.6;
-  const colPrice = margin + contentWidth * 0.73;
-  const colTotal = margin + contentWidth * 0.87;
+  if (!showOptions) {
+    // ── LINE ITEMS TABLE ──
+    checkPageBreak(80);
 
-  doc.setFillColor(...lightBg);
-  doc.rect(margin, y, contentWidth, 22, 'F');
-  doc.setDrawColor(...borderColor);
-  doc.rect(margin, y, contentWidth, 22, 'S');
+    const colDesc = margin;
+    const colQty = margin + contentWidth * 0.5;
+    const colUnit = margin + contentWidth * 0.6;
+    const colPrice = margin + contentWidth * 0.73;
+    const colTotal = margin + contentWidth * 0.87;
 
-  doc.setFontSize(8);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(...medText);
-  doc.text('DESCRIPTION', colDesc + 8, y + 14);
-  doc.text('QTY', colQty + 4, y + 14);
-  doc.text('UNIT', colUnit + 4, y + 14);
-  doc.text('PRICE', colPrice + 4, y + 14);
-  doc.text('TOTAL', colTotal + 4, y + 14);
+    doc.setFillColor(...lightBg);
+    doc.rect(margin, y, contentWidth, 22, 'F');
+    doc.setDrawColor(...borderColor);
+    doc.rect(margin, y, contentWidth, 22, 'S');
 
-  y += 22;
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...medText);
+    doc.text('DESCRIPTION', colDesc + 8, y + 14);
+    doc.text('QTY', colQty + 4, y + 14);
+    doc.text('UNIT', colUnit + 4, y + 14);
+    doc.text('PRICE', colPrice + 4, y + 14);
+    doc.text('TOTAL', colTotal + 4, y + 14);
 
-  doc.setFontSize(9);
-  data.lineItems.forEach((item, idx) => {
-    checkPageBreak(30);
-    const rowH = 24;
+    y += 22;
 
-    if (idx % 2 === 0) {
-      doc.setFillColor(255, 255, 255);
-    } else {
-      doc.setFillColor(252, 252, 253);
-    }
-    doc.rect(margin, y, contentWidth, rowH, 'F');
-    doc.setDrawColor(...borderColor);
-    doc.line(margin, y + rowH, pageWidth - margin, y + rowH);
+    doc.setFontSize(9);
+    data.lineItems.forEach((item, idx) => {
+      checkPageBreak(30);
+      const rowH = 24;
+
+      if (idx % 2 === 0) {
+        doc.setFillColor(255, 255, 255);
+      } else {
+        doc.setFillColor(252, 252, 253);
+      }
+      doc.rect(margin, y, contentWidth, rowH, 'F');
+      doc.setDrawColor(...borderColor);
+      doc.line(margin, y + rowH, pageWidth - margin, y + rowH);
 
-    doc.setFont('helvetica', 'normal');
-    doc.setTextColor(...darkText);
-    const maxDescWidth = colQty - colDesc - 16;
-    const descText = doc.splitTextToSize(item.description, maxDescWidth);
-    doc.text(descText[0] || '', colDesc + 8, y + 15);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...darkText);
+      const maxDescWidth = colQty - colDesc - 16;
+      const descText = doc.splitTextToSize(item.description, maxDescWidth);
+      doc.text(descText[0] || '', colDesc + 8, y + 15);
 
-    doc.setTextColor(...medText);
-    doc.text(item.quantity, colQty + 4, y + 15);
-    doc.text(item.unit, colUnit + 4, y + 15);
+      doc.setTextColor(...medText);
+      doc.text(item.quantity, colQty + 4, y + 15);
+      doc.text(item.unit, colUnit + 4, y + 15);
 
-    doc.setTextColor(...darkText);
-    doc.text(`$${item.unitPrice}`, colPrice + 4, y + 15);
-    doc.setFont('helvetica', 'bold');
-    doc.text(`$${item.total}`, colTotal + 4, y + 15);
+      doc.setTextColor(...darkText);
+      doc.text(`$${item.unitPrice}`, colPrice + 4, y + 15);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`$${item.total}`, colTotal + 4, y + 15);
 
-    y += rowH;
-  });
+      y += rowH;
+    });
 
-  // ── TOTALS ──
-  y += 10;
-  checkPageBreak(80);
+    // ── TOTALS ──
+    y += 10;
+    checkPageBreak(80);
 
-  const totalsX = margin + contentWidth * 0.6;
-  const totalsValueX = pageWidth - margin;
+    const totalsX = margin + contentWidth * 0.6;
+    const totalsValueX = pageWidth - margin;
 
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(...medText);
-  doc.text('Subtotal', totalsX, y + 14);
-  doc.setTextColor(...darkText);
-  doc.text(`$${data.subtotal}`, totalsValueX, y + 14, { align: 'right' });
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...medText);
+    doc.text('Subtotal', totalsX, y + 14);
+    doc.setTextColor(...darkText);
+    doc.text(`$${data.subtotal}`, totalsValueX, y + 14, { align: 'right' });
 
-  y += 20;
-  doc.setTextColor(...medText);
-  doc.text(data.taxLabel, totalsX, y + 14);
-  doc.setTextColor(...darkText);
-  doc.text(`$${data.taxAmount}`, totalsValueX, y + 14, { align: 'right' });
+    y += 20;
+    doc.setTextColor(...medText);
+    doc.text(data.taxLabel, totalsX, y + 14);
+    doc.setTextColor(...darkText);
+    doc.text(`$${data.taxAmount}`, totalsValueX, y + 14, { align: 'right' });
 
-  y += 24;
-  doc.setFillColor(...brandColor);
-  doc.roundedRect(totalsX - 8, y, pageWidth - margin - totalsX + 8, 30, 3, 3, 'F');
-  doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(255, 255, 255);
-  doc.text('TOTAL', totalsX + 4, y + 20);
-  doc.text(`$${data.total}`, totalsValueX - 8, y + 20, { align: 'right' });
+    y += 24;
+    doc.setFillColor(...brandColor);
+    doc.roundedRect(totalsX - 8, y, pageWidth - margin - totalsX + 8, 30, 3, 3, 'F');
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(255, 255, 255);
+    doc.text('TOTAL', totalsX + 4, y + 20);
+    doc.text(`$${data.total}`, totalsValueX - 8, y + 20, { align: 'right' });
 
-  y += 50;
+    y += 50;
+  }
 
   // ── NOTES ──
   if (data.notes) {
@@ -544,6 +672,25 @@ export const generatePDFFromData = (data: PDFDocumentData): jsPDF => {
     y += noteLines.length * 12 + 10;
   }
 
+  // ── INSULATION R-VALUES ──
+  if (data.rValueLines && data.rValueLines.length > 0) {
+    checkPageBreak(40 + data.rValueLines.length * 12);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...brandColor);
+    doc.text('INSULATION R-VALUES', margin, y);
+    y += 12;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...medText);
+    data.rValueLines.forEach((line) => {
+      const wrapped = doc.splitTextToSize(line, contentWidth);
+      doc.text(wrapped, margin, y);
+      y += wrapped.length * 12;
+    });
+    y += 10;
+  }
+
   // ── TERMS ──
   if (data.termsAndConditions) {
     checkPageBreak(60);
@@ -587,6 +734,12 @@ export const generatePDFFromData = (data: PDFDocumentData): jsPDF => {
     doc.text('Signature', margin, y + 14);
     doc.text('Date', margin + contentWidth * 0.55, y + 14);
     y += 30;
+    if (showOptions) {
+      doc.setFontSize(9);
+      doc.setTextColor(...darkText);
+      doc.text(`Option accepted (${data.options.map((o) => o.name).join(' / ')}): ______________________`, margin, y);
+      y += 20;
+    }
   }
 
   if (data.documentType === DocumentType.WORK_ORDER) {
@@ -0,0 +1,37 @@
+/**
+ * Receivables Service
+ *
+ * Read the overdue reminder log and trigger a reminder run on the API.
+ */
+
+import { api } from './apiClient';
+import { ReminderEmail } from '../types';
+
+export const getReminderEmails = async (): Promise<ReminderEmail[]> => {
+  try {
+    const { data, error } = await api.get<ReminderEmail[]>('/api/receivables/reminders');
+    if (error) {
+      console.error('getReminderEmails error:', error);
+      return [];
+    }
+    return data || [];
+  } catch (err) {
+    console.error('getReminderEmails exception:', err);
+    return [];
+  }
+};
+
+/** Queues the reminders now due and sends the queue. Returns the counts, or null if it failed. */
+export const runReminders = async (): Promise<{ queued: number; sent: number } | null> => {
+  try {
+    const { data, error } = await api.post<{ queued: number; sent: number }>('/api/receivables/reminders/run', {});
+    if (error) {
+      console.error('runReminders error:', error);
+      return null;
+    }
+    return data || null;
+  } catch (err) {
+    console.error('runReminders exception:', err);
+    return null;
+  }
+};
@@ -0,0 +1,29 @@
+/**
+ * Schedule Service
+ *
+ * Book work orders onto the calendar: start date, length in days and crew.
+ */
+
+import { api } from './apiClient';
+
+export interface JobScheduleUpdate {
+  // null clears the field
+  scheduledDate?: string | null;
+  scheduledDays?: number | null;
+  crewId?: string | null;
+}
+
+/** Returns the reason the booking was refused, or null. */
+export const updateJobSchedule = async (estimateId: string, updates: JobScheduleUpdate): Promise<string | null> => {
+  try {
+    const { error } = await api.patch(`/api/estimates/${estimateId}/status`, updates);
+    if (error) {
+      console.error('updateJobSchedule error:', error);
+      return error;
+    }
+    return null;
+  } catch (err) {
+    console.error('updateJobSchedule exception:', err);
+    return 'Network error';
+  }
+};
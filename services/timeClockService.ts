@@ -0,0 +1,151 @@
+/**
+ * Time Clock Service
+ *
+ * Punch crew members in and out of jobs, travel, shop time and breaks, and
+ * read, correct and approve the entries behind the weekly timesheets. The
+ * API stamps the times, so punches are never queued offline.
+ */
+
+import { api } from './apiClient';
+import { TimeEntry, TimeEntryKind } from '../types';
+import { localToday } from '../utils/receivables';
+
+export interface PunchInput {
+  // Defaults to whoever is logged in
+  userId?: string;
+  kind: TimeEntryKind;
+  estimateId?: string;
+}
+
+export interface TimeEntryInput {
+  userId: string;
+  kind: TimeEntryKind;
+  estimateId?: string | null;
+  workDate: string;
+  clockIn: string;
+  clockOut: string;
+  notes?: string;
+}
+
+/** Entries still clocked in, for the people this login can punch. */
+export const getOpenEntries = async (): Promise<TimeEntry[]> => {
+  try {
+    const { data, error } = await api.get<TimeEntry[]>('/api/time/open');
+    if (error) {
+      console.error('getOpenEntries error:', error);
+      return [];
+    }
+    return data || [];
+  } catch (err) {
+    console.error('getOpenEntries exception:', err);
+    return [];
+  }
+};
+
+/** Ends whatever the person is on and starts the new entry. Returns it, or the reason it was refused. */
+export const punch = async (input: PunchInput): Promise<{ entry?: TimeEntry; error?: string }> => {
+  try {
+    const { data, error } = await api.post<TimeEntry>('/api/time/punch', { ...input, workDate: localToday() });
+    if (error) {
+      console.error('punch error:', error);
+      return { error };
+    }
+    return { entry: data };
+  } catch (err) {
+    console.error('punch exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+/** Returns the reason the clock-out was refused, or null. */
+export const clockOut = async (userId?: string): Promise<string | null> => {
+  try {
+    const { error } = await api.post('/api/time/clock-out', { userId });
+    if (error) {
+      console.error('clockOut error:', error);
+      return error;
+    }
+    return null;
+  } catch (err) {
+    console.error('clockOut exception:', err);
+    return 'Network error';
+  }
+};
+
+/** Entries with a work date in the range, or null if they couldn't be loaded. */
+export const getTimeEntries = async (from: string, to: string): Promise<TimeEntry[] | null> => {
+  try {
+    const { data, error } = await api.get<TimeEntry[]>(`/api/time/entries?from=${from}&to=${to}`);
+    if (error) {
+      console.error('getTimeEntries error:', error);
+      return null;
+    }
+    return data || [];
+  } catch (err) {
+    console.error('getTimeEntries exception:', err);
+    return null;
+  }
+};
+
+/** Returns the new entry, or the reason it was refused. */
+export const createTimeEntry = async (input: TimeEntryInput): Promise<{ entry?: TimeEntry; error?: string }> => {
+  try {
+    const { data, error } = await api.post<TimeEntry>('/api/time/entries', input);
+    if (error) {
+      console.error('createTimeEntry error:', error);
+      return { error };
+    }
+    return { entry: data };
+  } catch (err) {
+    console.error('createTimeEntry exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+/** Returns the corrected entry, or the reason it was refused. */
+export const updateTimeEntry = async (
+  id: string,
+  input: Partial<Omit<TimeEntryInput, 'userId'>>,
+): Promise<{ entry?: TimeEntry; error?: string }> => {
+  try {
+    const { data, error } = await api.patch<TimeEntry>(`/api/time/entries/${id}`, input);
+    if (error) {
+      console.error('updateTimeEntry error:', error);
+      return { error };
+    }
+    return { entry: data };
+  } catch (err) {
+    console.error('updateTimeEntry exception:', err);
+    return { error: 'Network error' };
+  }
+};
+
+/** Returns the reason the entry couldn't be removed, or null. */
+export const deleteTimeEntry = async (id: string): Promise<string | null> => {
+  try {
+    const { error } = await api.delete(`/api/time/entries/${id}`);
+    if (error) {
+      console.error('deleteTimeEntry error:', error);
+      return error;
+    }
+    return null;
+  } catch (err) {
+    console.error('deleteTimeEntry exception:', err);
+    return 'Network error';
+  }
+};
+
+/** Approves or reopens one person's week. Returns the reason it was refused, or null. */
+export const setTimesheetApproval = async (weekStart: string, userId: string, approved: boolean): Promise<string | null> => {
+  try {
+    const { error } = await api.patch(`/api/time/weeks/${weekStart}`, { userId, approved });
+    if (error) {
+      console.error('setTimesheetApproval error:', error);
+      return error;
+    }
+    return null;
+  } catch (err) {
+    console.error('setTimesheetApproval exception:', err);
+    return 'Network error';
+  }
+};
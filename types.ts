@@ -16,10 +16,128 @@ export enum AreaType {
   ROOF = 'Roof',
 }
 
+export enum RoofType {
+  GABLE = 'Gable',
+  HIP = 'Hip',
+  GAMBREL = 'Gambrel',
+  SHED = 'Shed',
+  DUAL_PITCH = 'Dual Pitch',
+}
+
+export enum OpeningType {
+  WINDOW = 'Window',
+  DOOR = 'Door',
+  OVERHEAD_DOOR = 'Overhead Door',
+  OTHER = 'Other',
+}
+
+export enum InsulationAssembly {
+  WALL = 'Wall',
+  ATTIC = 'Attic',
+  CRAWLSPACE = 'Crawlspace',
+}
+
+export enum Season {
+  SPRING = 'Spring',
+  SUMMER = 'Summer',
+  FALL = 'Fall',
+  WINTER = 'Winter',
+}
+
+export type ClimateZone = '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8';
+
+/** How a spec's depth is set: typed in inches, derived from a target R, or from the code table */
+export type ThicknessMode = 'inches' | 'target_r' | 'code';
+
+/** Org display preference. Stored values are always imperial (ft, sqft, bdft, in, °F). */
+export type UnitSystem = 'imperial' | 'metric';
+
+export type PricingMode = 'level_pricing' | 'sqft_pricing' | 'margin_pricing';
+
+/** Site readings that drive yield derating (temperatures in °F, humidity in %RH) */
+export interface JobConditions {
+  ambientTempF?: number;
+  substrateTempF?: number;
+  humidity?: number;
+  season?: Season;
+}
+
+export interface DeratePoint {
+  tempF: number;
+  yieldPercent: number;
+}
+
+/**
+ * Yield (as % of nominal) by substrate temperature, interpolated between
+ * points, plus a flat penalty above a humidity threshold.
+ */
+export interface YieldDerateCurve {
+  points: DeratePoint[];
+  humidityThreshold?: number;
+  humidityPenaltyPercent?: number;
+}
+
+/** Org catalog entry: one manufacturer's foam with its own yield, set price, strokes and R-value */
+export interface FoamProduct {
+  id: string;
+  name: string;
+  manufacturer: string;
+  foamType: FoamType;
+  yield: number;          // bdft per set
+  costPerSet: number;
+  strokesPerSet: number;
+  rPerInch: number;
+  active: boolean;
+  // Empty/missing means the org-wide curve applies
+  derateCurve?: YieldDerateCurve;
+}
+
+export interface FoamLayer {
+  type: FoamType;
+  thickness: number;
+  wastePercentage: number;
+  productId?: string;
+}
+
+/**
+ * Spray spec for a surface. `layers` (in spray order) describes a hybrid
+ * build-up such as flash-and-batt; when present, `type` mirrors the first
+ * pass and `thickness` the total depth.
+ */
 export interface FoamSettings {
   type: FoamType;
   thickness: number;
   wastePercentage: number;
+  productId?: string;
+  layers?: FoamLayer[];
+  thicknessMode?: ThicknessMode;
+  targetRValue?: number;
+  climateZone?: ClimateZone;
+  assembly?: InsulationAssembly;
+}
+
+export interface RValueCheck {
+  achieved: number;
+  required?: number;
+  requiredSource?: string;
+  meetsRequirement?: boolean;
+}
+
+export interface RValueSummary {
+  wall: RValueCheck;
+  roof: RValueCheck;
+}
+
+export interface FoamLayerResult {
+  type: FoamType;
+  productId?: string;
+  thickness: number;
+  bdFt: number;
+  sets: number;
+  strokes: number;
+  cost: number;
+  // Fraction of nominal yield after job-condition derating (1 = none)
+  yieldFactor?: number;
 }
 
 export interface AdditionalArea {
@@ -28,6 +146,50 @@ export interface AdditionalArea {
   width: number;
 }
 
+/** Window/door opening deducted from the base wall area (dimensions in ft) */
+export interface WallOpening {
+  id: string;
+  type: OpeningType;
+  width: number;
+  height: number;
+  count: number;
+}
+
+export const OPENING_PRESETS: { label: string; type: OpeningType; width: number; height: number }[] = [
+  { label: 'Window 3x4',          type: OpeningType.WINDOW,        width: 3,  height: 4  },
+  { label: 'Window 3x5',          type: OpeningType.WINDOW,        width: 3,  height: 5  },
+  { label: 'Window 6x4 (Double)', type: OpeningType.WINDOW,        width: 6,  height: 4  },
+  { label: 'Entry Door 3x6.8',    type: OpeningType.DOOR,          width: 3,  height: 6.8 },
+  { label: 'Patio Door 6x6.8',    type: OpeningType.DOOR,          width: 6,  height: 6.8 },
+  { label: 'Overhead Door 9x7',   type: OpeningType.OVERHEAD_DOOR, width: 9,  height: 7  },
+  { label: 'Overhead Door 16x7',  type: OpeningType.OVERHEAD_DOOR, width: 16, height: 7  },
+  { label: 'Overhead Door 12x12', type: OpeningType.OVERHEAD_DOOR, width: 12, height: 12 },
+];
+
+/** A named surface in a Custom takeoff, carrying its own foam spec */
+export interface TakeoffLine {
+  id: string;
+  name: string;
+  surfaceType: AreaType;
+  length: number;
+  width: number;
+  foam: FoamSettings;
+}
+
+export interface TakeoffLineResult {
+  id: string;
+  name: string;
+  surfaceType: AreaType;
+  foamType: FoamType;
+  productId?: string;
+  thickness: number;
+  area: number;
+  bdFt: number;
+  sets: number;
+  strokes: number;
+  cost: number;
+}
+
 export interface InventoryItem {
   id: string;
   warehouseItemId?: string;
@@ -84,8 +246,168 @@ export interface CustomerProfile {
   status: 'Active' | 'Archived' | 'Lead';
 }
 
+/** Crew throughput used to suggest man-hours from board feet */
+export interface ProductionRates {
+  openCellBdFtPerHour: number;
+  closedCellBdFtPerHour: number;
+  setupHours: number; // setup + teardown per job, in crew-hours
+  crewSize: number;   // people on the rig; man-hours = crew-hours × crew size
+}
+
+/** A field crew. Work orders are assigned to one, and its logins see only those */
+export interface Crew {
+  id: string;
+  name: string;
+  // Names of its active crew accounts
+  members: string[];
+  // Tracked equipment item the crew runs
+  rigId?: string;
+}
+
+/** A person's crew login. They sign in with their name and their own PIN */
+export interface CrewMember {
+  id: string;
+  name: string;
+  crewId?: string;
+  // Off: can't log in, and any open session stops working
+  active: boolean;
+}
+
+/** The org's working calendar, used to lay multi-day jobs out on the schedule */
+export interface SchedulingSettings {
+  hoursPerDay: number; // crew-hours one crew works in a day
+  workDays: number[];  // 0 = Sunday … 6 = Saturday
+}
+
+/** When timesheet hours count as overtime */
+export interface PayrollSettings {
+  weekStartsOn: number;        // 0 = Sunday … 6 = Saturday
+  weeklyOvertimeHours: number; // paid hours in a week before overtime
+  dailyOvertimeHours: number;  // paid hours in a day before overtime; 0 = no daily overtime
+}
+
+/** What a time clock punch is for. Breaks are unpaid; the rest is paid time */
+export type TimeEntryKind = 'job' | 'travel' | 'shop' | 'break';
+
+/** One person's clock-in to clock-out */
+export interface TimeEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  kind: TimeEntryKind;
+  // Set for job time
+  estimateId?: string;
+  workDate: string; // YYYY-MM-DD the entry counts toward
+  clockIn: string;
+  clockOut?: string; // unset while clocked in
+  notes?: string;
+  approvedAt?: string;
+  approvedBy?: string;
+}
+
+/** One person's hours for one week, as approved and exported for payroll */
+export interface TimesheetWeek {
+  userId: string;
+  userName: string;
+  weekStart: string;
+  jobHours: number;
+  travelHours: number;
+  shopHours: number;
+  breakHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  approved: boolean;
+  clockedIn: boolean;
+  entries: TimeEntry[];
+}
+
+/** One crew's visit to a work order: its time on site and what it sprayed */
+export interface JobSession {
+  id: string;
+  estimateId: string;
+  crewId?: string;
+  crewName?: string;
+  workDate: string; // YYYY-MM-DD on site
+  startedAt: string;
+  endedAt?: string; // unset while the session is running
+  startedBy: string;
+  endedBy?: string;
+  openCellSets: number;
+  closedCellSets: number;
+  openCellStrokes: number;
+  closedCellStrokes: number;
+  // Crew-hours; the session's length when not entered
+  laborHours?: number;
+  conditions?: JobConditions;
+  notes?: string;
+}
+
+/** Documents the API numbers in sequence, one counter each per org */
+export type DocumentNumberKind = 'estimate' | 'workOrder' | 'invoice';
+
+/** How an org's numbers are written, e.g. INV-2026-0042 */
+export interface DocumentNumberFormat {
+  prefix: string;
+  includeYear: boolean; // the sequence restarts at 1 each year
+  padding: number;      // minimum digits, zero-filled
+}
+
+export type DocumentNumbering = Record<DocumentNumberKind, DocumentNumberFormat>;
+
+/** Days past an invoice's due date, bucketed for the receivables aging report */
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+/** One email in an overdue reminder schedule, sent once an invoice is this many days past due */
+export interface ReminderStep {
+  id: string;
+  daysOverdue: number;
+  subject: string;
+  message: string;
+}
+
+/** A late fee: a flat amount or a percentage of the balance, optionally charged again every 30 days */
+export interface LateFeeRule {
+  enabled: boolean;
+  type: 'flat' | 'percent';
+  amount: number;
+  graceDays: number;
+  repeatMonthly: boolean;
+}
+
+export interface ReceivablesSettings {
+  remindersEnabled: boolean;
+  reminderSteps: ReminderStep[];
+  lateFee: LateFeeRule;
+}
+
+/** An overdue reminder queued by the API, and whether it was delivered */
+export interface ReminderEmail {
+  id: string;
+  estimateId?: string;
+  customerId?: string;
+  reminderStepId?: string;
+  to: string;
+  subject: string;
+  status: 'queued' | 'sent' | 'failed';
+  attempts: number;
+  lastError?: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
+/** Target gross margins (%) for margin pricing; a blank category uses `overall` */
+export interface MarginTargets {
+  overall: number;
+  chemical?: number;
+  labor?: number;
+  inventory?: number;
+}
+
 export interface EstimateExpenses {
   manHours: number;
+  // 'auto' bills the production-rate suggestion; unset means typed by hand (older jobs)
+  manHoursMode?: 'auto' | 'manual';
+  crewSize?: number;
   laborRate?: number;
   tripCharge: number;
   fuelSurcharge: number;
@@ -95,12 +417,35 @@ export interface EstimateExpenses {
   };
 }
 
+export type SalesTaxCategory = 'material' | 'labor' | 'fee';
+
+/** An org-managed sales tax jurisdiction. States differ on taxing installation labor. */
+export interface TaxJurisdiction {
+  id: string;
+  name: string;
+  rate: number; // percent
+  taxMaterials: boolean;
+  taxLabor: boolean;
+}
+
+/** Tax figured on a job or document, kept apart from the pre-tax job value */
+export interface SalesTaxSummary {
+  jurisdictionId: string;
+  jurisdictionName: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
 export interface InvoiceLineItem {
   id: string;
   item: string;
   description: string;
   qty: string;
   amount: number;
+  // Defaults from the category and the job's jurisdiction; editable per line
+  taxCategory?: SalesTaxCategory;
+  taxable?: boolean;
 }
 
 export interface MaterialUsageLogEntry {
@@ -138,6 +483,7 @@ export interface CalculationResults {
   perimeter: number;
   slopeFactor: number;
   baseWallArea: number;
+  openingDeduction: number;
   gableArea: number;
   totalWallArea: number;
   baseRoofArea: number;
@@ -145,6 +491,13 @@ export interface CalculationResults {
   
   wallBdFt: number;
   roofBdFt: number;
+
+  // Per-pass build-up for the wall / roof specs
+  wallLayers?: FoamLayerResult[];
+  roofLayers?: FoamLayerResult[];
+
+  // Achieved vs. required R-value per spec
+  rValues?: RValueSummary;
   
   totalOpenCellBdFt: number;
   totalClosedCellBdFt: number;
@@ -155,16 +508,80 @@ export interface CalculationResults {
   // Added Stroke Counts
   openCellStrokes: number;
   closedCellStrokes: number;
+  // Sets with vs. without job-condition derating, per foam type (present when conditions are set)
+  yieldFactors?: { openCell: number; closedCell: number };
+
+  // Blended across the products used (crew stroke → set conversion)
+  ocStrokesPerSet?: number;
+  ccStrokesPerSet?: number;
 
   openCellCost: number;
   closedCellCost: number;
   
   inventoryCost: number; 
 
+  // Man-hours from production rates, and the hours actually billed (suggestion or override)
+  suggestedManHours?: number;
+  manHours?: number;
+
   laborCost: number;
   miscExpenses: number;
   materialCost: number; 
   totalCost: number; 
+
+  // Blended gross margin the sell price was solved for (margin pricing only)
+  marginFloor?: number;
+
+  // Tax on top of totalCost for the job's jurisdiction (none when untaxed)
+  salesTax?: SalesTaxSummary;
+
+  // Per-line breakdown (Custom takeoff mode only)
+  takeoffLines?: TakeoffLineResult[];
+}
+
+/** A saved figure that differed from the API's own recalculation beyond rounding */
+export interface CalculationMismatch {
+  field: string;
+  client: number;
+  server: number;
+}
+
+/** A named alternative scope within one estimate (good / better / best) */
+export type ChangeOrderStatus = 'Pending' | 'Approved' | 'Rejected';
+
+/** A surface added to or taken out of a work order's signed scope */
+export interface ChangeOrderItem {
+  id: string;
+  action: 'add' | 'remove';
+  description: string;
+  surfaceType: AreaType;
+  area: number;
+  foamType: FoamType;
+  thickness: number;
+  // Always entered positive; removals are credited
+  amount: number;
+}
+
+export interface ChangeOrder {
+  id: string;
+  // 1-based per job, shown as "Change Order #n"
+  number: number;
+  date: string;
+  reason: string;
+  items: ChangeOrderItem[];
+  status: ChangeOrderStatus;
+  approvedBy?: string;
+  approvedDate?: string;
+}
+
+export interface EstimateOption {
+  id: string;
+  name: string;
+  wallSettings: FoamSettings;
+  roofSettings: FoamSettings;
+  takeoffLines: TakeoffLine[];
+  // Priced when the estimate is saved
+  results?: CalculationResults;
 }
 
 export interface EstimateRecord {
@@ -183,9 +600,14 @@ export interface EstimateRecord {
     width: number;
     wallHeight: number;
     roofPitch: string;
+    roofType?: RoofType;
+    roofPitch2?: string;
     includeGables: boolean;
     isMetalSurface: boolean;
     additionalAreas: AdditionalArea[];
+    takeoffLines?: TakeoffLine[];
+    openings?: WallOpening[];
+    jobConditions?: JobConditions;
   };
   
   results: CalculationResults;
@@ -197,6 +619,8 @@ export interface EstimateRecord {
     closedCellStrokes: number;
     ocStrokesPerSet: number;
     ccStrokesPerSet: number;
+    // Catalog entries used by this job, frozen at save time
+    products?: FoamProduct[];
     inventory: InventoryItem[];
     equipment: EquipmentItem[];
   };
@@ -206,22 +630,46 @@ export interface EstimateRecord {
   wallSettings: FoamSettings;
   roofSettings: FoamSettings;
   expenses: EstimateExpenses;
+  rValues?: RValueSummary;
+
+  // Alternative scopes offered to the customer; the accepted one is the job's scope
+  options?: EstimateOption[];
+  acceptedOptionId?: string;
   
   notes?: string;
-  pricingMode?: 'level_pricing' | 'sqft_pricing';
+  pricingMode?: PricingMode;
+  marginTargets?: MarginTargets;
+  // '' marks a job as untaxed; `salesTax` is what the latest document billed
+  taxJurisdictionId?: string;
+  salesTax?: SalesTaxSummary;
   sqFtRates?: {
     wall: number;
     roof: number;
   };
   
   scheduledDate?: string;
+  // Working days the job is booked for; estimated from its hours when unset
+  scheduledDays?: number;
+  // Crew the work order is assigned to; unset jobs are unassigned
+  crewId?: string;
   invoiceDate?: string;
+  // Assigned by the API on creation, and on entering Work Order and Invoiced
+  estimateNumber?: string;
+  workOrderNumber?: string;
   invoiceNumber?: string;
   paymentTerms?: string;
   
   estimateLines?: InvoiceLineItem[]; 
   invoiceLines?: InvoiceLineItem[];
   workOrderLines?: InvoiceLineItem[];
+  // Scope changes after the job was sold; approved ones are billed on the invoice
+  changeOrders?: ChangeOrder[];
+  // Money received against the job, kept by the API; the balance is derived from it
+  payments?: Payment[];
+  // Crew visits, oldest first; the sprayed totals in `actuals` add them up
+  sessions?: JobSession[];
+  // Job template (and its version) the estimate was started from
+  template?: JobTemplateRef;
   
   actuals?: {
     openCellSets: number;
@@ -231,12 +679,19 @@ export interface EstimateRecord {
     ocStrokesPerSet?: number;
     ccStrokesPerSet?: number;
     laborHours: number;
+    // Job hours on approved timesheets; used for labor cost instead of laborHours once set
+    approvedLaborHours?: number;
     inventory: InventoryItem[];
     notes: string;
+    // Crew's site readings, compared against the estimate's job conditions
+    conditions?: JobConditions;
+    // Set by the server from the crew login that started or finished the job
     completedBy?: string;
+    completedById?: string;
     completionDate?: string;
     lastStartedAt?: string;
     startedBy?: string;
+    startedById?: string;
   };
   
   financials?: {
@@ -248,21 +703,112 @@ export interface EstimateRecord {
     miscCost: number;
     netProfit: number;
     margin: number;
+    // Margin floor the job was priced at (margin pricing), for comparison with `margin`
+    targetMargin?: number;
+    // Tax collected on the job; not part of revenue
+    salesTax?: number;
   };
   
   workOrderSheetUrl?: string;
   pdfLink?: string;
   sitePhotos?: string[];
   inventoryProcessed?: boolean;
+  // Set by the API when the browser's totals didn't match its recalculation
+  calculationMismatches?: CalculationMismatch[];
   lastModified?: string;
 }
 
+// What a revision captures: the quote as the customer saw it and how it was priced
+export type EstimateRevisionSnapshot = Pick<
+  EstimateRecord,
+  'status' | 'customer' | 'inputs' | 'results' | 'materials' | 'wallSettings' | 'roofSettings'
+  | 'expenses' | 'options' | 'acceptedOptionId' | 'totalValue' | 'notes' | 'pricingMode'
+  | 'marginTargets' | 'sqFtRates' | 'taxJurisdictionId' | 'salesTax' | 'paymentTerms'
+  | 'estimateLines' | 'invoiceLines' | 'workOrderLines' | 'changeOrders'
+>;
+
+export interface EstimateRevision {
+  id: string;
+  estimateId: string;
+  revisionNumber: number;
+  authorName: string;
+  note?: string;
+  createdAt: string;
+  snapshot: EstimateRevisionSnapshot;
+}
+
+export type PaymentMethod = 'check' | 'cash' | 'card' | 'ach';
+
+/**
+ * Money received on a job. Payments taken before the job is invoiced are
+ * deposits.
+ */
+export interface Payment {
+  id: string;
+  estimateId: string;
+  kind: 'deposit' | 'payment';
+  amount: number;
+  date: string;
+  method: PaymentMethod;
+  reference?: string;
+  recordedBy: string;
+  createdAt: string;
+}
+
+/** One recorded move through the estimate lifecycle, kept by the API. */
+export interface EstimateStatusChange {
+  id: string;
+  estimateId: string;
+  fromStatus?: EstimateRecord['status'];
+  toStatus: EstimateRecord['status'];
+  fromExecutionStatus?: EstimateRecord['executionStatus'];
+  toExecutionStatus?: EstimateRecord['executionStatus'];
+  userName: string;
+  createdAt: string;
+}
+
+// What a job template carries into the calculator: the building, foam scope,
+// materials and pricing, plus the estimate's line items
+export type JobTemplateData = Pick<
+  CalculatorState,
+  'mode' | 'length' | 'width' | 'wallHeight' | 'roofPitch' | 'roofType' | 'roofPitch2'
+  | 'includeGables' | 'isMetalSurface' | 'additionalAreas' | 'takeoffLines' | 'openings'
+  | 'wallSettings' | 'roofSettings' | 'inventory' | 'jobEquipment' | 'expenses'
+  | 'pricingMode' | 'sqFtRates' | 'marginTargets' | 'jobNotes'
+> & {
+  estimateLines?: InvoiceLineItem[];
+};
+
+/**
+ * A named starting point for repeat jobs, kept by the API. Every save bumps
+ * `version`; estimates copy the template when it is applied and keep a
+ * JobTemplateRef, so later edits never change them.
+ */
+export interface JobTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  data: JobTemplateData;
+  updatedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobTemplateRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
 export interface CalculatorState {
   mode: CalculationMode;
   length: number;
   width: number;
   wallHeight: number;
   roofPitch: string;
+  roofType: RoofType;
+  roofPitch2: string;
   includeGables: boolean;
   isMetalSurface: boolean; 
   wallSettings: FoamSettings;
@@ -273,6 +819,9 @@ export interface CalculatorState {
     // Added Stroke Config
     openCellStrokes: number;
     closedCellStrokes: number;
+    openCellRPerInch?: number;
+    closedCellRPerInch?: number;
+    derateCurve?: YieldDerateCurve;
   };
   costs: {
     openCell: number;
@@ -287,6 +836,9 @@ export interface CalculatorState {
   equipment: EquipmentItem[]; 
   showPricing: boolean;
   additionalAreas: AdditionalArea[];
+  takeoffLines: TakeoffLine[];
+  openings: WallOpening[];
+  jobConditions: JobConditions;
   inventory: InventoryItem[]; 
   jobEquipment: EquipmentItem[]; 
   companyProfile: CompanyProfile;
@@ -294,7 +846,26 @@ export interface CalculatorState {
   customers: CustomerProfile[]; 
   customerProfile: CustomerProfile; 
   
-  pricingMode: 'level_pricing' | 'sqft_pricing';
+  pricingMode: PricingMode;
+  marginTargets: MarginTargets;
+  taxJurisdictions: TaxJurisdiction[];
+  defaultTaxJurisdictionId?: string;
+  // Job's jurisdiction: undefined follows the org default, '' is untaxed
+  taxJurisdictionId?: string;
+  unitSystem: UnitSystem;
+  productionRates: ProductionRates;
+  documentNumbering: DocumentNumbering;
+  receivables: ReceivablesSettings;
+  scheduling: SchedulingSettings;
+  payroll: PayrollSettings;
+  crews: Crew[];
+  // Crew logins: all of them for admins, crewmates for a crew login
+  crewMembers: CrewMember[];
+  jobTemplates: JobTemplate[];
+  // Template the job in the calculator was last built from, and its line
+  // items until the estimate is saved with them
+  appliedTemplate?: JobTemplateRef;
+  templateLines?: InvoiceLineItem[];
   sqFtRates: {
     wall: number;
     roof: number;
@@ -304,6 +875,13 @@ export interface CalculatorState {
   savedEstimates: EstimateRecord[];
   purchaseOrders?: PurchaseOrder[];
   materialLogs?: MaterialUsageLogEntry[]; 
+  foamProducts: FoamProduct[];
+  // Product snapshot of the estimate being edited (takes precedence over the live catalog)
+  lockedProducts?: FoamProduct[];
+  // Good/better/best scopes; the active one is mirrored in wallSettings/roofSettings/takeoffLines
+  estimateOptions: EstimateOption[];
+  activeOptionId?: string;
+  acceptedOptionId?: string;
   
   lifetimeUsage: {
     openCell: number;
@@ -313,7 +891,6 @@ export interface CalculatorState {
   jobNotes?: string;
   scheduledDate?: string;
   invoiceDate?: string;
-  invoiceNumber?: string; 
   paymentTerms?: string;
 }
 
@@ -346,6 +923,24 @@ export const formatDocumentNumber = (baseNumber: string, docType: DocumentType):
   return `${prefixMap[docType]}-${raw}`;
 };
 
+/**
+ * The number printed on a document: the one the API assigned for its type,
+ * or one derived from the record for jobs from before sequential numbering.
+ */
+export const documentNumberFor = (
+  record: Pick<EstimateRecord, 'id' | 'estimateNumber' | 'workOrderNumber' | 'invoiceNumber'> | undefined,
+  docType: DocumentType
+): string => {
+  const assigned: Record<DocumentType, string | undefined> = {
+    [DocumentType.ESTIMATE]: record?.estimateNumber,
+    [DocumentType.WORK_ORDER]: record?.workOrderNumber,
+    [DocumentType.INVOICE]: record?.invoiceNumber,
+  };
+  if (assigned[docType]) return assigned[docType];
+  const baseNumber = record?.invoiceNumber || record?.id?.substring(0, 8).toUpperCase() || String(Math.floor(Math.random() * 10000 + 1000));
+  return formatDocumentNumber(baseNumber, docType);
+};
+
 export interface UserSession {
   id: string;
   email?: string;
@@ -356,6 +951,8 @@ export interface UserSession {
   folderId?: string;
   token?: string;
   role: 'admin' | 'crew'; 
+  // Crew logins only: the crew whose work orders they see
+  crewId?: string;
 }
 
 // ─── CREW MESSAGING TYPES ───────────────────────────────────────────────────
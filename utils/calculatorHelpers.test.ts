@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { RoofType } from '../types.js';
+import { calculateRoofGeometry, parsePitch } from './calculatorHelpers.js';
+
+// The 40 x 30 reference building documented on calculateRoofGeometry
+const geometry = (roofType: RoofType, pitch: string, secondPitch?: string) => {
+  const { factor, secondFactor } = parsePitch(pitch, secondPitch);
+  return calculateRoofGeometry(roofType, 40, 30, factor, secondFactor);
+};
+
+describe('calculateRoofGeometry', () => {
+  it('gable 4/12', () => {
+    const { roofArea, endWallArea } = geometry(RoofType.GABLE, '4/12');
+    expect(roofArea).toBeCloseTo(1264.91, 2);
+    expect(endWallArea).toBeCloseTo(150, 2);
+  });
+
+  it('hip 4/12 has no end walls', () => {
+    const { roofArea, endWallArea } = geometry(RoofType.HIP, '4/12');
+    expect(roofArea).toBeCloseTo(1264.91, 2);
+    expect(endWallArea).toBe(0);
+  });
+
+  it('shed 2/12 counts the high side wall', () => {
+    const { roofArea, endWallArea } = geometry(RoofType.SHED, '2/12');
+    expect(roofArea).toBeCloseTo(1216.55, 2);
+    expect(endWallArea).toBeCloseTo(350, 2);
+  });
+
+  it('gambrel 4/12 upper + 18/12 lower', () => {
+    const { roofArea, endWallArea } = geometry(RoofType.GAMBREL, '4/12', '18/12');
+    expect(roofArea).toBeCloseTo(1714.12, 2);
+    expect(endWallArea).toBeCloseTo(543.75, 2);
+  });
+
+  it('dual pitch 4/12 + 8/12', () => {
+    const { roofArea, endWallArea } = geometry(RoofType.DUAL_PITCH, '4/12', '8/12');
+    expect(roofArea).toBeCloseTo(1324.01, 2);
+    expect(endWallArea).toBeCloseTo(200, 2);
+  });
+});
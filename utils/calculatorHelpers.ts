@@ -1,18 +1,42 @@
 
+/**
+ * Estimate calculation engine.
+ *
+ * Also compiled into the API (backend/src/utils/estimateCalc.ts), which
+ * recomputes results when an estimate is saved. This module and everything it
+ * imports must stay free of browser APIs and use `.js` import specifiers so
+ * the compiled output loads under Node.
+ */
 import { 
   CalculationMode, 
   CalculatorState, 
   CalculationResults, 
   FoamType,
-  AreaType
-} from '../types';
+  FoamSettings,
+  FoamLayer,
+  FoamLayerResult,
+  FoamProduct,
+  YieldDerateCurve,
+  RValueCheck,
+  RValueSummary,
+  AreaType,
+  RoofType,
+  TakeoffLineResult,
+  UnitSystem
+} from '../types.js';
+import { getCodeRValue, IECC_CODE_EDITION } from './codeTables.js';
+import { DEFAULT_DERATE_CURVE, getYieldFactor, hasJobConditions } from './yieldDerate.js';
+import { formatQuantity, isMetric, toDisplay, unitLabel } from './units.js';
+import { getProductionRates, suggestManHours } from './laborEstimate.js';
+import { getMarginTargets, grossMargin, priceForMargin } from './marginPricing.js';
+import { calculateSalesTax, getJobTaxJurisdiction } from './salesTax.js';
 
 /**
- * Parses a pitch string into a slope factor.
+ * Parses a single pitch string into a slope factor.
  * Supports "X/12" or "Xdeg" / "X deg".
  * Default returns 1 (flat).
  */
-export const parsePitch = (input: string): { factor: number; display: string } => {
+const parseSinglePitch = (input: string): { factor: number; display: string } => {
   if (!input) return { factor: 1, display: 'Flat (1.0)' };
   
   const cleanInput = input.toLowerCase().trim();
@@ -45,6 +69,98 @@ export const parsePitch = (input: string): { factor: number; display: string } =
   return { factor: 1, display: 'Invalid/Flat (1.0)' };
 };
 
+/**
+ * Parses a pitch string into a slope factor.
+ * Gambrel and dual-pitch roofs pass a second pitch, returned as `secondFactor`.
+ */
+export const parsePitch = (
+  input: string,
+  secondInput?: string
+): { factor: number; display: string; secondFactor?: number } => {
+  const primary = parseSinglePitch(input);
+  if (secondInput === undefined) return primary;
+
+  const secondary = parseSinglePitch(secondInput);
+  return {
+    factor: primary.factor,
+    secondFactor: secondary.factor,
+    display: `${primary.display} / ${secondary.display}`,
+  };
+};
+
+/** Rise per foot of horizontal run for a slope factor */
+const riseFromFactor = (factor: number): number => Math.sqrt(Math.max(0, Math.pow(factor, 2) - 1));
+
+/**
+ * Roof surface and end-wall area for a rectangular building.
+ * `length` runs along the ridge, `width` is the span. End walls are the
+ * triangular/pentagonal areas above the eave line at both ends (plus the
+ * tall side of a shed roof).
+ *
+ * Reference values (40 x 30 building):
+ * - Gable 4/12:             roof 1264.91, end walls 150.00
+ * - Hip 4/12:               roof 1264.91, end walls 0
+ * - Shed 2/12:              roof 1216.55, end walls 350.00
+ * - Gambrel 4/12 + 18/12:   roof 1714.12, end walls 543.75
+ * - Dual pitch 4/12 + 8/12: roof 1324.01, end walls 200.00
+ */
+export const calculateRoofGeometry = (
+  roofType: RoofType,
+  length: number,
+  width: number,
+  factor: number,
+  secondFactor: number = factor
+): { roofArea: number; endWallArea: number } => {
+  const rise = riseFromFactor(factor);
+  const rise2 = riseFromFactor(secondFactor);
+
+  switch (roofType) {
+    case RoofType.HIP:
+      // Equal pitch on all four planes: surface = plan area * slope factor, no gable ends
+      return { roofArea: length * width * factor, endWallArea: 0 };
+
+    case RoofType.SHED: {
+      // Single plane across the full span; two triangular ends plus the raised high-side wall
+      const highSide = width * rise;
+      return {
+        roofArea: length * width * factor,
+        endWallArea: width * highSide + length * highSide,
+      };
+    }
+
+    case RoofType.GAMBREL: {
+      // Break at the quarter points: steep lower slope (second pitch) from eave to W/4,
+      // shallow upper slope (primary pitch) from W/4 to the ridge
+      const quarter = width / 4;
+      const lowerRise = quarter * rise2;
+      const upperRise = quarter * rise;
+      return {
+        roofArea: length * 2 * quarter * (factor + secondFactor),
+        endWallArea: 2 * quarter * (3 * lowerRise + upperRise),
+      };
+    }
+
+    case RoofType.DUAL_PITCH: {
+      // Asymmetric gable: ridge sits where both slopes reach the same height
+      const totalRise = rise + rise2;
+      const run1 = totalRise > 0 ? width * rise2 / totalRise : width / 2;
+      const run2 = width - run1;
+      const ridgeHeight = run1 * rise;
+      return {
+        roofArea: length * (run1 * factor + run2 * secondFactor),
+        endWallArea: width * ridgeHeight,
+      };
+    }
+
+    case RoofType.GABLE:
+    default:
+      return {
+        roofArea: length * width * factor,
+        endWallArea: width * ((width / 2) * rise),
+      };
+  }
+};
+
 /**
  * Helper to round to 2 decimal places strictly
  */
@@ -52,17 +168,256 @@ const round2 = (num: number): number => {
     return Math.round((num + Number.EPSILON) * 100) / 100;
 };
 
+/**
+ * Returns the spray passes for a spec, in order. Single-foam specs come
+ * back as a one-layer list so callers don't need to special-case them.
+ */
+export const getFoamLayers = (settings: FoamSettings): FoamLayer[] => {
+  if (settings.layers && settings.layers.length > 0) return settings.layers;
+  return [{ type: settings.type, thickness: settings.thickness, wastePercentage: settings.wastePercentage, productId: settings.productId }];
+};
+
+export const isLayeredSpec = (settings?: FoamSettings): boolean =>
+  !!settings?.layers && settings.layers.length > 1;
+
+/**
+ * Short label for a spec, e.g. `1" Closed Cell → 4" Open Cell`
+ * (`25 mm Closed Cell → 102 mm Open Cell` in metric).
+ */
+export const describeFoamSpec = (settings: FoamSettings, units?: UnitSystem): string =>
+  getFoamLayers(settings).map(l => `${formatQuantity(l.thickness, 'depth', units)} ${l.type}`).join(' → ');
+
+/** Depth as written in scope sentences: "4 inches" or "102 mm". */
+export const formatSprayDepth = (inches: number, units?: UnitSystem): string =>
+  isMetric(units) ? `${Math.round(toDisplay(inches, 'depth', units))} ${unitLabel('depth', units)}` : `${inches} inches`;
+
+/**
+ * Sentence used on estimate/invoice lines, e.g.
+ * "Spray approximately 4 inches of Open Cell to walls."
+ */
+export const formatSprayScope = (settings: FoamSettings, target: string, units?: UnitSystem): string => {
+  if (!isLayeredSpec(settings)) {
+    return `Spray approximately ${formatSprayDepth(settings.thickness, units)} of ${settings.type} to ${target}.`;
+  }
+  return `Spray layered system to ${target}, in order: ${describeFoamSpec(settings, units)} (${formatQuantity(settings.thickness, 'depth', units)} total).`;
+};
+
+// Typical aged R-per-inch when the org hasn't configured its own
+export const DEFAULT_R_PER_INCH = { openCell: 3.7, closedCell: 6.9 };
+
+/** Everything needed to price a pass: org defaults, the product catalog and (optionally) site conditions */
+export type FoamMaterialSource = Pick<CalculatorState, 'yields' | 'costs' | 'foamProducts' | 'lockedProducts'>
+  & Partial<Pick<CalculatorState, 'jobConditions'>>;
+
+export interface FoamMaterial {
+  yield: number;
+  costPerSet: number;
+  strokesPerSet: number;
+  rPerInch: number;
+  derateCurve: YieldDerateCurve;
+}
+
+/**
+ * Looks up a catalog product. The snapshot locked into the estimate being
+ * edited wins over the live catalog, so reopening an old job keeps its numbers.
+ */
+export const findFoamProduct = (productId: string | undefined, source: Pick<FoamMaterialSource, 'foamProducts' | 'lockedProducts'>): FoamProduct | undefined => {
+  if (!productId) return undefined;
+  return (source.lockedProducts || []).find(p => p.id === productId)
+    || (source.foamProducts || []).find(p => p.id === productId);
+};
+
+/**
+ * Yield, set price, strokes and R-per-inch for a pass: the picked product's
+ * values, or the org-wide Open/Closed Cell settings when none is picked.
+ */
+export const getFoamMaterial = (type: FoamType, productId: string | undefined, source: FoamMaterialSource): FoamMaterial => {
+  const isOpen = type === FoamType.OPEN_CELL;
+  const fallback: FoamMaterial = {
+    yield: isOpen ? source.yields.openCell : source.yields.closedCell,
+    costPerSet: isOpen ? source.costs.openCell : source.costs.closedCell,
+    strokesPerSet: (isOpen ? source.yields.openCellStrokes : source.yields.closedCellStrokes) || 6600,
+    rPerInch: isOpen
+      ? (source.yields.openCellRPerInch || DEFAULT_R_PER_INCH.openCell)
+      : (source.yields.closedCellRPerInch || DEFAULT_R_PER_INCH.closedCell),
+    derateCurve: source.yields.derateCurve?.points?.length ? source.yields.derateCurve : DEFAULT_DERATE_CURVE,
+  };
+
+  const product = findFoamProduct(productId, source);
+  if (!product || product.foamType !== type) return fallback;
+
+  return {
+    yield: product.yield || fallback.yield,
+    costPerSet: product.costPerSet ?? fallback.costPerSet,
+    strokesPerSet: product.strokesPerSet || fallback.strokesPerSet,
+    rPerInch: product.rPerInch || fallback.rPerInch,
+    derateCurve: product.derateCurve?.points?.length ? product.derateCurve : fallback.derateCurve,
+  };
+};
+
+/**
+ * Catalog products referenced anywhere in the current job, resolved the same
+ * way the calculation does. Saved into `materials.products` to lock them in.
+ */
+export const getUsedFoamProducts = (state: Pick<CalculatorState, 'wallSettings' | 'roofSettings' | 'takeoffLines'> & FoamMaterialSource): FoamProduct[] => {
+  const specs = [state.wallSettings, state.roofSettings, ...(state.takeoffLines || []).map(l => l.foam)];
+  const ids = new Set(specs.flatMap(spec => getFoamLayers(spec).map(l => l.productId).filter(Boolean)));
+  return Array.from(ids)
+    .map(id => findFoamProduct(id, state))
+    .filter((p): p is FoamProduct => !!p);
+};
+
+/**
+ * Unrounded per-pass quantities; callers aggregate these and round once.
+ */
+const measureFoamLayers = (settings: FoamSettings, area: number, source: FoamMaterialSource): FoamLayerResult[] =>
+  getFoamLayers(settings).map(layer => {
+    const material = getFoamMaterial(layer.type, layer.productId, source);
+    const bdFt = area * (layer.thickness || 0) * (1 + (layer.wastePercentage || 0) / 100);
+    // Conditions derate the yield itself, ahead of the sets division
+    const yieldFactor = getYieldFactor(material.derateCurve, source.jobConditions);
+    const effectiveYield = material.yield * yieldFactor;
+    const sets = effectiveYield ? bdFt / effectiveYield : 0;
+    return {
+      type: layer.type,
+      ...(layer.productId ? { productId: layer.productId } : {}),
+      thickness: layer.thickness,
+      bdFt,
+      sets,
+      strokes: sets * material.strokesPerSet,
+      cost: sets * material.costPerSet,
+      ...(yieldFactor < 1 ? { yieldFactor } : {}),
+    };
+  });
+
+/**
+ * Board feet, sets, strokes and chemical cost for each pass of a spec over the given area.
+ */
+export const calculateLayerResults = (
+  settings: FoamSettings,
+  area: number,
+  source: FoamMaterialSource
+): FoamLayerResult[] =>
+  measureFoamLayers(settings, area, source).map(layer => ({
+    ...layer,
+    bdFt: round2(layer.bdFt),
+    sets: round2(layer.sets),
+    strokes: Math.round(layer.strokes),
+    cost: round2(layer.cost),
+    ...(layer.yieldFactor !== undefined ? { yieldFactor: round2(layer.yieldFactor) } : {}),
+  }));
+
+/**
+ * Chemical cost of spraying a spec over the given area, summed across passes.
+ */
+export const getFoamSpecCost = (
+  settings: FoamSettings,
+  area: number,
+  source: FoamMaterialSource
+): number =>
+  measureFoamLayers(settings, area, source).reduce((sum, layer) => sum + layer.cost, 0);
+
+/**
+ * R-value the spec must reach: the code table when a climate zone and
+ * assembly are set, otherwise the estimator's target (if any).
+ */
+export const getRequiredRValue = (settings: FoamSettings): { value: number; source: string } | null => {
+  if (settings.climateZone && settings.assembly) {
+    return {
+      value: getCodeRValue(settings.climateZone, settings.assembly),
+      source: `${IECC_CODE_EDITION} CZ${settings.climateZone} ${settings.assembly}`,
+    };
+  }
+  if (settings.thicknessMode === 'target_r' && settings.targetRValue) {
+    return { value: settings.targetRValue, source: 'Target' };
+  }
+  return null;
+};
+
+/**
+ * Re-derives the depth of a single-foam spec from its target R or code value,
+ * rounded up to the next 1/4". Inch-mode and layered specs are returned as-is.
+ */
+export const applyRValueSizing = (settings: FoamSettings, source: FoamMaterialSource): FoamSettings => {
+  if (!settings.thicknessMode || settings.thicknessMode === 'inches' || isLayeredSpec(settings)) return settings;
+
+  const targetR = settings.thicknessMode === 'code'
+    ? (settings.climateZone && settings.assembly ? getCodeRValue(settings.climateZone, settings.assembly) : 0)
+    : (settings.targetRValue || 0);
+  if (!targetR) return settings;
+
+  const inches = Math.ceil((targetR / getFoamMaterial(settings.type, settings.productId, source).rPerInch) * 4) / 4;
+  return { ...settings, thickness: inches };
+};
+
+export const checkRValue = (settings: FoamSettings, source: FoamMaterialSource): RValueCheck => {
+  const achieved = round2(getFoamLayers(settings).reduce(
+    (sum, layer) => sum + (layer.thickness || 0) * getFoamMaterial(layer.type, layer.productId, source).rPerInch, 0
+  ));
+  const required = getRequiredRValue(settings);
+  if (!required) return { achieved };
+
+  return {
+    achieved,
+    required: required.value,
+    requiredSource: required.source,
+    meetsRequirement: achieved >= required.value,
+  };
+};
+
+/**
+ * One-line summary for documents, e.g.
+ * "Walls: R-13.8 (IECC 2021 CZ4 Wall requires R-25 — BELOW REQUIREMENT)".
+ */
+export const describeRValueCheck = (label: string, check: RValueCheck, units?: UnitSystem): string => {
+  const achieved = formatQuantity(check.achieved, 'rValue', units, 2);
+  if (check.required === undefined) return `${label}: ${achieved}`;
+  return `${label}: ${achieved} (${check.requiredSource} requires ${formatQuantity(check.required, 'rValue', units, 2)}${check.meetsRequirement ? '' : ' — BELOW REQUIREMENT'})`;
+};
+
+/**
+ * Wall/roof totals for the shared wall & roof specs only, i.e. with any
+ * custom takeoff lines taken back out. Document builders use this so a
+ * takeoff line isn't billed twice (once in its own row, once in the walls row).
+ */
+export const getSpecSurfaceTotals = (results: CalculationResults) => {
+  const lines = results.takeoffLines || [];
+  const sum = (type: AreaType, key: 'area' | 'bdFt') =>
+    lines.filter(l => l.surfaceType === type).reduce((acc, l) => acc + l[key], 0);
+
+  return {
+    wallArea: Math.max(0, round2(results.totalWallArea - sum(AreaType.WALL, 'area'))),
+    wallBdFt: Math.max(0, round2(results.wallBdFt - sum(AreaType.WALL, 'bdFt'))),
+    roofArea: Math.max(0, round2(results.totalRoofArea - sum(AreaType.ROOF, 'area'))),
+    roofBdFt: Math.max(0, round2(results.roofBdFt - sum(AreaType.ROOF, 'bdFt'))),
+  };
+};
+
+/**
+ * R-value lines for estimate/invoice documents, one per sprayed spec.
+ */
+export const getRValueLines = (results: CalculationResults, rValues: RValueSummary | undefined = results.rValues, units?: UnitSystem): string[] => {
+  if (!rValues) return [];
+  const spec = getSpecSurfaceTotals(results);
+  const lines: string[] = [];
+  if (spec.wallArea > 0) lines.push(describeRValueCheck('Walls', rValues.wall, units));
+  if (spec.roofArea > 0) lines.push(describeRValueCheck('Roof/Ceiling', rValues.roof, units));
+  return lines;
+};
+
 /**
  * Core calculation engine.
  */
 export const calculateResults = (state: CalculatorState): CalculationResults => {
   const { 
-    mode, length, width, wallHeight, roofPitch, 
+    mode, length, width, wallHeight, roofPitch, roofType, roofPitch2,
     includeGables, isMetalSurface, wallSettings, roofSettings, 
-    additionalAreas, expenses, costs
+    additionalAreas, takeoffLines, openings, expenses, costs
   } = state;
 
-  const pitchData = parsePitch(roofPitch);
+  const activeRoofType = roofType || RoofType.GABLE;
+  const needsSecondPitch = activeRoofType === RoofType.GAMBREL || activeRoofType === RoofType.DUAL_PITCH;
+  const pitchData = parsePitch(roofPitch, needsSecondPitch ? (roofPitch2 || '') : undefined);
   const slopeFactor = pitchData.factor;
   
   // Metal Surface Factor: Adds 15% to account for corrugation ridges
@@ -75,16 +430,17 @@ export const calculateResults = (state: CalculatorState): CalculationResults =>
 
   // 1. Calculate Base Geometry based on Mode
   switch (mode) {
-    case CalculationMode.BUILDING:
+    case CalculationMode.BUILDING: {
       perimeter = 2 * (length + width);
       baseWallArea = perimeter * wallHeight;
-      baseRoofArea = (length * width) * slopeFactor;
+      const roof = calculateRoofGeometry(activeRoofType, length, width, slopeFactor, pitchData.secondFactor);
+      baseRoofArea = roof.roofArea;
       
       if (includeGables) {
-        const riseOver12 = Math.sqrt(Math.pow(slopeFactor, 2) - 1);
-        gableArea = width * ((width / 2) * riseOver12);
+        gableArea = roof.endWallArea;
       }
       break;
+    }
 
     case CalculationMode.WALLS_ONLY:
       perimeter = length; 
@@ -104,6 +460,13 @@ export const calculateResults = (state: CalculatorState): CalculationResults =>
       break;
   }
 
+  // 1b. Window/Door Openings (only where walls come from perimeter * height)
+  let openingDeduction = 0;
+  if ((mode === CalculationMode.BUILDING || mode === CalculationMode.WALLS_ONLY) && openings) {
+    const openingArea = openings.reduce((sum, o) => sum + (o.width || 0) * (o.height || 0) * (o.count || 0), 0);
+    openingDeduction = Math.min(baseWallArea, openingArea);
+  }
+
   // 2. Add Additional Areas
   const additionalWallArea = additionalAreas
     .filter(a => a.type === AreaType.WALL)
@@ -114,43 +477,85 @@ export const calculateResults = (state: CalculatorState): CalculationResults =>
     .reduce((sum, a) => sum + (a.length * a.width), 0); 
 
   // 3. Totals & Apply Surface Factor
-  const totalWallArea = (baseWallArea + gableArea + additionalWallArea) * surfaceFactor;
-  const totalRoofArea = (baseRoofArea + additionalRoofArea) * surfaceFactor;
+  const specWallArea = (baseWallArea - openingDeduction + gableArea + additionalWallArea) * surfaceFactor;
+  const specRoofArea = (baseRoofArea + additionalRoofArea) * surfaceFactor;
 
-  // 4. Board Feet Calculation
-  const wallVolume = totalWallArea * wallSettings.thickness;
-  const roofVolume = totalRoofArea * roofSettings.thickness;
+  // 4. Board Feet Calculation (per spray pass, priced by each pass's product)
+  const wallPasses = measureFoamLayers(wallSettings, specWallArea, state);
+  const roofPasses = measureFoamLayers(roofSettings, specRoofArea, state);
+  const allPasses = [...wallPasses, ...roofPasses];
 
-  const wallBdFt = wallVolume * (1 + wallSettings.wastePercentage / 100);
-  const roofBdFt = roofVolume * (1 + roofSettings.wastePercentage / 100);
+  const specWallBdFt = wallPasses.reduce((sum, l) => sum + l.bdFt, 0);
+  const specRoofBdFt = roofPasses.reduce((sum, l) => sum + l.bdFt, 0);
 
-  // 5. Aggregate by Foam Type
-  let totalOpenCellBdFt = 0;
-  let totalClosedCellBdFt = 0;
+  // 4b. Custom Takeoff Lines (each surface carries its own foam spec)
+  const lineResults: TakeoffLineResult[] = [];
+  let lineWallArea = 0, lineRoofArea = 0, lineWallBdFt = 0, lineRoofBdFt = 0;
 
-  if (wallSettings.type === FoamType.OPEN_CELL) {
-    totalOpenCellBdFt += wallBdFt;
-  } else {
-    totalClosedCellBdFt += wallBdFt;
-  }
+  if (mode === CalculationMode.CUSTOM && takeoffLines) {
+    takeoffLines.forEach(line => {
+      const area = (line.length || 0) * (line.width || 0) * surfaceFactor;
+      const passes = measureFoamLayers(line.foam, area, state);
+      allPasses.push(...passes);
+      const bdFt = passes.reduce((sum, p) => sum + p.bdFt, 0);
+      const sets = passes.reduce((sum, p) => sum + p.sets, 0);
 
-  if (roofSettings.type === FoamType.OPEN_CELL) {
-    totalOpenCellBdFt += roofBdFt;
-  } else {
-    totalClosedCellBdFt += roofBdFt;
+      if (line.surfaceType === AreaType.ROOF) {
+        lineRoofArea += area;
+        lineRoofBdFt += bdFt;
+      } else {
+        lineWallArea += area;
+        lineWallBdFt += bdFt;
+      }
+
+      lineResults.push({
+        id: line.id,
+        name: line.name,
+        surfaceType: line.surfaceType,
+        foamType: line.foam.type,
+        ...(line.foam.productId ? { productId: line.foam.productId } : {}),
+        thickness: line.foam.thickness,
+        area: round2(area),
+        bdFt: round2(bdFt),
+        sets: round2(sets),
+        strokes: Math.round(passes.reduce((sum, p) => sum + p.strokes, 0)),
+        cost: round2(passes.reduce((sum, p) => sum + p.cost, 0)),
+      });
+    });
   }
 
-  // 6. Sets Required
-  const openCellSets = totalOpenCellBdFt / state.yields.openCell;
-  const closedCellSets = totalClosedCellBdFt / state.yields.closedCell;
+  const totalWallArea = specWallArea + lineWallArea;
+  const totalRoofArea = specRoofArea + lineRoofArea;
+  const wallBdFt = specWallBdFt + lineWallBdFt;
+  const roofBdFt = specRoofBdFt + lineRoofBdFt;
 
-  // 7. Calculate Strokes (New)
-  const openCellStrokes = openCellSets * (state.yields.openCellStrokes || 6600); // Default fallback if config missing
-  const closedCellStrokes = closedCellSets * (state.yields.closedCellStrokes || 6600);
+  // 5-8. Aggregate by Foam Type: board feet, sets, strokes and chemical cost (COGS).
+  // Each pass was already divided by its own product's yield, so sum rather than re-divide.
+  let totalOpenCellBdFt = 0, totalClosedCellBdFt = 0;
+  let openCellSets = 0, closedCellSets = 0;
+  let openCellStrokes = 0, closedCellStrokes = 0;
+  let openCellCost = 0, closedCellCost = 0;
+  let openCellNominalSets = 0, closedCellNominalSets = 0;
 
-  // 8. Costs (COGS Calculation)
-  const openCellCost = openCellSets * state.costs.openCell;
-  const closedCellCost = closedCellSets * state.costs.closedCell;
+  allPasses.forEach(pass => {
+    const nominalSets = pass.sets * (pass.yieldFactor ?? 1);
+    if (pass.type === FoamType.OPEN_CELL) {
+      totalOpenCellBdFt += pass.bdFt;
+      openCellSets += pass.sets;
+      openCellNominalSets += nominalSets;
+      openCellStrokes += pass.strokes;
+      openCellCost += pass.cost;
+    } else {
+      totalClosedCellBdFt += pass.bdFt;
+      closedCellSets += pass.sets;
+      closedCellNominalSets += nominalSets;
+      closedCellStrokes += pass.strokes;
+      closedCellCost += pass.cost;
+    }
+  });
+
+  const ocStrokesPerSet = openCellSets > 0 ? openCellStrokes / openCellSets : getFoamMaterial(FoamType.OPEN_CELL, undefined, state).strokesPerSet;
+  const ccStrokesPerSet = closedCellSets > 0 ? closedCellStrokes / closedCellSets : getFoamMaterial(FoamType.CLOSED_CELL, undefined, state).strokesPerSet;
   
   // 8b. Prep/Inventory Cost
   let inventoryCost = 0;
@@ -170,42 +575,88 @@ export const calculateResults = (state: CalculatorState): CalculationResults =>
     ? expenses.laborRate 
     : (costs.laborRate || 0);
     
-  const laborCost = (expenses.manHours || 0) * activeLaborRate;
+  // Auto mode bills the production-rate suggestion; otherwise the hours typed in
+  const suggestedManHours = suggestManHours(
+    totalOpenCellBdFt,
+    totalClosedCellBdFt,
+    getProductionRates(state.productionRates),
+    expenses.crewSize || undefined
+  );
+  const manHours = expenses.manHoursMode === 'auto' ? suggestedManHours : (expenses.manHours || 0);
+  const laborCost = manHours * activeLaborRate;
   const miscExpenses = (expenses.tripCharge || 0) + (expenses.fuelSurcharge || 0) + (expenses.other?.amount || 0);
 
   // 10. Total Price Calculation
   let totalCost = 0;
+  let marginFloor: number | undefined;
+  // Sell price split the way document lines are categorized for tax
+  let materialSales = 0;
+  let laborSales = 0;
 
   if (state.pricingMode === 'sqft_pricing') {
+    // Installed area pricing has no separate labor line
     const wallRevenue = totalWallArea * (state.sqFtRates?.wall || 0);
     const roofRevenue = totalRoofArea * (state.sqFtRates?.roof || 0);
-    totalCost = wallRevenue + roofRevenue + inventoryCost + miscExpenses;
+    materialSales = wallRevenue + roofRevenue + inventoryCost;
+  } else if (state.pricingMode === 'margin_pricing') {
+    // Back-solve each cost bucket's sell price from its target margin; fees pass through
+    const margins = getMarginTargets(state.marginTargets);
+    materialSales = priceForMargin(openCellCost + closedCellCost, margins.chemical)
+      + priceForMargin(inventoryCost, margins.inventory);
+    laborSales = priceForMargin(laborCost, margins.labor);
   } else {
-    totalCost = materialCost + laborCost + miscExpenses;
+    materialSales = materialCost;
+    laborSales = laborCost;
+  }
+
+  totalCost = materialSales + laborSales + miscExpenses;
+  if (state.pricingMode === 'margin_pricing') {
+    marginFloor = grossMargin(totalCost, materialCost + laborCost + miscExpenses);
   }
+  const salesTax = calculateSalesTax(materialSales, laborSales, getJobTaxJurisdiction(state));
 
   return {
     perimeter: round2(perimeter),
     slopeFactor: slopeFactor, // Keep precision for internal math, display logic handles presentation
     baseWallArea: round2(baseWallArea),
+    openingDeduction: round2(openingDeduction),
     gableArea: round2(gableArea),
     totalWallArea: round2(totalWallArea),
     baseRoofArea: round2(baseRoofArea),
     totalRoofArea: round2(totalRoofArea),
     wallBdFt: round2(wallBdFt),
     roofBdFt: round2(roofBdFt),
+    wallLayers: calculateLayerResults(wallSettings, specWallArea, state),
+    roofLayers: calculateLayerResults(roofSettings, specRoofArea, state),
+    rValues: {
+      wall: checkRValue(wallSettings, state),
+      roof: checkRValue(roofSettings, state),
+    },
     totalOpenCellBdFt: round2(totalOpenCellBdFt),
     totalClosedCellBdFt: round2(totalClosedCellBdFt),
     openCellSets: round2(openCellSets),
     closedCellSets: round2(closedCellSets),
+    ...(hasJobConditions(state.jobConditions) ? {
+      yieldFactors: {
+        openCell: round2(openCellSets > 0 ? openCellNominalSets / openCellSets : 1),
+        closedCell: round2(closedCellSets > 0 ? closedCellNominalSets / closedCellSets : 1),
+      },
+    } : {}),
     openCellStrokes: Math.round(openCellStrokes), // Integer
     closedCellStrokes: Math.round(closedCellStrokes), // Integer
+    ocStrokesPerSet: Math.round(ocStrokesPerSet),
+    ccStrokesPerSet: Math.round(ccStrokesPerSet),
     openCellCost: round2(openCellCost),
     closedCellCost: round2(closedCellCost),
     inventoryCost: round2(inventoryCost),
+    suggestedManHours,
+    manHours,
     laborCost: round2(laborCost),
     miscExpenses: round2(miscExpenses),
     materialCost: round2(materialCost), 
     totalCost: round2(totalCost),    
+    ...(marginFloor !== undefined ? { marginFloor: round2(marginFloor) } : {}),
+    ...(salesTax ? { salesTax } : {}),
+    ...(lineResults.length > 0 ? { takeoffLines: lineResults } : {}),
   };
 };
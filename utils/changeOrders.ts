@@ -0,0 +1,93 @@
+/**
+ * Change orders on sold jobs.
+ *
+ * Once an estimate is a work order its lines are the signed scope and stay
+ * as they are. On-site changes are recorded as change orders instead; the
+ * approved ones are added to the invoice as their own lines, attributed by
+ * a `co-<changeOrderId>-<itemId>` line id.
+ */
+import { ChangeOrder, ChangeOrderItem, EstimateRecord, InvoiceLineItem, TaxJurisdiction, UnitSystem } from '../types';
+import { formatSprayDepth } from './calculatorHelpers';
+import { isTaxableCategory } from './salesTax';
+import { formatQuantity } from './units';
+
+const CHANGE_ORDER_LINE_PREFIX = 'co-';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const isChangeOrderLine = (line: Pick<InvoiceLineItem, 'id'>): boolean =>
+  line.id.startsWith(CHANGE_ORDER_LINE_PREFIX);
+
+/** Signed price of one item: additions charge, removals credit. */
+export const changeOrderItemAmount = (item: ChangeOrderItem): number =>
+  item.action === 'remove' ? -(item.amount || 0) : item.amount || 0;
+
+/** Net price change of a change order. */
+export const changeOrderDelta = (changeOrder: ChangeOrder): number =>
+  round2(changeOrder.items.reduce((sum, item) => sum + changeOrderItemAmount(item), 0));
+
+export const getApprovedChangeOrders = (record: Pick<EstimateRecord, 'changeOrders'>): ChangeOrder[] =>
+  (record.changeOrders || []).filter(co => co.status === 'Approved');
+
+/** The value the customer signed for before any change orders. */
+export const originalContractValue = (record: Pick<EstimateRecord, 'estimateLines' | 'results'>): number =>
+  record.estimateLines?.length
+    ? round2(record.estimateLines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0))
+    : round2(record.results?.totalCost || 0);
+
+/** Original contract plus every approved change order. */
+export const revisedContractValue = (record: Pick<EstimateRecord, 'estimateLines' | 'results' | 'changeOrders'>): number =>
+  round2(getApprovedChangeOrders(record).reduce((sum, co) => sum + changeOrderDelta(co), originalContractValue(record)));
+
+/**
+ * Starting price for an item at the job's own rate per board foot, so a
+ * change is priced the way the rest of the job was.
+ */
+export const suggestChangeOrderAmount = (
+  record: Pick<EstimateRecord, 'estimateLines' | 'results'>,
+  item: Pick<ChangeOrderItem, 'area' | 'thickness'>
+): number => {
+  const jobBdFt = (record.results?.totalOpenCellBdFt || 0) + (record.results?.totalClosedCellBdFt || 0);
+  if (jobBdFt <= 0) return 0;
+  return round2((originalContractValue(record) / jobBdFt) * (item.area || 0) * (item.thickness || 0));
+};
+
+export const describeChangeOrderItem = (item: ChangeOrderItem, units?: UnitSystem): string =>
+  `${item.action === 'remove' ? 'Remove' : 'Add'} ${item.surfaceType.toLowerCase()}: ` +
+  `${formatSprayDepth(item.thickness, units)} of ${item.foamType} over ${formatQuantity(item.area, 'area', units, 0)}.`;
+
+/** Invoice lines for the approved change orders, one per item. */
+export const buildChangeOrderLines = (
+  changeOrders: ChangeOrder[],
+  jurisdiction?: TaxJurisdiction,
+  units?: UnitSystem
+): InvoiceLineItem[] =>
+  changeOrders
+    .filter(co => co.status === 'Approved')
+    .flatMap(co => co.items.map(item => ({
+      id: `${CHANGE_ORDER_LINE_PREFIX}${co.id}-${item.id}`,
+      item: `Change Order #${co.number}${item.description ? `: ${item.description}` : ''}`,
+      description: `${describeChangeOrderItem(item, units)}${co.reason ? ` ${co.reason}` : ''}`,
+      qty: formatQuantity(item.area, 'area', units, 0),
+      amount: changeOrderItemAmount(item),
+      taxCategory: 'material' as const,
+      taxable: isTaxableCategory('material', jurisdiction),
+    })));
+
+/**
+ * Brings invoice lines in line with the approved change orders: adds lines
+ * for newly approved ones, drops lines for any no longer approved, and keeps
+ * edits made to lines already on the invoice.
+ */
+export const mergeChangeOrderLines = (
+  lines: InvoiceLineItem[],
+  changeOrders: ChangeOrder[],
+  jurisdiction?: TaxJurisdiction,
+  units?: UnitSystem
+): InvoiceLineItem[] => {
+  const expected = buildChangeOrderLines(changeOrders, jurisdiction, units);
+  const expectedIds = new Set(expected.map(line => line.id));
+  const kept = lines.filter(line => !isChangeOrderLine(line) || expectedIds.has(line.id));
+  const keptIds = new Set(kept.map(line => line.id));
+  return [...kept, ...expected.filter(line => !keptIds.has(line.id))];
+};
@@ -0,0 +1,28 @@
+/**
+ * Bundled energy-code insulation tables.
+ *
+ * Values are the IECC 2021 residential prescriptive R-values (Table R402.1.3)
+ * expressed as a single total R for a spray-foam assembly: cavity-only
+ * values for walls and ceilings, continuous values for crawlspace walls.
+ * Walls in zones 4+ use the 20+5ci option (R-25 total).
+ */
+import { ClimateZone, InsulationAssembly } from '../types.js';
+
+export const CLIMATE_ZONES: ClimateZone[] = ['1', '2', '3', '4', '5', '6', '7', '8'];
+
+export const IECC_CODE_EDITION = 'IECC 2021';
+
+export const IECC_R_VALUE_TABLE: Record<InsulationAssembly, Record<ClimateZone, number>> = {
+  [InsulationAssembly.WALL]: {
+    '1': 13, '2': 13, '3': 20, '4': 25, '5': 25, '6': 25, '7': 25, '8': 25,
+  },
+  [InsulationAssembly.ATTIC]: {
+    '1': 30, '2': 49, '3': 49, '4': 60, '5': 60, '6': 60, '7': 60, '8': 60,
+  },
+  [InsulationAssembly.CRAWLSPACE]: {
+    '1': 0, '2': 0, '3': 5, '4': 10, '5': 15, '6': 15, '7': 15, '8': 15,
+  },
+};
+
+export const getCodeRValue = (zone: ClimateZone, assembly: InsulationAssembly): number =>
+  IECC_R_VALUE_TABLE[assembly]?.[zone] ?? 0;
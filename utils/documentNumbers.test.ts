@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DocumentType, documentNumberFor } from '../types.js';
+import { formatSequenceNumber, getDocumentNumbering } from './documentNumbers.js';
+import { allocateDocumentNumber, voidDocumentNumbers } from '../backend/src/utils/documentNumbers.js';
+
+vi.mock('../backend/src/utils/prisma.js', () => ({ prisma: {} }));
+
+describe('formatSequenceNumber', () => {
+  it('pads the sequence after the prefix', () => {
+    expect(formatSequenceNumber({ prefix: 'EST', includeYear: false, padding: 4 }, 42, 0)).toBe('EST-0042');
+  });
+
+  it('puts the year between prefix and sequence', () => {
+    expect(formatSequenceNumber({ prefix: 'INV', includeYear: true, padding: 4 }, 42, 2026)).toBe('INV-2026-0042');
+  });
+
+  it('drops a blank prefix', () => {
+    expect(formatSequenceNumber({ prefix: '  ', includeYear: false, padding: 3 }, 7, 0)).toBe('007');
+  });
+
+  it('never truncates a sequence longer than the padding', () => {
+    expect(formatSequenceNumber({ prefix: 'WO', includeYear: false, padding: 2 }, 12345, 0)).toBe('WO-12345');
+  });
+});
+
+describe('getDocumentNumbering', () => {
+  it('uses the defaults when the org has none', () => {
+    expect(getDocumentNumbering()).toEqual({
+      estimate: { prefix: 'EST', includeYear: false, padding: 4 },
+      workOrder: { prefix: 'WO', includeYear: false, padding: 4 },
+      invoice: { prefix: 'INV', includeYear: true, padding: 4 },
+    });
+  });
+
+  it('fills missing settings from the defaults', () => {
+    const numbering = getDocumentNumbering({ invoice: { prefix: 'RR' } });
+    expect(numbering.invoice).toEqual({ prefix: 'RR', includeYear: true, padding: 4 });
+    expect(numbering.estimate.prefix).toBe('EST');
+  });
+
+  it('keeps padding between 1 and 10 digits', () => {
+    expect(getDocumentNumbering({ estimate: { padding: 25 } }).estimate.padding).toBe(10);
+    expect(getDocumentNumbering({ estimate: { padding: 0.4 } }).estimate.padding).toBe(1);
+    expect(getDocumentNumbering({ estimate: { padding: 2.6 } }).estimate.padding).toBe(3);
+  });
+});
+
+describe('documentNumberFor', () => {
+  const record = { id: 'abcdef12-3456', estimateNumber: 'EST-0007', workOrderNumber: 'WO-0003', invoiceNumber: 'INV-2026-0001' };
+
+  it('prints the number assigned for each document', () => {
+    expect(documentNumberFor(record, DocumentType.ESTIMATE)).toBe('EST-0007');
+    expect(documentNumberFor(record, DocumentType.WORK_ORDER)).toBe('WO-0003');
+    expect(documentNumberFor(record, DocumentType.INVOICE)).toBe('INV-2026-0001');
+  });
+
+  it('derives a number for jobs from before sequential numbering', () => {
+    expect(documentNumberFor({ id: 'abcdef12-3456' }, DocumentType.ESTIMATE)).toBe('EST-ABCDEF12');
+    expect(documentNumberFor({ id: 'abcdef12-3456', invoiceNumber: 'INV-1001' }, DocumentType.WORK_ORDER)).toBe('WO-1001');
+  });
+});
+
+type Db = Parameters<typeof allocateDocumentNumber>[0];
+
+interface IssuedNumber {
+  organizationId: string;
+  kind: string;
+  number: string;
+  sequence: number;
+  year: number;
+  estimateId: string;
+  voidedAt: Date | null;
+  voidReason: string | null;
+}
+
+// The counter upsert and the documentNumber table, kept in memory
+const fakeDb = () => {
+  const counters = new Map<string, number>();
+  const issued: IssuedNumber[] = [];
+  const db = {
+    organization: { findUnique: async () => ({ documentNumbering: {} }) },
+    $queryRaw: async (_sql: TemplateStringsArray, organizationId: string, kind: string, year: number) => {
+      const key = `${organizationId}:${kind}:${year}`;
+      counters.set(key, (counters.get(key) || 0) + 1);
+      return [{ last_value: counters.get(key) }];
+    },
+    documentNumber: {
+      create: async ({ data }: { data: Omit<IssuedNumber, 'voidedAt' | 'voidReason'> }) => {
+        issued.push({ ...data, voidedAt: null, voidReason: null });
+      },
+      updateMany: async ({ where, data }: { where: Partial<IssuedNumber>; data: Partial<IssuedNumber> }) => {
+        const matches = issued.filter(n => n.organizationId === where.organizationId && n.estimateId === where.estimateId && n.voidedAt === where.voidedAt);
+        matches.forEach(n => Object.assign(n, data));
+        return { count: matches.length };
+      },
+    },
+  };
+  return { db: db as unknown as Db, issued };
+};
+
+describe('voiding document numbers', () => {
+  it('keeps voided numbers on record and never reissues them', async () => {
+    const { db, issued } = fakeDb();
+    await allocateDocumentNumber(db, 'org-1', 'estimate', 'a');
+    await allocateDocumentNumber(db, 'org-1', 'estimate', 'b');
+    await voidDocumentNumbers(db, 'org-1', 'b', 'Estimate deleted');
+
+    expect(await allocateDocumentNumber(db, 'org-1', 'estimate', 'c')).toBe('EST-0003');
+    expect(issued.map(n => [n.number, n.voidReason])).toEqual([
+      ['EST-0001', null],
+      ['EST-0002', 'Estimate deleted'],
+      ['EST-0003', null],
+    ]);
+  });
+
+  it('voids every number on the estimate and nothing else', async () => {
+    const { db, issued } = fakeDb();
+    await allocateDocumentNumber(db, 'org-1', 'estimate', 'a');
+    await allocateDocumentNumber(db, 'org-1', 'workOrder', 'a');
+    await allocateDocumentNumber(db, 'org-1', 'estimate', 'b');
+    await voidDocumentNumbers(db, 'org-1', 'a', 'Archived from Work Order');
+
+    expect(issued.filter(n => n.voidedAt).map(n => n.number)).toEqual(['EST-0001', 'WO-0001']);
+  });
+
+  it('keeps the first reason when an estimate is voided again', async () => {
+    const { db, issued } = fakeDb();
+    await allocateDocumentNumber(db, 'org-1', 'estimate', 'a');
+    await voidDocumentNumbers(db, 'org-1', 'a', 'Archived from Draft');
+    await voidDocumentNumbers(db, 'org-1', 'a', 'Estimate deleted');
+
+    expect(issued[0].voidReason).toBe('Archived from Draft');
+  });
+});
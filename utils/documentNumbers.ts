@@ -0,0 +1,51 @@
+/**
+ * Sequential document numbers.
+ *
+ * The API keeps one counter per org for each document kind and assigns the
+ * next number as an estimate is created, becomes a work order and is
+ * invoiced. This module holds the org's format and how a sequence value is
+ * written with it.
+ */
+import { DocumentNumberFormat, DocumentNumberKind, DocumentNumbering } from '../types.js';
+
+export const DOCUMENT_NUMBER_KINDS: DocumentNumberKind[] = ['estimate', 'workOrder', 'invoice'];
+
+export const DOCUMENT_NUMBER_LABELS: Record<DocumentNumberKind, string> = {
+  estimate: 'Estimates',
+  workOrder: 'Work Orders',
+  invoice: 'Invoices',
+};
+
+export const DEFAULT_DOCUMENT_NUMBERING: DocumentNumbering = {
+  estimate: { prefix: 'EST', includeYear: false, padding: 4 },
+  workOrder: { prefix: 'WO', includeYear: false, padding: 4 },
+  invoice: { prefix: 'INV', includeYear: true, padding: 4 },
+};
+
+const MAX_PADDING = 10;
+
+/** Org formats with any missing kind or setting filled from the defaults. */
+export const getDocumentNumbering = (numbering?: Partial<Record<DocumentNumberKind, Partial<DocumentNumberFormat>>>): DocumentNumbering => {
+  const formatFor = (kind: DocumentNumberKind): DocumentNumberFormat => {
+    const format = numbering?.[kind];
+    const fallback = DEFAULT_DOCUMENT_NUMBERING[kind];
+    return {
+      prefix: format?.prefix ?? fallback.prefix,
+      includeYear: format?.includeYear ?? fallback.includeYear,
+      padding: Math.min(MAX_PADDING, Math.max(1, Math.round(format?.padding || fallback.padding))),
+    };
+  };
+  return {
+    estimate: formatFor('estimate'),
+    workOrder: formatFor('workOrder'),
+    invoice: formatFor('invoice'),
+  };
+};
+
+/** Writes a sequence value in the org's format, e.g. INV-2026-0042. */
+export const formatSequenceNumber = (format: DocumentNumberFormat, sequence: number, year: number): string =>
+  [
+    format.prefix.trim(),
+    format.includeYear ? String(year) : '',
+    String(sequence).padStart(format.padding, '0'),
+  ].filter(Boolean).join('-');
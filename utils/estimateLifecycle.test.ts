@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { checkExecutionTransition, checkTransition } from './estimateLifecycle.js';
+
+describe('checkTransition', () => {
+  it('moves a draft with a customer to a work order and numbers it', () => {
+    expect(checkTransition('Draft', 'Work Order', { customerId: 'c-1' })).toEqual({
+      fields: ['scheduledDate', 'scheduledDays', 'crewId', 'workOrderSheetUrl'],
+      assigns: 'workOrder',
+    });
+  });
+
+  it('invoices a work order with a total and numbers the invoice', () => {
+    const check = checkTransition('Work Order', 'Invoiced', { totalValue: 1200 });
+    expect(check.error).toBeUndefined();
+    expect(check.fields).toEqual(['invoiceDate', 'paymentTerms']);
+    expect(check.assigns).toBe('invoice');
+  });
+
+  it('marks a settled invoice paid, with nothing else to set', () => {
+    expect(checkTransition('Invoiced', 'Paid', { balanceDue: 0 })).toEqual({ fields: [], assigns: undefined });
+  });
+
+  it('archives from anywhere', () => {
+    expect(checkTransition('Draft', 'Archived', {}).error).toBeUndefined();
+    expect(checkTransition('Paid', 'Archived', {}).error).toBeUndefined();
+  });
+
+  it('refuses moves the lifecycle doesn\'t allow', () => {
+    expect(checkTransition('Draft', 'Invoiced', { totalValue: 1200 }).error).toBe('An estimate can\'t move from Draft to Invoiced');
+    expect(checkTransition('Paid', 'Work Order', {}).error).toBe('An estimate can\'t move from Paid to Work Order');
+    expect(checkTransition('Archived', 'Draft', {}).error).toBe('An estimate can\'t move from Archived to Draft');
+  });
+
+  it('refuses moves whose guard fails, and allows no fields with them', () => {
+    expect(checkTransition('Draft', 'Work Order', {})).toEqual({ error: 'A work order needs a customer', fields: [] });
+    expect(checkTransition('Work Order', 'Invoiced', { totalValue: 0 }).error).toBe('An invoice needs a total above zero');
+    expect(checkTransition('Invoiced', 'Paid', { balanceDue: 250 }).error).toBe('The invoice still has $250.00 outstanding');
+  });
+
+  it('leaves out fields that don\'t belong to the move', () => {
+    expect(checkTransition('Draft', 'Work Order', { customerId: 'c-1' }).fields).not.toContain('invoiceDate');
+    expect(checkTransition('Work Order', 'Invoiced', { totalValue: 1200 }).fields).not.toContain('crewId');
+    expect(checkTransition('Draft', 'Archived', {}).fields).toEqual([]);
+  });
+
+  it('allows a status\'s own fields when it stays put', () => {
+    expect(checkTransition('Work Order', 'Work Order', {})).toEqual({ fields: ['scheduledDate', 'scheduledDays', 'crewId', 'workOrderSheetUrl'] });
+    expect(checkTransition('Paid', 'Paid', {})).toEqual({ fields: [] });
+  });
+});
+
+describe('checkExecutionTransition', () => {
+  it('moves a work order\'s job forward', () => {
+    expect(checkExecutionTransition('Work Order', 'Not Started', 'In Progress')).toBeNull();
+    expect(checkExecutionTransition('Work Order', 'Not Started', 'Completed')).toBeNull();
+    expect(checkExecutionTransition('Work Order', 'In Progress', 'Completed')).toBeNull();
+  });
+
+  it('refuses moving a job backward', () => {
+    expect(checkExecutionTransition('Work Order', 'Completed', 'In Progress')).toBe('A job can\'t move from Completed to In Progress');
+    expect(checkExecutionTransition('Work Order', 'In Progress', 'Not Started')).toBe('A job can\'t move from In Progress to Not Started');
+  });
+
+  it('only changes progress on a work order', () => {
+    expect(checkExecutionTransition('Draft', 'Not Started', 'In Progress')).toBe('Job progress only changes on a work order');
+    expect(checkExecutionTransition('Invoiced', 'In Progress', 'Completed')).toBe('Job progress only changes on a work order');
+  });
+
+  it('allows staying put in any status', () => {
+    expect(checkExecutionTransition('Invoiced', 'Completed', 'Completed')).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Estimate lifecycle.
+ *
+ * Which status and job progress moves are allowed, and what each move may
+ * set. Used by the app and by the API, which enforces it on every change.
+ */
+import { DocumentNumberKind, EstimateRecord } from '../types.js';
+
+export type EstimateStatus = EstimateRecord['status'];
+export type ExecutionStatus = EstimateRecord['executionStatus'];
+
+export interface LifecycleState {
+  status: EstimateStatus;
+  executionStatus: ExecutionStatus;
+}
+
+/** The stored fields the guards read, with the request's changes applied. */
+export interface LifecycleFields {
+  customerId?: string | null;
+  totalValue?: number | null;
+  /** Amount still owed after recorded payments. */
+  balanceDue?: number;
+}
+
+interface Transition {
+  /** Fields PATCH /:id/status may set along with the move. */
+  fields: string[];
+  /** Returns why the move is refused, or null when it may go ahead. */
+  guard?: (estimate: LifecycleFields) => string | null;
+  /** Document number the move assigns, if the estimate doesn't have one yet. */
+  assigns?: DocumentNumberKind;
+}
+
+// Draft → Work Order → Invoiced → Paid. Archived is reachable from anywhere
+// and is final.
+const TRANSITIONS: Record<EstimateStatus, Partial<Record<EstimateStatus, Transition>>> = {
+  Draft: {
+    'Work Order': {
+      fields: ['scheduledDate', 'scheduledDays', 'crewId', 'workOrderSheetUrl'],
+      guard: (e) => (e.customerId ? null : 'A work order needs a customer'),
+      assigns: 'workOrder',
+    },
+  },
+  'Work Order': {
+    Invoiced: {
+      fields: ['invoiceDate', 'paymentTerms'],
+      guard: (e) => ((e.totalValue || 0) > 0 ? null : 'An invoice needs a total above zero'),
+      assigns: 'invoice',
+    },
+  },
+  Invoiced: {
+    Paid: {
+      fields: [],
+      guard: (e) => ((e.balanceDue || 0) > 0 ? `The invoice still has $${(e.balanceDue || 0).toFixed(2)} outstanding` : null),
+    },
+  },
+  Paid: {},
+  Archived: {},
+};
+
+const ARCHIVE: Transition = { fields: [] };
+
+/** Fields PATCH /:id/status may change while the estimate stays where it is. */
+const STATE_FIELDS: Record<EstimateStatus, string[]> = {
+  Draft: [],
+  'Work Order': ['scheduledDate', 'scheduledDays', 'crewId', 'workOrderSheetUrl'],
+  Invoiced: ['invoiceDate', 'paymentTerms'],
+  Paid: [],
+  Archived: [],
+};
+
+// Crew progress on a work order only moves forward
+const EXECUTION_TRANSITIONS: Record<ExecutionStatus, ExecutionStatus[]> = {
+  'Not Started': ['In Progress', 'Completed'],
+  'In Progress': ['Completed'],
+  Completed: [],
+};
+
+export interface TransitionCheck {
+  /** Why the move is refused; absent when it may go ahead. */
+  error?: string;
+  /** Fields that may be set with the move. */
+  fields: string[];
+  assigns?: DocumentNumberKind;
+}
+
+/**
+ * Checks a status move against the lifecycle and its guard. Staying in the
+ * same status is always allowed.
+ */
+export function checkTransition(from: EstimateStatus, to: EstimateStatus, estimate: LifecycleFields): TransitionCheck {
+  if (from === to) return { fields: STATE_FIELDS[from] };
+
+  const transition = to === 'Archived' ? ARCHIVE : TRANSITIONS[from]?.[to];
+  if (!transition) return { error: `An estimate can't move from ${from} to ${to}`, fields: [] };
+
+  const refused = transition.guard?.(estimate);
+  if (refused) return { error: refused, fields: [] };
+  return { fields: transition.fields, assigns: transition.assigns };
+}
+
+/** Returns why a job progress move is refused, or null when it is allowed. */
+export function checkExecutionTransition(
+  status: EstimateStatus,
+  from: ExecutionStatus,
+  to: ExecutionStatus,
+): string | null {
+  if (from === to) return null;
+  if (status !== 'Work Order') return 'Job progress only changes on a work order';
+  if (!EXECUTION_TRANSITIONS[from].includes(to)) return `A job can't move from ${from} to ${to}`;
+  return null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Good / better / best option packages.
+ *
+ * An estimate can offer several named scopes to the same customer. The
+ * calculator edits one at a time: the active option's surfaces live in the
+ * regular wallSettings / roofSettings / takeoffLines fields and are copied
+ * back into `estimateOptions` whenever the estimator switches or saves.
+ * Everything else (customer, expenses, pricing mode, inventory) is shared.
+ */
+import { CalculatorState, CalculationResults, EstimateOption } from '../types.js';
+import { calculateResults } from './calculatorHelpers.js';
+
+const OPTION_NAMES = ['Good', 'Better', 'Best'];
+
+type OptionScope = Pick<EstimateOption, 'wallSettings' | 'roofSettings' | 'takeoffLines'>;
+
+const copyScope = (scope: OptionScope): OptionScope => ({
+  wallSettings: { ...scope.wallSettings },
+  roofSettings: { ...scope.roofSettings },
+  takeoffLines: (scope.takeoffLines || []).map(line => ({ ...line })),
+});
+
+const newOptionId = () => Math.random().toString(36).substr(2, 9);
+
+export const hasEstimateOptions = (state: Pick<CalculatorState, 'estimateOptions'>): boolean =>
+  (state.estimateOptions || []).length > 1;
+
+/** Options with the active one updated from the calculator's current surfaces. */
+export const syncActiveOption = (state: CalculatorState): EstimateOption[] =>
+  (state.estimateOptions || []).map(option =>
+    option.id === state.activeOptionId ? { ...option, ...copyScope(state) } : option
+  );
+
+/**
+ * Adds an option copied from the current surfaces and makes it active. The
+ * first call also turns the existing scope into the first option.
+ */
+export const addEstimateOption = (state: CalculatorState): Partial<CalculatorState> => {
+  const options = syncActiveOption(state);
+  if (options.length === 0) {
+    options.push({ id: newOptionId(), name: OPTION_NAMES[0], ...copyScope(state) });
+  }
+  const option: EstimateOption = {
+    id: newOptionId(),
+    name: OPTION_NAMES[options.length] || `Option ${options.length + 1}`,
+    ...copyScope(state),
+  };
+  return { estimateOptions: [...options, option], activeOptionId: option.id };
+};
+
+/** Keeps the active option's edits and loads another into the calculator. */
+export const switchEstimateOption = (state: CalculatorState, optionId: string): Partial<CalculatorState> => {
+  const options = syncActiveOption(state);
+  const target = options.find(o => o.id === optionId);
+  if (!target) return {};
+  return { estimateOptions: options, activeOptionId: optionId, ...copyScope(target) };
+};
+
+/**
+ * Drops an option. When only one scope is left the estimate goes back to
+ * being a plain single-scope estimate.
+ */
+export const removeEstimateOption = (state: CalculatorState, optionId: string): Partial<CalculatorState> => {
+  const options = syncActiveOption(state).filter(o => o.id !== optionId);
+  const acceptedOptionId = state.acceptedOptionId === optionId ? undefined : state.acceptedOptionId;
+
+  if (options.length <= 1) {
+    return {
+      estimateOptions: [],
+      activeOptionId: undefined,
+      acceptedOptionId: undefined,
+      ...(options[0] ? copyScope(options[0]) : {}),
+    };
+  }
+  if (optionId !== state.activeOptionId) {
+    return { estimateOptions: options, acceptedOptionId };
+  }
+  return { estimateOptions: options, activeOptionId: options[0].id, acceptedOptionId, ...copyScope(options[0]) };
+};
+
+/** Marks the customer's choice and loads it as the job's scope. */
+export const acceptEstimateOption = (state: CalculatorState, optionId: string): Partial<CalculatorState> => ({
+  ...switchEstimateOption(state, optionId),
+  acceptedOptionId: optionId,
+});
+
+/** Results for one option, priced with everything the options share. */
+export const calculateOptionResults = (state: CalculatorState, option: EstimateOption): CalculationResults =>
+  calculateResults({ ...state, ...copyScope(option) });
+
+/** Current options with up-to-date results, as stored on the record. */
+export const priceEstimateOptions = (state: CalculatorState): EstimateOption[] =>
+  syncActiveOption(state).map(option => ({ ...option, results: calculateOptionResults(state, option) }));
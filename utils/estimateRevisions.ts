@@ -0,0 +1,172 @@
+/**
+ * Estimate revision history.
+ *
+ * The API stores a snapshot of the estimate after every save that changes
+ * it. Shared with the API (which decides what a snapshot holds and what a
+ * restore copies back), so keep it free of browser APIs.
+ */
+import { EstimateRecord, EstimateRevisionSnapshot } from '../types.js';
+
+export const REVISION_SNAPSHOT_FIELDS: (keyof EstimateRevisionSnapshot)[] = [
+  'status', 'customer', 'inputs', 'results', 'materials', 'wallSettings', 'roofSettings',
+  'expenses', 'options', 'acceptedOptionId', 'totalValue', 'notes', 'pricingMode',
+  'marginTargets', 'sqFtRates', 'taxJurisdictionId', 'salesTax', 'paymentTerms',
+  'estimateLines', 'invoiceLines', 'workOrderLines', 'changeOrders',
+];
+
+// Restoring brings back the quote's content. Workflow status, the customer record and
+// change orders (each approved separately by the customer) stay as they are.
+export type RestorableField = Exclude<keyof EstimateRevisionSnapshot, 'status' | 'customer' | 'changeOrders'>;
+
+export const RESTORABLE_FIELDS = REVISION_SNAPSHOT_FIELDS.filter(
+  (field): field is RestorableField => field !== 'status' && field !== 'customer' && field !== 'changeOrders'
+);
+
+// A sent quote, an invoice or a paid job is what the customer has seen, so only open work is rewritten
+export const RESTORABLE_STATUSES: EstimateRecord['status'][] = ['Draft', 'Work Order'];
+
+// Headline figures compared between revisions; the rest of `results` is derived from the inputs
+const RESULT_DIFF_FIELDS = [
+  'totalWallArea', 'totalRoofArea', 'totalOpenCellBdFt', 'totalClosedCellBdFt',
+  'openCellSets', 'closedCellSets', 'materialCost', 'laborCost', 'miscExpenses', 'totalCost',
+] as const;
+
+const FIELD_LABELS: Record<keyof EstimateRevisionSnapshot, string> = {
+  status: 'Status',
+  customer: 'Customer',
+  inputs: 'Dimensions',
+  results: 'Totals',
+  materials: 'Materials',
+  wallSettings: 'Walls',
+  roofSettings: 'Roof',
+  expenses: 'Labor & Fees',
+  options: 'Options',
+  acceptedOptionId: 'Accepted Option',
+  totalValue: 'Total Value',
+  notes: 'Notes',
+  pricingMode: 'Pricing Mode',
+  marginTargets: 'Margin Targets',
+  sqFtRates: 'Sq Ft Rates',
+  taxJurisdictionId: 'Tax Jurisdiction',
+  salesTax: 'Sales Tax',
+  paymentTerms: 'Payment Terms',
+  estimateLines: 'Estimate Lines',
+  invoiceLines: 'Invoice Lines',
+  workOrderLines: 'Work Order Lines',
+  changeOrders: 'Change Orders',
+};
+
+export type RevisionValue = string | number | boolean | null;
+
+export interface RevisionChange {
+  path: string;
+  label: string;
+  before: RevisionValue;
+  after: RevisionValue;
+}
+
+export const buildRevisionSnapshot = (record: Partial<EstimateRecord>): EstimateRevisionSnapshot => {
+  const snapshot: Partial<EstimateRevisionSnapshot> = {};
+  REVISION_SNAPSHOT_FIELDS.forEach(field => {
+    if (record[field] !== undefined) (snapshot as Record<string, unknown>)[field] = record[field];
+  });
+  return snapshot as EstimateRevisionSnapshot;
+};
+
+/** The record as it stood at a revision, for viewing or printing. */
+export const applyRevisionSnapshot = (
+  record: EstimateRecord,
+  snapshot: EstimateRevisionSnapshot,
+  fields: (keyof EstimateRevisionSnapshot)[] = REVISION_SNAPSHOT_FIELDS
+): EstimateRecord => {
+  const next: Record<string, unknown> = { ...record };
+  fields.forEach(field => { next[field] = snapshot[field]; });
+  return next as unknown as EstimateRecord;
+};
+
+// Trims a snapshot to what's worth comparing: headline totals instead of every derived figure
+const comparable = (snapshot: EstimateRevisionSnapshot): Record<string, unknown> => {
+  const pickTotals = (results: unknown) => {
+    if (!results || typeof results !== 'object') return undefined;
+    const picked: Record<string, unknown> = {};
+    RESULT_DIFF_FIELDS.forEach(f => { picked[f] = (results as Record<string, unknown>)[f]; });
+    return picked;
+  };
+  return {
+    ...snapshot,
+    results: pickTotals(snapshot.results),
+    options: snapshot.options?.map(option => ({ ...option, results: pickTotals(option.results) })),
+  };
+};
+
+// Array items with an id are matched by id so inserting a line doesn't show every later line as changed
+const flatten = (value: unknown, path: string, out: Map<string, RevisionValue>) => {
+  if (value === undefined || value === null || value === '') {
+    out.set(path, null);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      const key = item && typeof item === 'object' && 'id' in item ? String(item.id) : String(index);
+      flatten(item, `${path}[${key}]`, out);
+    });
+  } else if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => flatten(child, `${path}.${key}`, out));
+  } else {
+    out.set(path, value as RevisionValue);
+  }
+};
+
+const humanize = (segment: string) =>
+  segment.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+
+const labelFor = (path: string, snapshots: EstimateRevisionSnapshot[]) => {
+  const [top, ...rest] = path.split(/\.|(?=\[)/);
+  const parts = [FIELD_LABELS[top as keyof EstimateRevisionSnapshot] || humanize(top)];
+  let containers: unknown[] = snapshots.map(s => (s as Record<string, unknown>)[top]);
+  rest.forEach(segment => {
+    const itemKey = segment.match(/^\[(.+)\]$/)?.[1];
+    if (itemKey === undefined) {
+      parts.push(humanize(segment));
+      containers = containers.map(c => (c && typeof c === 'object' ? (c as Record<string, unknown>)[segment] : undefined));
+      return;
+    }
+    // Name list items by what the user calls them (line item, option, takeoff or change order) rather than an id
+    const items = containers.map(c => (Array.isArray(c)
+      ? c.find((item, index) => (item && typeof item === 'object' && 'id' in item ? String(item.id) : String(index)) === itemKey)
+      : undefined));
+    const named = items.find(item => item && typeof item === 'object' && (item.item || item.name || item.description || item.number));
+    parts.push(named
+      ? String(named.item || named.name || named.description || `#${named.number}`)
+      : `#${Number(itemKey) + 1 || itemKey}`);
+    containers = items;
+  });
+  return parts.join(' › ');
+};
+
+/** Field-level changes going from one revision to another, leaf by leaf. */
+export const diffSnapshots = (
+  before: EstimateRevisionSnapshot,
+  after: EstimateRevisionSnapshot
+): RevisionChange[] => {
+  const a = new Map<string, RevisionValue>();
+  const b = new Map<string, RevisionValue>();
+  Object.entries(comparable(before)).forEach(([key, value]) => flatten(value, key, a));
+  Object.entries(comparable(after)).forEach(([key, value]) => flatten(value, key, b));
+
+  const changes: RevisionChange[] = [];
+  new Set([...a.keys(), ...b.keys()]).forEach(path => {
+    const from = a.get(path) ?? null;
+    const to = b.get(path) ?? null;
+    if (from === to) return;
+    changes.push({ path, label: labelFor(path, [before, after]), before: from, after: to });
+  });
+  return changes;
+};
+
+/** True when two snapshots hold the same content (key order aside, as JSON columns reorder keys). */
+export const isSameSnapshot = (a: EstimateRevisionSnapshot, b: EstimateRevisionSnapshot): boolean => {
+  const fa = new Map<string, RevisionValue>();
+  const fb = new Map<string, RevisionValue>();
+  flatten(a, 'snapshot', fa);
+  flatten(b, 'snapshot', fb);
+  return [...new Set([...fa.keys(), ...fb.keys()])].every(path => (fa.get(path) ?? null) === (fb.get(path) ?? null));
+};
@@ -0,0 +1,91 @@
+/**
+ * Job P&L.
+ *
+ * Used by the app and by the API, which recomputes `financials` itself
+ * rather than storing what the browser sends. Revenue is the pre-tax job
+ * value; sales tax is carried alongside but never counted as revenue.
+ */
+import { CalculationResults, CalculatorState, EstimateRecord, SalesTaxSummary } from '../types.js';
+import { grossMargin } from './marginPricing.js';
+
+export type JobFinancials = NonNullable<EstimateRecord['financials']>;
+
+/** Planned P&L for an open quote, from its calculated costs and quoted value. */
+export const projectFinancials = (
+  results: CalculationResults,
+  revenue: number,
+  salesTax: SalesTaxSummary | undefined = results.salesTax
+): JobFinancials => {
+  const totalCOGS = results.materialCost + results.laborCost + results.miscExpenses;
+  return {
+    revenue,
+    totalCOGS,
+    chemicalCost: results.openCellCost + results.closedCellCost,
+    laborCost: results.laborCost,
+    inventoryCost: results.inventoryCost,
+    miscCost: results.miscExpenses,
+    netProfit: revenue - totalCOGS,
+    margin: grossMargin(revenue, totalCOGS),
+    targetMargin: results.marginFloor,
+    salesTax: salesTax?.amount || 0,
+  };
+};
+
+/**
+ * Man-hours worked on a job: approved timesheet hours once there are any,
+ * else what the crew reported on completion.
+ */
+export const actualLaborHours = (actuals?: EstimateRecord['actuals']): number =>
+  actuals?.approvedLaborHours ?? actuals?.laborHours ?? 0;
+
+/** The parts of a job its paid P&L is worked out from. */
+export interface PaidFinancialsInput {
+  totalValue: number;
+  materials?: Partial<Pick<EstimateRecord['materials'], 'openCellSets' | 'closedCellSets' | 'inventory'>>;
+  expenses?: Partial<EstimateRecord['expenses']>;
+  financials?: Pick<JobFinancials, 'targetMargin'>;
+  salesTax?: Pick<SalesTaxSummary, 'amount'>;
+  actuals?: Pick<NonNullable<EstimateRecord['actuals']>, 'approvedLaborHours'>;
+}
+
+/**
+ * Actual P&L when a job is paid: sets and hours on the record at the org's
+ * current chemical and labor costs. Hours are the approved timesheet hours
+ * when there are any, else the estimate's. Keeps the margin floor it was
+ * quoted at.
+ */
+export const calculatePaidFinancials = (
+  estimate: PaidFinancialsInput,
+  costs: CalculatorState['costs']
+): JobFinancials => {
+  const revenue = estimate.totalValue || 0;
+  const chemicalCost =
+    (estimate.materials?.openCellSets || 0) * (costs.openCell || 0) +
+    (estimate.materials?.closedCellSets || 0) * (costs.closedCell || 0);
+  const laborCost =
+    (estimate.actuals?.approvedLaborHours ?? estimate.expenses?.manHours ?? 0) *
+    (estimate.expenses?.laborRate || costs.laborRate || 0);
+  const inventoryCost = (estimate.materials?.inventory || []).reduce(
+    (sum, i) => sum + (i.unitCost || 0) * (i.quantity || 0),
+    0,
+  );
+  const miscCost =
+    (estimate.expenses?.tripCharge || 0) +
+    (estimate.expenses?.fuelSurcharge || 0) +
+    (estimate.expenses?.other?.amount || 0);
+  const totalCOGS = chemicalCost + laborCost + inventoryCost + miscCost;
+  const netProfit = revenue - totalCOGS;
+
+  return {
+    revenue,
+    totalCOGS,
+    chemicalCost,
+    laborCost,
+    inventoryCost,
+    miscCost,
+    netProfit,
+    margin: revenue > 0 ? (netProfit / revenue) * 100 : 0,
+    targetMargin: estimate.financials?.targetMargin,
+    salesTax: estimate.salesTax?.amount || 0,
+  };
+};
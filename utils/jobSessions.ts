@@ -0,0 +1,62 @@
+/**
+ * Job work sessions.
+ *
+ * A job sprayed over several days, possibly by different crews, gets one
+ * session per visit. The job's actuals carry the totals: sets, strokes and
+ * labor add up, the latest site readings win, and the crews' notes are kept
+ * per visit. Used by the app and by the API.
+ */
+import { EstimateRecord, JobConditions, JobSession } from '../types.js';
+
+type Actuals = NonNullable<EstimateRecord['actuals']>;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** The session still running on a job, if any. */
+export const openSession = (sessions: JobSession[] | undefined): JobSession | undefined =>
+  (sessions || []).find(session => !session.endedAt);
+
+/** Hours on site; a running session counts up to `now`. */
+export const sessionHours = (session: Pick<JobSession, 'startedAt' | 'endedAt'>, now: number = Date.now()): number => {
+  const end = session.endedAt ? Date.parse(session.endedAt) : now;
+  return Math.max(0, end - Date.parse(session.startedAt)) / 3_600_000;
+};
+
+/** Crew-hours the session adds to the job; a running one adds none until it ends. */
+export const sessionLaborHours = (session: JobSession): number =>
+  session.laborHours ?? (session.endedAt ? round2(sessionHours(session)) : 0);
+
+const hasReadings = (conditions?: JobConditions) =>
+  !!conditions && Object.values(conditions).some(value => value !== undefined && value !== null);
+
+/** Sprayed totals over the sessions. */
+export const sumSessions = (sessions: JobSession[]) => ({
+  openCellSets: round2(sessions.reduce((sum, s) => sum + (s.openCellSets || 0), 0)),
+  closedCellSets: round2(sessions.reduce((sum, s) => sum + (s.closedCellSets || 0), 0)),
+  openCellStrokes: sessions.reduce((sum, s) => sum + (s.openCellStrokes || 0), 0),
+  closedCellStrokes: sessions.reduce((sum, s) => sum + (s.closedCellStrokes || 0), 0),
+  laborHours: round2(sessions.reduce((sum, s) => sum + sessionLaborHours(s), 0)),
+});
+
+/**
+ * Job actuals with the sessions' totals in place of whatever was reported
+ * for the job as a whole. A job with no sessions keeps its actuals as they are.
+ */
+export const applySessionTotals = <T extends Partial<Actuals>>(actuals: T, sessions: JobSession[]): T => {
+  if (sessions.length === 0) return actuals;
+
+  const ordered = [...sessions].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  const latestReadings = [...ordered].reverse().find(session => hasReadings(session.conditions));
+  const notes = ordered
+    .filter(session => session.notes?.trim())
+    .map(session => `${session.workDate}${session.crewName ? ` (${session.crewName})` : ''}: ${session.notes!.trim()}`)
+    .join('\n');
+
+  return {
+    ...actuals,
+    ...sumSessions(ordered),
+    conditions: latestReadings?.conditions ?? actuals.conditions,
+    notes,
+    lastStartedAt: ordered[ordered.length - 1].startedAt,
+  };
+};
@@ -0,0 +1,67 @@
+/**
+ * Job templates.
+ *
+ * A template is a copy of the calculator's job setup taken when it is saved,
+ * and applying one copies it back. Nothing stays linked: an estimate built
+ * from version 2 keeps version 2's numbers after the template is edited, and
+ * only records which template and version it came from.
+ */
+import { CalculatorState, InvoiceLineItem, JobTemplate, JobTemplateData, JobTemplateRef } from '../types';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const captureTemplateData = (state: CalculatorState, estimateLines?: InvoiceLineItem[]): JobTemplateData => copy({
+  mode: state.mode,
+  length: state.length,
+  width: state.width,
+  wallHeight: state.wallHeight,
+  roofPitch: state.roofPitch,
+  roofType: state.roofType,
+  roofPitch2: state.roofPitch2,
+  includeGables: state.includeGables,
+  isMetalSurface: state.isMetalSurface,
+  additionalAreas: state.additionalAreas || [],
+  takeoffLines: state.takeoffLines || [],
+  openings: state.openings || [],
+  wallSettings: state.wallSettings,
+  roofSettings: state.roofSettings,
+  inventory: state.inventory || [],
+  jobEquipment: state.jobEquipment || [],
+  expenses: state.expenses,
+  pricingMode: state.pricingMode,
+  sqFtRates: state.sqFtRates,
+  marginTargets: state.marginTargets,
+  jobNotes: state.jobNotes || '',
+  ...(estimateLines && estimateLines.length > 0 ? { estimateLines } : {}),
+});
+
+/**
+ * Calculator updates that start the job from a template. Line ids are
+ * regenerated so the job's lines never share ids with the template's. The
+ * job's good/better/best options are cleared, since they would no longer
+ * match its scope.
+ */
+export const applyTemplateData = (template: JobTemplate): Partial<CalculatorState> => {
+  const { estimateLines, ...data } = copy(template.data);
+  return {
+    ...data,
+    additionalAreas: data.additionalAreas || [],
+    takeoffLines: (data.takeoffLines || []).map(line => ({ ...line, id: newId() })),
+    openings: (data.openings || []).map(opening => ({ ...opening, id: newId() })),
+    inventory: (data.inventory || []).map(item => ({ ...item, id: newId() })),
+    jobEquipment: data.jobEquipment || [],
+    estimateOptions: [],
+    activeOptionId: undefined,
+    acceptedOptionId: undefined,
+    appliedTemplate: toTemplateRef(template),
+    templateLines: estimateLines?.map(line => ({ ...line, id: newId() })),
+  };
+};
+
+export const toTemplateRef = (template: JobTemplate): JobTemplateRef => ({
+  id: template.id,
+  name: template.name,
+  version: template.version,
+});
@@ -0,0 +1,94 @@
+/**
+ * Labor hours from production rates.
+ *
+ * A crew sprays a roughly steady number of board feet per hour for each
+ * foam type. Crew-hours on site are setup/teardown plus board feet divided
+ * by that rate; man-hours are crew-hours times the number of people on the rig.
+ */
+import { EstimateRecord, ProductionRates } from '../types.js';
+import { actualLaborHours } from './jobFinancials.js';
+
+// Typical two-person rig until an org enters or calibrates its own numbers
+export const DEFAULT_PRODUCTION_RATES: ProductionRates = {
+  openCellBdFtPerHour: 1200,
+  closedCellBdFtPerHour: 500,
+  setupHours: 1.5,
+  crewSize: 2,
+};
+
+/** Org rates with any missing or zero values filled from the defaults. */
+export const getProductionRates = (rates?: Partial<ProductionRates>): ProductionRates => ({
+  openCellBdFtPerHour: rates?.openCellBdFtPerHour || DEFAULT_PRODUCTION_RATES.openCellBdFtPerHour,
+  closedCellBdFtPerHour: rates?.closedCellBdFtPerHour || DEFAULT_PRODUCTION_RATES.closedCellBdFtPerHour,
+  setupHours: rates?.setupHours ?? DEFAULT_PRODUCTION_RATES.setupHours,
+  crewSize: rates?.crewSize || DEFAULT_PRODUCTION_RATES.crewSize,
+});
+
+/**
+ * Suggested man-hours for a job, rounded to the quarter hour. Returns 0 when
+ * there is nothing to spray.
+ */
+export const suggestManHours = (
+  openCellBdFt: number,
+  closedCellBdFt: number,
+  rates: ProductionRates,
+  crewSize: number = rates.crewSize
+): number => {
+  if (openCellBdFt <= 0 && closedCellBdFt <= 0) return 0;
+  const crewHours = rates.setupHours
+    + openCellBdFt / rates.openCellBdFtPerHour
+    + closedCellBdFt / rates.closedCellBdFtPerHour;
+  return Math.ceil(crewHours * crewSize * 4) / 4;
+};
+
+export interface RateCalibration {
+  rates: ProductionRates;
+  jobCount: number;
+}
+
+/**
+ * Re-derives the spray rates from completed jobs' logged labor. Each job's
+ * actual spray time (logged man-hours ÷ crew, less setup) is compared to the
+ * time the current rates predict, and each foam type's rate is scaled by the
+ * weighted average of that ratio. Setup time and crew size are left as-is.
+ * Returns null when no completed job has both labor and board feet recorded.
+ */
+export const calibrateProductionRates = (estimates: EstimateRecord[], current: ProductionRates): RateCalibration | null => {
+  let ocPlanned = 0, ocActual = 0, ccPlanned = 0, ccActual = 0, jobCount = 0;
+
+  estimates.forEach(job => {
+    const laborHours = actualLaborHours(job.actuals);
+    const ocBdFt = job.results?.totalOpenCellBdFt || 0;
+    const ccBdFt = job.results?.totalClosedCellBdFt || 0;
+    if (job.executionStatus !== 'Completed' || laborHours <= 0 || ocBdFt + ccBdFt <= 0) return;
+
+    const crewSize = job.expenses?.crewSize || current.crewSize;
+    const sprayHours = laborHours / crewSize - current.setupHours;
+    if (sprayHours <= 0) return;
+
+    const plannedOc = ocBdFt / current.openCellBdFtPerHour;
+    const plannedCc = ccBdFt / current.closedCellBdFtPerHour;
+    const ratio = sprayHours / (plannedOc + plannedCc);
+
+    ocPlanned += plannedOc;
+    ocActual += plannedOc * ratio;
+    ccPlanned += plannedCc;
+    ccActual += plannedCc * ratio;
+    jobCount++;
+  });
+
+  if (jobCount === 0) return null;
+
+  // Rates are rounded to the nearest 10 bdft/hr; a type with no history keeps its rate
+  const scale = (rate: number, planned: number, actual: number) =>
+    planned > 0 && actual > 0 ? Math.max(10, Math.round((rate * planned / actual) / 10) * 10) : rate;
+
+  return {
+    jobCount,
+    rates: {
+      ...current,
+      openCellBdFtPerHour: scale(current.openCellBdFtPerHour, ocPlanned, ocActual),
+      closedCellBdFtPerHour: scale(current.closedCellBdFtPerHour, ccPlanned, ccActual),
+    },
+  };
+};
@@ -0,0 +1,34 @@
+/**
+ * Margin-targeted pricing.
+ *
+ * The estimator picks the gross margin to keep and the sell price is solved
+ * from cost: price = cost ÷ (1 − margin). Chemical, labor and inventory can
+ * each carry their own target; trip, fuel and misc fees pass through at cost.
+ */
+import { MarginTargets } from '../types.js';
+
+export const DEFAULT_MARGIN_TARGETS: MarginTargets = { overall: 40 };
+
+// There is no finite price for a 100% margin
+const MAX_MARGIN_PERCENT = 95;
+
+/** Per-category targets with blanks falling back to the overall margin. */
+export const getMarginTargets = (targets?: Partial<MarginTargets>) => {
+  const overall = targets?.overall ?? DEFAULT_MARGIN_TARGETS.overall;
+  return {
+    overall,
+    chemical: targets?.chemical ?? overall,
+    labor: targets?.labor ?? overall,
+    inventory: targets?.inventory ?? overall,
+  };
+};
+
+/** Sell price that leaves `marginPercent` of it as gross profit over `cost`. */
+export const priceForMargin = (cost: number, marginPercent: number): number => {
+  const margin = Math.min(Math.max(marginPercent || 0, 0), MAX_MARGIN_PERCENT) / 100;
+  return cost / (1 - margin);
+};
+
+/** Gross margin (%) of a price over its cost; 0 when there is no revenue. */
+export const grossMargin = (revenue: number, cost: number): number =>
+  revenue > 0 ? ((revenue - cost) / revenue) * 100 : 0;
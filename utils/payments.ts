@@ -0,0 +1,35 @@
+/**
+ * Job payments.
+ *
+ * Deposits and payments are kept by the API as a ledger per job. What the
+ * customer owes is the billed value plus sales tax; the balance is that less
+ * everything received. A job becomes Paid once its invoice balance reaches
+ * zero. Used by the app and by the API.
+ */
+import { EstimateRecord, Payment, PaymentMethod } from '../types.js';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['check', 'cash', 'card', 'ach'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  check: 'Check',
+  cash: 'Cash',
+  card: 'Card',
+  ach: 'ACH',
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** What the customer owes for the job, tax included. */
+export const amountDue = (record: Pick<EstimateRecord, 'totalValue' | 'salesTax'>): number =>
+  round2((record.totalValue || 0) + (record.salesTax?.amount || 0));
+
+export const totalPaid = (payments: Pick<Payment, 'amount'>[] | undefined): number =>
+  round2((payments || []).reduce((sum, p) => sum + (p.amount || 0), 0));
+
+/** Amount still owed; never below zero. */
+export const balanceDue = (record: Pick<EstimateRecord, 'totalValue' | 'salesTax' | 'payments'>): number =>
+  Math.max(0, round2(amountDue(record) - totalPaid(record.payments)));
+
+/** Deposit to request as a percentage of the amount due, less what was already received. */
+export const depositAmount = (record: Pick<EstimateRecord, 'totalValue' | 'salesTax' | 'payments'>, percent: number): number =>
+  Math.max(0, round2(amountDue(record) * (percent / 100) - totalPaid(record.payments)));
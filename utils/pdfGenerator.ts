@@ -1,7 +1,14 @@
 
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { CalculatorState, CalculationResults, EstimateRecord, FoamType, PurchaseOrder } from '../types';
+import { CalculatorState, CalculationResults, EstimateRecord, AreaType, PurchaseOrder, ChangeOrder, Payment, CustomerProfile } from '../types';
+import { getSpecSurfaceTotals, getFoamSpecCost, formatSprayScope, formatSprayDepth, describeFoamSpec, getRValueLines } from './calculatorHelpers';
+import { getMarginTargets, priceForMargin } from './marginPricing';
+import { calculateLineTax, getJobTaxJurisdiction, getTaxJurisdiction } from './salesTax';
+import { formatQuantity } from './units';
+import { changeOrderDelta, changeOrderItemAmount, describeChangeOrderItem, getApprovedChangeOrders, originalContractValue } from './changeOrders';
+import { amountDue, PAYMENT_METHOD_LABELS, totalPaid } from './payments';
+import { AGING_BUCKET_LABELS, AGING_BUCKETS, getOpenInvoices } from './receivables';
 import { saveDocument } from '../services/documentService';
 
 const BRAND_COLOR: [number, number, number] = [15, 23, 42]; // Slate 900 (Black/Dark Blue)
@@ -113,12 +120,29 @@ const drawCustomerBox = (doc: jsPDF, customer: any, startY: number, title: strin
   }
 };
 
+/**
+ * What a RECEIPT covers: one payment (the ledger up to it), a deposit being
+ * requested, or with neither, the job's whole ledger.
+ */
+export interface ReceiptDetail {
+  payment?: Payment;
+  depositRequest?: { amount: number; percent: number };
+}
+
+// Ledger entries in the order received, up to and including `through`
+const paymentsThrough = (payments: Payment[], through?: Payment): Payment[] => {
+  const ordered = [...payments].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+  if (!through) return ordered;
+  return ordered.slice(0, ordered.findIndex(p => p.id === through.id) + 1);
+};
+
 // Internal builder function that returns the doc object
 const buildDocumentPDF = async (
   state: CalculatorState,
   results: CalculationResults,
   type: 'ESTIMATE' | 'INVOICE' | 'RECEIPT',
-  record?: EstimateRecord
+  record?: EstimateRecord,
+  receipt?: ReceiptDetail
 ) => {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.width;
@@ -126,24 +150,35 @@ const buildDocumentPDF = async (
   const customer = record ? record.customer : state.customerProfile;
   const wallSettings = record ? record.wallSettings : state.wallSettings;
   const roofSettings = record ? record.roofSettings : state.roofSettings;
+  // Saved jobs price against the products and site conditions saved with them
+  const materialSource = record
+    ? { ...state, lockedProducts: record.materials?.products, jobConditions: record.inputs.jobConditions }
+    : state;
   const inventory = record ? record.materials.inventory : state.inventory;
   const pricingMode = record ? (record.pricingMode || 'level_pricing') : state.pricingMode;
   const sqFtRates = record ? (record.sqFtRates || { wall: 0, roof: 0 }) : state.sqFtRates;
+  const margins = getMarginTargets(record ? record.marginTargets : state.marginTargets);
+  const units = state.unitSystem;
   
   // Logic for dates: Invoices use 'invoiceDate', Estimates use 'date' (created)
   let displayDate = record?.date || new Date().toISOString();
   if (type === 'INVOICE' && record?.invoiceDate) {
       displayDate = record.invoiceDate;
   }
+  if (type === 'RECEIPT' && receipt?.payment) {
+      displayDate = receipt.payment.date;
+  }
   
   let docTitle = 'Spray Foam Estimate';
   if (type === 'INVOICE') docTitle = 'INVOICE';
-  if (type === 'RECEIPT') docTitle = 'PAYMENT RECEIPT';
+  if (type === 'RECEIPT') docTitle = receipt?.depositRequest ? 'DEPOSIT REQUEST' : 'PAYMENT RECEIPT';
 
-  const metaLabel = type === 'ESTIMATE' ? 'Estimate #' : 'Invoice #';
-  const metaValue = (type === 'INVOICE' || type === 'RECEIPT') && record?.invoiceNumber 
-    ? record.invoiceNumber 
-    : (record?.id.substring(0, 8).toUpperCase() || Math.floor(Math.random() * 10000) + 1000);
+  // Deposits are taken on the work order, before there is an invoice number
+  const onWorkOrder = type === 'RECEIPT' && !record?.invoiceNumber && !!record?.workOrderNumber;
+  const metaLabel = type === 'ESTIMATE' ? 'Estimate #' : onWorkOrder ? 'Work Order #' : 'Invoice #';
+  const assignedNumber = type === 'ESTIMATE' ? record?.estimateNumber : onWorkOrder ? record?.workOrderNumber : record?.invoiceNumber;
+  const metaValue = assignedNumber
+    || (record?.id.substring(0, 8).toUpperCase() || Math.floor(Math.random() * 10000) + 1000);
 
   let yPos = await drawCompanyHeader(doc, state, docTitle);
   drawCustomerBox(doc, customer, yPos, type === 'ESTIMATE' ? "Estimate For:" : "Bill To:", {
@@ -168,7 +203,7 @@ const buildDocumentPDF = async (
     body: [[
       mode,
       metalFactorDisplay,
-      `${Math.round(results.totalWallArea + results.totalRoofArea).toLocaleString()} sq ft`
+      formatQuantity(results.totalWallArea + results.totalRoofArea, 'area', units, 0)
     ]],
     theme: 'striped',
     headStyles: { fillColor: ACCENT_COLOR },
@@ -177,6 +212,20 @@ const buildDocumentPDF = async (
 
   // @ts-ignore
   let finalY = doc.lastAutoTable.finalY + 15;
+
+  const rValueLines = getRValueLines(results, record?.rValues, units);
+  if (rValueLines.length > 0) {
+      doc.setFontSize(9);
+      doc.setFont(undefined, 'bold');
+      doc.text("Insulation R-Values", 15, finalY - 5);
+      doc.setFont(undefined, 'normal');
+      rValueLines.forEach(line => {
+          doc.text(line, 15, finalY);
+          finalY += 5;
+      });
+      finalY += 7;
+  }
+
   doc.setFontSize(12);
   doc.text(type === 'ESTIMATE' ? "Estimate Breakdown" : "Invoice Details", 15, finalY);
   finalY += 5;
@@ -196,48 +245,68 @@ const buildDocumentPDF = async (
       ]);
   } else {
       // Fallback: Automatic Generation
-      if (results.wallBdFt > 0) {
-         const type = wallSettings.type;
+      const spec = getSpecSurfaceTotals(results);
+      if (spec.wallBdFt > 0) {
          let lineCost = 0;
          if (pricingMode === 'sqft_pricing') {
-             lineCost = results.totalWallArea * (sqFtRates.wall || 0);
+             lineCost = spec.wallArea * (sqFtRates.wall || 0);
          } else {
-             const costPerSet = type === FoamType.OPEN_CELL ? state.costs.openCell : state.costs.closedCell;
-             const yieldPerSet = type === FoamType.OPEN_CELL ? state.yields.openCell : state.yields.closedCell;
-             lineCost = (results.wallBdFt / yieldPerSet) * costPerSet;
+             lineCost = getFoamSpecCost(wallSettings, spec.wallArea, materialSource);
+             if (pricingMode === 'margin_pricing') lineCost = priceForMargin(lineCost, margins.chemical);
          }
          tableRows.push([
             'Wall Insulation',
-            `Spray approximately ${wallSettings.thickness} inches of ${type} to walls.`,
-            `${Math.round(results.totalWallArea).toLocaleString()} sqft`,
+            formatSprayScope(wallSettings, 'walls', units),
+            formatQuantity(spec.wallArea, 'area', units, 0),
             state.showPricing ? formatCurrency(lineCost) : '-'
          ]);
       }
 
-      if (results.roofBdFt > 0) {
-        const type = roofSettings.type;
+      if ((results.openingDeduction || 0) > 0) {
+         tableRows.push([
+            'Openings',
+            'Windows/doors deducted from wall area.',
+            `-${formatQuantity(results.openingDeduction, 'area', units, 0)}`,
+            '-'
+         ]);
+      }
+
+      if (spec.roofBdFt > 0) {
         let lineCost = 0;
         if (pricingMode === 'sqft_pricing') {
-             lineCost = results.totalRoofArea * (sqFtRates.roof || 0);
+             lineCost = spec.roofArea * (sqFtRates.roof || 0);
         } else {
-             const costPerSet = type === FoamType.OPEN_CELL ? state.costs.openCell : state.costs.closedCell;
-             const yieldPerSet = type === FoamType.OPEN_CELL ? state.yields.openCell : state.yields.closedCell;
-             lineCost = (results.roofBdFt / yieldPerSet) * costPerSet;
+             lineCost = getFoamSpecCost(roofSettings, spec.roofArea, materialSource);
+             if (pricingMode === 'margin_pricing') lineCost = priceForMargin(lineCost, margins.chemical);
         }
         tableRows.push([
            'Roof Insulation',
-           `Spray approximately ${roofSettings.thickness} inches of ${type} to ceiling/roof deck.`,
-           `${Math.round(results.totalRoofArea).toLocaleString()} sqft`,
+           formatSprayScope(roofSettings, 'ceiling/roof deck', units),
+           formatQuantity(spec.roofArea, 'area', units, 0),
            state.showPricing ? formatCurrency(lineCost) : '-'
         ]);
      }
 
+      (results.takeoffLines || []).forEach(line => {
+        if (line.bdFt <= 0) return;
+        const lineCost = pricingMode === 'sqft_pricing'
+            ? line.area * ((line.surfaceType === AreaType.ROOF ? sqFtRates.roof : sqFtRates.wall) || 0)
+            : pricingMode === 'margin_pricing' ? priceForMargin(line.cost, margins.chemical) : line.cost;
+        tableRows.push([
+           line.name,
+           `Spray approximately ${formatSprayDepth(line.thickness, units)} of ${line.foamType} (${formatQuantity(line.bdFt, 'volume', units)}, ${line.sets.toFixed(2)} sets).`,
+           formatQuantity(line.area, 'area', units, 0),
+           state.showPricing ? formatCurrency(lineCost) : '-'
+        ]);
+      });
+
       inventory.forEach(item => {
         tableRows.push([item.name, `Quantity: ${item.quantity} (${item.unit})`, '-', '-']); 
       });
 
-      if (pricingMode === 'level_pricing' && results.laborCost > 0) {
-          tableRows.push(['Labor', `Application Labor (${state.expenses.manHours} hours)`, '-', state.showPricing ? formatCurrency(results.laborCost) : '-']);
+      if (pricingMode !== 'sqft_pricing' && results.laborCost > 0) {
+          const laborPrice = pricingMode === 'margin_pricing' ? priceForMargin(results.laborCost, margins.labor) : results.laborCost;
+          tableRows.push(['Labor', `Application Labor (${results.manHours ?? state.expenses.manHours} hours)`, '-', state.showPricing ? formatCurrency(laborPrice) : '-']);
       }
       if (state.expenses.tripCharge > 0) tableRows.push(['Trip Charge', 'Standard Rate', '1', state.showPricing ? formatCurrency(state.expenses.tripCharge) : '-']);
       if (state.expenses.fuelSurcharge > 0) tableRows.push(['Fuel Surcharge', 'Distance Adjustment', '1', state.showPricing ? formatCurrency(state.expenses.fuelSurcharge) : '-']);
@@ -261,18 +330,74 @@ const buildDocumentPDF = async (
     
     // Calculate total from lines if custom lines exist, else use result total
     let finalTotal = results.totalCost;
+    let salesTax = record ? record.salesTax : results.salesTax;
     if (customLines && customLines.length > 0) {
         finalTotal = customLines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0);
+        const jurisdiction = record ? getTaxJurisdiction(state.taxJurisdictions, record.taxJurisdictionId) : getJobTaxJurisdiction(state);
+        salesTax = calculateLineTax(customLines, jurisdiction);
     } else if (record?.totalValue) {
         finalTotal = record.totalValue;
     }
 
+    if (salesTax) {
+        doc.setFontSize(10);
+        doc.setFont(undefined, 'normal');
+        doc.text(`Subtotal: ${formatCurrency(finalTotal)}`, pageWidth - 15, finalY, { align: 'right' });
+        finalY += 6;
+        doc.text(`${salesTax.jurisdictionName} Tax (${salesTax.rate}%): ${formatCurrency(salesTax.amount)}`, pageWidth - 15, finalY, { align: 'right' });
+        finalY += 8;
+        doc.setFontSize(12);
+        doc.setFont(undefined, 'bold');
+        finalTotal += salesTax.amount;
+    }
+
     doc.text(`Total Due: ${formatCurrency(finalTotal)}`, pageWidth - 15, finalY, { align: 'right' });
     
     if (type === 'RECEIPT') {
-        finalY += 10;
-        doc.setTextColor(22, 163, 74); 
-        doc.text("PAID IN FULL", pageWidth - 15, finalY, { align: 'right' });
+        const ledger = paymentsThrough(record?.payments || [], receipt?.payment);
+        const balance = Math.max(0, Math.round((finalTotal - totalPaid(ledger)) * 100) / 100);
+
+        if (ledger.length > 0) {
+            autoTable(doc, {
+                startY: finalY + 8,
+                head: [['Date', 'Type', 'Method', 'Reference', 'Amount']],
+                body: ledger.map(p => [
+                    p.date,
+                    p.kind === 'deposit' ? 'Deposit' : 'Payment',
+                    PAYMENT_METHOD_LABELS[p.method] || p.method,
+                    p.reference || '',
+                    formatCurrency(p.amount),
+                ]),
+                theme: 'grid',
+                headStyles: { fillColor: BRAND_COLOR },
+                columnStyles: { 4: { halign: 'right' } },
+                // The payment this receipt is for
+                didParseCell: (data) => {
+                    if (data.section === 'body' && receipt?.payment && ledger[data.row.index]?.id === receipt.payment.id) {
+                        data.cell.styles.fontStyle = 'bold';
+                    }
+                }
+            });
+            // @ts-ignore
+            finalY = doc.lastAutoTable.finalY + 10;
+            doc.setFontSize(10);
+            doc.setFont(undefined, 'normal');
+            doc.text(`Total Paid: ${formatCurrency(totalPaid(ledger))}`, pageWidth - 15, finalY, { align: 'right' });
+            finalY += 8;
+            doc.setFontSize(12);
+            doc.setFont(undefined, 'bold');
+            doc.text(`Balance Due: ${formatCurrency(balance)}`, pageWidth - 15, finalY, { align: 'right' });
+        }
+
+        if (receipt?.depositRequest) {
+            finalY += 10;
+            doc.setTextColor(ACCENT_COLOR[0], ACCENT_COLOR[1], ACCENT_COLOR[2]);
+            doc.text(`Deposit Requested (${receipt.depositRequest.percent}%): ${formatCurrency(receipt.depositRequest.amount)}`, pageWidth - 15, finalY, { align: 'right' });
+        } else if (balance <= 0) {
+            finalY += 10;
+            doc.setTextColor(22, 163, 74); 
+            doc.text("PAID IN FULL", pageWidth - 15, finalY, { align: 'right' });
+        }
     }
   }
 
@@ -282,6 +407,7 @@ const buildDocumentPDF = async (
   doc.setFont(undefined, 'normal');
   
   if (type === 'INVOICE') doc.text("Thank you for your business. Payment is due upon receipt.", pageWidth / 2, pageHeight - 15, { align: 'center' });
+  else if (type === 'RECEIPT' && receipt?.depositRequest) doc.text("Work is scheduled once the deposit is received.", pageWidth / 2, pageHeight - 15, { align: 'center' });
   else if (type === 'RECEIPT') doc.text("Thank you for your payment!", pageWidth / 2, pageHeight - 15, { align: 'center' });
   else doc.text("This is an estimate only. Actual material usage may vary based on site conditions.", pageWidth / 2, pageHeight - 15, { align: 'center' });
   
@@ -301,9 +427,10 @@ export const generateDocumentPDF = async (
   results: CalculationResults,
   type: 'ESTIMATE' | 'INVOICE' | 'RECEIPT',
   record?: EstimateRecord,
-  cloudOptions?: SaveToCloudOptions
+  cloudOptions?: SaveToCloudOptions,
+  receipt?: ReceiptDetail
 ) => {
-  const { doc, filename } = await buildDocumentPDF(state, results, type, record);
+  const { doc, filename } = await buildDocumentPDF(state, results, type, record, receipt);
   doc.save(filename);
 
   // Save to Supabase Storage in the background
@@ -416,6 +543,210 @@ export const generatePurchaseOrderPDF = async (state: CalculatorState, po: Purch
   }
 };
 
+// Change Order - scope change on a sold job, for customer sign-off
+export const generateChangeOrderPDF = async (state: CalculatorState, record: EstimateRecord, changeOrder: ChangeOrder, cloudOptions?: SaveToCloudOptions) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const units = state.unitSystem;
+  let yPos = await drawCompanyHeader(doc, state, "CHANGE ORDER");
+
+  doc.setFillColor(ACCENT_COLOR[0], ACCENT_COLOR[1], ACCENT_COLOR[2]);
+  doc.rect(15, yPos, pageWidth - 30, 10, 'F');
+  doc.setFontSize(12);
+  doc.setTextColor(255, 255, 255);
+  doc.setFont(undefined, 'bold');
+  doc.text(`CHANGE ORDER #${changeOrder.number} · JOB #${record.workOrderNumber || record.id.substring(0, 8).toUpperCase()}`, 20, yPos + 7);
+  doc.text(`DATE: ${new Date(changeOrder.date).toLocaleDateString()}`, pageWidth - 20, yPos + 7, { align: 'right' });
+
+  yPos += 15;
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.text(record.customer.name, 20, yPos);
+  doc.setFontSize(11);
+  doc.setFont(undefined, 'normal');
+  doc.text(record.customer.address, 20, yPos + 5);
+  doc.text(`${record.customer.city}, ${record.customer.state} ${record.customer.zip}`, 20, yPos + 10);
+  yPos += 20;
+
+  if (changeOrder.reason) {
+      doc.setFont(undefined, 'bold');
+      doc.text("Reason for Change:", 20, yPos);
+      doc.setFont(undefined, 'normal');
+      const reasonLines = doc.splitTextToSize(changeOrder.reason, pageWidth - 40);
+      doc.text(reasonLines, 20, yPos + 6);
+      yPos += 10 + reasonLines.length * 5;
+  }
+
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Item', 'Scope Change', 'Amount']],
+    body: changeOrder.items.map(item => [
+      item.description || item.surfaceType,
+      describeChangeOrderItem(item, units),
+      formatCurrency(changeOrderItemAmount(item)),
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: BRAND_COLOR },
+    columnStyles: { 2: { halign: 'right' } }
+  });
+
+  // Contract value before and after this change, counting earlier approved changes
+  const earlierChanges = getApprovedChangeOrders(record)
+    .filter(co => co.id !== changeOrder.id && co.number < changeOrder.number)
+    .reduce((sum, co) => sum + changeOrderDelta(co), 0);
+  const priorValue = originalContractValue(record) + earlierChanges;
+  const delta = changeOrderDelta(changeOrder);
+
+  // @ts-ignore
+  let finalY = doc.lastAutoTable.finalY + 10;
+  doc.setFontSize(10);
+  doc.setFont(undefined, 'normal');
+  doc.text(`Contract Value Before This Change: ${formatCurrency(priorValue)}`, pageWidth - 15, finalY, { align: 'right' });
+  finalY += 6;
+  doc.text(`This Change Order: ${delta < 0 ? '-' : '+'}${formatCurrency(Math.abs(delta))}`, pageWidth - 15, finalY, { align: 'right' });
+  finalY += 8;
+  doc.setFontSize(12);
+  doc.setFont(undefined, 'bold');
+  doc.text(`Revised Contract Value: ${formatCurrency(priorValue + delta)}`, pageWidth - 15, finalY, { align: 'right' });
+  finalY += 25;
+
+  doc.setFontSize(10);
+  if (changeOrder.status === 'Approved') {
+      doc.setTextColor(22, 163, 74);
+      doc.text(`APPROVED${changeOrder.approvedBy ? ` BY ${changeOrder.approvedBy.toUpperCase()}` : ''}${changeOrder.approvedDate ? ` ON ${new Date(changeOrder.approvedDate).toLocaleDateString()}` : ''}`, 15, finalY);
+  } else {
+      doc.setFont(undefined, 'normal');
+      doc.setTextColor(0, 0, 0);
+      doc.line(15, finalY, 105, finalY);
+      doc.line(125, finalY, pageWidth - 15, finalY);
+      doc.text("Customer Approval", 15, finalY + 5);
+      doc.text("Date", 125, finalY + 5);
+  }
+
+  const coFilename = `${record.customer.name.replace(/\s+/g, '_')}_Change_Order_${changeOrder.number}.pdf`;
+  doc.save(coFilename);
+
+  const orgId = cloudOptions?.orgId;
+  if (orgId) {
+    try {
+      const blob = doc.output('blob');
+      await saveDocument({
+        pdfBlob: blob,
+        filename: coFilename,
+        orgId,
+        customerId: record.customerId,
+        estimateId: record.id,
+        documentType: 'CHANGE_ORDER',
+        metadata: {
+          customerName: record.customer.name,
+          changeOrderNumber: changeOrder.number,
+          amount: delta,
+          generatedAt: new Date().toISOString(),
+        },
+      });
+    } catch (err) {
+      console.error('[PDF] Change order cloud save failed (non-blocking):', err);
+    }
+  }
+};
+
+// Customer Statement - every open invoice with its aging
+export const generateStatementPDF = async (state: CalculatorState, customer: CustomerProfile, asOf: string, cloudOptions?: SaveToCloudOptions) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const lateFee = state.receivables?.lateFee;
+  const invoices = getOpenInvoices(state.savedEstimates.filter(e => e.customerId === customer.id), asOf, lateFee);
+  const showLateFees = invoices.some(inv => inv.lateFee > 0);
+
+  let yPos = await drawCompanyHeader(doc, state, "STATEMENT");
+  drawCustomerBox(doc, customer, yPos, "Statement For:", {
+    date: asOf,
+    label: 'Open Invoices',
+    value: String(invoices.length)
+  });
+  yPos += 45;
+
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Invoice #', 'Invoice Date', 'Due Date', 'Days Past Due', 'Amount', 'Paid', 'Balance', ...(showLateFees ? ['Late Fee'] : [])]],
+    body: invoices.map(inv => [
+      inv.record.invoiceNumber || inv.record.id.substring(0, 8).toUpperCase(),
+      inv.record.invoiceDate ? new Date(inv.record.invoiceDate).toLocaleDateString() : '',
+      new Date(inv.dueDate).toLocaleDateString(),
+      inv.daysOverdue > 0 ? String(inv.daysOverdue) : 'Current',
+      formatCurrency(amountDue(inv.record)),
+      formatCurrency(totalPaid(inv.record.payments)),
+      formatCurrency(inv.balance),
+      ...(showLateFees ? [formatCurrency(inv.lateFee)] : []),
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: BRAND_COLOR },
+    columnStyles: { 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' }, 7: { halign: 'right' } }
+  });
+
+  const buckets = AGING_BUCKETS.map(bucket => invoices.filter(inv => inv.bucket === bucket).reduce((sum, inv) => sum + inv.balance, 0));
+  const balance = invoices.reduce((sum, inv) => sum + inv.balance, 0);
+  const fees = invoices.reduce((sum, inv) => sum + inv.lateFee, 0);
+
+  autoTable(doc, {
+    // @ts-ignore
+    startY: doc.lastAutoTable.finalY + 8,
+    head: [[...AGING_BUCKETS.map(bucket => AGING_BUCKET_LABELS[bucket]), 'Total']],
+    body: [[...buckets.map(formatCurrency), formatCurrency(balance)]],
+    theme: 'grid',
+    headStyles: { fillColor: [100, 116, 139] },
+    bodyStyles: { halign: 'right' }
+  });
+
+  // @ts-ignore
+  let finalY = doc.lastAutoTable.finalY + 10;
+  doc.setFontSize(12);
+  doc.setFont(undefined, 'bold');
+  if (fees > 0) {
+    doc.setFontSize(10);
+    doc.setFont(undefined, 'normal');
+    doc.text(`Open Balance: ${formatCurrency(balance)}`, pageWidth - 15, finalY, { align: 'right' });
+    finalY += 6;
+    doc.text(`Late Fees: ${formatCurrency(fees)}`, pageWidth - 15, finalY, { align: 'right' });
+    finalY += 8;
+    doc.setFontSize(12);
+    doc.setFont(undefined, 'bold');
+  }
+  doc.text(`Total Due: ${formatCurrency(balance + fees)}`, pageWidth - 15, finalY, { align: 'right' });
+
+  const pageHeight = doc.internal.pageSize.height;
+  doc.setFontSize(8);
+  doc.setTextColor(150);
+  doc.setFont(undefined, 'normal');
+  doc.text("Please include the invoice numbers with your payment. If you have already paid, thank you.", pageWidth / 2, pageHeight - 15, { align: 'center' });
+  doc.text("Generated by RFE Foam Pro", pageWidth / 2, pageHeight - 10, { align: 'center' });
+
+  const statementFilename = `${customer.name.replace(/\s+/g, '_')}_Statement_${asOf}.pdf`;
+  doc.save(statementFilename);
+
+  const orgId = cloudOptions?.orgId;
+  if (orgId) {
+    try {
+      const blob = doc.output('blob');
+      await saveDocument({
+        pdfBlob: blob,
+        filename: statementFilename,
+        orgId,
+        customerId: customer.id,
+        documentType: 'STATEMENT',
+        metadata: {
+          customerName: customer.name,
+          openBalance: balance,
+          asOf,
+          generatedAt: new Date().toISOString(),
+        },
+      });
+    } catch (err) {
+      console.error('[PDF] Statement cloud save failed (non-blocking):', err);
+    }
+  }
+};
+
 // Work Order - Designed for Crew (No Pricing)
 export const generateWorkOrderPDF = async (state: CalculatorState, record: EstimateRecord, cloudOptions?: SaveToCloudOptions) => {
   const doc = new jsPDF();
@@ -428,7 +759,7 @@ export const generateWorkOrderPDF = async (state: CalculatorState, record: Estim
   doc.setFontSize(12);
   doc.setTextColor(255, 255, 255);
   doc.setFont(undefined, 'bold');
-  doc.text(`JOB #${record.id.substring(0, 8).toUpperCase()}`, 20, yPos + 7);
+  doc.text(`JOB #${record.workOrderNumber || record.id.substring(0, 8).toUpperCase()}`, 20, yPos + 7);
   doc.text(`CREATED: ${new Date(record.date).toLocaleDateString()}`, pageWidth - 20, yPos + 7, { align: 'right' });
   
   yPos += 15;
@@ -477,12 +808,17 @@ export const generateWorkOrderPDF = async (state: CalculatorState, record: Estim
       yPos += 5;
       
       const scopeRows = [];
-      if (record.results.wallBdFt > 0) {
-          scopeRows.push(['WALLS', `${record.wallSettings.type} @ ${record.wallSettings.thickness}"`, `${Math.round(record.results.wallBdFt).toLocaleString()} bdft`]);
+      const spec = getSpecSurfaceTotals(record.results);
+      const units = state.unitSystem;
+      if (spec.wallBdFt > 0) {
+          scopeRows.push(['WALLS', describeFoamSpec(record.wallSettings, units), formatQuantity(spec.wallBdFt, 'volume', units)]);
       }
-      if (record.results.roofBdFt > 0) {
-          scopeRows.push(['ROOF/CEILING', `${record.roofSettings.type} @ ${record.roofSettings.thickness}"`, `${Math.round(record.results.roofBdFt).toLocaleString()} bdft`]);
+      if (spec.roofBdFt > 0) {
+          scopeRows.push(['ROOF/CEILING', describeFoamSpec(record.roofSettings, units), formatQuantity(spec.roofBdFt, 'volume', units)]);
       }
+      (record.results.takeoffLines || []).forEach(line => {
+          scopeRows.push([line.name.toUpperCase(), `${line.foamType} @ ${formatQuantity(line.thickness, 'depth', units)}`, `${formatQuantity(line.bdFt, 'volume', units)} (${line.sets.toFixed(2)} sets)`]);
+      });
       
       autoTable(doc, { startY: yPos, head: [['Area', 'Spec', 'Volume']], body: scopeRows, theme: 'grid', headStyles: { fillColor: BRAND_COLOR } });
       
@@ -0,0 +1,185 @@
+/**
+ * Accounts receivable.
+ *
+ * An open invoice is one still owing a balance after payments. It falls due
+ * `paymentTerms` days after its invoice date ("Net 30"; "Due on Receipt" is
+ * due that day) and ages from there. Late fees are optional and only
+ * reported here; they aren't added to the invoice. Used by the app and by
+ * the API, which sends the overdue reminders.
+ */
+import {
+  AgingBucket,
+  EstimateRecord,
+  LateFeeRule,
+  ReceivablesSettings,
+  ReminderStep,
+} from '../types.js';
+import { balanceDue } from './payments.js';
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  '0-30': '0–30 Days',
+  '31-60': '31–60 Days',
+  '61-90': '61–90 Days',
+  '90+': '90+ Days',
+};
+
+export const DEFAULT_REMINDER_STEPS: ReminderStep[] = [
+  {
+    id: 'reminder-7',
+    daysOverdue: 7,
+    subject: 'Payment reminder: invoice {invoiceNumber}',
+    message: 'Hi {customer},\n\nThis is a friendly reminder that invoice {invoiceNumber} for {balance} was due on {dueDate}. If you have already sent payment, thank you and please disregard this message.\n\n{companyName}',
+  },
+  {
+    id: 'reminder-30',
+    daysOverdue: 30,
+    subject: 'Second notice: invoice {invoiceNumber} is {daysOverdue} days past due',
+    message: 'Hi {customer},\n\nInvoice {invoiceNumber} for {balance} is now {daysOverdue} days past due. Please arrange payment at your earliest convenience, or contact us if there is a problem with the invoice.\n\n{companyName}',
+  },
+  {
+    id: 'reminder-60',
+    daysOverdue: 60,
+    subject: 'Final notice: invoice {invoiceNumber}',
+    message: 'Hi {customer},\n\nInvoice {invoiceNumber} for {balance} is {daysOverdue} days past due. Please contact us right away to settle the balance.\n\n{companyName}',
+  },
+];
+
+export const DEFAULT_LATE_FEE: LateFeeRule = {
+  enabled: false,
+  type: 'percent',
+  amount: 1.5,
+  graceDays: 0,
+  repeatMonthly: true,
+};
+
+/** Org settings with anything missing filled from the defaults. Reminders are off until turned on. */
+export const getReceivablesSettings = (settings?: Partial<ReceivablesSettings>): ReceivablesSettings => ({
+  remindersEnabled: settings?.remindersEnabled ?? false,
+  reminderSteps: settings?.reminderSteps ?? DEFAULT_REMINDER_STEPS,
+  lateFee: { ...DEFAULT_LATE_FEE, ...settings?.lateFee },
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const dayNumber = (date: string) => {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, (m || 1) - 1, d || 1) / DAY_MS;
+};
+
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+/** Today's date on this machine's calendar, as YYYY-MM-DD. */
+export const localToday = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/** Days allowed by the terms: "Net 15" is 15; "Due on Receipt" and anything unrecognized is 0. */
+export const paymentTermDays = (paymentTerms?: string): number => {
+  const match = /net\s*(\d+)/i.exec(paymentTerms || '');
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+export const invoiceDueDate = (record: Pick<EstimateRecord, 'invoiceDate' | 'date' | 'paymentTerms'>): string =>
+  fromDayNumber(dayNumber(record.invoiceDate || record.date) + paymentTermDays(record.paymentTerms));
+
+/** Days since the due date as of `asOf`; negative while the invoice isn't due yet. */
+export const daysPastDue = (record: Pick<EstimateRecord, 'invoiceDate' | 'date' | 'paymentTerms'>, asOf: string): number =>
+  dayNumber(asOf) - dayNumber(invoiceDueDate(record));
+
+export const agingBucket = (daysOverdue: number): AgingBucket => {
+  if (daysOverdue > 90) return '90+';
+  if (daysOverdue > 60) return '61-90';
+  if (daysOverdue > 30) return '31-60';
+  return '0-30';
+};
+
+/** Late fee owed on a balance this many days past due, or 0 when the rule is off or in its grace period. */
+export const lateFeeFor = (balance: number, daysOverdue: number, rule: LateFeeRule | undefined): number => {
+  if (!rule?.enabled || balance <= 0 || daysOverdue <= rule.graceDays) return 0;
+  const periods = rule.repeatMonthly ? Math.floor((daysOverdue - rule.graceDays - 1) / 30) + 1 : 1;
+  const fee = rule.type === 'flat' ? rule.amount : balance * (rule.amount / 100);
+  return round2(fee * periods);
+};
+
+export const isOpenInvoice = (record: EstimateRecord): boolean =>
+  record.status === 'Invoiced' && balanceDue(record) > 0;
+
+export interface OpenInvoice {
+  record: EstimateRecord;
+  dueDate: string;
+  daysOverdue: number;
+  bucket: AgingBucket;
+  balance: number;
+  lateFee: number;
+}
+
+/** Open invoices, oldest due date first. */
+export const getOpenInvoices = (estimates: EstimateRecord[], asOf: string, lateFee?: LateFeeRule): OpenInvoice[] =>
+  estimates
+    .filter(isOpenInvoice)
+    .map(record => {
+      const daysOverdue = daysPastDue(record, asOf);
+      const balance = balanceDue(record);
+      return {
+        record,
+        dueDate: invoiceDueDate(record),
+        daysOverdue,
+        bucket: agingBucket(daysOverdue),
+        balance,
+        lateFee: lateFeeFor(balance, daysOverdue, lateFee),
+      };
+    })
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+export interface AgingRow {
+  customerId: string;
+  customerName: string;
+  buckets: Record<AgingBucket, number>;
+  balance: number;
+  lateFees: number;
+  invoices: OpenInvoice[];
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+/** Open balances per customer, split into aging buckets. Largest balance first. */
+export const summarizeAging = (estimates: EstimateRecord[], asOf: string, lateFee?: LateFeeRule): AgingRow[] => {
+  const rows = new Map<string, AgingRow>();
+  for (const invoice of getOpenInvoices(estimates, asOf, lateFee)) {
+    const { record } = invoice;
+    const row = rows.get(record.customerId) || {
+      customerId: record.customerId,
+      customerName: record.customer?.name || 'Unknown Customer',
+      buckets: emptyBuckets(),
+      balance: 0,
+      lateFees: 0,
+      invoices: [],
+    };
+    row.buckets[invoice.bucket] = round2(row.buckets[invoice.bucket] + invoice.balance);
+    row.balance = round2(row.balance + invoice.balance);
+    row.lateFees = round2(row.lateFees + invoice.lateFee);
+    row.invoices.push(invoice);
+    rows.set(record.customerId, row);
+  }
+  return [...rows.values()].sort((a, b) => b.balance - a.balance);
+};
+
+/**
+ * The step due for an invoice this many days overdue: the latest one it has
+ * reached. Earlier steps it skipped past are never sent.
+ */
+export const dueReminderStep = (steps: ReminderStep[], daysOverdue: number): ReminderStep | undefined =>
+  [...steps]
+    .filter(step => daysOverdue >= step.daysOverdue)
+    .sort((a, b) => b.daysOverdue - a.daysOverdue)[0];
+
+/** Fills {placeholders} in a reminder; unknown ones are left as written. */
+export const fillReminderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key) => values[key] ?? placeholder);
+
+export const REMINDER_PLACEHOLDERS = ['customer', 'invoiceNumber', 'balance', 'dueDate', 'daysOverdue', 'lateFee', 'companyName'];
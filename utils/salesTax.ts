@@ -0,0 +1,124 @@
+/**
+ * Sales tax.
+ *
+ * The org keeps a list of jurisdictions, each with a rate and whether it
+ * taxes materials, labor, or both. Document lines carry a `taxable` flag
+ * that defaults from the line's category and the job's jurisdiction and can
+ * be overridden per line. Tax always sits on top of the pre-tax job value,
+ * so revenue and margins never include it.
+ */
+import {
+  CalculatorState,
+  EstimateRecord,
+  InvoiceLineItem,
+  SalesTaxCategory,
+  SalesTaxSummary,
+  TaxJurisdiction,
+} from '../types.js';
+
+const round2 = (num: number) => Math.round(num * 100) / 100;
+
+export const getTaxJurisdiction = (jurisdictions: TaxJurisdiction[] | undefined, id?: string): TaxJurisdiction | undefined =>
+  id ? (jurisdictions || []).find(j => j.id === id) : undefined;
+
+/** The job's jurisdiction, falling back to the org default for jobs that never picked one. */
+export const getJobTaxJurisdiction = (
+  state: Pick<CalculatorState, 'taxJurisdictions' | 'defaultTaxJurisdictionId' | 'taxJurisdictionId'>
+): TaxJurisdiction | undefined =>
+  getTaxJurisdiction(
+    state.taxJurisdictions,
+    state.taxJurisdictionId === undefined ? state.defaultTaxJurisdictionId : state.taxJurisdictionId
+  );
+
+/** Whether lines of this category are taxed in the jurisdiction by default. Fees never are. */
+export const isTaxableCategory = (category: SalesTaxCategory | undefined, jurisdiction?: TaxJurisdiction): boolean => {
+  if (!jurisdiction) return false;
+  if (category === 'material') return jurisdiction.taxMaterials;
+  if (category === 'labor') return jurisdiction.taxLabor;
+  return false;
+};
+
+/** Sets each generated line's taxable flag from its category. */
+export const applyTaxDefaults = (lines: InvoiceLineItem[], jurisdiction?: TaxJurisdiction): InvoiceLineItem[] =>
+  lines.map(line => ({ ...line, taxable: isTaxableCategory(line.taxCategory, jurisdiction) }));
+
+const summarize = (jurisdiction: TaxJurisdiction, taxableAmount: number): SalesTaxSummary => ({
+  jurisdictionId: jurisdiction.id,
+  jurisdictionName: jurisdiction.name,
+  rate: jurisdiction.rate,
+  taxableAmount: round2(taxableAmount),
+  amount: round2(taxableAmount * (jurisdiction.rate || 0) / 100),
+});
+
+/** Tax on the job's material and labor sales (before any line editing). */
+export const calculateSalesTax = (
+  materialSales: number,
+  laborSales: number,
+  jurisdiction?: TaxJurisdiction
+): SalesTaxSummary | undefined => {
+  if (!jurisdiction) return undefined;
+  const taxable = (jurisdiction.taxMaterials ? materialSales : 0) + (jurisdiction.taxLabor ? laborSales : 0);
+  return summarize(jurisdiction, taxable);
+};
+
+/** Tax on the document lines flagged taxable. */
+export const calculateLineTax = (lines: InvoiceLineItem[], jurisdiction?: TaxJurisdiction): SalesTaxSummary | undefined => {
+  if (!jurisdiction) return undefined;
+  const taxable = lines.filter(l => l.taxable).reduce((sum, l) => sum + (Number(l.amount) || 0), 0);
+  return summarize(jurisdiction, taxable);
+};
+
+/**
+ * Tax the job actually bills: the latest document's taxable lines, or the
+ * calculated figure while no document carries taxable flags yet.
+ */
+export const getBilledSalesTax = (
+  lines: InvoiceLineItem[] | undefined,
+  jurisdiction: TaxJurisdiction | undefined,
+  calculated?: SalesTaxSummary
+): SalesTaxSummary | undefined =>
+  lines?.some(l => l.taxable !== undefined) ? calculateLineTax(lines, jurisdiction) : calculated;
+
+export interface SalesTaxReportRow {
+  jurisdictionId: string;
+  jurisdictionName: string;
+  rate: number;
+  jobCount: number;
+  grossSales: number;
+  taxableSales: number;
+  taxCollected: number;
+}
+
+/**
+ * Invoiced and paid jobs in [from, to] (by invoice date, YYYY-MM-DD), grouped
+ * by jurisdiction for filing. Untaxed jobs are grouped under "Exempt / None"
+ * so gross sales still add up.
+ */
+export const summarizeSalesTax = (estimates: EstimateRecord[], from: string, to: string): SalesTaxReportRow[] => {
+  const rows = new Map<string, SalesTaxReportRow>();
+
+  estimates.forEach(job => {
+    if (job.status !== 'Invoiced' && job.status !== 'Paid') return;
+    const day = (job.invoiceDate || job.date || '').slice(0, 10);
+    if (!day || (from && day < from) || (to && day > to)) return;
+
+    const tax = job.salesTax;
+    const key = tax?.jurisdictionId || '';
+    const row = rows.get(key) || {
+      jurisdictionId: key,
+      jurisdictionName: tax?.jurisdictionName || 'Exempt / None',
+      rate: tax?.rate || 0,
+      jobCount: 0,
+      grossSales: 0,
+      taxableSales: 0,
+      taxCollected: 0,
+    };
+    row.jobCount += 1;
+    row.grossSales = round2(row.grossSales + (job.totalValue || 0));
+    row.taxableSales = round2(row.taxableSales + (tax?.taxableAmount || 0));
+    row.taxCollected = round2(row.taxCollected + (tax?.amount || 0));
+    rows.set(key, row);
+  });
+
+  return [...rows.values()].sort((a, b) => b.taxCollected - a.taxCollected);
+};
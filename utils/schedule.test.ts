@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { EquipmentItem, EstimateRecord } from '../types.js';
+import { DEFAULT_PRODUCTION_RATES } from './laborEstimate.js';
+import { buildSchedule, DEFAULT_SCHEDULING } from './schedule.js';
+
+const rig: EquipmentItem = { id: 'rig-1', name: 'Graco Rig 1', status: 'Available' };
+
+// A one-day work order on Monday 2026-03-02
+const workOrder = (id: string, crewId: string, equipment: EquipmentItem[] = []) => ({
+  id,
+  status: 'Work Order',
+  scheduledDate: '2026-03-02',
+  scheduledDays: 1,
+  crewId,
+  expenses: { manHours: 4, crewSize: 2 },
+  materials: { equipment },
+}) as unknown as EstimateRecord;
+
+const equipmentConflicts = (estimates: EstimateRecord[], crewRigs = {}) =>
+  buildSchedule(estimates, '2026-03-02', '2026-03-08', DEFAULT_PRODUCTION_RATES, DEFAULT_SCHEDULING, crewRigs)
+    .conflicts.filter(conflict => conflict.kind === 'equipment');
+
+describe('buildSchedule equipment conflicts', () => {
+  it('flags equipment listed on two jobs the same day', () => {
+    const conflicts = equipmentConflicts([workOrder('a', 'crew-1', [rig]), workOrder('b', 'crew-2', [rig])]);
+    expect(conflicts).toEqual([
+      { date: '2026-03-02', kind: 'equipment', equipment: { id: 'rig-1', name: 'Graco Rig 1' }, estimateIds: ['a', 'b'] },
+    ]);
+  });
+
+  it('counts a crew\'s rig as equipment on its jobs', () => {
+    const conflicts = equipmentConflicts(
+      [workOrder('a', 'crew-1'), workOrder('b', 'crew-2', [rig])],
+      { 'crew-1': rig },
+    );
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].equipment).toEqual({ id: 'rig-1', name: 'Graco Rig 1' });
+    expect(conflicts[0].estimateIds).toEqual(['a', 'b']);
+  });
+
+  it('flags two crews sharing a rig on the same day', () => {
+    const conflicts = equipmentConflicts(
+      [workOrder('a', 'crew-1'), workOrder('b', 'crew-2')],
+      { 'crew-1': rig, 'crew-2': rig },
+    );
+    expect(conflicts.map(conflict => conflict.estimateIds)).toEqual([['a', 'b']]);
+  });
+
+  it('doesn\'t count a rig twice when the job also lists it', () => {
+    const conflicts = equipmentConflicts([workOrder('a', 'crew-1', [rig])], { 'crew-1': rig });
+    expect(conflicts).toEqual([]);
+  });
+});
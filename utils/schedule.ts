@@ -0,0 +1,176 @@
+/**
+ * Crew schedule.
+ *
+ * A scheduled work order occupies `scheduledDays` working days from its
+ * `scheduledDate`, skipping the org's days off. Jobs without a set length
+ * are estimated from their man-hours at the org's day length. A crew is
+ * over capacity on a day when its jobs there need more crew-hours than that
+ * day length, and equipment is double-booked when two jobs on the same day
+ * both need it, whether listed on the job or as the rig of the crew on it.
+ * Used by the app and by the API.
+ */
+import { EquipmentItem, EstimateRecord, ProductionRates, SchedulingSettings } from '../types.js';
+
+export const DEFAULT_SCHEDULING: SchedulingSettings = {
+  hoursPerDay: 8,
+  workDays: [1, 2, 3, 4, 5],
+};
+
+/** Org settings with anything missing filled from the defaults. */
+export const getSchedulingSettings = (settings?: Partial<SchedulingSettings>): SchedulingSettings => ({
+  hoursPerDay: settings?.hoursPerDay || DEFAULT_SCHEDULING.hoursPerDay,
+  workDays: settings?.workDays?.length ? settings.workDays : DEFAULT_SCHEDULING.workDays,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const dayNumber = (date: string) => {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, (m || 1) - 1, d || 1) / DAY_MS;
+};
+
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+/** `date` moved by a number of calendar days, as YYYY-MM-DD. */
+export const addDays = (date: string, days: number): string => fromDayNumber(dayNumber(date) + days);
+
+/** 0 = Sunday … 6 = Saturday. */
+export const weekdayOf = (date: string): number => new Date(dayNumber(date) * DAY_MS).getUTCDay();
+
+/** Crew-hours on site: the job's man-hours shared by the people on it. */
+export const jobCrewHours = (record: Pick<EstimateRecord, 'expenses'>, rates: ProductionRates): number =>
+  (record.expenses?.manHours || 0) / (record.expenses?.crewSize || rates.crewSize);
+
+/** Working days a job needs at the org's day length; at least one. */
+export const estimateJobDays = (
+  record: Pick<EstimateRecord, 'expenses'>,
+  rates: ProductionRates,
+  settings: SchedulingSettings,
+): number => Math.max(1, Math.ceil(round2(jobCrewHours(record, rates) / settings.hoursPerDay)));
+
+/**
+ * The dates a job booked for `days` working days from `start` occupies. Days
+ * off are skipped, except the start itself: a job put on a Saturday is
+ * worked that Saturday.
+ */
+export const jobDates = (start: string, days: number, settings: SchedulingSettings): string[] => {
+  const dates: string[] = [];
+  for (let date = start.slice(0, 10); dates.length < days; date = addDays(date, 1)) {
+    if (dates.length === 0 || settings.workDays.includes(weekdayOf(date))) dates.push(date);
+  }
+  return dates;
+};
+
+export const isSchedulable = (record: EstimateRecord): boolean => record.status === 'Work Order';
+
+export interface ScheduledJob {
+  record: EstimateRecord;
+  // Crew id; '' when the job isn't assigned to a crew
+  crew: string;
+  dates: string[];
+  crewHoursPerDay: number;
+  // True when the length comes from the job's hours rather than the office
+  estimatedDays: boolean;
+}
+
+export const toScheduledJob = (
+  record: EstimateRecord,
+  rates: ProductionRates,
+  settings: SchedulingSettings,
+): ScheduledJob => {
+  const days = record.scheduledDays || estimateJobDays(record, rates, settings);
+  return {
+    record,
+    crew: record.crewId || '',
+    dates: jobDates(record.scheduledDate || '', days, settings),
+    crewHoursPerDay: round2(jobCrewHours(record, rates) / days),
+    estimatedDays: !record.scheduledDays,
+  };
+};
+
+export interface ScheduleConflict {
+  date: string;
+  kind: 'crew_capacity' | 'equipment';
+  crew?: string;
+  equipment?: Pick<EquipmentItem, 'id' | 'name'>;
+  estimateIds: string[];
+  // Crew-hours booked that day, for crew_capacity
+  crewHours?: number;
+}
+
+export interface Schedule {
+  jobs: ScheduledJob[];
+  conflicts: ScheduleConflict[];
+}
+
+// Each crew's rig by crew id; it goes out with every job the crew is on
+export type CrewRigs = Record<string, Pick<EquipmentItem, 'id' | 'name'>>;
+
+/** The equipment a job ties up: what it lists, plus its crew's rig. */
+export const jobEquipment = (job: ScheduledJob, crewRigs: CrewRigs): Pick<EquipmentItem, 'id' | 'name'>[] => {
+  const items: Pick<EquipmentItem, 'id' | 'name'>[] = job.record.materials?.equipment || [];
+  const rig = job.crew ? crewRigs[job.crew] : undefined;
+  return rig && !items.some(item => item.id === rig.id) ? [...items, rig] : items;
+};
+
+/**
+ * Work orders booked on any day from `from` to `to` (inclusive), earliest
+ * first, with the conflicts on those days.
+ */
+export const buildSchedule = (
+  estimates: EstimateRecord[],
+  from: string,
+  to: string,
+  rates: ProductionRates,
+  settings: SchedulingSettings,
+  crewRigs: CrewRigs = {},
+): Schedule => {
+  const jobs = estimates
+    .filter(record => isSchedulable(record) && record.scheduledDate)
+    .map(record => toScheduledJob(record, rates, settings))
+    .filter(job => job.dates[0] <= to && job.dates[job.dates.length - 1] >= from)
+    .sort((a, b) => a.dates[0].localeCompare(b.dates[0]));
+
+  const byDate = new Map<string, ScheduledJob[]>();
+  for (const job of jobs) {
+    for (const date of job.dates) {
+      if (date < from || date > to) continue;
+      byDate.set(date, [...(byDate.get(date) || []), job]);
+    }
+  }
+
+  const conflicts: ScheduleConflict[] = [];
+  for (const [date, dayJobs] of [...byDate.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const crews = new Map<string, ScheduledJob[]>();
+    const equipment = new Map<string, { item: Pick<EquipmentItem, 'id' | 'name'>; jobs: ScheduledJob[] }>();
+    for (const job of dayJobs) {
+      if (job.crew) crews.set(job.crew, [...(crews.get(job.crew) || []), job]);
+      for (const item of jobEquipment(job, crewRigs)) {
+        const entry = equipment.get(item.id) || { item, jobs: [] };
+        entry.jobs.push(job);
+        equipment.set(item.id, entry);
+      }
+    }
+
+    for (const [crew, crewJobs] of crews) {
+      const crewHours = round2(crewJobs.reduce((sum, job) => sum + job.crewHoursPerDay, 0));
+      if (crewHours > settings.hoursPerDay) {
+        conflicts.push({ date, kind: 'crew_capacity', crew, crewHours, estimateIds: crewJobs.map(job => job.record.id) });
+      }
+    }
+    for (const { item, jobs: itemJobs } of equipment.values()) {
+      if (itemJobs.length > 1) {
+        conflicts.push({
+          date,
+          kind: 'equipment',
+          equipment: { id: item.id, name: item.name },
+          estimateIds: itemJobs.map(job => job.record.id),
+        });
+      }
+    }
+  }
+
+  return { jobs, conflicts };
+};
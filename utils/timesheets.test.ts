@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { approvedWeekFor, DEFAULT_PAYROLL, splitOvertime } from './timesheets.js';
+
+// Pay weeks start on Monday; 2026-03-02 is a Monday
+const approvedOn = (workDate: string) => ({ workDate, approvedAt: '2026-03-09T17:00:00.000Z' });
+
+describe('approvedWeekFor', () => {
+  it('finds the approved week a date falls in', () => {
+    expect(approvedWeekFor('2026-03-08', [approvedOn('2026-03-02')], DEFAULT_PAYROLL)).toBe('2026-03-02');
+  });
+
+  it('leaves the next week open', () => {
+    expect(approvedWeekFor('2026-03-09', [approvedOn('2026-03-08')], DEFAULT_PAYROLL)).toBeNull();
+  });
+
+  it('ignores entries that aren\'t approved', () => {
+    expect(approvedWeekFor('2026-03-04', [{ workDate: '2026-03-03' }], DEFAULT_PAYROLL)).toBeNull();
+  });
+
+  it('follows the org\'s week start', () => {
+    const sundayWeeks = { ...DEFAULT_PAYROLL, weekStartsOn: 0 };
+    expect(approvedWeekFor('2026-03-08', [approvedOn('2026-03-02')], sundayWeeks)).toBeNull();
+    expect(approvedWeekFor('2026-03-07', [approvedOn('2026-03-02')], sundayWeeks)).toBe('2026-03-01');
+  });
+});
+
+// Daily overtime after 10 hours, on top of the default 40-hour week
+const withDailyLimit = { ...DEFAULT_PAYROLL, dailyOvertimeHours: 10 };
+
+describe('splitOvertime', () => {
+  it('pays hours past the daily limit as overtime', () => {
+    expect(splitOvertime({ '2026-03-02': 12, '2026-03-03': 8 }, withDailyLimit)).toEqual({ regularHours: 18, overtimeHours: 2 });
+  });
+
+  it('has no daily overtime when the limit is unset', () => {
+    expect(splitOvertime({ '2026-03-02': 12 }, DEFAULT_PAYROLL)).toEqual({ regularHours: 12, overtimeHours: 0 });
+  });
+
+  it('pays hours past the weekly limit as overtime, from the day the limit is reached', () => {
+    const week = { '2026-03-02': 9, '2026-03-03': 9, '2026-03-04': 9, '2026-03-05': 9, '2026-03-06': 9 };
+    expect(splitOvertime(week, DEFAULT_PAYROLL)).toEqual({ regularHours: 40, overtimeHours: 5 });
+  });
+
+  it('doesn\'t count daily overtime toward the weekly limit', () => {
+    // 12-hour days: 2 daily overtime each, and 10 regular a day reaches 40 on Thursday
+    const week = { '2026-03-02': 12, '2026-03-03': 12, '2026-03-04': 12, '2026-03-05': 12, '2026-03-06': 12 };
+    expect(splitOvertime(week, withDailyLimit)).toEqual({ regularHours: 40, overtimeHours: 20 });
+  });
+});
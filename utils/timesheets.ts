@@ -0,0 +1,149 @@
+/**
+ * Timesheets.
+ *
+ * Time clock entries grouped into one row per person per week. Job, travel
+ * and shop time is paid; breaks are not. Overtime is paid time past the
+ * daily limit (when set), then regular time past the weekly limit. Used by
+ * the app and by the API.
+ */
+import { PayrollSettings, TimeEntry, TimeEntryKind, TimesheetWeek } from '../types.js';
+import { addDays, weekdayOf } from './schedule.js';
+
+export const DEFAULT_PAYROLL: PayrollSettings = {
+  weekStartsOn: 1,
+  weeklyOvertimeHours: 40,
+  dailyOvertimeHours: 0,
+};
+
+/** Org settings with anything missing filled from the defaults. */
+export const getPayrollSettings = (settings?: Partial<PayrollSettings>): PayrollSettings => ({
+  weekStartsOn: settings?.weekStartsOn ?? DEFAULT_PAYROLL.weekStartsOn,
+  weeklyOvertimeHours: settings?.weeklyOvertimeHours || DEFAULT_PAYROLL.weeklyOvertimeHours,
+  dailyOvertimeHours: settings?.dailyOvertimeHours ?? DEFAULT_PAYROLL.dailyOvertimeHours,
+});
+
+export const TIME_ENTRY_KINDS: TimeEntryKind[] = ['job', 'travel', 'shop', 'break'];
+
+export const TIME_ENTRY_LABELS: Record<TimeEntryKind, string> = {
+  job: 'Job',
+  travel: 'Travel',
+  shop: 'Shop',
+  break: 'Break',
+};
+
+export const isPaidTime = (kind: TimeEntryKind) => kind !== 'break';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** First day of the pay week `date` falls in, as YYYY-MM-DD. */
+export const weekStartFor = (date: string, settings: PayrollSettings): string =>
+  addDays(date, -((weekdayOf(date) - settings.weekStartsOn + 7) % 7));
+
+/**
+ * The first day of the pay week `date` falls in when any of `entries` in that
+ * week is approved, or null while the week is open.
+ */
+export const approvedWeekFor = (
+  date: string,
+  entries: Array<Pick<TimeEntry, 'workDate' | 'approvedAt'>>,
+  settings: PayrollSettings,
+): string | null => {
+  const weekStart = weekStartFor(date, settings);
+  const weekEnd = addDays(weekStart, 6);
+  return entries.some(entry => entry.approvedAt && entry.workDate >= weekStart && entry.workDate <= weekEnd) ? weekStart : null;
+};
+
+/** Hours on an entry; one still clocked in counts up to `now`. */
+export const entryHours = (entry: Pick<TimeEntry, 'clockIn' | 'clockOut'>, now: number = Date.now()): number => {
+  const end = entry.clockOut ? Date.parse(entry.clockOut) : now;
+  return Math.max(0, end - Date.parse(entry.clockIn)) / 3_600_000;
+};
+
+/** Job hours per work order over the given entries. */
+export const jobHoursByEstimate = (entries: Array<Pick<TimeEntry, 'kind' | 'estimateId' | 'clockIn' | 'clockOut'>>): Record<string, number> => {
+  const hours: Record<string, number> = {};
+  for (const entry of entries) {
+    if (entry.kind !== 'job' || !entry.estimateId) continue;
+    hours[entry.estimateId] = round2((hours[entry.estimateId] || 0) + entryHours(entry));
+  }
+  return hours;
+};
+
+/** Regular and overtime hours from a week's paid hours per day. */
+export const splitOvertime = (
+  paidByDay: Record<string, number>,
+  settings: PayrollSettings,
+): { regularHours: number; overtimeHours: number } => {
+  let regularHours = 0;
+  let overtimeHours = 0;
+  for (const date of Object.keys(paidByDay).sort()) {
+    const paid = paidByDay[date];
+    const dailyOvertime = settings.dailyOvertimeHours > 0 ? Math.max(0, paid - settings.dailyOvertimeHours) : 0;
+    const dayRegular = paid - dailyOvertime;
+    const weeklyOvertime = Math.min(dayRegular, Math.max(0, regularHours + dayRegular - settings.weeklyOvertimeHours));
+    regularHours += dayRegular - weeklyOvertime;
+    overtimeHours += dailyOvertime + weeklyOvertime;
+  }
+  return { regularHours: round2(regularHours), overtimeHours: round2(overtimeHours) };
+};
+
+/** One row per person who has time in the week starting `weekStart`, by name. */
+export const buildTimesheets = (
+  entries: TimeEntry[],
+  weekStart: string,
+  settings: PayrollSettings,
+  now: number = Date.now(),
+): TimesheetWeek[] => {
+  const weekEnd = addDays(weekStart, 6);
+  const byUser = new Map<string, TimeEntry[]>();
+  for (const entry of entries) {
+    if (entry.workDate < weekStart || entry.workDate > weekEnd) continue;
+    byUser.set(entry.userId, [...(byUser.get(entry.userId) || []), entry]);
+  }
+
+  return [...byUser.values()].map((own) => {
+    const hours: Record<TimeEntryKind, number> = { job: 0, travel: 0, shop: 0, break: 0 };
+    const paidByDay: Record<string, number> = {};
+    for (const entry of own) {
+      const worked = entryHours(entry, now);
+      hours[entry.kind] += worked;
+      if (isPaidTime(entry.kind)) paidByDay[entry.workDate] = (paidByDay[entry.workDate] || 0) + worked;
+    }
+    return {
+      userId: own[0].userId,
+      userName: own[0].userName,
+      weekStart,
+      jobHours: round2(hours.job),
+      travelHours: round2(hours.travel),
+      shopHours: round2(hours.shop),
+      breakHours: round2(hours.break),
+      ...splitOvertime(paidByDay, settings),
+      approved: own.every(entry => !!entry.approvedAt),
+      clockedIn: own.some(entry => !entry.clockOut),
+      entries: [...own].sort((a, b) => a.clockIn.localeCompare(b.clockIn)),
+    };
+  }).sort((a, b) => a.userName.localeCompare(b.userName));
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Payroll export: one line per person-week. */
+export const timesheetsToCsv = (weeks: TimesheetWeek[]): string => {
+  const header = ['Employee', 'Week Starting', 'Job Hours', 'Travel Hours', 'Shop Hours', 'Regular Hours', 'Overtime Hours', 'Total Paid Hours', 'Unpaid Break Hours', 'Approved'];
+  const lines = weeks.map(week => [
+    week.userName,
+    week.weekStart,
+    week.jobHours,
+    week.travelHours,
+    week.shopHours,
+    week.regularHours,
+    week.overtimeHours,
+    round2(week.regularHours + week.overtimeHours),
+    week.breakHours,
+    week.approved ? 'Yes' : 'No',
+  ]);
+  return [header, ...lines].map(line => line.map(csvCell).join(',')).join('\n');
+};
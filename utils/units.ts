@@ -0,0 +1,84 @@
+/**
+ * Unit conversion for the org's display preference.
+ *
+ * Everything in state, on estimates and in the database stays imperial
+ * (ft, sq ft, bd ft, inches, °F, R). Components convert at the edges:
+ * `toDisplay` when rendering a stored value, `fromDisplay` when reading
+ * an input back into state.
+ */
+import { UnitSystem } from '../types.js';
+
+export type UnitKind =
+  | 'length'      // ft ↔ m
+  | 'area'        // sq ft ↔ m²
+  | 'depth'       // in ↔ mm
+  | 'volume'      // bd ft ↔ m³
+  | 'yield'       // bd ft per set ↔ m³ per set
+  | 'areaRate'    // $ per sq ft ↔ $ per m²
+  | 'rValue'      // R ↔ RSI
+  | 'rPerDepth'   // R per inch ↔ RSI per 25 mm
+  | 'temperature'; // °F ↔ °C
+
+interface UnitDef {
+  imperial: string;
+  metric: string;
+  // Multiply an imperial value by this to get the metric value
+  factor: number;
+  decimals: { imperial: number; metric: number };
+}
+
+const SQFT_TO_M2 = 0.09290304;
+const BDFT_TO_M3 = 0.002359737;
+const R_TO_RSI = 0.1761102;
+
+const UNITS: Record<UnitKind, UnitDef> = {
+  length: { imperial: 'ft', metric: 'm', factor: 0.3048, decimals: { imperial: 1, metric: 2 } },
+  area: { imperial: 'sqft', metric: 'm²', factor: SQFT_TO_M2, decimals: { imperial: 0, metric: 1 } },
+  depth: { imperial: 'in', metric: 'mm', factor: 25.4, decimals: { imperial: 2, metric: 0 } },
+  volume: { imperial: 'bdft', metric: 'm³', factor: BDFT_TO_M3, decimals: { imperial: 0, metric: 2 } },
+  yield: { imperial: 'bdft/set', metric: 'm³/set', factor: BDFT_TO_M3, decimals: { imperial: 0, metric: 1 } },
+  areaRate: { imperial: '/sqft', metric: '/m²', factor: 1 / SQFT_TO_M2, decimals: { imperial: 2, metric: 2 } },
+  rValue: { imperial: 'R', metric: 'RSI', factor: R_TO_RSI, decimals: { imperial: 1, metric: 2 } },
+  rPerDepth: { imperial: 'R/in', metric: 'RSI/25mm', factor: R_TO_RSI * 25 / 25.4, decimals: { imperial: 1, metric: 2 } },
+  temperature: { imperial: '°F', metric: '°C', factor: 1, decimals: { imperial: 0, metric: 0 } },
+};
+
+// Enough precision that typing into a converted input round-trips cleanly
+const roundForInput = (value: number): number => Math.round(value * 10000) / 10000;
+
+export const isMetric = (system?: UnitSystem): boolean => system === 'metric';
+
+/** Stored (imperial) value → value in the chosen system. */
+export const toDisplay = (value: number, kind: UnitKind, system?: UnitSystem): number => {
+  if (!isMetric(system) || !isFinite(value)) return value;
+  if (kind === 'temperature') return roundForInput((value - 32) * 5 / 9);
+  return roundForInput(value * UNITS[kind].factor);
+};
+
+/** Value typed in the chosen system → stored (imperial) value. */
+export const fromDisplay = (value: number, kind: UnitKind, system?: UnitSystem): number => {
+  if (!isMetric(system) || !isFinite(value)) return value;
+  if (kind === 'temperature') return value * 9 / 5 + 32;
+  return value / UNITS[kind].factor;
+};
+
+export const unitLabel = (kind: UnitKind, system?: UnitSystem): string =>
+  isMetric(system) ? UNITS[kind].metric : UNITS[kind].imperial;
+
+/** Converted number only, rounded to the unit's usual precision (e.g. "1,250" / "116.1"). */
+export const formatNumber = (value: number, kind: UnitKind, system?: UnitSystem, decimals?: number): string => {
+  const places = decimals ?? UNITS[kind].decimals[isMetric(system) ? 'metric' : 'imperial'];
+  return toDisplay(value, kind, system).toLocaleString(undefined, { maximumFractionDigits: places });
+};
+
+/**
+ * Converts and formats a stored value with its unit, e.g. "1,250 sqft" or
+ * "116.1 m²". R-values put the label first ("R-21" / "RSI 3.70").
+ */
+export const formatQuantity = (value: number, kind: UnitKind, system?: UnitSystem, decimals?: number): string => {
+  const text = formatNumber(value, kind, system, decimals);
+  if (kind === 'rValue') return isMetric(system) ? `RSI ${text}` : `R-${text}`;
+  if (kind === 'temperature' || kind === 'areaRate') return `${text}${unitLabel(kind, system)}`;
+  if (kind === 'depth' && !isMetric(system)) return `${text}"`;
+  return `${text} ${unitLabel(kind, system)}`;
+};
@@ -0,0 +1,94 @@
+/**
+ * Job-condition yield derating.
+ *
+ * Foam expands less on cold substrates and in damp air, so a set covers
+ * fewer board feet. The curve maps substrate temperature to a percentage of
+ * the product's nominal yield; readings between points are interpolated and
+ * readings outside the curve take the nearest end point.
+ */
+import { JobConditions, Season, UnitSystem, YieldDerateCurve } from '../types.js';
+import { formatQuantity } from './units.js';
+
+// Conservative starting point until an org tunes its own curve
+export const DEFAULT_DERATE_CURVE: YieldDerateCurve = {
+  points: [
+    { tempF: 40, yieldPercent: 70 },
+    { tempF: 50, yieldPercent: 80 },
+    { tempF: 60, yieldPercent: 90 },
+    { tempF: 70, yieldPercent: 100 },
+  ],
+  humidityThreshold: 80,
+  humidityPenaltyPercent: 5,
+};
+
+// Typical substrate temperature when only the season is known
+export const SEASON_SUBSTRATE_TEMPS: Record<Season, number> = {
+  [Season.SPRING]: 55,
+  [Season.SUMMER]: 75,
+  [Season.FALL]: 55,
+  [Season.WINTER]: 35,
+};
+
+const isSet = (value?: number): value is number => typeof value === 'number' && !isNaN(value);
+
+export const hasJobConditions = (conditions?: JobConditions): boolean =>
+  !!conditions && (
+    isSet(conditions.ambientTempF) || isSet(conditions.substrateTempF) ||
+    isSet(conditions.humidity) || !!conditions.season
+  );
+
+/**
+ * Temperature the curve is read at: the substrate reading, else ambient,
+ * else the season's typical substrate temperature.
+ */
+export const getDerateTemp = (conditions: JobConditions): number | undefined => {
+  if (isSet(conditions.substrateTempF)) return conditions.substrateTempF;
+  if (isSet(conditions.ambientTempF)) return conditions.ambientTempF;
+  if (conditions.season) return SEASON_SUBSTRATE_TEMPS[conditions.season];
+  return undefined;
+};
+
+const interpolatePercent = (curve: YieldDerateCurve, tempF: number): number => {
+  const points = [...curve.points].sort((a, b) => a.tempF - b.tempF);
+  if (points.length === 0) return 100;
+  if (tempF <= points[0].tempF) return points[0].yieldPercent;
+
+  const last = points[points.length - 1];
+  if (tempF >= last.tempF) return last.yieldPercent;
+
+  const upperIndex = points.findIndex(p => p.tempF >= tempF);
+  const lower = points[upperIndex - 1];
+  const upper = points[upperIndex];
+  const t = (tempF - lower.tempF) / (upper.tempF - lower.tempF);
+  return lower.yieldPercent + t * (upper.yieldPercent - lower.yieldPercent);
+};
+
+/**
+ * Fraction of nominal yield to expect under the given conditions (0.1–1).
+ * Returns 1 when no conditions are entered.
+ */
+export const getYieldFactor = (curve: YieldDerateCurve, conditions?: JobConditions): number => {
+  if (!conditions || !hasJobConditions(conditions)) return 1;
+
+  const tempF = getDerateTemp(conditions);
+  let percent = tempF === undefined ? 100 : interpolatePercent(curve, tempF);
+
+  if (isSet(conditions.humidity) && isSet(curve.humidityThreshold) && conditions.humidity > curve.humidityThreshold) {
+    percent -= curve.humidityPenaltyPercent || 0;
+  }
+
+  return Math.max(0.1, Math.min(1, percent / 100));
+};
+
+/**
+ * Short label, e.g. "Substrate 38°F · Ambient 45°F · 85% RH · Winter".
+ */
+export const describeJobConditions = (conditions?: JobConditions, units?: UnitSystem): string => {
+  if (!conditions) return '';
+  const parts: string[] = [];
+  if (isSet(conditions.substrateTempF)) parts.push(`Substrate ${formatQuantity(conditions.substrateTempF, 'temperature', units)}`);
+  if (isSet(conditions.ambientTempF)) parts.push(`Ambient ${formatQuantity(conditions.ambientTempF, 'temperature', units)}`);
+  if (isSet(conditions.humidity)) parts.push(`${conditions.humidity}% RH`);
+  if (conditions.season) parts.push(conditions.season);
+  return parts.join(' · ');
+};